@@ -0,0 +1,218 @@
+import type { HardhatUserConfig } from "hardhat/config";
+
+export interface BlockExplorer {
+  name: string;
+  url: string;
+  apiUrl: string;
+}
+
+export interface NetworkDefinition {
+  chainId: number;
+  /** Environment variable that overrides the default RPC URL */
+  rpcEnv?: string;
+  defaultRpcUrl: string;
+  nativeCurrency: string;
+  testnet: boolean;
+  /** Local development chains get no deployer account or explorer */
+  local?: boolean;
+  gasPrice?: "auto";
+  explorer?: BlockExplorer;
+  /** Default stablecoins by symbol */
+  stablecoins: Record<string, string>;
+}
+
+/**
+ * Every network the config and the scripts know about. Adding a network is a
+ * single entry here.
+ */
+export const NETWORKS = {
+  hardhat: {
+    chainId: 31337,
+    defaultRpcUrl: "http://127.0.0.1:8545",
+    nativeCurrency: "ETH",
+    testnet: true,
+    local: true,
+    stablecoins: {},
+  },
+  localhost: {
+    chainId: 31337,
+    defaultRpcUrl: "http://127.0.0.1:8545",
+    nativeCurrency: "ETH",
+    testnet: true,
+    local: true,
+    stablecoins: {},
+  },
+
+  // Ethereum Testnet
+  sepolia: {
+    chainId: 11155111,
+    rpcEnv: "SEPOLIA_RPC_URL",
+    defaultRpcUrl: "",
+    nativeCurrency: "ETH",
+    testnet: true,
+    stablecoins: {
+      USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+    },
+  },
+
+  // Celo Networks
+  celoSepolia: {
+    chainId: 11142220,
+    rpcEnv: "CELO_SEPOLIA_RPC",
+    defaultRpcUrl: "https://forno.celo-sepolia.celo-testnet.org",
+    nativeCurrency: "CELO",
+    testnet: true,
+    gasPrice: "auto",
+    explorer: {
+      name: "Celoscan",
+      url: "https://sepolia.celoscan.io",
+      apiUrl: "https://api-sepolia.celoscan.io/api",
+    },
+    stablecoins: {},
+  },
+  celoMainnet: {
+    chainId: 42220,
+    rpcEnv: "CELO_MAINNET_RPC",
+    defaultRpcUrl: "https://forno.celo.org",
+    nativeCurrency: "CELO",
+    testnet: false,
+    gasPrice: "auto",
+    explorer: {
+      name: "Celoscan",
+      url: "https://celoscan.io",
+      apiUrl: "https://api.celoscan.io/api",
+    },
+    stablecoins: {
+      cUSD: "0x765DE816845861e75A25fCA122bb6898B8B1282a",
+      USDC: "0xcebA9300f2b948710d2653dD7B07f33A8B32118C",
+      USDT: "0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e",
+    },
+  },
+
+  // Base Networks
+  baseSepolia: {
+    chainId: 84532,
+    rpcEnv: "BASE_SEPOLIA_RPC",
+    defaultRpcUrl: "https://sepolia.base.org",
+    nativeCurrency: "ETH",
+    testnet: true,
+    explorer: {
+      name: "Basescan",
+      url: "https://sepolia.basescan.org",
+      apiUrl: "https://api-sepolia.basescan.org/api",
+    },
+    stablecoins: {
+      USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    },
+  },
+  baseMainnet: {
+    chainId: 8453,
+    rpcEnv: "BASE_MAINNET_RPC",
+    defaultRpcUrl: "https://mainnet.base.org",
+    nativeCurrency: "ETH",
+    testnet: false,
+    explorer: {
+      name: "Basescan",
+      url: "https://basescan.org",
+      apiUrl: "https://api.basescan.org/api",
+    },
+    stablecoins: {
+      USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    },
+  },
+} satisfies Record<string, NetworkDefinition>;
+
+export type NetworkName = keyof typeof NETWORKS;
+
+/**
+ * Look up a network by name, or undefined for networks outside the registry
+ */
+export function getNetworkDefinition(
+  name: string
+): NetworkDefinition | undefined {
+  return Object.hasOwn(NETWORKS, name)
+    ? NETWORKS[name as NetworkName]
+    : undefined;
+}
+
+/**
+ * Look up a network by chain ID (the first match, so `hardhat` for 31337)
+ */
+export function findNetworkByChainId(
+  chainId: number | bigint
+): [NetworkName, NetworkDefinition] | undefined {
+  return (Object.entries(NETWORKS) as [NetworkName, NetworkDefinition][]).find(
+    ([, definition]) => definition.chainId === Number(chainId)
+  );
+}
+
+/**
+ * RPC URL for a network: its environment override, else the default
+ */
+export function rpcUrlFor(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  const definition = getNetworkDefinition(name);
+  if (!definition) return "";
+  return (definition.rpcEnv && env[definition.rpcEnv]) || definition.defaultRpcUrl;
+}
+
+/**
+ * Explorer link for an address, when the network has an explorer
+ */
+export function explorerAddressUrl(
+  name: string,
+  address: string
+): string | undefined {
+  const explorer = getNetworkDefinition(name)?.explorer;
+  return explorer ? `${explorer.url}/address/${address}` : undefined;
+}
+
+/**
+ * Hardhat `networks` entries for every registry network
+ */
+export function hardhatNetworks(
+  env: NodeJS.ProcessEnv = process.env
+): NonNullable<HardhatUserConfig["networks"]> {
+  const networks: NonNullable<HardhatUserConfig["networks"]> = {};
+  for (const [name, definition] of Object.entries(NETWORKS) as [
+    NetworkName,
+    NetworkDefinition
+  ][]) {
+    if (name === "hardhat") {
+      networks[name] = { type: "edr-simulated", chainId: definition.chainId };
+    } else if (definition.local) {
+      networks[name] = { type: "http", url: rpcUrlFor(name, env) };
+    } else {
+      networks[name] = {
+        type: "http",
+        url: rpcUrlFor(name, env),
+        accounts: env.DEPLOYER_PRIVATE_KEY ? [env.DEPLOYER_PRIVATE_KEY] : [],
+        chainId: definition.chainId,
+        ...(definition.gasPrice ? { gasPrice: definition.gasPrice } : {}),
+      };
+    }
+  }
+  return networks;
+}
+
+/**
+ * Hardhat `chainDescriptors` for every registry network with an explorer
+ */
+export function hardhatChainDescriptors(): NonNullable<
+  HardhatUserConfig["chainDescriptors"]
+> {
+  const descriptors: NonNullable<HardhatUserConfig["chainDescriptors"]> = {};
+  for (const [name, definition] of Object.entries(NETWORKS) as [
+    NetworkName,
+    NetworkDefinition
+  ][]) {
+    if (!definition.explorer) continue;
+    descriptors[definition.chainId] = {
+      name,
+      blockExplorers: { etherscan: definition.explorer },
+    };
+  }
+  return descriptors;
+}
@@ -5,13 +5,33 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "./IArbitrator.sol";
+
+/**
+ * @dev The InvestmentNFT functions Escrow calls; Escrow needs its MINTER_ROLE
+ */
+interface IInvestmentNFT {
+    function createProjectNFT(uint256 _id, address _creator, uint256 _target, address _token) external returns (uint256);
+    function setProjectMetadata(uint256 _id, string calldata _title, string calldata _desc, string calldata _uri) external;
+    function mintInvestmentTokens(uint256 _projectId, address _investor, uint256 _amount) external;
+    function burnInvestmentTokens(uint256 _projectId, address _investor, uint256 _amount) external;
+    function mintableTokens(uint256 _projectId, uint256 _amount) external view returns (uint256);
+    function refundableTokens(uint256 _projectId, address _investor) external view returns (uint256);
+    function paused() external view returns (bool);
+    function FIXED_SUPPLY_PER_PROJECT() external view returns (uint256);
+}
 
 /**
  * @title Escrow Contract for Crowdfunding Platform
  * @dev Manages project funding with milestone-based releases and dispute resolution
- * Integrates with Kleros for decentralized arbitration
+ * Disputes go to an ERC-792 arbitrator such as Kleros when one is set, with ERC-1497 evidence;
+ * without one, RESOLVER_ROLE resolves them
+ * Once an InvestmentNFT is set, projects are registered on it and deposits mint ERC1155 stakes
+ * Payouts are pulled: released funds accrue to claimable balances and refunds are claimed per investor
+ * Milestones are budgeted against the target; funds left once every milestone is settled go back to investors
  */
-contract Escrow is ReentrancyGuard, AccessControl, Pausable {
+contract Escrow is ReentrancyGuard, AccessControl, Pausable, IArbitrable, IEvidence {
     using SafeERC20 for IERC20;
 
     // Role definitions
@@ -20,7 +40,7 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
     bytes32 public constant VALIDATOR_ROLE = keccak256("VALIDATOR_ROLE");
 
     // Enums for better state management
-    enum ProjectStatus { Active, Completed, Cancelled, Disputed }
+    enum ProjectStatus { Active, Completed, Cancelled, Disputed, Failed }
     enum MilestoneStatus { Pending, Submitted, Approved, Disputed, Released, Refunded }
     enum DisputeStatus { None, Raised, UnderReview, Resolved }
 
@@ -65,6 +85,19 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
         uint256 milestoneContributions; // Track which milestones this investment covers
     }
 
+    // Arbitrator dispute handling a milestone
+    struct Arbitration {
+        IArbitrator arbitrator;
+        uint256 disputeId;
+    }
+
+    // Milestone an arbitrator dispute is about
+    struct ArbitratedMilestone {
+        uint256 projectId;
+        uint256 milestoneId;
+        bool exists;
+    }
+
     // State variables
     mapping(uint256 => Project) public projects;
     mapping(uint256 => mapping(uint256 => Milestone)) public projectMilestones;
@@ -76,8 +109,29 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
     uint256 public projectCounter;
     uint256 public constant MIN_MILESTONE_DURATION = 7 days;
     uint256 public constant MAX_PROJECT_DURATION = 365 days;
+    uint256 private constant REFUND_PRECISION = 1e18;
+    uint256 private constant BASIS_POINTS = 10000;
+    // Ruling n gives the creator n - 1 basis points of the milestone and refunds the rest;
+    // 0, the arbitrator refusing to rule, splits it evenly
+    uint256 public constant RULING_OPTIONS = BASIS_POINTS + 1;
     uint256 public platformFeePercentage = 250; // 2.5% in basis points
     address public feeRecipient;
+    address public investmentNFT;
+    mapping(uint256 => address) public projectNFT; // InvestmentNFT the project was registered on
+    mapping(uint256 => mapping(address => uint256)) public stakedAmount; // Investor's deposits that minted InvestmentNFT tokens
+    mapping(uint256 => mapping(address => uint256)) public stakeTokens; // Tokens those deposits minted
+    mapping(address => mapping(address => uint256)) public claimableBalances; // account => token (address(0) for ETH) => amount
+    mapping(uint256 => uint256) public milestoneRefundPerUnit; // Refunded milestone and leftover funds per deposited unit, scaled by REFUND_PRECISION
+    mapping(uint256 => mapping(address => uint256)) public milestoneRefundDebt; // Milestone refunds claimed or not owed to the investor, scaled by REFUND_PRECISION
+    mapping(uint256 => uint256) public settledPerUnit; // Locked funds settled per deposited unit, scaled by REFUND_PRECISION and rounded up
+    mapping(uint256 => mapping(address => uint256)) public settledDebt; // Settlements made before the investor's deposits, scaled by REFUND_PRECISION
+    mapping(uint256 => uint256) public allocatedAmount; // Sum of the project's milestone amounts
+    mapping(uint256 => uint256) public settledAmount; // Sum of its released and refunded milestone amounts
+    IArbitrator public arbitrator; // address(0) leaves disputes to RESOLVER_ROLE
+    bytes public arbitratorExtraData;
+    uint256 public metaEvidenceCount; // New disputes refer to the latest MetaEvidence
+    mapping(uint256 => mapping(uint256 => Arbitration)) public milestoneArbitrations;
+    mapping(address => mapping(uint256 => ArbitratedMilestone)) public arbitratedMilestones; // arbitrator => dispute ID
 
     // Events
     event ProjectCreated(uint256 indexed projectId, address indexed creator, string title, uint256 targetAmount);
@@ -91,6 +145,10 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
     event FundsRefunded(uint256 indexed projectId, address indexed investor, uint256 amount);
     event ProjectStatusChanged(uint256 indexed projectId, ProjectStatus status);
     event EmergencyWithdrawTriggered(uint256 indexed projectId, address indexed initiator);
+    event Withdrawn(address indexed account, address token, uint256 amount);
+    event LeftoverFundsReturned(uint256 indexed projectId, uint256 amount);
+    event ArbitratorChanged(address indexed arbitrator, bytes extraData);
+    event DisputeRuled(uint256 indexed projectId, uint256 indexed milestoneId, uint256 creatorShare);
 
     constructor(address _feeRecipient) {
         require(_feeRecipient != address(0), "Invalid fee recipient");
@@ -133,11 +191,22 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
         userProjects[msg.sender].push(projectId);
 
         emit ProjectCreated(projectId, msg.sender, _title, _targetAmount);
+
+        // Register the stake token under the same ID. A target too small to
+        // split into the token supply, or a paused InvestmentNFT, leaves the
+        // project untokenized rather than blocking it.
+        IInvestmentNFT nft = IInvestmentNFT(investmentNFT);
+        if (address(nft) != address(0) && !nft.paused() && _targetAmount >= nft.FIXED_SUPPLY_PER_PROJECT()) {
+            projectNFT[projectId] = address(nft);
+            nft.createProjectNFT(projectId, msg.sender, _targetAmount, _token);
+            nft.setProjectMetadata(projectId, _title, _description, "");
+        }
         return projectId;
     }
 
     /**
-     * @dev Create milestone with enhanced validation
+     * @dev Create milestone with enhanced validation; milestones together may
+     * not exceed the project's target
      */
     function createMilestone(
         uint256 _projectId,
@@ -155,7 +224,9 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
 
         Project storage project = projects[_projectId];
         require(project.status == ProjectStatus.Active, "Project not active");
+        require(allocatedAmount[_projectId] + _amount <= project.targetAmount, "Exceeds project budget");
 
+        allocatedAmount[_projectId] += _amount;
         uint256 milestoneId = project.totalMilestones++;
         Milestone storage milestone = projectMilestones[_projectId][milestoneId];
         
@@ -192,12 +263,23 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
             actualAmount = _amount;
         }
 
+        // The NFT's fixed supply covers the target exactly, so a final deposit
+        // that overshoots it earns stake only up to the target
+        uint256 stakeAmount = actualAmount;
+        if (project.raisedAmount + actualAmount > project.targetAmount) {
+            stakeAmount = project.targetAmount - project.raisedAmount;
+        }
+
         // Record investment
         Investment storage investment = investments[_projectId][msg.sender];
         if (investment.amount == 0) {
             projectInvestors[_projectId].push(msg.sender);
         }
-        
+
+        // New funds share only in milestone refunds made from now on. The debt
+        // keeps full precision, so it never exceeds what the investor accrues.
+        milestoneRefundDebt[_projectId][msg.sender] += actualAmount * milestoneRefundPerUnit[_projectId];
+        settledDebt[_projectId][msg.sender] += actualAmount * settledPerUnit[_projectId];
         investment.amount = investment.amount + actualAmount;
         investment.timestamp = block.timestamp;
         
@@ -211,6 +293,17 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
             project.status = ProjectStatus.Completed;
             emit ProjectStatusChanged(_projectId, ProjectStatus.Completed);
         }
+
+        // Mint the stake last: ERC1155 minting calls back into contract investors.
+        // A stake that rounds to no tokens, a paused InvestmentNFT or a token
+        // project no longer Active leaves the deposit unstaked instead of reverting it.
+        IInvestmentNFT nft = IInvestmentNFT(projectNFT[_projectId]);
+        uint256 tokens = address(nft) != address(0) ? nft.mintableTokens(_projectId, stakeAmount) : 0;
+        if (tokens > 0) {
+            stakedAmount[_projectId][msg.sender] += stakeAmount;
+            stakeTokens[_projectId][msg.sender] += tokens;
+            nft.mintInvestmentTokens(_projectId, msg.sender, stakeAmount);
+        }
     }
 
     /**
@@ -239,6 +332,7 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
      * @dev Multi-validator approval system
      */
     function approveMilestone(uint256 _projectId, uint256 _milestoneId) external whenNotPaused {
+        require(projects[_projectId].status != ProjectStatus.Failed, "Project failed");
         require(hasRole(VALIDATOR_ROLE, msg.sender) || 
                 investments[_projectId][msg.sender].amount > 0, "Not authorized to validate");
         
@@ -260,9 +354,20 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
     }
 
     /**
-     * @dev Enhanced dispute system
+     * @dev Enhanced dispute system. With an arbitrator set, the caller pays its
+     * arbitration cost and any excess is credited to their claimable balance.
+     * The reason is published as the first ERC-1497 evidence.
      */
-    function raiseDispute(uint256 _projectId, uint256 _milestoneId, string memory /* _reason */) external whenNotPaused {
+    function raiseDispute(
+        uint256 _projectId,
+        uint256 _milestoneId,
+        string memory _reason
+    ) external payable nonReentrant whenNotPaused {
+        require(projects[_projectId].creator != address(0), "Project doesn't exist");
+        require(_milestoneId < projects[_projectId].totalMilestones, "Milestone doesn't exist");
+        ProjectStatus status = projects[_projectId].status;
+        require(status != ProjectStatus.Failed, "Project failed");
+        require(status != ProjectStatus.Cancelled, "Project cancelled");
         require(investments[_projectId][msg.sender].amount > 0 || 
                 hasRole(VALIDATOR_ROLE, msg.sender), "Not authorized");
         
@@ -273,17 +378,109 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
         milestone.disputeStatus = DisputeStatus.Raised;
         milestone.status = MilestoneStatus.Disputed;
 
+        uint256 evidenceGroupId = getEvidenceGroupId(_projectId, _milestoneId);
+        if (address(arbitrator) != address(0)) {
+            uint256 cost = arbitrator.arbitrationCost(arbitratorExtraData);
+            require(msg.value >= cost, "Arbitration fee too low");
+
+            uint256 disputeId = arbitrator.createDispute{value: cost}(RULING_OPTIONS, arbitratorExtraData);
+            milestone.disputeStatus = DisputeStatus.UnderReview;
+            milestoneArbitrations[_projectId][_milestoneId] = Arbitration(arbitrator, disputeId);
+            arbitratedMilestones[address(arbitrator)][disputeId] = ArbitratedMilestone(_projectId, _milestoneId, true);
+            if (msg.value > cost) {
+                claimableBalances[msg.sender][address(0)] += msg.value - cost;
+            }
+
+            emit Dispute(arbitrator, disputeId, metaEvidenceCount - 1, evidenceGroupId);
+        } else {
+            require(msg.value == 0, "No arbitration fee due");
+        }
+
         emit DisputeRaised(_projectId, _milestoneId, msg.sender);
+        if (bytes(_reason).length > 0) {
+            emit Evidence(arbitrator, evidenceGroupId, msg.sender, _reason);
+        }
+    }
+
+    /**
+     * @dev Add evidence to an open dispute; both the creator and investors can
+     */
+    function submitEvidence(
+        uint256 _projectId,
+        uint256 _milestoneId,
+        string memory _evidenceURI
+    ) external whenNotPaused {
+        require(projects[_projectId].creator != address(0), "Project doesn't exist");
+        require(_milestoneId < projects[_projectId].totalMilestones, "Milestone doesn't exist");
+        require(projects[_projectId].creator == msg.sender ||
+                investments[_projectId][msg.sender].amount > 0 ||
+                hasRole(VALIDATOR_ROLE, msg.sender), "Not a party to the dispute");
+
+        Milestone storage milestone = projectMilestones[_projectId][_milestoneId];
+        require(milestone.disputeStatus == DisputeStatus.Raised ||
+                milestone.disputeStatus == DisputeStatus.UnderReview, "No active dispute");
+        require(bytes(_evidenceURI).length > 0, "Evidence URI required");
+
+        emit Evidence(
+            milestoneArbitrations[_projectId][_milestoneId].arbitrator,
+            getEvidenceGroupId(_projectId, _milestoneId),
+            msg.sender,
+            _evidenceURI
+        );
+    }
+
+    /**
+     * @dev ERC-1497 evidence group of a milestone's dispute
+     */
+    function getEvidenceGroupId(uint256 _projectId, uint256 _milestoneId) public pure returns (uint256) {
+        return uint256(keccak256(abi.encodePacked(_projectId, _milestoneId)));
+    }
+
+    /**
+     * @dev Execute an arbitrator's ruling (ERC-792); only the arbitrator that
+     * created the dispute can call it. Like resolveDispute, rulings are held
+     * while Escrow is paused: the call reverts and the arbitrator has to
+     * execute the ruling again once Escrow is unpaused.
+     */
+    function rule(uint256 _disputeID, uint256 _ruling) external whenNotPaused {
+        ArbitratedMilestone storage arbitrated = arbitratedMilestones[msg.sender][_disputeID];
+        require(arbitrated.exists, "Unknown dispute");
+        require(_ruling <= RULING_OPTIONS, "Invalid ruling");
+
+        uint256 projectId = arbitrated.projectId;
+        uint256 milestoneId = arbitrated.milestoneId;
+        Milestone storage milestone = projectMilestones[projectId][milestoneId];
+        require(milestone.disputeStatus == DisputeStatus.UnderReview, "No active dispute");
+
+        milestone.disputeStatus = DisputeStatus.Resolved;
+        emit Ruling(IArbitrator(msg.sender), _disputeID, _ruling);
+
+        // A failed or cancelled project's locked funds, this milestone included,
+        // are already open for refunds, so the ruling can only close the milestone
+        ProjectStatus status = projects[projectId].status;
+        if (status == ProjectStatus.Failed || status == ProjectStatus.Cancelled) {
+            milestone.status = MilestoneStatus.Refunded;
+            emit DisputeRuled(projectId, milestoneId, 0);
+            emit DisputeResolved(projectId, milestoneId, false);
+            return;
+        }
+
+        uint256 creatorShare = _ruling == 0 ? BASIS_POINTS / 2 : _ruling - 1;
+        _settleMilestone(projectId, milestoneId, (milestone.amount * creatorShare) / BASIS_POINTS);
+
+        emit DisputeRuled(projectId, milestoneId, creatorShare);
+        emit DisputeResolved(projectId, milestoneId, creatorShare > 0);
     }
 
     /**
-     * @dev Resolve dispute (integration point for Kleros)
+     * @dev Resolve a dispute no arbitrator handles (RESOLVER_ROLE)
      */
     function resolveDispute(
         uint256 _projectId, 
         uint256 _milestoneId, 
         bool _releaseToCreator
     ) external onlyRole(RESOLVER_ROLE) whenNotPaused {
+        require(projects[_projectId].status != ProjectStatus.Failed, "Project failed");
         Milestone storage milestone = projectMilestones[_projectId][_milestoneId];
         require(milestone.disputeStatus == DisputeStatus.Raised, "No active dispute");
 
@@ -293,7 +490,6 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
             milestone.status = MilestoneStatus.Approved;
             _releaseFunds(_projectId, _milestoneId);
         } else {
-            milestone.status = MilestoneStatus.Refunded;
             _refundMilestone(_projectId, _milestoneId);
         }
 
@@ -301,70 +497,195 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
     }
 
     /**
-     * @dev Internal function to release funds with platform fee
+     * @dev Internal function to release funds with platform fee to the
+     * creator's and fee recipient's claimable balances
      */
     function _releaseFunds(uint256 _projectId, uint256 _milestoneId) internal {
-        Project storage project = projects[_projectId];
         Milestone storage milestone = projectMilestones[_projectId][_milestoneId];
-        
         require(milestone.status == MilestoneStatus.Approved, "Not approved for release");
-        require(milestone.status != MilestoneStatus.Released, "Already released");
 
-        uint256 amount = milestone.amount;
-        uint256 platformFee = (amount * platformFeePercentage) / 10000;
-        uint256 creatorAmount = amount - platformFee;
+        _settleMilestone(_projectId, _milestoneId, milestone.amount);
+    }
 
-        milestone.status = MilestoneStatus.Released;
-        project.completedMilestones++;
+    /**
+     * @dev Refund milestone proportionally to investors, who claim their share
+     * with claimMilestoneRefund. Constant cost whatever the number of investors.
+     */
+    function _refundMilestone(uint256 _projectId, uint256 _milestoneId) internal {
+        _settleMilestone(_projectId, _milestoneId, 0);
+    }
+
+    /**
+     * @dev Release part of a milestone to the creator, less the platform fee,
+     * and refund the rest to investors. Any release marks it Released.
+     */
+    function _settleMilestone(uint256 _projectId, uint256 _milestoneId, uint256 _releaseAmount) internal {
+        Project storage project = projects[_projectId];
+        Milestone storage milestone = projectMilestones[_projectId][_milestoneId];
+
+        require(project.status != ProjectStatus.Cancelled, "Project cancelled");
+        uint256 amount = milestone.amount;
+        require(totalLockedFunds[_projectId] >= amount, "Insufficient locked funds");
         totalLockedFunds[_projectId] = totalLockedFunds[_projectId] - amount;
+        settledAmount[_projectId] += amount;
+        _addSettled(_projectId, amount);
 
-        // Transfer funds
-        if (address(project.token) == address(0)) {
-            payable(project.creator).transfer(creatorAmount);
-            payable(feeRecipient).transfer(platformFee);
+        if (_releaseAmount > 0) {
+            uint256 platformFee = (_releaseAmount * platformFeePercentage) / BASIS_POINTS;
+            uint256 creatorAmount = _releaseAmount - platformFee;
+
+            milestone.status = MilestoneStatus.Released;
+            project.completedMilestones++;
+
+            address token = address(project.token);
+            claimableBalances[project.creator][token] += creatorAmount;
+            claimableBalances[feeRecipient][token] += platformFee;
+
+            emit FundsReleased(_projectId, _milestoneId, creatorAmount, project.creator);
         } else {
-            project.token.safeTransfer(project.creator, creatorAmount);
-            project.token.safeTransfer(feeRecipient, platformFee);
+            milestone.status = MilestoneStatus.Refunded;
+        }
+
+        if (amount > _releaseAmount) {
+            milestoneRefundPerUnit[_projectId] += ((amount - _releaseAmount) * REFUND_PRECISION) / project.raisedAmount;
         }
 
-        emit FundsReleased(_projectId, _milestoneId, creatorAmount, project.creator);
+        if (_leftoverReturnable(_projectId)) {
+            _returnLeftoverFunds(_projectId);
+        }
     }
 
     /**
-     * @dev Refund milestone proportionally to investors
+     * @dev Target still open for new milestones
      */
-    function _refundMilestone(uint256 _projectId, uint256 _milestoneId) internal {
-        Project storage project = projects[_projectId];
-        Milestone storage milestone = projectMilestones[_projectId][_milestoneId];
-        
-        uint256 totalAmount = milestone.amount;
-        address[] memory investors = projectInvestors[_projectId];
-        
-        for (uint256 i = 0; i < investors.length; i++) {
-            address investor = investors[i];
-            Investment storage investment = investments[_projectId][investor];
-            
-            if (!investment.refunded && investment.amount > 0) {
-                uint256 refundAmount = (totalAmount * investment.amount) / project.raisedAmount;
-                
-                if (address(project.token) == address(0)) {
-                    payable(investor).transfer(refundAmount);
-                } else {
-                    project.token.safeTransfer(investor, refundAmount);
-                }
-                
-                emit FundsRefunded(_projectId, investor, refundAmount);
-            }
+    function getUnallocatedBudget(uint256 _projectId) external view returns (uint256) {
+        return projects[_projectId].targetAmount - allocatedAmount[_projectId];
+    }
+
+    /**
+     * @dev Locked funds no pending milestone will pay out: overfunding plus any
+     * target left unallocated
+     */
+    function getUnallocatedFunds(uint256 _projectId) public view returns (uint256) {
+        uint256 pending = allocatedAmount[_projectId] - settledAmount[_projectId];
+        uint256 locked = totalLockedFunds[_projectId];
+        return locked > pending ? locked - pending : 0;
+    }
+
+    /**
+     * @dev Return what is left of a completed project once every milestone is
+     * released or refunded (anyone). Settling the last milestone does this
+     * itself; the call covers projects completed after that.
+     */
+    function returnLeftoverFunds(uint256 _projectId) external whenNotPaused {
+        require(projects[_projectId].status == ProjectStatus.Completed, "Project not completed");
+        require(settledAmount[_projectId] == allocatedAmount[_projectId], "Milestones pending");
+        require(totalLockedFunds[_projectId] > 0, "No leftover funds");
+
+        _returnLeftoverFunds(_projectId);
+    }
+
+    /**
+     * @dev A completed project takes no new milestones, so once all of them
+     * are settled the remaining funds can never be released
+     */
+    function _leftoverReturnable(uint256 _projectId) internal view returns (bool) {
+        return projects[_projectId].status == ProjectStatus.Completed
+            && settledAmount[_projectId] == allocatedAmount[_projectId]
+            && totalLockedFunds[_projectId] > 0;
+    }
+
+    /**
+     * @dev Share the remaining locked funds among investors like a milestone
+     * refund, claimed with claimMilestoneRefund
+     */
+    function _returnLeftoverFunds(uint256 _projectId) internal {
+        uint256 leftover = totalLockedFunds[_projectId];
+        milestoneRefundPerUnit[_projectId] += (leftover * REFUND_PRECISION) / projects[_projectId].raisedAmount;
+        totalLockedFunds[_projectId] = 0;
+        _addSettled(_projectId, leftover);
+
+        emit LeftoverFundsReturned(_projectId, leftover);
+    }
+
+    /**
+     * @dev Charge funds leaving the locked pool to every unit deposited so
+     * far. Rounding up keeps investors' locked shares within the pool.
+     */
+    function _addSettled(uint256 _projectId, uint256 _amount) internal {
+        uint256 raised = projects[_projectId].raisedAmount;
+        settledPerUnit[_projectId] += (_amount * REFUND_PRECISION + raised - 1) / raised;
+    }
+
+    /**
+     * @dev Investor's part of the locked funds: their deposits less their
+     * share of every release, refund and leftover return since they deposited
+     */
+    function _lockedShare(uint256 _projectId, address _investor) internal view returns (uint256) {
+        uint256 amount = investments[_projectId][_investor].amount;
+        uint256 settled = amount * settledPerUnit[_projectId] - settledDebt[_projectId][_investor];
+        settled = (settled + REFUND_PRECISION - 1) / REFUND_PRECISION;
+        return amount > settled ? amount - settled : 0;
+    }
+
+    /**
+     * @dev Investor's unclaimed share of refunded milestones and returned
+     * leftover funds; nothing once their whole investment has been returned
+     */
+    function getMilestoneRefund(uint256 _projectId, address _investor) public view returns (uint256) {
+        Investment storage investment = investments[_projectId][_investor];
+        if (investment.refunded) {
+            return 0;
         }
-        
-        totalLockedFunds[_projectId] = totalLockedFunds[_projectId] - totalAmount;
+        uint256 accrued = investment.amount * milestoneRefundPerUnit[_projectId];
+        return (accrued - milestoneRefundDebt[_projectId][_investor]) / REFUND_PRECISION;
+    }
+
+    /**
+     * @dev Claim the caller's share of refunded milestones and leftover funds
+     */
+    function claimMilestoneRefund(uint256 _projectId) external nonReentrant {
+        uint256 amount = getMilestoneRefund(_projectId, msg.sender);
+        require(amount > 0, "Nothing to withdraw");
+
+        milestoneRefundDebt[_projectId][msg.sender] += amount * REFUND_PRECISION;
+        _payout(projects[_projectId].token, msg.sender, amount);
+
+        emit FundsRefunded(_projectId, msg.sender, amount);
+    }
+
+    /**
+     * @dev Withdraw released milestone funds and platform fees credited to the caller
+     */
+    function withdraw(address _token) external nonReentrant {
+        uint256 amount = claimableBalances[msg.sender][_token];
+        require(amount > 0, "Nothing to withdraw");
+
+        claimableBalances[msg.sender][_token] = 0;
+        _payout(IERC20(_token), msg.sender, amount);
+
+        emit Withdrawn(msg.sender, _token, amount);
     }
 
     /**
-     * @dev Emergency withdrawal for extreme cases
+     * @dev Send ETH with a plain call, so smart-contract wallets can receive it
+     */
+    function _payout(IERC20 _token, address _to, uint256 _amount) internal {
+        if (address(_token) == address(0)) {
+            Address.sendValue(payable(_to), _amount);
+        } else {
+            _token.safeTransfer(_to, _amount);
+        }
+    }
+
+    /**
+     * @dev Emergency withdrawal for extreme cases; a failed project already
+     * refunds through claimRefund
      */
     function triggerEmergencyWithdraw(uint256 _projectId) external onlyRole(DEFAULT_ADMIN_ROLE) {
         Project storage project = projects[_projectId];
+        require(project.status != ProjectStatus.Failed, "Project failed");
+        require(!project.emergencyWithdrawEnabled, "Emergency withdrawal already enabled");
         project.emergencyWithdrawEnabled = true;
         project.status = ProjectStatus.Cancelled;
         
@@ -373,24 +694,109 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
     }
 
     /**
-     * @dev Allow investors to withdraw in emergency situations
+     * @dev Allow investors to withdraw in emergency situations, on the same
+     * terms as the refund of a failed project
      */
     function emergencyWithdraw(uint256 _projectId) external nonReentrant {
+        require(projects[_projectId].emergencyWithdrawEnabled, "Emergency withdrawal not enabled");
+
+        _refundInvestor(_projectId);
+    }
+
+    /**
+     * @dev Mark a project that missed its target by the deadline as failed (anyone)
+     * Freezes its milestones and opens refunds of the funds still locked
+     */
+    function markProjectFailed(uint256 _projectId) external {
         Project storage project = projects[_projectId];
-        require(project.emergencyWithdrawEnabled, "Emergency withdrawal not enabled");
-        
-        Investment storage investment = investments[_projectId][msg.sender];
-        require(!investment.refunded && investment.amount > 0, "Nothing to withdraw");
-        
-        uint256 amount = investment.amount;
-        investment.refunded = true;
-        
-        if (address(project.token) == address(0)) {
-            payable(msg.sender).transfer(amount);
-        } else {
-            project.token.safeTransfer(msg.sender, amount);
+        require(project.creator != address(0), "Project doesn't exist");
+        require(project.status == ProjectStatus.Active, "Project not active");
+        // Reaching the target completes a project, so an active one is still short of it
+        require(block.timestamp >= project.deadline, "Deadline not reached");
+
+        project.status = ProjectStatus.Failed;
+
+        emit ProjectStatusChanged(_projectId, ProjectStatus.Failed);
+    }
+
+    /**
+     * @dev Refund due to an investor of a failed project, or of one under
+     * emergency withdrawal: their deposits less their share of anything
+     * released since, plus unclaimed milestone refunds. Deposits that minted
+     * InvestmentNFT tokens count only as far as the investor still holds or
+     * lists that many tokens; the rest stays locked.
+     */
+    function getRefundAmount(uint256 _projectId, address _investor) public view returns (uint256) {
+        Project storage project = projects[_projectId];
+        Investment storage investment = investments[_projectId][_investor];
+        bool refundsOpen = project.status == ProjectStatus.Failed || project.emergencyWithdrawEnabled;
+        if (!refundsOpen || investment.refunded || investment.amount == 0) {
+            return 0;
         }
-        
+        return _refundableLockedShare(_projectId, _investor) + getMilestoneRefund(_projectId, _investor);
+    }
+
+    /**
+     * @dev Stake tokens a refund burns: those the investor's deposits minted,
+     * as far as they still hold or list them
+     */
+    function _returnedStake(uint256 _projectId, address _investor) internal view returns (uint256) {
+        uint256 minted = stakeTokens[_projectId][_investor];
+        if (minted == 0) {
+            return 0;
+        }
+        uint256 held = IInvestmentNFT(projectNFT[_projectId]).refundableTokens(_projectId, _investor);
+        return held < minted ? held : minted;
+    }
+
+    /**
+     * @dev Investor's locked share in proportion to the deposits they can
+     * hand the stake of back: unstaked deposits in full, staked ones by the
+     * fraction of their minted tokens returned
+     */
+    function _refundableLockedShare(uint256 _projectId, address _investor) internal view returns (uint256) {
+        uint256 lockedShare = _lockedShare(_projectId, _investor);
+        uint256 minted = stakeTokens[_projectId][_investor];
+        if (minted == 0) {
+            return lockedShare;
+        }
+        uint256 amount = investments[_projectId][_investor].amount;
+        uint256 staked = stakedAmount[_projectId][_investor];
+        uint256 returned = amount - staked + (staked * _returnedStake(_projectId, _investor)) / minted;
+        return (lockedShare * returned) / amount;
+    }
+
+    /**
+     * @dev Claim the refund of a failed project (each investor, permissionless)
+     */
+    function claimRefund(uint256 _projectId) external nonReentrant {
+        require(projects[_projectId].status == ProjectStatus.Failed, "Project not failed");
+
+        _refundInvestor(_projectId);
+    }
+
+    /**
+     * @dev Pay the caller's refund, close their investment and burn the stake
+     * it pays back
+     */
+    function _refundInvestor(uint256 _projectId) internal {
+        uint256 lockedShare = _refundableLockedShare(_projectId, msg.sender);
+        uint256 milestoneRefund = getMilestoneRefund(_projectId, msg.sender);
+        uint256 amount = getRefundAmount(_projectId, msg.sender);
+        require(amount > 0, "Nothing to withdraw");
+        uint256 stake = _returnedStake(_projectId, msg.sender);
+
+        investments[_projectId][msg.sender].refunded = true;
+        milestoneRefundDebt[_projectId][msg.sender] += milestoneRefund * REFUND_PRECISION;
+        totalLockedFunds[_projectId] = totalLockedFunds[_projectId] - lockedShare;
+
+        // A refunded stake must stop earning dividends and trading
+        if (stake > 0) {
+            IInvestmentNFT(projectNFT[_projectId]).burnInvestmentTokens(_projectId, msg.sender, stake);
+        }
+
+        _payout(projects[_projectId].token, msg.sender, amount);
+
         emit FundsRefunded(_projectId, msg.sender, amount);
     }
 
@@ -475,6 +881,34 @@ contract Escrow is ReentrancyGuard, AccessControl, Pausable {
         feeRecipient = _feeRecipient;
     }
 
+    /**
+     * @dev Send new disputes to an ERC-792 arbitrator, or back to RESOLVER_ROLE
+     * with address(0) (admin only). Publishes the ERC-1497 meta-evidence that
+     * describes them; disputes already raised stay with their arbitrator.
+     */
+    function setArbitrator(
+        IArbitrator _arbitrator,
+        bytes calldata _extraData,
+        string calldata _metaEvidenceURI
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        arbitrator = _arbitrator;
+        arbitratorExtraData = _extraData;
+        if (address(_arbitrator) != address(0)) {
+            require(bytes(_metaEvidenceURI).length > 0, "Meta-evidence URI required");
+            emit MetaEvidence(metaEvidenceCount++, _metaEvidenceURI);
+        }
+
+        emit ArbitratorChanged(address(_arbitrator), _extraData);
+    }
+
+    /**
+     * @dev Set the InvestmentNFT new projects are registered on (admin only)
+     */
+    function setInvestmentNFT(address _investmentNFT) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_investmentNFT != address(0), "Invalid address");
+        investmentNFT = _investmentNFT;
+    }
+
     /**
      * @dev Fallback function
      */
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IArbitrable {
+    /**
+     * @dev Raised when the arbitrator gives its final ruling
+     */
+    event Ruling(IArbitrator indexed _arbitrator, uint256 indexed _disputeID, uint256 _ruling);
+
+    /**
+     * @dev Called by the arbitrator with its final ruling; 0 means it refused to arbitrate
+     */
+    function rule(uint256 _disputeID, uint256 _ruling) external;
+}
+
+/**
+ * @title Arbitrator (ERC-792)
+ * @dev The part of the standard Escrow uses: creating paid disputes. Appeals
+ * happen inside the arbitrator before it calls `rule`.
+ */
+interface IArbitrator {
+    enum DisputeStatus { Waiting, Appealable, Solved }
+
+    event DisputeCreation(uint256 indexed _disputeID, IArbitrable indexed _arbitrable);
+
+    function createDispute(uint256 _choices, bytes calldata _extraData) external payable returns (uint256 disputeID);
+
+    function arbitrationCost(bytes calldata _extraData) external view returns (uint256 cost);
+
+    function disputeStatus(uint256 _disputeID) external view returns (DisputeStatus status);
+
+    function currentRuling(uint256 _disputeID) external view returns (uint256 ruling);
+}
+
+/**
+ * @title Evidence (ERC-1497)
+ * @dev Events that link a dispute to its meta-evidence and to the evidence
+ * each party submits; evidence strings are URIs to JSON documents
+ */
+interface IEvidence {
+    event MetaEvidence(uint256 indexed _metaEvidenceID, string _evidence);
+
+    event Evidence(
+        IArbitrator indexed _arbitrator,
+        uint256 indexed _evidenceGroupID,
+        address indexed _party,
+        string _evidence
+    );
+
+    event Dispute(
+        IArbitrator indexed _arbitrator,
+        uint256 indexed _disputeID,
+        uint256 _metaEvidenceID,
+        uint256 _evidenceGroupID
+    );
+}
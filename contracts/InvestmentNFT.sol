@@ -94,16 +94,19 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
     mapping(uint256 => uint256) public dividendCount;
     mapping(uint256 => address[]) public investors;
     mapping(address => uint256[]) public userProjects;
+    mapping(uint256 => mapping(address => bool)) public stakeRefunded;
+    mapping(uint256 => mapping(address => uint256)) public listedTokens; // Seller's tokens held by open listings
 
     uint256 public listingCounter;
     uint256 public marketplaceFee = 250; // 2.5%
     address public feeRecipient;
     address public escrowContract;
-    string private baseURI;
+    string public baseURI;
 
     // Events
     event ProjectCreated(uint256 indexed projectId, address creator, uint256 supply);
     event TokensMinted(uint256 indexed projectId, address investor, uint256 amount);
+    event TokensBurned(uint256 indexed projectId, address investor, uint256 amount);
     event MetadataUpdated(uint256 indexed projectId, uint256 newValue);
     event DividendDistributed(uint256 indexed projectId, uint256 payoutId, uint256 amount);
     event DividendClaimed(uint256 indexed projectId, uint256 payoutId, address user, uint256 amount);
@@ -141,7 +144,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
     ) external onlyRole(MINTER_ROLE) whenNotPaused returns (uint256) {
         require(_target > 0, "Invalid target");
         require(_creator != address(0), "Invalid creator");
-        require(projects[_id].projectId == 0, "Exists");
+        require(projects[_id].creator == address(0), "Exists");
 
         uint256 initValue = _target / FIXED_SUPPLY_PER_PROJECT;
         require(initValue > 0, "Target too small");
@@ -175,7 +178,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         string calldata _desc,
         string calldata _uri
     ) external onlyRole(MINTER_ROLE) {
-        require(projects[_id].projectId != 0, "Project doesn't exist");
+        require(projects[_id].creator != address(0), "Project doesn't exist");
         metadata[_id].title = _title;
         metadata[_id].description = _desc;
         metadata[_id].metadataURI = _uri;
@@ -193,7 +196,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         require(_amount > 0, "Invalid amount");
         
         ProjectData storage project = projects[_projectId];
-        require(project.projectId != 0, "Project doesn't exist");
+        require(project.creator != address(0), "Project doesn't exist");
         require(project.status == ProjectStatus.Active, "Not active");
 
         uint256 tokens = (_amount * FIXED_SUPPLY_PER_PROJECT) / project.targetAmount;
@@ -220,6 +223,57 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         emit TokensMinted(_projectId, _investor, tokens);
     }
 
+    /**
+     * @dev Tokens mintInvestmentTokens would mint for an investment; 0 where it
+     * would revert on the project, its status, a pause or the supply
+     */
+    function mintableTokens(uint256 _projectId, uint256 _amount) public view returns (uint256) {
+        ProjectData storage project = projects[_projectId];
+        if (paused() || project.creator == address(0) || project.status != ProjectStatus.Active) {
+            return 0;
+        }
+        uint256 tokens = (_amount * FIXED_SUPPLY_PER_PROJECT) / project.targetAmount;
+        return totalSupply(_projectId) + tokens <= FIXED_SUPPLY_PER_PROJECT ? tokens : 0;
+    }
+
+    /**
+     * @dev Tokens an investor can hand back for a refund: those they hold and
+     * those their open listings hold
+     */
+    function refundableTokens(uint256 _projectId, address _investor) public view returns (uint256) {
+        return balanceOf(_investor, _projectId) + listedTokens[_projectId][_investor];
+    }
+
+    /**
+     * @dev Burn the stake of an investor whose deposit Escrow refunded, taking held
+     * tokens first and then listed ones. Their listings can no longer be bought;
+     * cancelling them returns whatever listed tokens were not burned.
+     */
+    function burnInvestmentTokens(
+        uint256 _projectId,
+        address _investor,
+        uint256 _amount
+    ) external onlyRole(MINTER_ROLE) {
+        require(projects[_projectId].creator != address(0), "Project doesn't exist");
+        require(refundableTokens(_projectId, _investor) >= _amount, "Insufficient balance");
+
+        stakeRefunded[_projectId][_investor] = true;
+        Investment storage inv = investments[_projectId][_investor];
+        inv.tokenAmount = inv.tokenAmount > _amount ? inv.tokenAmount - _amount : 0;
+
+        uint256 held = balanceOf(_investor, _projectId);
+        uint256 fromHeld = _amount < held ? _amount : held;
+        if (fromHeld > 0) {
+            _burn(_investor, _projectId, fromHeld);
+        }
+        if (_amount > fromHeld) {
+            listedTokens[_projectId][_investor] -= _amount - fromHeld;
+            _burn(address(this), _projectId, _amount - fromHeld);
+        }
+
+        emit TokensBurned(_projectId, _investor, _amount);
+    }
+
     /**
      * @dev Update metadata
      */
@@ -228,7 +282,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         uint256 _newValue,
         uint256 _multiplier
     ) external onlyRole(METADATA_UPDATER_ROLE) whenNotPaused {
-        require(projects[_projectId].projectId != 0, "Project doesn't exist");
+        require(projects[_projectId].creator != address(0), "Project doesn't exist");
         require(_newValue > 0, "Invalid value");
         require(_multiplier > 0, "Invalid multiplier");
 
@@ -246,7 +300,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         uint256 _projectId,
         string calldata _uri
     ) external onlyRole(METADATA_UPDATER_ROLE) {
-        require(projects[_projectId].projectId != 0, "Project doesn't exist");
+        require(projects[_projectId].creator != address(0), "Project doesn't exist");
         metadata[_projectId].metadataURI = _uri;
     }
 
@@ -258,7 +312,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         uint256 _amount,
         address _token
     ) external payable onlyRole(ORACLE_ROLE) nonReentrant whenNotPaused {
-        require(projects[_projectId].projectId != 0, "Project doesn't exist");
+        require(projects[_projectId].creator != address(0), "Project doesn't exist");
         require(_amount > 0, "Invalid amount");
 
         if (_token == address(0)) {
@@ -349,7 +403,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         require(_expiry > block.timestamp, "Invalid expiry");
         
         ProjectData storage project = projects[_projectId];
-        require(project.projectId != 0, "Project doesn't exist");
+        require(project.creator != address(0), "Project doesn't exist");
         require(block.timestamp >= project.creationDate + project.lockupPeriod, "Locked");
 
         uint256 listingId = listingCounter++;
@@ -365,6 +419,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
             active: true,
             partialFill: _partialFill
         });
+        listedTokens[_projectId][msg.sender] += _amount;
 
         _safeTransferFrom(msg.sender, address(this), _projectId, _amount, "");
 
@@ -384,6 +439,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         require(_amount >= listing.minPurchase, "Below minimum");
         require(_amount <= listing.amount, "Exceeds available");
         require(listing.seller != msg.sender, "Cannot buy own");
+        require(!stakeRefunded[listing.tokenId][listing.seller], "Seller refunded");
 
         uint256 totalPrice = _amount * listing.pricePerToken;
         uint256 fee = (totalPrice * marketplaceFee) / BASIS_POINTS;
@@ -394,6 +450,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         _updateInvestmentRecords(listing.tokenId, listing.seller, msg.sender, _amount, listing.pricePerToken);
 
         listing.amount -= _amount;
+        listedTokens[listing.tokenId][listing.seller] -= _amount;
         if (listing.amount == 0 || !listing.partialFill) {
             listing.active = false;
         }
@@ -458,7 +515,16 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         require(listing.active, "Not active");
 
         listing.active = false;
-        _safeTransferFrom(address(this), msg.sender, listing.tokenId, listing.amount, "");
+        // A refund may have burned some of the seller's listed tokens
+        uint256 amount = listing.amount;
+        uint256 listed = listedTokens[listing.tokenId][msg.sender];
+        if (amount > listed) {
+            amount = listed;
+        }
+        listedTokens[listing.tokenId][msg.sender] = listed - amount;
+        if (amount > 0) {
+            _safeTransferFrom(address(this), msg.sender, listing.tokenId, amount, "");
+        }
     }
 
     /**
@@ -471,7 +537,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         require(balanceOf(msg.sender, _projectId) >= _amount, "Insufficient balance");
 
         ProjectData storage project = projects[_projectId];
-        require(project.projectId != 0, "Project doesn't exist");
+        require(project.creator != address(0), "Project doesn't exist");
         require(project.redeemable, "Not redeemable");
         require(block.timestamp >= project.creationDate + project.lockupPeriod, "Locked");
 
@@ -499,7 +565,7 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         external onlyRole(ORACLE_ROLE) 
     {
         ProjectData storage project = projects[_projectId];
-        require(project.projectId != 0, "Project doesn't exist");
+        require(project.creator != address(0), "Project doesn't exist");
         
         project.status = _status;
         
@@ -692,5 +758,22 @@ contract InvestmentNFT is ERC1155, ERC1155Supply, AccessControl, ReentrancyGuard
         return super.supportsInterface(interfaceId);
     }
 
+    /**
+     * @dev Accept project tokens escrowed by createListing; tokens of other contracts are rejected
+     */
+    function onERC1155Received(address, address, uint256, uint256, bytes calldata)
+        external view returns (bytes4)
+    {
+        require(msg.sender == address(this), "Unsupported token");
+        return this.onERC1155Received.selector;
+    }
+
+    function onERC1155BatchReceived(address, address, uint256[] calldata, uint256[] calldata, bytes calldata)
+        external view returns (bytes4)
+    {
+        require(msg.sender == address(this), "Unsupported token");
+        return this.onERC1155BatchReceived.selector;
+    }
+
     receive() external payable {}
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./IArbitrator.sol";
+
+/**
+ * @dev Development-only ERC-792 arbitrator: charges a flat fee and lets its
+ * owner rule on disputes directly. Never deploy it to a mainnet.
+ */
+contract MockArbitrator is IArbitrator, Ownable {
+    struct MockDispute {
+        IArbitrable arbitrable;
+        uint256 choices;
+        uint256 ruling;
+        DisputeStatus status;
+    }
+
+    uint256 public fee;
+    MockDispute[] public disputes;
+
+    constructor(uint256 _fee) Ownable(msg.sender) {
+        fee = _fee;
+    }
+
+    function setFee(uint256 _fee) external onlyOwner {
+        fee = _fee;
+    }
+
+    function arbitrationCost(bytes calldata) public view returns (uint256) {
+        return fee;
+    }
+
+    function createDispute(uint256 _choices, bytes calldata _extraData) external payable returns (uint256 disputeID) {
+        require(msg.value >= arbitrationCost(_extraData), "Arbitration fee too low");
+
+        disputeID = disputes.length;
+        disputes.push(MockDispute({
+            arbitrable: IArbitrable(msg.sender),
+            choices: _choices,
+            ruling: 0,
+            status: DisputeStatus.Waiting
+        }));
+
+        emit DisputeCreation(disputeID, IArbitrable(msg.sender));
+    }
+
+    /**
+     * @dev Rule immediately, with no appeal period
+     */
+    function giveRuling(uint256 _disputeID, uint256 _ruling) external onlyOwner {
+        MockDispute storage dispute = disputes[_disputeID];
+        require(dispute.status != DisputeStatus.Solved, "Already ruled");
+        require(_ruling <= dispute.choices, "Invalid ruling");
+
+        dispute.ruling = _ruling;
+        dispute.status = DisputeStatus.Solved;
+        dispute.arbitrable.rule(_disputeID, _ruling);
+    }
+
+    function disputeStatus(uint256 _disputeID) external view returns (DisputeStatus) {
+        return disputes[_disputeID].status;
+    }
+
+    function currentRuling(uint256 _disputeID) external view returns (uint256) {
+        return disputes[_disputeID].ruling;
+    }
+
+    /**
+     * @dev Collect the fees paid for disputes
+     */
+    function withdrawFees(address payable _to) external onlyOwner {
+        (bool success, ) = _to.call{value: address(this).balance}("");
+        require(success, "Transfer failed");
+    }
+}
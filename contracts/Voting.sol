@@ -119,7 +119,14 @@ contract Voting is AccessControl, Pausable, ReentrancyGuard {
         address _escrowContract,
         address _nftContract
     ) {
+        require(_governanceToken != address(0), "Invalid governance token");
+        require(_escrowContract != address(0), "Invalid escrow address");
 
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+
+        governanceToken = _governanceToken;
+        escrowContract = _escrowContract;
+        nftContract = _nftContract;
     }
 
     // Functions
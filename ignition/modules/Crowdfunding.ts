@@ -0,0 +1,23 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import DealRoomModule from "./DealRoom.js";
+import EscrowModule from "./Escrow.js";
+import InvestmentNFTModule from "./InvestmentNFT.js";
+import VotingModule from "./Voting.js";
+
+/**
+ * Full platform deployment for live networks.
+ *
+ * Parameters (set under "$global" or per module in a parameters file):
+ *   - feeRecipient:    receives Escrow and marketplace fees (default: deployer)
+ *   - baseURI:         InvestmentNFT metadata base URI
+ *   - governanceToken: ERC20 staked in Voting (required)
+ */
+export default buildModule("CrowdfundingModule", (m) => {
+  const { escrow } = m.useModule(EscrowModule);
+  const { investmentNFT } = m.useModule(InvestmentNFTModule);
+  const { voting } = m.useModule(VotingModule);
+  const { dealRoom } = m.useModule(DealRoomModule);
+
+  return { escrow, investmentNFT, voting, dealRoom };
+});
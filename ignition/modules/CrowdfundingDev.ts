@@ -0,0 +1,24 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import DealRoomModule from "./DealRoom.js";
+import EscrowModule from "./Escrow.js";
+import InvestmentNFTModule from "./InvestmentNFT.js";
+import MockArbitratorModule from "./MockArbitrator.js";
+import MockERC20Module from "./MockERC20.js";
+
+/**
+ * Local/testnet deployment: same contracts as CrowdfundingModule, but Voting
+ * uses a freshly deployed MockERC20 as its governance token. A MockArbitrator
+ * is deployed alongside for Escrow's `setArbitrator`, but not wired in.
+ */
+export default buildModule("CrowdfundingDevModule", (m) => {
+  const { mockERC20 } = m.useModule(MockERC20Module);
+  const { escrow } = m.useModule(EscrowModule);
+  const { investmentNFT } = m.useModule(InvestmentNFTModule);
+  const { dealRoom } = m.useModule(DealRoomModule);
+  const { mockArbitrator } = m.useModule(MockArbitratorModule);
+
+  const voting = m.contract("Voting", [mockERC20, escrow, investmentNFT]);
+
+  return { mockERC20, escrow, investmentNFT, voting, dealRoom, mockArbitrator };
+});
@@ -0,0 +1,7 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("DealRoomModule", (m) => {
+  const dealRoom = m.contract("DealRoom");
+
+  return { dealRoom };
+});
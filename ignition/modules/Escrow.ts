@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("EscrowModule", (m) => {
+  // Platform fees go to the deployer unless a fee recipient is provided
+  const feeRecipient = m.getParameter("feeRecipient", m.getAccount(0));
+
+  const escrow = m.contract("Escrow", [feeRecipient]);
+
+  return { escrow };
+});
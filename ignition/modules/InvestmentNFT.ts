@@ -0,0 +1,18 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import EscrowModule from "./Escrow.js";
+
+export default buildModule("InvestmentNFTModule", (m) => {
+  const { escrow } = m.useModule(EscrowModule);
+
+  const baseURI = m.getParameter("baseURI", "https://ipfs.io/ipfs/");
+  const feeRecipient = m.getParameter("feeRecipient", m.getAccount(0));
+
+  const investmentNFT = m.contract("InvestmentNFT", [
+    baseURI,
+    feeRecipient,
+    escrow,
+  ]);
+
+  return { investmentNFT };
+});
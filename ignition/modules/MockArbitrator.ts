@@ -0,0 +1,11 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Development-only ERC-792 arbitrator whose deployer rules on Escrow disputes
+// by hand. Never deploy this module to a mainnet.
+export default buildModule("MockArbitratorModule", (m) => {
+  const arbitrationFee = m.getParameter("arbitrationFee", 10n ** 16n);
+
+  const mockArbitrator = m.contract("MockArbitrator", [arbitrationFee]);
+
+  return { mockArbitrator };
+});
@@ -0,0 +1,13 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Development-only token used as the Voting governance token on local and
+// test networks. Never deploy this module to a mainnet.
+export default buildModule("MockERC20Module", (m) => {
+  const name = m.getParameter("name", "Test Token");
+  const symbol = m.getParameter("symbol", "TST");
+  const initialSupply = m.getParameter("initialSupply", 1_000_000n * 10n ** 18n);
+
+  const mockERC20 = m.contract("MockERC20", [name, symbol, initialSupply]);
+
+  return { mockERC20 };
+});
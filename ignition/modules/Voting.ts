@@ -0,0 +1,16 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import EscrowModule from "./Escrow.js";
+import InvestmentNFTModule from "./InvestmentNFT.js";
+
+export default buildModule("VotingModule", (m) => {
+  const { escrow } = m.useModule(EscrowModule);
+  const { investmentNFT } = m.useModule(InvestmentNFTModule);
+
+  // No default on purpose: a real governance token must be supplied
+  const governanceToken = m.getParameter<string>("governanceToken");
+
+  const voting = m.contract("Voting", [governanceToken, escrow, investmentNFT]);
+
+  return { voting };
+});
@@ -0,0 +1,130 @@
+import hre from "hardhat";
+import { ethers as Ethers } from "ethers";
+import * as readline from "readline/promises";
+
+import { rpcUrlFor } from "../config/networks.js";
+import { ADMIN_COMMANDS, applyAdminCalls, findAdminCommand } from "./lib/admin.js";
+import { readLatestDeployment } from "./lib/deployment.js";
+import { isProductionProfile } from "./lib/safety.js";
+import { loadSigner, signerOptionsFromArgs } from "./lib/signer.js";
+
+// Flags that take a value, so it is not mistaken for a command parameter
+const VALUE_FLAGS = ["--network", "-n", "--signer", "--key-name", "--keystore-file"];
+
+function getArg(argv: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const idx = argv.indexOf(name);
+    if (idx !== -1) {
+      return argv[idx + 1];
+    }
+  }
+  return undefined;
+}
+
+function positionalArgs(argv: string[]): string[] {
+  const positional: string[] = [];
+  for (let i = 2; i < argv.length; i++) {
+    if (VALUE_FLAGS.includes(argv[i])) {
+      i++;
+    } else if (!argv[i].startsWith("-")) {
+      positional.push(argv[i]);
+    }
+  }
+  return positional;
+}
+
+function printUsage(): void {
+  console.log("Usage: npm run admin -- <command> [params] --network <name> [--yes] [--dry-run]\n");
+  for (const command of ADMIN_COMMANDS) {
+    console.log(`  ${command.name} ${command.usage}`);
+    console.log(`      ${command.summary}`);
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    return /^y(es)?$/i.test((await rl.question(question)).trim());
+  } finally {
+    rl.close();
+  }
+}
+
+async function main() {
+  try {
+    const argv = process.argv;
+    const [name, ...params] = positionalArgs(argv);
+    if (!name || argv.includes("--help")) {
+      printUsage();
+      return;
+    }
+    const command = findAdminCommand(name);
+
+    const networkName =
+      getArg(argv, "--network", "-n") || process.env.HARDHAT_NETWORK;
+    if (!networkName) {
+      throw new Error("Pass --network <name> to choose the deployment");
+    }
+    const record = readLatestDeployment(networkName);
+    if (!record) {
+      throw new Error(`No deployment record for ${networkName}; deploy first`);
+    }
+    const rpcUrl = rpcUrlFor(networkName);
+    if (!rpcUrl) {
+      throw new Error(`No RPC URL configured for network ${networkName}`);
+    }
+    const provider = new Ethers.JsonRpcProvider(rpcUrl, undefined, {
+      cacheTimeout: -1,
+    });
+
+    console.log("\n========================================");
+    console.log(`🛡️  ADMIN: ${command.name}`);
+    console.log("========================================");
+    console.log(`Network: ${networkName}`);
+    console.log(`Record:  ${networkName}-latest.json (${new Date(record.timestamp).toISOString()})`);
+    console.log("========================================\n");
+
+    const calls = await command.plan(record, provider, params);
+    if (calls.length === 0) {
+      console.log("✅ Nothing to change: the contracts already have these values");
+      return;
+    }
+    for (const call of calls) {
+      const address = record.contracts[call.contract]!.address;
+      console.log(`📝 ${call.description}`);
+      console.log(`    contract: ${call.contract} (${address})`);
+      console.log(`    current:  ${call.before}`);
+      console.log(`    new:      ${call.after}`);
+    }
+    if (argv.includes("--dry-run")) {
+      console.log("\nDry run: nothing was sent");
+      return;
+    }
+
+    const signer = await loadSigner(provider, hre, {
+      ...signerOptionsFromArgs(argv),
+      forbidEnvKey: isProductionProfile(networkName, argv),
+    });
+    console.log(`\nSigner: ${signer.address}`);
+    const confirmed =
+      argv.includes("--yes") ||
+      argv.includes("-y") ||
+      (await confirm(`Send ${calls.length} transaction(s) on ${networkName}? [y/N] `));
+    if (!confirmed) {
+      console.log("Aborted: nothing was sent");
+      return;
+    }
+
+    await applyAdminCalls(calls, record, signer);
+    console.log("\n✨ Done");
+  } catch (error) {
+    console.error("\n❌ ADMIN COMMAND FAILED:");
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createPublicClient, http, PublicClient } from "viem";
+
+import { rpcUrlFor } from "../config/networks.js";
+import { EscrowClient, MarketplaceClient, VotingClient } from "../sdk/index.js";
+import { createApiServer } from "../services/api/server.js";
+import { IndexerDatabase } from "../services/indexer/database.js";
+import { readLatestDeployment } from "./lib/deployment.js";
+
+function getArg(argv: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const idx = argv.indexOf(name);
+    if (idx !== -1) {
+      return argv[idx + 1];
+    }
+  }
+  return undefined;
+}
+
+async function main() {
+  try {
+    const argv = process.argv;
+    const networkName =
+      getArg(argv, "--network", "-n") || process.env.HARDHAT_NETWORK;
+    if (!networkName) {
+      throw new Error("Pass --network <name> to choose the indexed deployment");
+    }
+
+    const dbFile =
+      getArg(argv, "--db") ??
+      process.env.INDEXER_DB ??
+      path.join(process.cwd(), "indexer-data", `${networkName}.sqlite`);
+    if (!fs.existsSync(dbFile)) {
+      throw new Error(`No index at ${dbFile}; run \`npm run indexer -- --network ${networkName}\` first`);
+    }
+
+    // Chain reads fill in the fields the events do not carry; without a
+    // deployment record or RPC URL the API serves indexed data only
+    const record = readLatestDeployment(networkName);
+    const rpcUrl = rpcUrlFor(networkName);
+    const config = rpcUrl
+      ? { publicClient: createPublicClient({ transport: http(rpcUrl) }) as PublicClient }
+      : undefined;
+    const clients =
+      record && config
+        ? {
+            escrow: record.contracts.escrow
+              ? EscrowClient.fromDeployment(record, config)
+              : undefined,
+            marketplace: record.contracts.investmentNFT
+              ? MarketplaceClient.fromDeployment(record, config)
+              : undefined,
+            voting: record.contracts.voting
+              ? VotingClient.fromDeployment(record, config)
+              : undefined,
+          }
+        : {};
+
+    const port = Number(getArg(argv, "--port") ?? process.env.API_PORT ?? 8788);
+    const database = new IndexerDatabase(dbFile);
+    const server = createApiServer({ database, ...clients });
+    server.listen(port, () => {
+      console.log("\n========================================");
+      console.log("🔎 CROWDFUNDING READ API");
+      console.log("========================================");
+      console.log(`Network:     ${networkName}`);
+      console.log(`Database:    ${dbFile}`);
+      console.log(`Chain reads: ${config && record ? rpcUrl : "off"}`);
+      console.log(`Listening on http://localhost:${port}`);
+      console.log("========================================\n");
+    });
+
+    const shutdown = () => server.close(() => database.close());
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+  } catch (error) {
+    console.error("\n❌ API FAILED TO START:");
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -1,26 +1,53 @@
 import hre from "hardhat";
 import { ethers as Ethers } from "ethers";
-import * as fs from "fs";
-import * as path from "path";
-import { fileURLToPath } from "url";
 
-interface DeploymentAddresses {
-  mockERC20: string;
-  counter: string;
-  investmentNFT: string;
-  escrow: string;
-  voting: string;
-  dealRoom: string;
-  network: string;
-  deployer: string;
-  timestamp: number;
-}
+import { getNetworkDefinition, rpcUrlFor } from "../config/networks.js";
+import { CONTRACT_NAMES, ContractKey, loadArtifact } from "./lib/artifacts.js";
+import {
+  checkExistingDeployment,
+  constructorArgsFor,
+  currentGitCommit,
+  DEPLOYMENT_SCHEMA_VERSION,
+  deploymentAddresses,
+  DeploymentRecord,
+  describeDeployment,
+  readLatestDeployment,
+  writeDeploymentSnapshot,
+  writeLatestDeployment,
+} from "./lib/deployment.js";
+import {
+  checkChainIdConfirmation,
+  checkProductionEnvironment,
+  isProductionProfile,
+  MOCK_CONTRACTS,
+  promptChainIdConfirmation,
+} from "./lib/safety.js";
+import { loadSigner, signerOptionsFromArgs } from "./lib/signer.js";
+import {
+  connectSimulatedChain,
+  estimateDeploymentCost,
+  fundSimulatedAccount,
+  MAX_CONTRACT_SIZE,
+  SimulatedChain,
+} from "./lib/simulation.js";
+import {
+  applyWiringPlan,
+  loadWiringPlan,
+  verifyWiringPlan,
+} from "./lib/wiring.js";
 
 async function main() {
   try {
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = path.dirname(__filename);
     const argv = process.argv;
+    const fresh = argv.includes("--fresh");
+    const dryRun = argv.includes("--dry-run") || argv.includes("--fork");
+    const fork = argv.includes("--fork");
+    const idxGasPrice = argv.indexOf("--gas-price");
+    const gasPriceGwei =
+      idxGasPrice !== -1 ? argv[idxGasPrice + 1] : undefined;
+    const idxConfirm = argv.indexOf("--confirm-chain-id");
+    const confirmedChainId =
+      idxConfirm !== -1 ? argv[idxConfirm + 1] : process.env.CONFIRM_CHAIN_ID;
     const idxLong = argv.indexOf("--network");
     const idxShort = argv.indexOf("-n");
     const cliNetwork =
@@ -37,28 +64,8 @@ async function main() {
       ((hre as any).config?.networks as Record<string, any>) || {};
     const selectedCfg = networksCfg[networkName] || {};
     const selectedUrl = (selectedCfg as any)?.url;
-    const fallbackUrl = (() => {
-      switch (networkName) {
-        case "celoSepolia":
-          return (
-            process.env.CELO_SEPOLIA_RPC ||
-            "https://forno.celo-sepolia.celo-testnet.org"
-          );
-        case "celoMainnet":
-          return process.env.CELO_MAINNET_RPC || "https://forno.celo.org";
-        case "sepolia":
-          return process.env.SEPOLIA_RPC_URL || "";
-        case "baseSepolia":
-          return process.env.BASE_SEPOLIA_RPC || "https://sepolia.base.org";
-        case "baseMainnet":
-          return process.env.BASE_MAINNET_RPC || "https://mainnet.base.org";
-        case "localhost":
-        case "hardhat":
-          return "http://127.0.0.1:8545";
-        default:
-          return ""; // require explicit URL for unknown networks
-      }
-    })();
+    const definition = getNetworkDefinition(networkName);
+    const fallbackUrl = rpcUrlFor(networkName);
     let connection: string;
     if (typeof selectedUrl === "string" && selectedUrl.trim() !== "") {
       connection = selectedUrl;
@@ -72,29 +79,9 @@ async function main() {
       connection = String(fallbackUrl || "");
     }
     const chainId =
-      (selectedCfg.chainId as number) ||
-      (() => {
-        switch (networkName) {
-          case "celoSepolia":
-            return 11142220;
-          case "celoMainnet":
-            return 42220;
-          case "sepolia":
-            return 11155111;
-          case "baseSepolia":
-            return 84532;
-          case "baseMainnet":
-            return 8453;
-          default:
-            return 31337;
-        }
-      })();
+      (selectedCfg.chainId as number) || definition?.chainId || 31337;
     const network = { name: networkName, chainId };
-
-    const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
-    if (!privateKey) {
-      throw new Error("DEPLOYER_PRIVATE_KEY is not set in environment");
-    }
+    const symbol = definition?.nativeCurrency ?? "ETH";
 
     if (
       !connection ||
@@ -103,19 +90,31 @@ async function main() {
       throw new Error(`No RPC URL configured for network ${network.name}`);
     }
 
-    const provider = new Ethers.JsonRpcProvider(String(connection));
-    const wallet = new Ethers.Wallet(privateKey, provider);
-    const deploymentAddresses: DeploymentAddresses = {
-      mockERC20: "",
-      counter: "",
-      investmentNFT: "",
-      escrow: "",
-      voting: "",
-      dealRoom: "",
+    // Disable request caching so nonces are never served stale between
+    // back-to-back deployments on fast (automining) chains
+    const provider = new Ethers.JsonRpcProvider(String(connection), undefined, {
+      cacheTimeout: -1,
+    });
+    const production = isProductionProfile(network.name, argv);
+    // Production deployments never take a plaintext key from the environment
+    const wallet = await loadSigner(provider, hre, {
+      ...signerOptionsFromArgs(argv),
+      forbidEnvKey: production,
+    });
+    const liveChainId = (await provider.getNetwork()).chainId;
+    const previous = fresh ? undefined : readLatestDeployment(network.name);
+    const record: DeploymentRecord = {
+      schemaVersion: DEPLOYMENT_SCHEMA_VERSION,
       network: network.name,
+      chainId: Number(liveChainId),
       deployer: wallet.address,
       timestamp: Date.now(),
+      gitCommit: currentGitCommit(),
+      contracts: { ...previous?.contracts },
     };
+    if (production) {
+      for (const key of MOCK_CONTRACTS) delete record.contracts[key];
+    }
 
     console.log("\n========================================");
     console.log("🚀 DEPLOYMENT STARTED");
@@ -123,163 +122,212 @@ async function main() {
     console.log(`Network: ${network.name} (Chain ID: ${network.chainId})`);
     console.log(`Deployer: ${wallet.address}`);
     const balance = await provider.getBalance(wallet.address);
-    console.log(`Balance: ${Ethers.formatEther(balance)} ETH`);
+    console.log(`Balance: ${Ethers.formatEther(balance)} ${symbol}`);
+    if (production) {
+      console.log("Profile: production (no mocks, explicit settings required)");
+    }
+    if (dryRun) {
+      console.log(
+        fork
+          ? `Mode: dry run on a fork of ${network.name}`
+          : "Mode: dry run on an in-process chain"
+      );
+    }
+    if (fresh) {
+      console.log("Mode: fresh (ignoring previous deployment record)");
+    } else if (previous) {
+      console.log(
+        `Resuming from record of ${new Date(previous.timestamp).toISOString()}`
+      );
+    }
     console.log("========================================\n");
 
-    // ========== Deploy MockERC20 ==========
-    console.log("📦 Deploying MockERC20...");
-    const mockErc20ArtifactPath = path.join(
-      __dirname,
-      "../artifacts/contracts/MockERC20.sol/MockERC20.json"
-    );
-    const mockErc20Artifact = JSON.parse(
-      fs.readFileSync(mockErc20ArtifactPath, "utf8")
-    );
-    const MockErc20Factory = new Ethers.ContractFactory(
-      mockErc20Artifact.abi,
-      mockErc20Artifact.bytecode,
-      wallet
-    );
-    const mockERC20 = await MockErc20Factory.deploy(
-      "Test Token",
-      "TST",
-      Ethers.parseEther("1000000")
-    );
-    await mockERC20.waitForDeployment();
-    deploymentAddresses.mockERC20 = await mockERC20.getAddress();
-    console.log("✅ MockERC20 deployed to:", deploymentAddresses.mockERC20);
+    if (production) {
+      if (liveChainId !== BigInt(network.chainId)) {
+        throw new Error(
+          `RPC endpoint for ${network.name} reports chain ID ${liveChainId}, expected ${network.chainId}`
+        );
+      }
+      const settings = await checkProductionEnvironment(
+        provider,
+        wallet.address
+      );
+      console.log(`Governance token: ${settings.governanceToken}`);
+      console.log(`Fee recipient:    ${settings.feeRecipient}\n`);
+      if (!dryRun) {
+        checkChainIdConfirmation(
+          liveChainId,
+          confirmedChainId ??
+            (await promptChainIdConfirmation(network.name))
+        );
+      }
+    }
 
-    // ========== Deploy Counter ==========
-    console.log("\n📦 Deploying Counter...");
-    const counterArtifactPath = path.join(
-      __dirname,
-      "../artifacts/contracts/Counter.sol/Counter.json"
-    );
-    const counterArtifact = JSON.parse(
-      fs.readFileSync(counterArtifactPath, "utf8")
-    );
-    const CounterFactory = new Ethers.ContractFactory(
-      counterArtifact.abi,
-      counterArtifact.bytecode,
-      wallet
-    );
-    const counter = await CounterFactory.deploy();
-    await counter.waitForDeployment();
-    deploymentAddresses.counter = await counter.getAddress();
-    console.log("✅ Counter deployed to:", deploymentAddresses.counter);
+    // A dry run replays the same sequence against a funded in-process chain
+    // and never touches the deployment records
+    let simulation: SimulatedChain | undefined;
+    let chainProvider: Ethers.Provider = provider;
+    let deployer: Ethers.Signer = wallet;
+    let simulationStartBlock = 0;
+    if (dryRun) {
+      simulation = await connectSimulatedChain(
+        hre,
+        fork ? String(connection) : undefined
+      );
+      await fundSimulatedAccount(simulation.provider, wallet.address);
+      simulationStartBlock = await simulation.provider.getBlockNumber();
+      chainProvider = simulation.provider;
+      deployer = wallet.connect(simulation.provider);
+    }
 
-    // ========== Deploy Escrow ==========
-    console.log("\n📦 Deploying Escrow...");
-    const feeRecipient = process.env.FEE_RECIPIENT || wallet.address;
-    const escrowArtifactPath = path.join(
-      __dirname,
-      "../artifacts/contracts/Escrow.sol/Escrow.json"
-    );
-    const escrowArtifact = JSON.parse(
-      fs.readFileSync(escrowArtifactPath, "utf8")
-    );
-    const EscrowFactory = new Ethers.ContractFactory(
-      escrowArtifact.abi,
-      escrowArtifact.bytecode,
-      wallet
-    );
-    const escrow = await EscrowFactory.deploy(feeRecipient);
-    await escrow.waitForDeployment();
-    deploymentAddresses.escrow = await escrow.getAddress();
-    console.log("✅ Escrow deployed to:", deploymentAddresses.escrow);
+    const redeployed = new Set<ContractKey>();
 
-    // ========== Deploy InvestmentNFT ==========
-    console.log("\n📦 Deploying InvestmentNFT...");
-    const baseURI = "https://ipfs.io/ipfs/";
-    const escrowAddress = deploymentAddresses.escrow;
-    const investmentNftArtifactPath = path.join(
-      __dirname,
-      "../artifacts/contracts/InvestmentNFT.sol/InvestmentNFT.json"
-    );
-    const investmentNftArtifact = JSON.parse(
-      fs.readFileSync(investmentNftArtifactPath, "utf8")
-    );
-    const InvestmentNftFactory = new Ethers.ContractFactory(
-      investmentNftArtifact.abi,
-      investmentNftArtifact.bytecode,
-      wallet
-    );
-    const investmentNFT = await InvestmentNftFactory.deploy(
-      baseURI,
-      feeRecipient,
-      escrowAddress
-    );
-    await investmentNFT.waitForDeployment();
-    deploymentAddresses.investmentNFT = await investmentNFT.getAddress();
-    console.log(
-      "✅ InvestmentNFT deployed to:",
-      deploymentAddresses.investmentNFT
-    );
+    // Reuse the recorded contract when its code matches the current artifact,
+    // it was constructed with the current arguments and none of its
+    // constructor dependencies changed; otherwise deploy it
+    // and persist the record straight away so a failed run can resume.
+    const deployOrReuse = async (
+      key: ContractKey,
+      args: unknown[],
+      dependsOn: ContractKey[] = []
+    ): Promise<string> => {
+      const name = CONTRACT_NAMES[key];
+      const artifact = loadArtifact(name);
+      const changedDependency = dependsOn.find((dep) => redeployed.has(dep));
+      const status = changedDependency
+        ? {
+            reuse: false,
+            reason: `constructor dependency ${CONTRACT_NAMES[changedDependency]} was redeployed`,
+          }
+        : await checkExistingDeployment(
+            chainProvider,
+            previous?.contracts[key],
+            artifact,
+            args
+          );
 
-    // ========== Deploy Voting ==========
-    console.log("\n📦 Deploying Voting...");
-    const governanceToken =
-      process.env.GOVERNANCE_TOKEN || deploymentAddresses.mockERC20;
-    const nftContract =
-      process.env.NFT_CONTRACT || deploymentAddresses.investmentNFT;
-    const votingArtifactPath = path.join(
-      __dirname,
-      "../artifacts/contracts/Voting.sol/Voting.json"
-    );
-    const votingArtifact = JSON.parse(
-      fs.readFileSync(votingArtifactPath, "utf8")
-    );
-    const VotingFactory = new Ethers.ContractFactory(
-      votingArtifact.abi,
-      votingArtifact.bytecode,
-      wallet
-    );
-    const voting = await VotingFactory.deploy(
-      governanceToken,
-      escrowAddress,
-      nftContract
-    );
-    await voting.waitForDeployment();
-    deploymentAddresses.voting = await voting.getAddress();
-    console.log("✅ Voting deployed to:", deploymentAddresses.voting);
+      if (status.reuse) {
+        console.log(`⏭️  Skipping ${name}: ${status.reason}`);
+        return record.contracts[key]!.address;
+      }
 
-    // ========== Deploy DealRoom ==========
-    console.log("\n📦 Deploying DealRoom...");
-    const dealRoomArtifactPath = path.join(
-      __dirname,
-      "../artifacts/contracts/DealRoom.sol/DealRoom.json"
-    );
-    const dealRoomArtifact = JSON.parse(
-      fs.readFileSync(dealRoomArtifactPath, "utf8")
-    );
-    const DealRoomFactory = new Ethers.ContractFactory(
-      dealRoomArtifact.abi,
-      dealRoomArtifact.bytecode,
-      wallet
-    );
-    const dealRoom = await DealRoomFactory.deploy();
-    await dealRoom.waitForDeployment();
-    deploymentAddresses.dealRoom = await dealRoom.getAddress();
-    console.log("✅ DealRoom deployed to:", deploymentAddresses.dealRoom);
+      console.log(`📦 Deploying ${name} (${status.reason})...`);
+      const factory = new Ethers.ContractFactory(
+        artifact.abi,
+        artifact.bytecode,
+        deployer
+      );
+      const contract = await factory.deploy(...args);
+      await contract.waitForDeployment();
+      record.contracts[key] = await describeDeployment(contract, artifact, args);
+      redeployed.add(key);
+      if (!dryRun) writeLatestDeployment(record);
+      console.log(`✅ ${name} deployed to:`, record.contracts[key].address);
+      return record.contracts[key].address;
+    };
 
-    // ========== Save Deployment Addresses ==========
-    const deploymentsDir = path.join(__dirname, "../deployments");
-    if (!fs.existsSync(deploymentsDir)) {
-      fs.mkdirSync(deploymentsDir, { recursive: true });
+    const argsFor = (key: ContractKey) => constructorArgsFor(key, record);
+
+    // ========== MockERC20 & Counter ==========
+    if (!production) {
+      await deployOrReuse("mockERC20", argsFor("mockERC20"));
+      await deployOrReuse("counter", argsFor("counter"));
     }
 
-    const deploymentFile = path.join(
-      deploymentsDir,
-      `${network.name}-${Date.now()}.json`
-    );
-    fs.writeFileSync(
-      deploymentFile,
-      JSON.stringify(deploymentAddresses, null, 2)
+    // ========== Escrow ==========
+    await deployOrReuse("escrow", argsFor("escrow"));
+
+    // ========== InvestmentNFT ==========
+    await deployOrReuse("investmentNFT", argsFor("investmentNFT"), ["escrow"]);
+
+    // ========== Voting ==========
+    const votingDependencies: ContractKey[] = ["escrow"];
+    if (!process.env.GOVERNANCE_TOKEN) votingDependencies.push("mockERC20");
+    if (!process.env.NFT_CONTRACT) votingDependencies.push("investmentNFT");
+    await deployOrReuse("voting", argsFor("voting"), votingDependencies);
+
+    // ========== DealRoom ==========
+    await deployOrReuse("dealRoom", argsFor("dealRoom"));
+
+    // ========== Save Deployment Addresses ==========
+    const deploymentFile = dryRun
+      ? undefined
+      : writeDeploymentSnapshot(record);
+    if (!dryRun) writeLatestDeployment(record);
+    const addresses = deploymentAddresses(record);
+
+    // ========== Apply Role & Wiring Plan ==========
+    console.log("\n🔧 Applying role and wiring plan...");
+    const wiringPlan = loadWiringPlan(network.name);
+    await applyWiringPlan(wiringPlan, addresses, deployer);
+
+    console.log("\n🔍 Verifying role and wiring plan...");
+    const wiringChecks = await verifyWiringPlan(
+      wiringPlan,
+      addresses,
+      deployer,
+      wallet.address
     );
+    for (const check of wiringChecks) {
+      console.log(`${check.ok ? "✅" : "❌"} ${check.description}`);
+    }
+    if (wiringChecks.some((check) => !check.ok)) {
+      throw new Error("Role and wiring verification failed");
+    }
 
-    // Also update the latest deployment file
-    const latestFile = path.join(deploymentsDir, `${network.name}-latest.json`);
-    fs.writeFileSync(latestFile, JSON.stringify(deploymentAddresses, null, 2));
+    // ========== Dry-Run Cost Report ==========
+    if (simulation) {
+      const gasPrice = gasPriceGwei
+        ? Ethers.parseUnits(gasPriceGwei, "gwei")
+        : await (async () => {
+            const feeData = await provider.getFeeData();
+            return feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+          })();
+      const estimate = await estimateDeploymentCost(
+        simulation.provider,
+        record,
+        simulationStartBlock,
+        gasPrice
+      );
+      await simulation.close();
+
+      console.log("\n========================================");
+      console.log("🧪 DRY RUN COST ESTIMATE");
+      console.log("========================================");
+      for (const c of estimate.contracts) {
+        const gas = c.reused ? "reused" : `${c.gasUsed} gas`;
+        const size = `${c.size} / ${MAX_CONTRACT_SIZE} bytes`;
+        const sizeIcon = c.size > MAX_CONTRACT_SIZE ? "❌" : "✅";
+        console.log(`${c.contract.padEnd(14)} ${gas.padEnd(16)} ${sizeIcon} ${size}`);
+      }
+      console.log(`${"Roles & wiring".padEnd(14)} ${estimate.wiringGas} gas`);
+      console.log(`\nTotal gas:    ${estimate.totalGas}`);
+      console.log(
+        `Gas price:    ${Ethers.formatUnits(estimate.gasPrice, "gwei")} gwei${
+          gasPriceGwei ? "" : " (current network fee)"
+        }`
+      );
+      console.log(`Total cost:   ${Ethers.formatEther(estimate.totalCost)} ${symbol}`);
+      console.log(`Balance:      ${Ethers.formatEther(balance)} ${symbol}`);
+      if (balance < estimate.totalCost) {
+        console.log(
+          `❌ Deployer is short by ${Ethers.formatEther(
+            estimate.totalCost - balance
+          )} ${symbol}`
+        );
+        process.exitCode = 1;
+      } else {
+        console.log("✅ Deployer can afford the deployment");
+      }
+      if (estimate.oversized.length > 0) {
+        console.log(
+          `❌ Over the ${MAX_CONTRACT_SIZE}-byte limit: ${estimate.oversized.join(", ")}`
+        );
+        process.exitCode = 1;
+      }
+      console.log("========================================\n");
+      return record;
+    }
 
     console.log("\n========================================");
     console.log("✨ DEPLOYMENT COMPLETED SUCCESSFULLY ✨");
@@ -288,16 +336,19 @@ async function main() {
     console.log(`Network: ${network.name}`);
     // removed reference to undefined deployer
     console.log(`\n📦 CONTRACT ADDRESSES:`);
-    console.log(`MockERC20:    ${deploymentAddresses.mockERC20}`);
-    console.log(`Counter:      ${deploymentAddresses.counter}`);
-    console.log(`Escrow:       ${deploymentAddresses.escrow}`);
-    console.log(`InvestmentNFT: ${deploymentAddresses.investmentNFT}`);
-    console.log(`Voting:       ${deploymentAddresses.voting}`);
-    console.log(`DealRoom:     ${deploymentAddresses.dealRoom}`);
+    if (!production) {
+      console.log(`MockERC20:    ${addresses.mockERC20}`);
+      console.log(`Counter:      ${addresses.counter}`);
+    }
+    console.log(`Escrow:       ${addresses.escrow}`);
+    console.log(`InvestmentNFT: ${addresses.investmentNFT}`);
+    console.log(`Voting:       ${addresses.voting}`);
+    console.log(`DealRoom:     ${addresses.dealRoom}`);
+    console.log(`Git commit:   ${record.gitCommit ?? "unknown"}`);
     console.log(`\n📁 Deployment file saved to: ${deploymentFile}`);
     console.log("========================================\n");
 
-    return deploymentAddresses;
+    return record;
   } catch (error) {
     console.error("\n❌ DEPLOYMENT FAILED:");
     console.error(error);
@@ -0,0 +1,86 @@
+import hre from "hardhat";
+import * as path from "path";
+import { createPublicClient, http, PublicClient } from "viem";
+
+import { rpcUrlFor } from "../config/networks.js";
+import { createGatewayServer } from "../services/gateway/server.js";
+import { DocumentStore, parseEncryptionKey } from "../services/gateway/store.js";
+import { readLatestDeployment } from "./lib/deployment.js";
+import { readKeystoreValue } from "./lib/signer.js";
+
+const KEY_NAME = "DOCUMENT_GATEWAY_KEY";
+
+function getArg(argv: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const idx = argv.indexOf(name);
+    if (idx !== -1) {
+      return argv[idx + 1];
+    }
+  }
+  return undefined;
+}
+
+async function main() {
+  try {
+    const argv = process.argv;
+    const networkName =
+      getArg(argv, "--network", "-n") || process.env.HARDHAT_NETWORK;
+    if (!networkName) {
+      throw new Error("Pass --network <name> to choose the DealRoom deployment");
+    }
+
+    const dealRoom =
+      getArg(argv, "--deal-room") ??
+      readLatestDeployment(networkName)?.contracts.dealRoom?.address;
+    if (!dealRoom) {
+      throw new Error(
+        `No DealRoom recorded for ${networkName}; pass --deal-room <address>`
+      );
+    }
+
+    const rpcUrl = rpcUrlFor(networkName);
+    if (!rpcUrl) {
+      throw new Error(`No RPC URL configured for network ${networkName}`);
+    }
+
+    // The encryption key lives in the Hardhat keystore like the deployer key;
+    // the environment is accepted for local runs
+    const key =
+      process.env[KEY_NAME] ?? (await readKeystoreValue(hre, KEY_NAME));
+    if (!key) {
+      throw new Error(
+        `${KEY_NAME} not set; run \`npx hardhat keystore set ${KEY_NAME}\` with 32 bytes of hex`
+      );
+    }
+
+    const storeDir =
+      getArg(argv, "--store") ??
+      process.env.DOCUMENT_GATEWAY_DIR ??
+      path.join(process.cwd(), "document-store");
+    const port = Number(
+      getArg(argv, "--port") ?? process.env.DOCUMENT_GATEWAY_PORT ?? 8787
+    );
+
+    const server = createGatewayServer({
+      publicClient: createPublicClient({ transport: http(rpcUrl) }) as PublicClient,
+      dealRoom: dealRoom as `0x${string}`,
+      store: new DocumentStore(storeDir, parseEncryptionKey(key)),
+    });
+    server.listen(port, () => {
+      console.log("\n========================================");
+      console.log("🔐 DEALROOM DOCUMENT GATEWAY");
+      console.log("========================================");
+      console.log(`Network:  ${networkName}`);
+      console.log(`DealRoom: ${dealRoom}`);
+      console.log(`Store:    ${storeDir}`);
+      console.log(`Listening on http://localhost:${port}`);
+      console.log("========================================\n");
+    });
+  } catch (error) {
+    console.error("\n❌ GATEWAY FAILED TO START:");
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,113 @@
+import * as path from "path";
+import { Address, createPublicClient, http, PublicClient } from "viem";
+
+import { rpcUrlFor } from "../config/networks.js";
+import { IndexerDatabase } from "../services/indexer/database.js";
+import { INDEXED_CONTRACTS, IndexedContract } from "../services/indexer/events.js";
+import { DEFAULT_CONFIRMATIONS, Indexer } from "../services/indexer/indexer.js";
+import { readLatestDeployment } from "./lib/deployment.js";
+
+const DEFAULT_POLL_MS = 5_000;
+
+function getArg(argv: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const idx = argv.indexOf(name);
+    if (idx !== -1) {
+      return argv[idx + 1];
+    }
+  }
+  return undefined;
+}
+
+async function main() {
+  try {
+    const argv = process.argv;
+    const networkName =
+      getArg(argv, "--network", "-n") || process.env.HARDHAT_NETWORK;
+    if (!networkName) {
+      throw new Error("Pass --network <name> to choose the deployment to index");
+    }
+
+    const record = readLatestDeployment(networkName);
+    if (!record) {
+      throw new Error(`No deployment record for ${networkName}; deploy first`);
+    }
+    const contracts: Partial<Record<IndexedContract, Address>> = {};
+    const deploymentBlocks: number[] = [];
+    for (const key of INDEXED_CONTRACTS) {
+      const contract = record.contracts[key];
+      if (!contract) continue;
+      contracts[key] = contract.address as Address;
+      if (contract.blockNumber !== null) {
+        deploymentBlocks.push(contract.blockNumber);
+      }
+    }
+
+    const rpcUrl = rpcUrlFor(networkName);
+    if (!rpcUrl) {
+      throw new Error(`No RPC URL configured for network ${networkName}`);
+    }
+
+    // Legacy records have no deployment blocks, so they are scanned from genesis
+    const fromBlock = getArg(argv, "--from-block");
+    const startBlock = fromBlock
+      ? Number(fromBlock)
+      : deploymentBlocks.length > 0
+        ? Math.min(...deploymentBlocks)
+        : 0;
+    const confirmations = Number(
+      getArg(argv, "--confirmations") ?? DEFAULT_CONFIRMATIONS
+    );
+    const dbFile =
+      getArg(argv, "--db") ??
+      process.env.INDEXER_DB ??
+      path.join(process.cwd(), "indexer-data", `${networkName}.sqlite`);
+
+    console.log("\n========================================");
+    console.log("📚 CROWDFUNDING EVENT INDEXER");
+    console.log("========================================");
+    console.log(`Network:       ${networkName}`);
+    console.log(`Database:      ${dbFile}`);
+    console.log(`Start block:   ${startBlock}`);
+    console.log(`Confirmations: ${confirmations}`);
+    for (const [key, address] of Object.entries(contracts)) {
+      console.log(`  ${key.padEnd(14)} ${address}`);
+    }
+    console.log("========================================\n");
+
+    const database = new IndexerDatabase(dbFile);
+    const indexer = new Indexer({
+      publicClient: createPublicClient({ transport: http(rpcUrl) }) as PublicClient,
+      database,
+      contracts,
+      confirmations,
+      startBlock,
+      log: console.log,
+    });
+
+    if (argv.includes("--once")) {
+      const result = await indexer.sync();
+      console.log(
+        `✅ Indexed ${result.events} events; checkpoint at block ${result.checkpoint ?? "none"}`
+      );
+      database.close();
+      return;
+    }
+
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    process.once("SIGTERM", () => controller.abort());
+    await indexer.run(
+      Number(getArg(argv, "--poll") ?? DEFAULT_POLL_MS),
+      controller.signal
+    );
+    database.close();
+    console.log("👋 Indexer stopped");
+  } catch (error) {
+    console.error("\n❌ INDEXER FAILED:");
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+main();
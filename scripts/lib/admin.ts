@@ -0,0 +1,339 @@
+import { ethers as Ethers } from "ethers";
+
+import { PROJECT_STATUSES } from "../../sdk/index.js";
+import { ContractKey } from "./artifacts.js";
+import { DeploymentRecord } from "./deployment.js";
+import { contractAt, ROLE_CONTRACTS, roleHash, roleNames } from "./migration.js";
+
+/**
+ * A transaction the admin CLI sends, with the value it changes as read from
+ * the chain and the value it sets
+ */
+export interface AdminCall {
+  contract: ContractKey;
+  method: string;
+  args: string[];
+  description: string;
+  before: string;
+  after: string;
+}
+
+export interface AdminCommand {
+  name: string;
+  usage: string;
+  summary: string;
+  /**
+   * Read the current values and return the calls that change them; calls
+   * that would change nothing are left out
+   */
+  plan(
+    record: DeploymentRecord,
+    provider: Ethers.Provider,
+    params: string[]
+  ): Promise<AdminCall[]>;
+}
+
+/**
+ * Contracts with `pause()`/`unpause()`
+ */
+export const PAUSABLE_CONTRACTS: ContractKey[] = ROLE_CONTRACTS;
+
+export const KYC_STATUSES = ["NotVerified", "Verified", "Expired"] as const;
+
+// Fees and quorum are in basis points; the contracts cap fees at 10%
+const MAX_FEE_BPS = 1000n;
+const BASIS_POINTS = 10_000n;
+
+export const DEFAULT_KYC_VALIDITY_DAYS = 365;
+
+function requireContract(
+  record: DeploymentRecord,
+  key: ContractKey,
+  provider: Ethers.Provider
+): Ethers.Contract {
+  const contract = contractAt(record, key, provider);
+  if (!contract) {
+    throw new Error(`${key} is not in the ${record.network} deployment`);
+  }
+  return contract;
+}
+
+function requireParams(command: string, usage: string, params: string[], count: number): void {
+  if (params.length < count) {
+    throw new Error(`Usage: admin ${command} ${usage}`);
+  }
+}
+
+function parseBps(value: string, label: string, min: bigint, max: bigint): bigint {
+  if (!/^\d+$/.test(value) || BigInt(value) < min || BigInt(value) > max) {
+    throw new Error(`${label} must be a whole number of basis points from ${min} to ${max}`);
+  }
+  return BigInt(value);
+}
+
+function parseAccount(value: string): string {
+  if (!Ethers.isAddress(value)) {
+    throw new Error(`${value} is not an address`);
+  }
+  return Ethers.getAddress(value);
+}
+
+function formatBps(value: bigint): string {
+  return `${value} bps (${Number(value) / 100}%)`;
+}
+
+function parsePausableTarget(target: string): ContractKey[] {
+  if (target === "all") return PAUSABLE_CONTRACTS;
+  if (!PAUSABLE_CONTRACTS.includes(target as ContractKey)) {
+    throw new Error(
+      `Unknown contract ${target} (use ${PAUSABLE_CONTRACTS.join(", ")} or all)`
+    );
+  }
+  return [target as ContractKey];
+}
+
+async function planPause(
+  record: DeploymentRecord,
+  provider: Ethers.Provider,
+  targets: ContractKey[],
+  paused: boolean
+): Promise<AdminCall[]> {
+  const calls: AdminCall[] = [];
+  for (const key of targets) {
+    // `all` covers whatever the deployment has; a named contract must exist
+    const contract =
+      targets.length > 1
+        ? contractAt(record, key, provider)
+        : requireContract(record, key, provider);
+    if (!contract) continue;
+    const current: boolean = await contract.paused();
+    if (current === paused) continue;
+    calls.push({
+      contract: key,
+      method: paused ? "pause" : "unpause",
+      args: [],
+      description: `${paused ? "Pause" : "Unpause"} ${key}`,
+      before: current ? "paused" : "running",
+      after: paused ? "paused" : "running",
+    });
+  }
+  return calls;
+}
+
+function feeCommand(
+  name: string,
+  key: ContractKey,
+  getter: string,
+  setter: string
+): AdminCommand {
+  return {
+    name,
+    usage: "<basis points>",
+    summary: `${setter} on ${key} (max ${MAX_FEE_BPS})`,
+    async plan(record, provider, params) {
+      requireParams(name, this.usage, params, 1);
+      const fee = parseBps(params[0], "The fee", 0n, MAX_FEE_BPS);
+      const contract = requireContract(record, key, provider);
+      const current: bigint = await contract[getter]();
+      if (current === fee) return [];
+      return [
+        {
+          contract: key,
+          method: setter,
+          args: [fee.toString()],
+          description: `Set ${key}.${getter} to ${fee}`,
+          before: formatBps(current),
+          after: formatBps(fee),
+        },
+      ];
+    },
+  };
+}
+
+function roleCommand(name: string, grant: boolean): AdminCommand {
+  return {
+    name,
+    usage: "<contract> <ROLE> <account>",
+    summary: `${grant ? "Grant" : "Revoke"} an AccessControl role`,
+    async plan(record, provider, params) {
+      requireParams(name, this.usage, params, 3);
+      const [key, role] = params as [ContractKey, string];
+      if (!ROLE_CONTRACTS.includes(key)) {
+        throw new Error(`Unknown contract ${key} (use ${ROLE_CONTRACTS.join(", ")})`);
+      }
+      if (!roleNames(key).includes(role)) {
+        throw new Error(`${key} has no ${role} (roles: ${roleNames(key).join(", ")})`);
+      }
+      const account = parseAccount(params[2]);
+      const contract = requireContract(record, key, provider);
+      const held: boolean = await contract.hasRole(roleHash(role), account);
+      if (held === grant) return [];
+      return [
+        {
+          contract: key,
+          method: grant ? "grantRole" : "revokeRole",
+          args: [roleHash(role), account],
+          description: `${grant ? "Grant" : "Revoke"} ${key}.${role} ${grant ? "to" : "from"} ${account}`,
+          before: held ? "held" : "not held",
+          after: grant ? "held" : "not held",
+        },
+      ];
+    },
+  };
+}
+
+export const ADMIN_COMMANDS: AdminCommand[] = [
+  {
+    name: "pause",
+    usage: "<contract|all>",
+    summary: "Pause one contract, or every pausable contract",
+    async plan(record, provider, params) {
+      requireParams("pause", this.usage, params, 1);
+      return planPause(record, provider, parsePausableTarget(params[0]), true);
+    },
+  },
+  {
+    name: "unpause",
+    usage: "<contract|all>",
+    summary: "Unpause one contract, or every pausable contract",
+    async plan(record, provider, params) {
+      requireParams("unpause", this.usage, params, 1);
+      return planPause(record, provider, parsePausableTarget(params[0]), false);
+    },
+  },
+  {
+    name: "pause-all",
+    usage: "",
+    summary: "Incident response: pause every contract that is still running",
+    async plan(record, provider) {
+      return planPause(record, provider, PAUSABLE_CONTRACTS, true);
+    },
+  },
+  feeCommand("set-platform-fee", "escrow", "platformFeePercentage", "setPlatformFee"),
+  feeCommand("set-marketplace-fee", "investmentNFT", "marketplaceFee", "setMarketplaceFee"),
+  {
+    name: "set-default-quorum",
+    usage: "<basis points>",
+    summary: "setDefaultQuorum on voting",
+    async plan(record, provider, params) {
+      requireParams("set-default-quorum", this.usage, params, 1);
+      const quorum = parseBps(params[0], "The quorum", 1n, BASIS_POINTS);
+      const voting = requireContract(record, "voting", provider);
+      const current: bigint = await voting.defaultQuorum();
+      if (current === quorum) return [];
+      return [
+        {
+          contract: "voting",
+          method: "setDefaultQuorum",
+          args: [quorum.toString()],
+          description: `Set voting.defaultQuorum to ${quorum}`,
+          before: formatBps(current),
+          after: formatBps(quorum),
+        },
+      ];
+    },
+  },
+  {
+    name: "update-kyc",
+    usage: `<account> <${KYC_STATUSES.join("|")}> [expiry unix time]`,
+    summary: `updateKYCStatus on dealRoom (Verified expires in ${DEFAULT_KYC_VALIDITY_DAYS} days by default)`,
+    async plan(record, provider, params) {
+      requireParams("update-kyc", this.usage, params, 2);
+      const account = parseAccount(params[0]);
+      const status = KYC_STATUSES.indexOf(params[1] as (typeof KYC_STATUSES)[number]);
+      if (status === -1) {
+        throw new Error(`Unknown KYC status ${params[1]} (use ${KYC_STATUSES.join(", ")})`);
+      }
+      let expiry: bigint;
+      if (params[2] !== undefined) {
+        if (!/^\d+$/.test(params[2])) {
+          throw new Error(`Expiry ${params[2]} must be a unix timestamp in seconds`);
+        }
+        expiry = BigInt(params[2]);
+      } else if (KYC_STATUSES[status] === "Verified") {
+        const block = await provider.getBlock("latest");
+        expiry = BigInt(block!.timestamp) + BigInt(DEFAULT_KYC_VALIDITY_DAYS * 24 * 60 * 60);
+      } else {
+        expiry = 0n;
+      }
+
+      const dealRoom = requireContract(record, "dealRoom", provider);
+      // kycData is public; getKYCStatus only answers the user or an admin
+      const current = await dealRoom.kycData(account);
+      if (Number(current.status) === status && current.expiryDate === expiry) return [];
+      const describe = (value: bigint, expiresAt: bigint) =>
+        `${KYC_STATUSES[Number(value)]}${
+          expiresAt > 0n ? `, expires ${new Date(Number(expiresAt) * 1000).toISOString()}` : ""
+        }`;
+      return [
+        {
+          contract: "dealRoom",
+          method: "updateKYCStatus",
+          args: [account, status.toString(), expiry.toString()],
+          description: `Set KYC of ${account} to ${KYC_STATUSES[status]}`,
+          before: describe(current.status, current.expiryDate),
+          after: describe(BigInt(status), expiry),
+        },
+      ];
+    },
+  },
+  {
+    name: "emergency-withdraw",
+    usage: "<project id>",
+    summary: "triggerEmergencyWithdraw on escrow: cancels the project and lets investors withdraw",
+    async plan(record, provider, params) {
+      requireParams("emergency-withdraw", this.usage, params, 1);
+      if (!/^\d+$/.test(params[0])) {
+        throw new Error(`Project id ${params[0]} must be a number`);
+      }
+      const escrow = requireContract(record, "escrow", provider);
+      const project = await escrow.projects(params[0]);
+      if (project.creator === Ethers.ZeroAddress) {
+        throw new Error(`Project ${params[0]} does not exist`);
+      }
+      if (project.emergencyWithdrawEnabled) return [];
+      if (PROJECT_STATUSES[Number(project.status)] === "Failed") {
+        throw new Error(`Project ${params[0]} failed; its investors claim refunds with claimRefund`);
+      }
+      return [
+        {
+          contract: "escrow",
+          method: "triggerEmergencyWithdraw",
+          args: [params[0]],
+          description: `Enable emergency withdrawal for project ${params[0]} (${project.title})`,
+          before: `${PROJECT_STATUSES[Number(project.status)]}, emergency withdrawal off`,
+          after: "Cancelled, emergency withdrawal on",
+        },
+      ];
+    },
+  },
+  roleCommand("grant-role", true),
+  roleCommand("revoke-role", false),
+];
+
+export function findAdminCommand(name: string): AdminCommand {
+  const command = ADMIN_COMMANDS.find((candidate) => candidate.name === name);
+  if (!command) {
+    throw new Error(
+      `Unknown command ${name} (use ${ADMIN_COMMANDS.map((c) => c.name).join(", ")})`
+    );
+  }
+  return command;
+}
+
+/**
+ * Send the planned calls in order, stopping at the first failure
+ */
+export async function applyAdminCalls(
+  calls: AdminCall[],
+  record: DeploymentRecord,
+  signer: Ethers.Signer,
+  log: (message: string) => void = console.log
+): Promise<void> {
+  for (const call of calls) {
+    const contract = contractAt(record, call.contract, signer)!;
+    const tx = await contract[call.method](...call.args);
+    await tx.wait();
+    log(`✅ ${call.description} (${tx.hash})`);
+  }
+}
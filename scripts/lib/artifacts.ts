@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+export interface ContractArtifact {
+  contractName: string;
+  sourceName: string;
+  abi: any[];
+  bytecode: string;
+  deployedBytecode: string;
+  buildInfoId?: string;
+}
+
+export interface CompilerSettings {
+  version: string;
+  optimizer: { enabled: boolean; runs: number };
+  viaIR: boolean;
+  evmVersion: string;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const ARTIFACTS_DIR = path.join(__dirname, "../../artifacts/contracts");
+export const BUILD_INFO_DIR = path.join(__dirname, "../../artifacts/build-info");
+
+/**
+ * Load a compiled artifact by contract name (expects `<Name>.sol/<Name>.json`)
+ */
+export function loadArtifact(contractName: string): ContractArtifact {
+  const artifactPath = path.join(
+    ARTIFACTS_DIR,
+    `${contractName}.sol`,
+    `${contractName}.json`
+  );
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(
+      `Artifact for ${contractName} not found at ${artifactPath}. Run \`npx hardhat compile\` first.`
+    );
+  }
+  return JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+}
+
+/**
+ * Read the solc version and the bytecode-affecting settings an artifact was
+ * compiled with from its build info, or undefined when the build info is gone
+ */
+export function loadCompilerSettings(
+  artifact: ContractArtifact
+): CompilerSettings | undefined {
+  if (!artifact.buildInfoId) {
+    return undefined;
+  }
+  const buildInfoPath = path.join(BUILD_INFO_DIR, `${artifact.buildInfoId}.json`);
+  if (!fs.existsSync(buildInfoPath)) {
+    return undefined;
+  }
+  const buildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf8"));
+  const settings = buildInfo.input.settings;
+  return {
+    version: buildInfo.solcLongVersion,
+    optimizer: {
+      enabled: settings.optimizer?.enabled ?? false,
+      runs: settings.optimizer?.runs ?? 200,
+    },
+    viaIR: settings.viaIR ?? false,
+    evmVersion: settings.evmVersion ?? "default",
+  };
+}
+
+/**
+ * Deployment record keys mapped to the contract each one holds
+ */
+export const CONTRACT_NAMES = {
+  mockERC20: "MockERC20",
+  counter: "Counter",
+  escrow: "Escrow",
+  investmentNFT: "InvestmentNFT",
+  voting: "Voting",
+  dealRoom: "DealRoom",
+} as const;
+
+export type ContractKey = keyof typeof CONTRACT_NAMES;
@@ -0,0 +1,332 @@
+import { execSync } from "child_process";
+import { ethers as Ethers } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+import { getNetworkDefinition } from "../../config/networks.js";
+import {
+  CONTRACT_NAMES,
+  CompilerSettings,
+  ContractArtifact,
+  ContractKey,
+  loadCompilerSettings,
+} from "./artifacts.js";
+
+export const DEPLOYMENT_SCHEMA_VERSION = 1;
+
+/**
+ * Flat record written before the schema was versioned (schema version 0)
+ */
+export interface LegacyDeploymentRecord {
+  mockERC20: string;
+  counter: string;
+  investmentNFT: string;
+  escrow: string;
+  voting: string;
+  dealRoom: string;
+  network: string;
+  deployer: string;
+  timestamp: number;
+}
+
+/**
+ * Everything known about one deployed contract. Fields that legacy records
+ * never captured are null after migration.
+ */
+export interface ContractDeployment {
+  contractName: string;
+  address: string;
+  transactionHash: string | null;
+  blockNumber: number | null;
+  constructorArgs: unknown[] | null;
+  compiler: CompilerSettings | null;
+  bytecodeHash: string | null;
+}
+
+export interface DeploymentRecord {
+  schemaVersion: typeof DEPLOYMENT_SCHEMA_VERSION;
+  network: string;
+  chainId: number | null;
+  deployer: string;
+  timestamp: number;
+  gitCommit: string | null;
+  contracts: Partial<Record<ContractKey, ContractDeployment>>;
+}
+
+export interface ExistingDeploymentStatus {
+  reuse: boolean;
+  reason: string;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "../../deployments");
+
+export const DEFAULT_BASE_URI = "https://ipfs.io/ipfs/";
+
+/**
+ * Contract addresses of a record keyed like `CONTRACT_NAMES`
+ */
+export function deploymentAddresses(
+  record: DeploymentRecord
+): Partial<Record<ContractKey, string>> {
+  const addresses: Partial<Record<ContractKey, string>> = {};
+  for (const [key, contract] of Object.entries(record.contracts)) {
+    addresses[key as ContractKey] = contract.address;
+  }
+  return addresses;
+}
+
+/**
+ * Rebuild the constructor arguments `scripts/deploy.ts` uses for a contract.
+ * Environment overrides (FEE_RECIPIENT, GOVERNANCE_TOKEN, NFT_CONTRACT) take
+ * precedence over addresses from the record, exactly as during deployment.
+ */
+export function constructorArgsFor(
+  key: ContractKey,
+  record: DeploymentRecord,
+  env: NodeJS.ProcessEnv = process.env
+): unknown[] {
+  const addresses = deploymentAddresses(record);
+  const feeRecipient = env.FEE_RECIPIENT || record.deployer;
+
+  switch (key) {
+    case "mockERC20":
+      return ["Test Token", "TST", Ethers.parseEther("1000000")];
+    case "escrow":
+      return [feeRecipient];
+    case "investmentNFT":
+      return [DEFAULT_BASE_URI, feeRecipient, addresses.escrow];
+    case "voting":
+      return [
+        env.GOVERNANCE_TOKEN || addresses.mockERC20,
+        addresses.escrow,
+        env.NFT_CONTRACT || addresses.investmentNFT,
+      ];
+    case "counter":
+    case "dealRoom":
+      return [];
+  }
+}
+
+export function latestDeploymentPath(
+  networkName: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): string {
+  return path.join(deploymentsDir, `${networkName}-latest.json`);
+}
+
+/**
+ * Bring a parsed record of any known schema version up to the current one
+ */
+export function migrateDeploymentRecord(raw: any): DeploymentRecord {
+  const version = raw.schemaVersion ?? 0;
+  if (version === DEPLOYMENT_SCHEMA_VERSION) {
+    return raw as DeploymentRecord;
+  }
+  if (version !== 0) {
+    throw new Error(
+      `Unsupported deployment record schema version ${version} (expected ${DEPLOYMENT_SCHEMA_VERSION} or older)`
+    );
+  }
+
+  const legacy = raw as LegacyDeploymentRecord;
+  const contracts: DeploymentRecord["contracts"] = {};
+  for (const [key, contractName] of Object.entries(CONTRACT_NAMES)) {
+    const address = legacy[key as ContractKey];
+    if (!address) continue;
+    contracts[key as ContractKey] = {
+      contractName,
+      address,
+      transactionHash: null,
+      blockNumber: null,
+      constructorArgs: null,
+      compiler: null,
+      bytecodeHash: null,
+    };
+  }
+
+  return {
+    schemaVersion: DEPLOYMENT_SCHEMA_VERSION,
+    network: legacy.network,
+    chainId: getNetworkDefinition(legacy.network)?.chainId ?? null,
+    deployer: legacy.deployer,
+    timestamp: legacy.timestamp,
+    gitCommit: null,
+    contracts,
+  };
+}
+
+/**
+ * Read a deployment record from an explicit file path, migrating old formats
+ */
+export function readDeploymentFile(filePath: string): DeploymentRecord {
+  return migrateDeploymentRecord(JSON.parse(fs.readFileSync(filePath, "utf8")));
+}
+
+/**
+ * Read `<network>-latest.json`, or undefined when nothing was deployed yet
+ */
+export function readLatestDeployment(
+  networkName: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): DeploymentRecord | undefined {
+  const latestFile = latestDeploymentPath(networkName, deploymentsDir);
+  if (!fs.existsSync(latestFile)) {
+    return undefined;
+  }
+  return readDeploymentFile(latestFile);
+}
+
+/**
+ * Overwrite `<network>-latest.json` with the current record
+ */
+export function writeLatestDeployment(
+  record: DeploymentRecord,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): string {
+  if (!fs.existsSync(deploymentsDir)) {
+    fs.mkdirSync(deploymentsDir, { recursive: true });
+  }
+  const latestFile = latestDeploymentPath(record.network, deploymentsDir);
+  fs.writeFileSync(latestFile, JSON.stringify(record, null, 2));
+  return latestFile;
+}
+
+/**
+ * Write an immutable `<network>-<timestamp>.json` snapshot of the record
+ */
+export function writeDeploymentSnapshot(
+  record: DeploymentRecord,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): string {
+  if (!fs.existsSync(deploymentsDir)) {
+    fs.mkdirSync(deploymentsDir, { recursive: true });
+  }
+  const snapshotFile = path.join(
+    deploymentsDir,
+    `${record.network}-${Date.now()}.json`
+  );
+  fs.writeFileSync(snapshotFile, JSON.stringify(record, null, 2));
+  return snapshotFile;
+}
+
+/**
+ * Commit the working tree is checked out at, or null outside a git checkout
+ */
+export function currentGitCommit(): string | null {
+  try {
+    return execSync("git rev-parse HEAD", {
+      cwd: __dirname,
+      stdio: ["ignore", "pipe", "ignore"],
+    })
+      .toString()
+      .trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hash of an artifact's runtime bytecode, used to tell builds apart
+ */
+export function bytecodeHash(artifact: ContractArtifact): string {
+  return Ethers.keccak256(artifact.deployedBytecode);
+}
+
+// JSON has no bigint, so amounts are stored as decimal strings; ethers and
+// viem both accept those wherever a uint is expected
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  return value;
+}
+
+/**
+ * Build the record entry for a contract deployed in this run from its
+ * deployment transaction receipt
+ */
+export async function describeDeployment(
+  contract: Ethers.BaseContract,
+  artifact: ContractArtifact,
+  constructorArgs: unknown[]
+): Promise<ContractDeployment> {
+  const receipt = await contract.deploymentTransaction()?.wait();
+  return {
+    contractName: artifact.contractName,
+    address: await contract.getAddress(),
+    transactionHash: receipt?.hash ?? null,
+    blockNumber: receipt?.blockNumber ?? null,
+    constructorArgs: constructorArgs.map(toJsonValue),
+    compiler: loadCompilerSettings(artifact) ?? null,
+    bytecodeHash: bytecodeHash(artifact),
+  };
+}
+
+// Addresses compare case-insensitively; everything else as stored in JSON
+function normalizeArg(value: unknown): unknown {
+  const json = toJsonValue(value);
+  if (Array.isArray(json)) return json.map(normalizeArg);
+  if (typeof json === "string" && Ethers.isAddress(json)) return json.toLowerCase();
+  return json;
+}
+
+/**
+ * Whether recorded constructor arguments match the ones a deployment would use now
+ */
+export function sameConstructorArgs(recorded: unknown[], current: unknown[]): boolean {
+  return (
+    JSON.stringify(recorded.map(normalizeArg)) ===
+    JSON.stringify(current.map(normalizeArg))
+  );
+}
+
+/**
+ * Decide whether a previously recorded contract can be reused: it must hold
+ * exactly the runtime bytecode of the current artifact and have been
+ * constructed with the arguments a deployment would use now. Legacy records
+ * never captured their arguments, so only their code is checked.
+ */
+export async function checkExistingDeployment(
+  provider: Ethers.Provider,
+  deployment: ContractDeployment | undefined,
+  artifact: ContractArtifact,
+  constructorArgs: unknown[]
+): Promise<ExistingDeploymentStatus> {
+  const address = deployment?.address;
+  if (!address) {
+    return { reuse: false, reason: "no address in previous deployment record" };
+  }
+
+  const code = await provider.getCode(address);
+  if (code === "0x") {
+    return {
+      reuse: false,
+      reason: `no code at recorded address ${address}`,
+    };
+  }
+  if (code.toLowerCase() !== artifact.deployedBytecode.toLowerCase()) {
+    return {
+      reuse: false,
+      reason: `code at ${address} differs from the current ${artifact.contractName} artifact`,
+    };
+  }
+  if (deployment.constructorArgs === null) {
+    return {
+      reuse: true,
+      reason: `code at ${address} matches the current artifact (constructor arguments were not recorded)`,
+    };
+  }
+  if (!sameConstructorArgs(deployment.constructorArgs, constructorArgs)) {
+    return {
+      reuse: false,
+      reason: `constructor arguments of ${address} differ from the current configuration`,
+    };
+  }
+  return {
+    reuse: true,
+    reason: `code at ${address} matches the current artifact`,
+  };
+}
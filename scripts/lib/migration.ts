@@ -0,0 +1,351 @@
+import { ethers as Ethers } from "ethers";
+
+import { CONTRACT_NAMES, ContractKey, loadArtifact } from "./artifacts.js";
+import { DeploymentRecord } from "./deployment.js";
+
+/**
+ * A configuration value read from the live contract and written back with
+ * `setter`; `read` resolves to undefined when the contract predates it
+ */
+export interface MigratedSetting {
+  contract: ContractKey;
+  name: string;
+  setter: string;
+  read(contract: Ethers.Contract): Promise<string | undefined>;
+}
+
+/**
+ * Configuration values and role holders keyed like `escrow.feeRecipient`
+ * and `escrow.VALIDATOR_ROLE`; holders are sorted lowercase addresses
+ */
+export type ConfigSnapshot = Record<string, string | string[]>;
+
+export interface MigrationAction {
+  contract: ContractKey;
+  method: string;
+  args: string[];
+  description: string;
+}
+
+export interface ConfigChange {
+  key: string;
+  before: string | string[] | undefined;
+  after: string | string[] | undefined;
+}
+
+const getter =
+  (name: string) =>
+  async (contract: Ethers.Contract): Promise<string> =>
+    (await contract[name]()).toString();
+
+// For settings older deployments have no getter for
+const optionalGetter =
+  (name: string) =>
+  async (contract: Ethers.Contract): Promise<string | undefined> => {
+    try {
+      return (await contract[name]()).toString();
+    } catch {
+      return undefined;
+    }
+  };
+
+export const MIGRATED_SETTINGS: MigratedSetting[] = [
+  {
+    contract: "escrow",
+    name: "platformFeePercentage",
+    setter: "setPlatformFee",
+    read: getter("platformFeePercentage"),
+  },
+  {
+    contract: "escrow",
+    name: "feeRecipient",
+    setter: "setFeeRecipient",
+    read: getter("feeRecipient"),
+  },
+  {
+    contract: "escrow",
+    name: "investmentNFT",
+    setter: "setInvestmentNFT",
+    read: optionalGetter("investmentNFT"),
+  },
+  {
+    contract: "investmentNFT",
+    name: "marketplaceFee",
+    setter: "setMarketplaceFee",
+    read: getter("marketplaceFee"),
+  },
+  {
+    contract: "investmentNFT",
+    name: "feeRecipient",
+    setter: "setFeeRecipient",
+    read: getter("feeRecipient"),
+  },
+  {
+    contract: "investmentNFT",
+    name: "baseURI",
+    setter: "setBaseURI",
+    read: async (contract) => {
+      try {
+        return await contract.baseURI();
+      } catch {
+        // Deployed before baseURI had a getter: no project can take the
+        // largest token id, so its uri is baseURI followed by that id
+        const suffix = Ethers.MaxUint256.toString();
+        const uri = (await contract.uri(Ethers.MaxUint256)) as string;
+        return uri.slice(0, -suffix.length);
+      }
+    },
+  },
+  {
+    contract: "investmentNFT",
+    name: "escrowContract",
+    setter: "setEscrowContract",
+    read: getter("escrowContract"),
+  },
+  {
+    contract: "voting",
+    name: "defaultQuorum",
+    setter: "setDefaultQuorum",
+    read: getter("defaultQuorum"),
+  },
+  {
+    contract: "voting",
+    name: "escrowContract",
+    setter: "setEscrowContract",
+    read: getter("escrowContract"),
+  },
+  {
+    contract: "voting",
+    name: "nftContract",
+    setter: "setNFTContract",
+    read: getter("nftContract"),
+  },
+];
+
+/**
+ * Contracts whose role grants are carried over
+ */
+export const ROLE_CONTRACTS: ContractKey[] = [
+  "escrow",
+  "investmentNFT",
+  "voting",
+  "dealRoom",
+];
+
+// Public RPC endpoints cap the block range of a single eth_getLogs call
+export const LOG_CHUNK_SIZE = 10_000;
+
+/**
+ * The `*_ROLE` constants a contract's ABI exposes
+ */
+export function roleNames(key: ContractKey): string[] {
+  return loadArtifact(CONTRACT_NAMES[key])
+    .abi.filter((item) => item.type === "function" && /_ROLE$/.test(item.name))
+    .map((item) => item.name);
+}
+
+export function roleHash(name: string): string {
+  return name === "DEFAULT_ADMIN_ROLE"
+    ? Ethers.ZeroHash
+    : Ethers.keccak256(Ethers.toUtf8Bytes(name));
+}
+
+export function contractAt(
+  record: DeploymentRecord,
+  key: ContractKey,
+  runner: Ethers.ContractRunner
+): Ethers.Contract | undefined {
+  const address = record.contracts[key]?.address;
+  if (!address) return undefined;
+  return new Ethers.Contract(address, loadArtifact(CONTRACT_NAMES[key]).abi, runner);
+}
+
+async function readRoleHolders(
+  contract: Ethers.Contract,
+  role: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<string[]> {
+  // Grant events only name candidates; hasRole decides who still holds it
+  const candidates = new Set<string>();
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+    const end = Math.min(start + LOG_CHUNK_SIZE - 1, toBlock);
+    const events = await contract.queryFilter(
+      contract.filters.RoleGranted(role),
+      start,
+      end
+    );
+    for (const event of events) {
+      candidates.add((event as Ethers.EventLog).args.account.toLowerCase());
+    }
+  }
+
+  const holders: string[] = [];
+  for (const account of candidates) {
+    if (await contract.hasRole(role, account)) holders.push(account);
+  }
+  return holders.sort();
+}
+
+/**
+ * Read the migrated settings and every role's current holders from the live
+ * contracts of a deployment record. Role grants are found from `RoleGranted`
+ * events starting at each contract's recorded deployment block.
+ */
+export async function readConfigSnapshot(
+  record: DeploymentRecord,
+  provider: Ethers.Provider
+): Promise<ConfigSnapshot> {
+  const snapshot: ConfigSnapshot = {};
+  const latest = await provider.getBlockNumber();
+
+  for (const setting of MIGRATED_SETTINGS) {
+    const contract = contractAt(record, setting.contract, provider);
+    if (!contract) continue;
+    const value = await setting.read(contract);
+    if (value === undefined) continue;
+    snapshot[`${setting.contract}.${setting.name}`] = Ethers.isAddress(value)
+      ? value.toLowerCase()
+      : value;
+  }
+
+  for (const key of ROLE_CONTRACTS) {
+    const contract = contractAt(record, key, provider);
+    if (!contract) continue;
+    const fromBlock = record.contracts[key]?.blockNumber ?? 0;
+    for (const name of roleNames(key)) {
+      snapshot[`${key}.${name}`] = await readRoleHolders(
+        contract,
+        roleHash(name),
+        fromBlock,
+        latest
+      );
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Old contract address → new contract address for every redeployed contract
+ */
+export function addressMapping(
+  from: DeploymentRecord,
+  to: DeploymentRecord
+): Map<string, string> {
+  const mapping = new Map<string, string>();
+  for (const key of Object.keys(CONTRACT_NAMES) as ContractKey[]) {
+    const oldAddress = from.contracts[key]?.address.toLowerCase();
+    const newAddress = to.contracts[key]?.address.toLowerCase();
+    if (oldAddress && newAddress && oldAddress !== newAddress) {
+      mapping.set(oldAddress, newAddress);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Work out the calls that make the new deployment match the old one. Values
+ * and role holders that point at a redeployed contract are re-pointed to its
+ * replacement, and the replaced contract loses the roles it held.
+ */
+export function planMigration(
+  from: ConfigSnapshot,
+  to: ConfigSnapshot,
+  mapping: Map<string, string>
+): MigrationAction[] {
+  const remap = (value: string) => mapping.get(value) ?? value;
+  const actions: MigrationAction[] = [];
+
+  for (const setting of MIGRATED_SETTINGS) {
+    const key = `${setting.contract}.${setting.name}`;
+    const oldValue = from[key];
+    const newValue = to[key];
+    if (typeof oldValue !== "string" || newValue === undefined) continue;
+
+    // Setters reject the zero address, and an unset value has nothing to carry over
+    const wanted = remap(oldValue);
+    if (wanted === Ethers.ZeroAddress) continue;
+    if (wanted !== newValue) {
+      actions.push({
+        contract: setting.contract,
+        method: setting.setter,
+        args: [wanted],
+        description: `${key}: ${newValue} → ${wanted}`,
+      });
+    }
+  }
+
+  for (const key of Object.keys(to)) {
+    const oldHolders = from[key];
+    const newHolders = to[key];
+    if (!Array.isArray(oldHolders) || !Array.isArray(newHolders)) continue;
+    const [contract, name] = key.split(".") as [ContractKey, string];
+
+    for (const holder of oldHolders.map(remap)) {
+      if (newHolders.includes(holder)) continue;
+      actions.push({
+        contract,
+        method: "grantRole",
+        args: [roleHash(name), holder],
+        description: `${key}: grant to ${holder}`,
+      });
+    }
+    for (const holder of newHolders) {
+      if (!mapping.has(holder)) continue;
+      actions.push({
+        contract,
+        method: "revokeRole",
+        args: [roleHash(name), holder],
+        description: `${key}: revoke from replaced contract ${holder}`,
+      });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Send each planned call to the new deployment
+ */
+export async function applyMigration(
+  actions: MigrationAction[],
+  record: DeploymentRecord,
+  signer: Ethers.Signer,
+  log: (message: string) => void = console.log
+): Promise<void> {
+  for (const action of actions) {
+    const contract = contractAt(record, action.contract, signer);
+    if (!contract) {
+      throw new Error(
+        `Migration targets ${action.contract}, which is not in the new deployment`
+      );
+    }
+    const tx = await contract[action.method](...action.args);
+    await tx.wait();
+    const icon =
+      action.method === "grantRole"
+        ? "🔑"
+        : action.method === "revokeRole"
+        ? "🚫"
+        : "🔧";
+    log(`${icon} ${action.description}`);
+  }
+}
+
+/**
+ * Entries whose value differs between two snapshots
+ */
+export function diffConfig(
+  before: ConfigSnapshot,
+  after: ConfigSnapshot
+): ConfigChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: ConfigChange[] = [];
+  for (const key of keys) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes.push({ key, before: before[key], after: after[key] });
+    }
+  }
+  return changes;
+}
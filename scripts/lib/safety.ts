@@ -0,0 +1,129 @@
+import { ethers as Ethers } from "ethers";
+import * as readline from "readline/promises";
+
+import { NETWORKS } from "../../config/networks.js";
+import { ContractKey } from "./artifacts.js";
+
+/**
+ * Networks that always deploy with the production profile: every registry
+ * network that is not a testnet
+ */
+export const PRODUCTION_NETWORKS: string[] = Object.entries(NETWORKS)
+  .filter(([, definition]) => !definition.testnet)
+  .map(([name]) => name);
+
+/**
+ * Contracts that only exist for local and testnet deployments
+ */
+export const MOCK_CONTRACTS: ContractKey[] = ["mockERC20", "counter"];
+
+export interface ProductionSettings {
+  governanceToken: string;
+  feeRecipient: string;
+}
+
+/**
+ * The production profile applies to mainnets, and to any other network when
+ * `--production` is passed (e.g. to rehearse a mainnet run on a testnet)
+ */
+export function isProductionProfile(
+  networkName: string,
+  argv: string[] = process.argv
+): boolean {
+  return PRODUCTION_NETWORKS.includes(networkName) || argv.includes("--production");
+}
+
+function isChecksummedAddress(value: string): boolean {
+  try {
+    // An all-lowercase address carries no checksum, so it proves nothing
+    return value !== value.toLowerCase() && Ethers.getAddress(value) === value;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the explicit settings a production deployment needs instead of the
+ * development fallbacks (MockERC20, deployer as fee recipient). Every problem
+ * is reported in a single error.
+ */
+export async function checkProductionEnvironment(
+  provider: Ethers.Provider,
+  deployer: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ProductionSettings> {
+  const problems: string[] = [];
+  const governanceToken = env.GOVERNANCE_TOKEN ?? "";
+  const feeRecipient = env.FEE_RECIPIENT ?? "";
+
+  if (!governanceToken) {
+    problems.push("GOVERNANCE_TOKEN is required (MockERC20 is never deployed in production)");
+  } else if (!Ethers.isAddress(governanceToken)) {
+    problems.push(`GOVERNANCE_TOKEN ${governanceToken} is not an address`);
+  } else if ((await provider.getCode(governanceToken)) === "0x") {
+    problems.push(`GOVERNANCE_TOKEN ${governanceToken} has no contract code`);
+  } else {
+    const token = new Ethers.Contract(
+      governanceToken,
+      ["function totalSupply() view returns (uint256)"],
+      provider
+    );
+    try {
+      await token.totalSupply();
+    } catch {
+      problems.push(`GOVERNANCE_TOKEN ${governanceToken} does not implement ERC20 totalSupply()`);
+    }
+  }
+
+  if (!feeRecipient) {
+    problems.push("FEE_RECIPIENT is required (the deployer is never used as fee recipient in production)");
+  } else if (!isChecksummedAddress(feeRecipient)) {
+    problems.push(
+      `FEE_RECIPIENT ${feeRecipient} is not a verified address: give it in EIP-55 checksummed form`
+    );
+  } else if (feeRecipient.toLowerCase() === deployer.toLowerCase()) {
+    problems.push("FEE_RECIPIENT cannot be the deployer account");
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Production profile checks failed:\n${problems.map((p) => `  - ${p}`).join("\n")}`
+    );
+  }
+  return { governanceToken, feeRecipient };
+}
+
+/**
+ * Compare a typed confirmation against the chain ID the RPC endpoint reports
+ */
+export function checkChainIdConfirmation(
+  chainId: bigint | number,
+  typed: string | undefined
+): void {
+  // The expected ID is never echoed, so a retry can't just copy it
+  if (typed?.trim() !== chainId.toString()) {
+    throw new Error(
+      `Chain ID confirmation failed: got ${typed?.trim() || "nothing"}, which is not the connected chain ID`
+    );
+  }
+}
+
+/**
+ * Ask the operator to type the chain ID before anything is sent. The prompt
+ * doesn't show the ID: the operator has to know which chain they target
+ */
+export async function promptChainIdConfirmation(
+  networkName: string
+): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    return await rl.question(
+      `⚠️  Production deployment to ${networkName}. Type its chain ID to continue: `
+    );
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,154 @@
+import { ethers as Ethers } from "ethers";
+import * as fs from "fs";
+import { configVariable } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import * as readline from "readline/promises";
+import { Writable } from "stream";
+
+export type SignerSource = "keystore" | "json" | "env";
+
+export interface SignerOptions {
+  source?: SignerSource;
+  /** Hardhat keystore key and environment variable holding the private key */
+  keyName?: string;
+  /** Encrypted JSON keystore file (implies the `json` source) */
+  keystoreFile?: string;
+  /** Password for the JSON keystore; prompted for when missing */
+  password?: string;
+  /** Refuse a plaintext private key from the environment */
+  forbidEnvKey?: boolean;
+  env?: NodeJS.ProcessEnv;
+}
+
+export const DEFAULT_KEY_NAME = "DEPLOYER_PRIVATE_KEY";
+
+function getArg(argv: string[], name: string): string | undefined {
+  const idx = argv.indexOf(name);
+  return idx !== -1 ? argv[idx + 1] : undefined;
+}
+
+/**
+ * Read the shared signer flags (`--signer`, `--keystore-file`, `--key-name`)
+ * with DEPLOYER_KEYSTORE_FILE / DEPLOYER_KEYSTORE_PASSWORD as fallbacks
+ */
+export function signerOptionsFromArgs(
+  argv: string[] = process.argv,
+  env: NodeJS.ProcessEnv = process.env
+): SignerOptions {
+  const source = getArg(argv, "--signer");
+  if (source && source !== "keystore" && source !== "json" && source !== "env") {
+    throw new Error(`Unknown signer source ${source} (use keystore, json or env)`);
+  }
+  return {
+    source: source as SignerSource | undefined,
+    keyName: getArg(argv, "--key-name"),
+    keystoreFile: getArg(argv, "--keystore-file") ?? env.DEPLOYER_KEYSTORE_FILE,
+    password: env.DEPLOYER_KEYSTORE_PASSWORD,
+    env,
+  };
+}
+
+/**
+ * Pick the signer source when none was requested: an encrypted JSON file if
+ * one is configured, the environment key if set, else the Hardhat keystore
+ */
+export function resolveSignerSource(options: SignerOptions): SignerSource {
+  const env = options.env ?? process.env;
+  if (options.source) return options.source;
+  if (options.keystoreFile) return "json";
+  if (env[options.keyName ?? DEFAULT_KEY_NAME]) return "env";
+  return "keystore";
+}
+
+/**
+ * Ask for a secret on the terminal without echoing it
+ */
+export async function promptSecret(question: string): Promise<string> {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stdout.write(chunk, encoding);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output,
+    terminal: true,
+  });
+  try {
+    const answer = rl.question(question);
+    muted = true;
+    return await answer;
+  } finally {
+    rl.close();
+    process.stdout.write("\n");
+  }
+}
+
+/**
+ * Read a value from the Hardhat keystore (`npx hardhat keystore set <name>`),
+ * which prompts for the keystore password itself. Undefined when missing.
+ */
+export async function readKeystoreValue(
+  hre: HardhatRuntimeEnvironment,
+  name: string
+): Promise<string | undefined> {
+  const value = await hre.hooks.runHandlerChain(
+    "configurationVariables",
+    "fetchValue",
+    [configVariable(name)],
+    // Reached only when no keystore holds the key
+    async () => ""
+  );
+  return value || undefined;
+}
+
+/**
+ * Load the private key for scripts from the Hardhat keystore, an encrypted
+ * JSON keystore file or the environment, and connect it to `provider`
+ */
+export async function loadSigner(
+  provider: Ethers.Provider | null,
+  hre: HardhatRuntimeEnvironment,
+  options: SignerOptions = {}
+): Promise<Ethers.Wallet> {
+  const env = options.env ?? process.env;
+  const keyName = options.keyName ?? DEFAULT_KEY_NAME;
+  const source = resolveSignerSource(options);
+
+  switch (source) {
+    case "env": {
+      if (options.forbidEnvKey) {
+        throw new Error(
+          `Refusing a plaintext ${keyName} from the environment; use --signer keystore or --keystore-file`
+        );
+      }
+      const privateKey = env[keyName];
+      if (!privateKey) {
+        throw new Error(`${keyName} is not set in environment`);
+      }
+      return new Ethers.Wallet(privateKey, provider);
+    }
+    case "json": {
+      if (!options.keystoreFile) {
+        throw new Error("Pass --keystore-file <path> to use an encrypted JSON keystore");
+      }
+      const json = fs.readFileSync(options.keystoreFile, "utf8");
+      const password =
+        options.password ??
+        (await promptSecret(`🔐 Password for ${options.keystoreFile}: `));
+      const account = await Ethers.decryptKeystoreJson(json, password);
+      return new Ethers.Wallet(account.privateKey, provider);
+    }
+    case "keystore": {
+      const privateKey = await readKeystoreValue(hre, keyName);
+      if (!privateKey) {
+        throw new Error(
+          `${keyName} not found in the Hardhat keystore; run \`npx hardhat keystore set ${keyName}\``
+        );
+      }
+      return new Ethers.Wallet(privateKey, provider);
+    }
+  }
+}
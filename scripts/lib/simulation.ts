@@ -0,0 +1,122 @@
+import { ethers as Ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+
+import { DeploymentRecord } from "./deployment.js";
+
+// EIP-170 runtime code size limit
+export const MAX_CONTRACT_SIZE = 24576;
+
+export interface SimulatedChain {
+  provider: Ethers.BrowserProvider;
+  close(): Promise<void>;
+}
+
+export interface ContractCost {
+  contract: string;
+  address: string;
+  gasUsed: bigint;
+  size: number;
+  reused: boolean;
+}
+
+export interface DeploymentCostEstimate {
+  contracts: ContractCost[];
+  wiringGas: bigint;
+  totalGas: bigint;
+  gasPrice: bigint;
+  totalCost: bigint;
+  oversized: string[];
+}
+
+/**
+ * Start an in-process EDR chain for a dry run, optionally forked from the
+ * target network so previously deployed contracts can be reused. Contract
+ * size limits are lifted so oversized contracts are reported, not rejected.
+ */
+export async function connectSimulatedChain(
+  hre: HardhatRuntimeEnvironment,
+  forkUrl?: string
+): Promise<SimulatedChain> {
+  const connection = await hre.network.connect({
+    network: "hardhat",
+    override: {
+      allowUnlimitedContractSize: true,
+      ...(forkUrl ? { forking: { url: forkUrl } } : {}),
+    },
+  });
+  // Nonces must never be served from cache on an automining chain
+  const provider = new Ethers.BrowserProvider(connection.provider, undefined, {
+    cacheTimeout: -1,
+  });
+  if (forkUrl) {
+    // EDR only knows the hardfork history of a few chains, so move past the
+    // fork block and let every later call run against a local block
+    await provider.send("evm_mine", []);
+  }
+  return { provider, close: () => connection.close() };
+}
+
+/**
+ * Give an account enough native balance on the simulated chain to run the
+ * whole deployment, whatever it holds on the real network
+ */
+export async function fundSimulatedAccount(
+  provider: Ethers.JsonRpcApiProvider,
+  address: string,
+  amount: bigint = Ethers.parseEther("1000000")
+): Promise<void> {
+  await provider.send("hardhat_setBalance", [address, Ethers.toQuantity(amount)]);
+}
+
+/**
+ * Total the gas a dry run spent: per contract from its deployment receipt,
+ * and everything else the deployer sent after `fromBlock` (role grants and
+ * wiring calls) as a single wiring figure.
+ */
+export async function estimateDeploymentCost(
+  provider: Ethers.Provider,
+  record: DeploymentRecord,
+  fromBlock: number,
+  gasPrice: bigint
+): Promise<DeploymentCostEstimate> {
+  const deployer = record.deployer.toLowerCase();
+  let totalGas = 0n;
+  const latest = await provider.getBlockNumber();
+  for (let blockNumber = fromBlock + 1; blockNumber <= latest; blockNumber++) {
+    const block = await provider.getBlock(blockNumber);
+    for (const hash of block?.transactions ?? []) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt && receipt.from.toLowerCase() === deployer) {
+        totalGas += receipt.gasUsed;
+      }
+    }
+  }
+
+  const contracts: ContractCost[] = [];
+  for (const deployment of Object.values(record.contracts)) {
+    const receipt = deployment.transactionHash
+      ? await provider.getTransactionReceipt(deployment.transactionHash)
+      : null;
+    const reused = !receipt || receipt.blockNumber <= fromBlock;
+    const code = await provider.getCode(deployment.address);
+    contracts.push({
+      contract: deployment.contractName,
+      address: deployment.address,
+      gasUsed: reused ? 0n : receipt.gasUsed,
+      size: Ethers.dataLength(code),
+      reused,
+    });
+  }
+
+  const deploymentGas = contracts.reduce((sum, c) => sum + c.gasUsed, 0n);
+  return {
+    contracts,
+    wiringGas: totalGas - deploymentGas,
+    totalGas,
+    gasPrice,
+    totalCost: totalGas * gasPrice,
+    oversized: contracts
+      .filter((c) => c.size > MAX_CONTRACT_SIZE)
+      .map((c) => c.contract),
+  };
+}
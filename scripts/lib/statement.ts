@@ -0,0 +1,199 @@
+import { formatUnits } from "viem";
+
+import { Currency, PortfolioStatement } from "../../sdk/index.js";
+
+export const STATEMENT_FORMATS = ["json", "csv", "html"] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+function amount(value: bigint, currency: Currency): string {
+  return `${formatUnits(value, currency.decimals)} ${currency.symbol}`;
+}
+
+function date(timestamp: bigint | undefined): string {
+  return timestamp === undefined
+    ? ""
+    : new Date(Number(timestamp) * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * The statement as JSON; amounts are decimal strings in base units
+ */
+export function statementToJson(statement: PortfolioStatement): string {
+  return JSON.stringify(
+    statement,
+    (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+    2
+  );
+}
+
+interface Table {
+  title: string;
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Positions, trades and stakes as display tables, amounts formatted with
+ * their currency's decimals
+ */
+export function statementTables(statement: PortfolioStatement): Table[] {
+  const stakeCurrency = statement.governanceToken;
+  return [
+    {
+      title: "Positions",
+      columns: [
+        "Project",
+        "Title",
+        "Status",
+        "Deposited",
+        "Deposit date",
+        "Refunded",
+        "Tokens",
+        "Avg buy price",
+        "Cost basis",
+        "Token value",
+        "Current value",
+        "Dividends claimed",
+        "Dividends unclaimed",
+      ],
+      rows: statement.positions.map((position) => [
+        position.projectId.toString(),
+        position.title,
+        position.status,
+        amount(position.deposited, position.currency),
+        date(position.depositedAt),
+        position.refunded ? "yes" : "no",
+        position.tokens.toString(),
+        amount(position.averageBuyPrice, position.currency),
+        amount(position.costBasis, position.currency),
+        position.currentTokenValue === undefined
+          ? ""
+          : amount(position.currentTokenValue, position.currency),
+        amount(position.currentValue, position.currency),
+        amount(position.dividendsClaimed, position.currency),
+        amount(position.dividendsUnclaimed, position.currency),
+      ]),
+    },
+    {
+      title: "Marketplace trades",
+      columns: [
+        "Block",
+        "Listing",
+        "Project",
+        "Side",
+        "Tokens",
+        "Price per token",
+        "Total",
+        "Counterparty",
+        "Transaction",
+      ],
+      rows: statement.trades.map((trade) => [
+        trade.blockNumber.toString(),
+        trade.listingId.toString(),
+        trade.projectId.toString(),
+        trade.side,
+        trade.amount.toString(),
+        amount(trade.pricePerToken, trade.currency),
+        amount(trade.amount * trade.pricePerToken, trade.currency),
+        trade.side === "buy" ? trade.seller : trade.buyer,
+        trade.transactionHash,
+      ]),
+    },
+    {
+      title: "Voting stakes",
+      columns: [
+        "Proposal",
+        "Description",
+        "Proposal status",
+        "Vote",
+        "Staked",
+        "Weight",
+        "Stake status",
+        "Locked",
+      ],
+      rows: statement.stakes.map((stake) => [
+        stake.proposalId.toString(),
+        stake.description,
+        stake.proposalStatus,
+        stake.vote,
+        amount(stake.amount, stakeCurrency),
+        formatUnits(stake.weight, stakeCurrency.decimals),
+        stake.status,
+        stake.locked ? "yes" : "no",
+      ]),
+    },
+  ];
+}
+
+function csvCell(value: string): string {
+  // Spreadsheets run cells starting with these as formulas; project titles are user input
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV table per section, separated by a blank line
+ */
+export function statementToCsv(statement: PortfolioStatement): string {
+  return statementTables(statement)
+    .map((table) =>
+      [[table.title], table.columns, ...table.rows]
+        .map((row) => row.map(csvCell).join(","))
+        .join("\n")
+    )
+    .join("\n\n")
+    .concat("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlTable(table: Table): string {
+  if (table.rows.length === 0) {
+    return `<h2>${escapeHtml(table.title)}</h2>\n<p>None.</p>`;
+  }
+  const row = (cells: string[], tag: "th" | "td") =>
+    `<tr>${cells.map((cell) => `<${tag}>${escapeHtml(cell)}</${tag}>`).join("")}</tr>`;
+  return [
+    `<h2>${escapeHtml(table.title)}</h2>`,
+    "<table>",
+    `<thead>${row(table.columns, "th")}</thead>`,
+    "<tbody>",
+    ...table.rows.map((cells) => row(cells, "td")),
+    "</tbody>",
+    "</table>",
+  ].join("\n");
+}
+
+/**
+ * A self-contained HTML document laid out for printing to PDF
+ */
+export function statementToHtml(statement: PortfolioStatement, network: string): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Portfolio statement ${statement.account}</title>
+<style>
+  @page { size: A4 landscape; margin: 15mm; }
+  body { font-family: sans-serif; font-size: 10pt; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1em; }
+  th, td { border: 1px solid #999; padding: 3px 5px; text-align: left; word-break: break-all; }
+  th { background: #eee; }
+</style>
+</head>
+<body>
+<h1>Portfolio statement</h1>
+<p>Account: ${statement.account}<br>
+Network: ${escapeHtml(network)} (chain ${statement.chainId})<br>
+As of block ${statement.blockNumber}, ${date(statement.timestamp)}</p>
+${statementTables(statement).map(htmlTable).join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,76 @@
+import { verifyContract } from "@nomicfoundation/hardhat-verify/verify";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+
+import { CONTRACT_NAMES, ContractKey } from "./artifacts.js";
+import { constructorArgsFor, DeploymentRecord } from "./deployment.js";
+
+export type VerificationStatus = "verified" | "skipped" | "failed";
+
+export interface VerificationResult {
+  contract: string;
+  address: string;
+  status: VerificationStatus;
+  message: string;
+}
+
+export interface VerifyDeploymentOptions {
+  provider?: "etherscan" | "blockscout";
+  force?: boolean;
+  only?: ContractKey[];
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Verify every contract in a deployment record, one at a time, and collect a
+ * per-contract result instead of stopping at the first failure. Constructor
+ * arguments come from the record, or are rebuilt for migrated legacy records.
+ */
+export async function verifyDeployment(
+  record: DeploymentRecord,
+  hre: HardhatRuntimeEnvironment,
+  options: VerifyDeploymentOptions = {}
+): Promise<VerificationResult[]> {
+  const keys = options.only ?? (Object.keys(CONTRACT_NAMES) as ContractKey[]);
+  const results: VerificationResult[] = [];
+
+  for (const key of keys) {
+    const name = CONTRACT_NAMES[key];
+    const deployment = record.contracts[key];
+
+    if (!deployment?.address) {
+      results.push({
+        contract: name,
+        address: "",
+        status: "skipped",
+        message: "not in deployment record",
+      });
+      continue;
+    }
+
+    const { address } = deployment;
+    try {
+      await verifyContract(
+        {
+          address,
+          constructorArgs:
+            deployment.constructorArgs ??
+            constructorArgsFor(key, record, options.env),
+          contract: `contracts/${name}.sol:${name}`,
+          force: options.force,
+          provider: options.provider,
+        },
+        hre
+      );
+      results.push({ contract: name, address, status: "verified", message: "ok" });
+    } catch (error) {
+      results.push({
+        contract: name,
+        address,
+        status: "failed",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
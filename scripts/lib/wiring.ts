@@ -0,0 +1,182 @@
+import { ethers as Ethers } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+import { CONTRACT_NAMES, ContractKey, loadArtifact } from "./artifacts.js";
+
+/**
+ * Grant `role` on `contract` to `account`.
+ * `account` may be a deployment key (e.g. "escrow"), "deployer" or an address.
+ */
+export interface RoleGrant {
+  contract: ContractKey;
+  role: string;
+  account: string;
+}
+
+/**
+ * Call `method(args)` on `contract`. When `check` names a getter, the call is
+ * skipped if the getter already returns the first argument, and the getter is
+ * used to verify the result.
+ */
+export interface WiringCall {
+  contract: ContractKey;
+  method: string;
+  args: string[];
+  check?: string;
+}
+
+export interface WiringPlan {
+  roles: RoleGrant[];
+  calls: WiringCall[];
+}
+
+export interface WiringCheck {
+  description: string;
+  ok: boolean;
+}
+
+export type ContractAddresses = Partial<Record<ContractKey, string>>;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const WIRING_DIR = path.join(__dirname, "../wiring");
+
+/**
+ * Load `scripts/wiring/<network>.json`, falling back to `default.json`
+ */
+export function loadWiringPlan(networkName: string): WiringPlan {
+  const networkFile = path.join(WIRING_DIR, `${networkName}.json`);
+  const planFile = fs.existsSync(networkFile)
+    ? networkFile
+    : path.join(WIRING_DIR, "default.json");
+  const plan = JSON.parse(fs.readFileSync(planFile, "utf8")) as WiringPlan;
+  return { roles: plan.roles ?? [], calls: plan.calls ?? [] };
+}
+
+/**
+ * Resolve a plan reference to an address
+ */
+export function resolveReference(
+  ref: string,
+  addresses: ContractAddresses,
+  deployer: string
+): string {
+  if (ref === "deployer") {
+    return deployer;
+  }
+  if (ref in CONTRACT_NAMES) {
+    const address = addresses[ref as ContractKey];
+    if (!address) {
+      throw new Error(`Wiring plan references ${ref}, which was not deployed`);
+    }
+    return address;
+  }
+  if (!Ethers.isAddress(ref)) {
+    throw new Error(`Invalid wiring plan reference: ${ref}`);
+  }
+  return ref;
+}
+
+function getContract(
+  key: ContractKey,
+  addresses: ContractAddresses,
+  runner: Ethers.ContractRunner
+): Ethers.Contract {
+  const address = addresses[key];
+  if (!address) {
+    throw new Error(`Wiring plan targets ${key}, which was not deployed`);
+  }
+  return new Ethers.Contract(address, loadArtifact(CONTRACT_NAMES[key]).abi, runner);
+}
+
+async function isCallApplied(
+  contract: Ethers.Contract,
+  call: WiringCall,
+  expected: string
+): Promise<boolean> {
+  if (!call.check) {
+    return false;
+  }
+  const current: string = await contract[call.check]();
+  return current.toLowerCase() === expected.toLowerCase();
+}
+
+/**
+ * Apply every role grant and wiring call that is not already in place
+ */
+export async function applyWiringPlan(
+  plan: WiringPlan,
+  addresses: ContractAddresses,
+  signer: Ethers.Signer,
+  log: (message: string) => void = console.log
+): Promise<void> {
+  const deployer = await signer.getAddress();
+
+  for (const grant of plan.roles) {
+    const contract = getContract(grant.contract, addresses, signer);
+    const account = resolveReference(grant.account, addresses, deployer);
+    const role: string = await contract[grant.role]();
+
+    if (await contract.hasRole(role, account)) {
+      log(`⏭️  ${grant.contract}.${grant.role} already held by ${grant.account}`);
+      continue;
+    }
+    const tx = await contract.grantRole(role, account);
+    await tx.wait();
+    log(`🔑 ${grant.contract}.${grant.role} granted to ${grant.account}`);
+  }
+
+  for (const call of plan.calls) {
+    const contract = getContract(call.contract, addresses, signer);
+    const args = call.args.map((arg) =>
+      resolveReference(arg, addresses, deployer)
+    );
+
+    if (await isCallApplied(contract, call, args[0])) {
+      log(`⏭️  ${call.contract}.${call.method} already set`);
+      continue;
+    }
+    const tx = await contract[call.method](...args);
+    await tx.wait();
+    log(`🔗 ${call.contract}.${call.method}(${call.args.join(", ")})`);
+  }
+}
+
+/**
+ * Re-read on-chain state and report whether each plan entry holds
+ */
+export async function verifyWiringPlan(
+  plan: WiringPlan,
+  addresses: ContractAddresses,
+  runner: Ethers.ContractRunner,
+  deployer: string
+): Promise<WiringCheck[]> {
+  const checks: WiringCheck[] = [];
+
+  for (const grant of plan.roles) {
+    const contract = getContract(grant.contract, addresses, runner);
+    const account = resolveReference(grant.account, addresses, deployer);
+    const role: string = await contract[grant.role]();
+    checks.push({
+      description: `${grant.contract}.hasRole(${grant.role}, ${grant.account})`,
+      ok: await contract.hasRole(role, account),
+    });
+  }
+
+  for (const call of plan.calls) {
+    if (!call.check) {
+      continue;
+    }
+    const contract = getContract(call.contract, addresses, runner);
+    const expected = resolveReference(call.args[0], addresses, deployer);
+    checks.push({
+      description: `${call.contract}.${call.check}() == ${call.args[0]}`,
+      ok: await isCallApplied(contract, call, expected),
+    });
+  }
+
+  return checks;
+}
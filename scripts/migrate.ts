@@ -0,0 +1,129 @@
+import hre from "hardhat";
+import { ethers as Ethers } from "ethers";
+
+import { rpcUrlFor } from "../config/networks.js";
+import {
+  readDeploymentFile,
+  readLatestDeployment,
+} from "./lib/deployment.js";
+import {
+  addressMapping,
+  applyMigration,
+  ConfigChange,
+  diffConfig,
+  planMigration,
+  readConfigSnapshot,
+} from "./lib/migration.js";
+import { isProductionProfile } from "./lib/safety.js";
+import { loadSigner, signerOptionsFromArgs } from "./lib/signer.js";
+
+function getArg(argv: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const idx = argv.indexOf(name);
+    if (idx !== -1) {
+      return argv[idx + 1];
+    }
+  }
+  return undefined;
+}
+
+function formatValue(value: ConfigChange["before"]): string {
+  if (value === undefined) return "-";
+  return Array.isArray(value) ? `[${value.join(", ")}]` : value;
+}
+
+async function main() {
+  try {
+    const argv = process.argv;
+    const networkName =
+      getArg(argv, "--network", "-n") || process.env.HARDHAT_NETWORK;
+    if (!networkName) {
+      throw new Error(
+        "Pass --network <name> to choose the deployment to migrate"
+      );
+    }
+    const fromFile = getArg(argv, "--from");
+    if (!fromFile) {
+      throw new Error(
+        "Pass --from <record.json> with the deployment to migrate from"
+      );
+    }
+    const toFile = getArg(argv, "--to");
+    const dryRun = argv.includes("--dry-run");
+
+    const from = readDeploymentFile(fromFile);
+    const to = toFile
+      ? readDeploymentFile(toFile)
+      : readLatestDeployment(networkName);
+    if (!to) {
+      throw new Error(`No deployment record found for ${networkName}`);
+    }
+
+    const rpcUrl = rpcUrlFor(networkName);
+    if (!rpcUrl) {
+      throw new Error(`No RPC URL configured for network ${networkName}`);
+    }
+    const provider = new Ethers.JsonRpcProvider(rpcUrl, undefined, {
+      cacheTimeout: -1,
+    });
+
+    console.log("\n========================================");
+    console.log("🚚 CONFIGURATION MIGRATION");
+    console.log("========================================");
+    console.log(`Network: ${networkName}`);
+    console.log(`From:    ${fromFile}`);
+    console.log(`To:      ${toFile ?? `${networkName}-latest.json`}`);
+    const mapping = addressMapping(from, to);
+    for (const [oldAddress, newAddress] of mapping) {
+      console.log(`Re-pointing ${oldAddress} → ${newAddress}`);
+    }
+    console.log("========================================\n");
+
+    console.log("📖 Reading live configuration...");
+    const source = await readConfigSnapshot(from, provider);
+    const before = await readConfigSnapshot(to, provider);
+    const actions = planMigration(source, before, mapping);
+
+    if (actions.length === 0) {
+      console.log("✅ New deployment already matches the old configuration");
+      return;
+    }
+    console.log(`\n📝 ${actions.length} change(s) planned:`);
+    for (const action of actions) {
+      console.log(`   ${action.description}`);
+    }
+    if (dryRun) {
+      console.log("\nDry run: nothing was sent");
+      return;
+    }
+
+    const signer = await loadSigner(provider, hre, {
+      ...signerOptionsFromArgs(argv),
+      forbidEnvKey: isProductionProfile(networkName, argv),
+    });
+    console.log(`\n🔧 Applying as ${signer.address}...`);
+    await applyMigration(actions, to, signer);
+
+    const after = await readConfigSnapshot(to, provider);
+    console.log("\n📋 CONFIGURATION DIFF (new deployment):");
+    for (const change of diffConfig(before, after)) {
+      console.log(`~ ${change.key}`);
+      console.log(`    before: ${formatValue(change.before)}`);
+      console.log(`    after:  ${formatValue(change.after)}`);
+    }
+
+    const remaining = planMigration(source, after, mapping);
+    if (remaining.length > 0) {
+      throw new Error(
+        `Migration incomplete: ${remaining.map((a) => a.description).join("; ")}`
+      );
+    }
+    console.log("\n✨ Migration complete");
+  } catch (error) {
+    console.error("\n❌ MIGRATION FAILED:");
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,124 @@
+import * as path from "path";
+import { Address, createPublicClient, http, PublicClient } from "viem";
+
+import { rpcUrlFor } from "../config/networks.js";
+import { INDEXED_CONTRACTS, IndexedContract } from "../services/indexer/events.js";
+import { DEFAULT_CONFIRMATIONS } from "../services/indexer/indexer.js";
+import { loadNotifierConfig } from "../services/notifier/config.js";
+import { Notifier } from "../services/notifier/notifier.js";
+import { readLatestDeployment } from "./lib/deployment.js";
+
+const DEFAULT_POLL_MS = 5_000;
+
+function getArg(argv: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const idx = argv.indexOf(name);
+    if (idx !== -1) {
+      return argv[idx + 1];
+    }
+  }
+  return undefined;
+}
+
+async function main() {
+  try {
+    const argv = process.argv;
+    const networkName =
+      getArg(argv, "--network", "-n") || process.env.HARDHAT_NETWORK;
+    if (!networkName) {
+      throw new Error("Pass --network <name> to choose the deployment to watch");
+    }
+    const configFile = getArg(argv, "--config") ?? process.env.NOTIFIER_CONFIG;
+    if (!configFile) {
+      throw new Error(
+        "Pass --config <file> with webhooks and rules (see config/notifier.example.json)"
+      );
+    }
+    const config = loadNotifierConfig(configFile);
+
+    const record = readLatestDeployment(networkName);
+    if (!record) {
+      throw new Error(`No deployment record for ${networkName}; deploy first`);
+    }
+    const contracts: Partial<Record<IndexedContract, Address>> = {};
+    const deploymentBlocks: number[] = [];
+    for (const key of INDEXED_CONTRACTS) {
+      const contract = record.contracts[key];
+      if (!contract) continue;
+      contracts[key] = contract.address as Address;
+      if (contract.blockNumber !== null) {
+        deploymentBlocks.push(contract.blockNumber);
+      }
+    }
+
+    const rpcUrl = rpcUrlFor(networkName);
+    if (!rpcUrl) {
+      throw new Error(`No RPC URL configured for network ${networkName}`);
+    }
+
+    // Role holders are rebuilt from RoleGranted events, so a fresh state
+    // scans from the deployment block rather than the chain head
+    const fromBlock = getArg(argv, "--from-block");
+    const startBlock = fromBlock
+      ? Number(fromBlock)
+      : deploymentBlocks.length > 0
+        ? Math.min(...deploymentBlocks)
+        : 0;
+    const confirmations = Number(
+      getArg(argv, "--confirmations") ?? DEFAULT_CONFIRMATIONS
+    );
+    const dataDir =
+      getArg(argv, "--data-dir") ??
+      process.env.NOTIFIER_DATA_DIR ??
+      path.join(process.cwd(), "notifier-data");
+    const stateFile = path.join(dataDir, `${networkName}-state.json`);
+    const deadLetterFile = path.join(dataDir, `${networkName}-dead-letters.jsonl`);
+
+    console.log("\n========================================");
+    console.log("📣 CROWDFUNDING WEBHOOK NOTIFIER");
+    console.log("========================================");
+    console.log(`Network:       ${networkName}`);
+    console.log(`Config:        ${configFile}`);
+    console.log(`Webhooks:      ${config.webhooks.length}`);
+    console.log(`Rules:         ${config.rules.length}`);
+    console.log(`Start block:   ${startBlock}`);
+    console.log(`Confirmations: ${confirmations}`);
+    console.log(`State:         ${stateFile}`);
+    console.log(`Dead letters:  ${deadLetterFile}`);
+    console.log("========================================\n");
+
+    const notifier = new Notifier({
+      publicClient: createPublicClient({ transport: http(rpcUrl) }) as PublicClient,
+      config,
+      contracts,
+      confirmations,
+      startBlock,
+      stateFile,
+      delivery: { deadLetterFile },
+      log: console.log,
+    });
+
+    if (argv.includes("--once")) {
+      const result = await notifier.sync();
+      console.log(
+        `✅ Checkpoint ${result.checkpoint ?? "none"}: queued ${result.queued}, delivered ${result.delivered}, retrying ${result.retrying}, dead-lettered ${result.deadLettered}`
+      );
+      return;
+    }
+
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    process.once("SIGTERM", () => controller.abort());
+    await notifier.run(
+      Number(getArg(argv, "--poll") ?? DEFAULT_POLL_MS),
+      controller.signal
+    );
+    console.log("👋 Notifier stopped");
+  } catch (error) {
+    console.error("\n❌ NOTIFIER FAILED:");
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+main();
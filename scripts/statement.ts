@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import { createPublicClient, getAddress, http, isAddress, PublicClient } from "viem";
+
+import { getNetworkDefinition, rpcUrlFor } from "../config/networks.js";
+import { PortfolioClient } from "../sdk/index.js";
+import { readLatestDeployment } from "./lib/deployment.js";
+import {
+  STATEMENT_FORMATS,
+  StatementFormat,
+  statementToCsv,
+  statementToHtml,
+  statementToJson,
+} from "./lib/statement.js";
+
+function getArg(argv: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const idx = argv.indexOf(name);
+    if (idx !== -1) {
+      return argv[idx + 1];
+    }
+  }
+  return undefined;
+}
+
+async function main() {
+  try {
+    const argv = process.argv;
+    const networkName =
+      getArg(argv, "--network", "-n") || process.env.HARDHAT_NETWORK;
+    if (!networkName) {
+      throw new Error("Pass --network <name> to choose the deployment");
+    }
+    const account = getArg(argv, "--address", "-a");
+    if (!account || !isAddress(account)) {
+      throw new Error("Pass --address <investor address>");
+    }
+    const format = (getArg(argv, "--format", "-f") ?? "json") as StatementFormat;
+    if (!STATEMENT_FORMATS.includes(format)) {
+      throw new Error(`--format must be one of ${STATEMENT_FORMATS.join(", ")}`);
+    }
+
+    const record = readLatestDeployment(networkName);
+    if (!record) {
+      throw new Error(`No deployment record for ${networkName}; deploy first`);
+    }
+    const rpcUrl = rpcUrlFor(networkName);
+    if (!rpcUrl) {
+      throw new Error(`No RPC URL configured for network ${networkName}`);
+    }
+
+    // Trades are searched from the InvestmentNFT deployment block; legacy
+    // records without one are searched from genesis
+    const fromBlock = getArg(argv, "--from-block") ?? record.contracts.investmentNFT?.blockNumber;
+    const portfolio = PortfolioClient.fromDeployment(record, {
+      publicClient: createPublicClient({ transport: http(rpcUrl) }) as PublicClient,
+    });
+    const statement = await portfolio.statement(getAddress(account), {
+      fromBlock: fromBlock === undefined || fromBlock === null ? undefined : BigInt(fromBlock),
+      nativeCurrency: getNetworkDefinition(networkName)?.nativeCurrency,
+    });
+
+    const output =
+      format === "csv"
+        ? statementToCsv(statement)
+        : format === "html"
+          ? statementToHtml(statement, networkName)
+          : statementToJson(statement) + "\n";
+
+    const outFile = getArg(argv, "--out", "-o");
+    if (!outFile) {
+      process.stdout.write(output);
+      return;
+    }
+    fs.writeFileSync(outFile, output);
+
+    console.log("\n========================================");
+    console.log("🧾 PORTFOLIO STATEMENT");
+    console.log("========================================");
+    console.log(`Network:   ${networkName}`);
+    console.log(`Account:   ${statement.account}`);
+    console.log(`Block:     ${statement.blockNumber}`);
+    console.log(`Positions: ${statement.positions.length}`);
+    console.log(`Trades:    ${statement.trades.length}`);
+    console.log(`Stakes:    ${statement.stakes.length}`);
+    console.log(`Written:   ${outFile} (${format})`);
+    console.log("========================================\n");
+  } catch (error) {
+    console.error("\n❌ STATEMENT FAILED:");
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+main();
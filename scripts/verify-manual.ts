@@ -0,0 +1,81 @@
+import {
+  readDeploymentFile,
+  readLatestDeployment,
+} from "./lib/deployment.js";
+import { verifyDeployment } from "./lib/verification.js";
+
+function getArg(argv: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const idx = argv.indexOf(name);
+    if (idx !== -1) {
+      return argv[idx + 1];
+    }
+  }
+  return undefined;
+}
+
+async function main() {
+  try {
+    const argv = process.argv;
+    const networkName =
+      getArg(argv, "--network", "-n") || process.env.HARDHAT_NETWORK;
+    if (!networkName) {
+      throw new Error("Pass --network <name> to choose the deployment to verify");
+    }
+
+    // Hardhat reads its global options from the environment when imported as
+    // a library, so the network has to be set before the import
+    process.env.HARDHAT_NETWORK = networkName;
+    const { default: hre } = await import("hardhat");
+
+    const recordFile = getArg(argv, "--file");
+    const record = recordFile
+      ? readDeploymentFile(recordFile)
+      : readLatestDeployment(networkName);
+    if (!record) {
+      throw new Error(`No deployment record found for ${networkName}`);
+    }
+
+    const provider = getArg(argv, "--provider") ?? "etherscan";
+    if (provider !== "etherscan" && provider !== "blockscout") {
+      throw new Error(`Unsupported verification provider: ${provider}`);
+    }
+
+    console.log("\n========================================");
+    console.log("🔎 CONTRACT VERIFICATION");
+    console.log("========================================");
+    console.log(`Network: ${networkName}`);
+    console.log(`Provider: ${provider}`);
+    console.log("========================================\n");
+
+    const results = await verifyDeployment(record, hre, {
+      provider,
+      force: argv.includes("--force"),
+    });
+
+    console.log("\n📋 VERIFICATION SUMMARY:");
+    for (const result of results) {
+      const icon =
+        result.status === "verified"
+          ? "✅"
+          : result.status === "skipped"
+          ? "⏭️ "
+          : "❌";
+      console.log(
+        `${icon} ${result.contract.padEnd(14)} ${result.address || "-"} ${
+          result.status === "verified" ? "" : `(${result.message})`
+        }`
+      );
+    }
+
+    if (results.some((result) => result.status === "failed")) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("\n❌ VERIFICATION FAILED:");
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,126 @@
+import { parseAbi } from "viem";
+
+/**
+ * Contract ABIs used by the SDK. Only the functions and events the clients
+ * call are listed; they are kept as human-readable signatures so viem can
+ * type every read and write without generated artifacts.
+ */
+
+export const erc20Abi = parseAbi([
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+]);
+
+export const escrowAbi = parseAbi([
+  "function projectCounter() view returns (uint256)",
+  "function platformFeePercentage() view returns (uint256)",
+  "function projects(uint256 projectId) view returns (address creator, string title, string description, uint256 targetAmount, uint256 raisedAmount, uint256 creationDate, uint256 deadline, uint8 status, address token, uint256 totalMilestones, uint256 completedMilestones, bool emergencyWithdrawEnabled)",
+  "function projectMilestones(uint256 projectId, uint256 milestoneId) view returns (uint256 amount, uint256 dueDate, string title, string description, string evidenceURI, address creator, uint8 status, uint8 disputeStatus, uint256 submissionDate, uint256 approvalDate, uint256 approvalsCount, uint256 requiredApprovals)",
+  "function getUserInvestment(uint256 projectId, address user) view returns (uint256 amount, uint256 timestamp, bool refunded)",
+  "function getRefundAmount(uint256 projectId, address investor) view returns (uint256)",
+  "function getMilestoneRefund(uint256 projectId, address investor) view returns (uint256)",
+  "function claimableBalances(address account, address token) view returns (uint256)",
+  "function totalLockedFunds(uint256 projectId) view returns (uint256)",
+  "function allocatedAmount(uint256 projectId) view returns (uint256)",
+  "function settledAmount(uint256 projectId) view returns (uint256)",
+  "function getUnallocatedBudget(uint256 projectId) view returns (uint256)",
+  "function getUnallocatedFunds(uint256 projectId) view returns (uint256)",
+  "function arbitrator() view returns (address)",
+  "function arbitratorExtraData() view returns (bytes)",
+  "function milestoneArbitrations(uint256 projectId, uint256 milestoneId) view returns (address arbitrator, uint256 disputeId)",
+  "function getEvidenceGroupId(uint256 projectId, uint256 milestoneId) pure returns (uint256)",
+  "function createProject(string title, string description, uint256 targetAmount, uint256 deadline, address token) returns (uint256)",
+  "function createMilestone(uint256 projectId, uint256 amount, uint256 dueDate, string title, string description, uint256 requiredApprovals)",
+  "function deposit(uint256 projectId, uint256 amount) payable",
+  "function submitMilestone(uint256 projectId, uint256 milestoneId, string evidenceURI)",
+  "function approveMilestone(uint256 projectId, uint256 milestoneId)",
+  "function raiseDispute(uint256 projectId, uint256 milestoneId, string reason) payable",
+  "function submitEvidence(uint256 projectId, uint256 milestoneId, string evidenceURI)",
+  "function resolveDispute(uint256 projectId, uint256 milestoneId, bool releaseToCreator)",
+  "function markProjectFailed(uint256 projectId)",
+  "function claimRefund(uint256 projectId)",
+  "function claimMilestoneRefund(uint256 projectId)",
+  "function withdraw(address token)",
+  "function returnLeftoverFunds(uint256 projectId)",
+  "event ProjectCreated(uint256 indexed projectId, address indexed creator, string title, uint256 targetAmount)",
+  "event MilestoneCreated(uint256 indexed projectId, uint256 indexed milestoneId, uint256 amount, uint256 dueDate)",
+  "event Evidence(address indexed _arbitrator, uint256 indexed _evidenceGroupID, address indexed _party, string _evidence)",
+]);
+
+/**
+ * The ERC-792 arbitrator reads Escrow disputes need
+ */
+export const arbitratorAbi = parseAbi([
+  "function arbitrationCost(bytes extraData) view returns (uint256)",
+  "function disputeStatus(uint256 disputeId) view returns (uint8)",
+  "function currentRuling(uint256 disputeId) view returns (uint256)",
+]);
+
+export const investmentNftAbi = parseAbi([
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+  "function marketplaceFee() view returns (uint256)",
+  "function listingCounter() view returns (uint256)",
+  "function projects(uint256 projectId) view returns (uint256 projectId, address creator, address paymentToken, uint256 targetAmount, uint256 initialTokenValue, uint256 currentTokenValue, uint256 creationDate, uint256 lockupPeriod, uint8 status, bool redeemable)",
+  "function listings(uint256 listingId) view returns (address seller, uint256 tokenId, uint256 amount, uint256 pricePerToken, address paymentToken, uint256 expiryDate, uint256 minPurchase, bool active, bool partialFill)",
+  "function getInvestment(uint256 projectId, address user) view returns (uint256 originalAmount, uint256 tokens, uint256 currentValue, uint256 totalDividends, uint256 avgPrice)",
+  "function getUnclaimedDividends(uint256 projectId, address user) view returns (uint256[] payoutIds, uint256[] amounts)",
+  "function stakeRefunded(uint256 projectId, address investor) view returns (bool)",
+  "function createListing(uint256 projectId, uint256 amount, uint256 price, address token, uint256 expiry, bool partialFill, uint256 minPurchase) returns (uint256)",
+  "function purchase(uint256 listingId, uint256 amount) payable",
+  "function cancelListing(uint256 listingId)",
+  "event ListingCreated(uint256 indexed listingId, uint256 projectId, uint256 amount)",
+  "event TokensPurchased(uint256 indexed listingId, address buyer, uint256 amount)",
+]);
+
+export const votingAbi = parseAbi([
+  "function proposalCounter() view returns (uint256)",
+  "function proposalExists(uint256 proposalId) view returns (bool)",
+  "function proposals(uint256 proposalId) view returns (uint256 proposalId, address proposer, string description, uint256 targetAmount, address targetContract, bytes executionData, uint256 startTime, uint256 endTime, uint256 quorumRequired, uint256 yesVotes, uint256 noVotes, uint256 abstainVotes, uint256 totalStaked, uint8 status, bool executed, uint256 executionTime)",
+  "function getStake(uint256 proposalId, address staker) view returns (uint256 amount, uint8 voteChoice, uint256 weight, uint8 status, bool claimed)",
+  "function voters(address voter) view returns (uint256 totalVotingPower, uint256 activeStakes, uint256 participationCount, uint256 lastVoteTime, bool hasNFT, uint256 nftBalance)",
+  "function governanceToken() view returns (address)",
+  "function nftContract() view returns (address)",
+  "function paused() view returns (bool)",
+  "function proposeProject(string description, uint256 targetAmount, address targetContract, bytes executionData, uint256 votingDuration) returns (uint256)",
+  "function vote(uint256 proposalId, uint8 voteChoice, uint256 amount)",
+  "function finalizeProposal(uint256 proposalId)",
+  "function withdrawStake(uint256 proposalId)",
+  "event ProposalCreated(uint256 indexed proposalId, address indexed proposer, string description, uint256 targetAmount, uint256 endTime)",
+]);
+
+export const dealRoomAbi = parseAbi([
+  "function getDealRoom(uint256 dealRoomId) view returns (uint256 projectId, address innovator, string title, string description, uint256 creationDate, uint256 expiryDate, uint8 status, bool kycRequired, uint256 minInvestmentIntent)",
+  "function getDealRoomDocuments(uint256 dealRoomId) view returns (string[])",
+  "function hasAccess(uint256 dealRoomId, address investor) view returns (bool)",
+]);
+
+/**
+ * Custom errors the contracts can revert with: OpenZeppelin's, plus the
+ * ERC20 errors a token transfer bubbles up through SafeERC20
+ */
+export const contractErrorsAbi = parseAbi([
+  "error AccessControlBadConfirmation()",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "error FailedCall()",
+  "error InsufficientBalance(uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InvalidApprover(address approver)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidSpender(address spender)",
+  "error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)",
+  "error ERC1155InvalidApprover(address approver)",
+  "error ERC1155InvalidArrayLength(uint256 idsLength, uint256 valuesLength)",
+  "error ERC1155InvalidOperator(address operator)",
+  "error ERC1155InvalidReceiver(address receiver)",
+  "error ERC1155InvalidSender(address sender)",
+  "error ERC1155MissingApprovalForAll(address operator, address owner)",
+]);
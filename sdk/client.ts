@@ -0,0 +1,119 @@
+import {
+  Abi,
+  Address,
+  PublicClient,
+  TransactionReceipt,
+  WalletClient,
+} from "viem";
+
+import { erc20Abi } from "./abis.js";
+import { decodeContractError } from "./errors.js";
+
+export interface ClientConfig {
+  publicClient: PublicClient;
+  /** Needed for writes; read-only clients can leave it out */
+  walletClient?: WalletClient;
+}
+
+export interface ContractWrite {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+  value?: bigint;
+}
+
+/**
+ * Result of a pre-flight check against a contract's `require`s
+ */
+export interface Eligibility {
+  eligible: boolean;
+  /** Why the transaction would fail, in the contract's own terms where possible */
+  reasons: string[];
+}
+
+export const ZERO_ADDRESS: Address = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Map a raw Solidity enum value to its name
+ */
+export function enumValue<T>(values: readonly T[], raw: number, name: string): T {
+  const value = values[raw];
+  if (value === undefined) {
+    throw new Error(`Unknown ${name} ${raw}`);
+  }
+  return value;
+}
+
+/**
+ * The account that signs writes
+ */
+export function walletAccount(config: ClientConfig): Address {
+  const account = config.walletClient?.account;
+  if (!account) {
+    throw new Error("A wallet client with an account is required for writes");
+  }
+  return account.address;
+}
+
+/**
+ * Simulate a write first, so reverts surface before anything is signed,
+ * then send it and wait for the receipt. Reverts are thrown as a
+ * `ContractError` carrying the decoded reason.
+ */
+export async function sendTransaction(
+  config: ClientConfig,
+  write: ContractWrite
+): Promise<TransactionReceipt> {
+  const account = walletAccount(config);
+  const walletClient = config.walletClient!;
+
+  let request: unknown;
+  try {
+    ({ request } = await config.publicClient.simulateContract({
+      ...write,
+      account,
+    } as Parameters<PublicClient["simulateContract"]>[0]));
+  } catch (error) {
+    throw decodeContractError(error) ?? error;
+  }
+  const hash = await walletClient.writeContract({
+    ...(request as object),
+    account: walletClient.account!,
+    chain: walletClient.chain,
+  } as Parameters<WalletClient["writeContract"]>[0]);
+
+  const receipt = await config.publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`${write.functionName} reverted in transaction ${hash}`);
+  }
+  return receipt;
+}
+
+/**
+ * Approve `spender` for `amount` of `token` unless the current allowance
+ * already covers it. Returns the approval receipt when one was sent.
+ */
+export async function ensureAllowance(
+  config: ClientConfig,
+  token: Address,
+  spender: Address,
+  amount: bigint
+): Promise<TransactionReceipt | undefined> {
+  const owner = walletAccount(config);
+  const allowance = await config.publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [owner, spender],
+  });
+  if (allowance >= amount) {
+    return undefined;
+  }
+  return sendTransaction(config, {
+    address: token,
+    abi: erc20Abi,
+    functionName: "approve",
+    args: [spender, amount],
+  });
+}
@@ -0,0 +1,30 @@
+import { Address, getAddress, isAddress } from "viem";
+
+export type DeployedContract =
+  | "escrow"
+  | "investmentNFT"
+  | "voting"
+  | "dealRoom"
+  | "mockERC20";
+
+/**
+ * Read a contract address from a parsed `deployments/<network>-latest.json`.
+ * Both the versioned record (`contracts.<key>.address`) and the legacy flat
+ * record (`<key>`) are accepted, so frontends can import either file as is.
+ */
+export function deployedAddress(
+  deployment: unknown,
+  key: DeployedContract
+): Address {
+  const record = deployment as {
+    contracts?: Record<string, { address?: string } | undefined>;
+  } & Record<string, unknown>;
+  const address = record.contracts
+    ? record.contracts[key]?.address
+    : record[key];
+
+  if (typeof address !== "string" || !isAddress(address)) {
+    throw new Error(`No ${key} address in deployment record`);
+  }
+  return getAddress(address);
+}
@@ -0,0 +1,682 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  Hex,
+  isHex,
+} from "viem";
+
+import { contractErrorsAbi } from "./abis.js";
+
+interface ErrorDetail {
+  /** What went wrong, in words a UI can show as-is */
+  message: string;
+  /** What the user can do about it */
+  hint: string;
+}
+
+/**
+ * Every error code the SDK can report, with its user-facing message and a
+ * remediation hint
+ */
+export const CONTRACT_ERRORS = {
+  // Shared validation
+  INVALID_AMOUNT: {
+    message: "The amount must be greater than zero.",
+    hint: "Enter a positive amount.",
+  },
+  AMOUNT_TOO_SMALL: {
+    message: "The amount is too small to buy a single investment token.",
+    hint: "Increase the amount to at least the current token price.",
+  },
+  INVALID_ADDRESS: {
+    message: "An address in the request is empty or invalid.",
+    hint: "Check the wallet or contract address and try again.",
+  },
+  INVALID_CONFIGURATION: {
+    message: "The contract or token address for this setting is invalid.",
+    hint: "Use the deployed contract address from the deployment record.",
+  },
+  FEE_TOO_HIGH: {
+    message: "The fee is above the maximum the contract allows.",
+    hint: "Choose a lower fee in basis points.",
+  },
+  TITLE_REQUIRED: {
+    message: "A title is required.",
+    hint: "Add a title and submit again.",
+  },
+  DESCRIPTION_REQUIRED: {
+    message: "A description is required.",
+    hint: "Add a description and submit again.",
+  },
+  INVALID_TARGET: {
+    message: "The funding target is missing or too small.",
+    hint: "Set a larger funding target.",
+  },
+  INVALID_DEADLINE: {
+    message: "The deadline must be in the future and within the allowed window.",
+    hint: "Pick a deadline between now and one year out.",
+  },
+  INVALID_EXPIRY: {
+    message: "The expiry must be in the future.",
+    hint: "Pick a later expiry date.",
+  },
+  PAYMENT_MISMATCH: {
+    message: "The ETH sent does not match the amount being paid.",
+    hint: "Send exactly the quoted amount of ETH with the transaction.",
+  },
+  PAYMENT_REQUIRED: {
+    message: "No ETH was sent with the transaction.",
+    hint: "Include the ETH amount as the transaction value.",
+  },
+  UNEXPECTED_ETH: {
+    message: "This project takes ERC20 tokens, not ETH.",
+    hint: "Pay with the project's token and send no ETH.",
+  },
+  UNSUPPORTED_TOKEN: {
+    message: "The contract does not accept this token.",
+    hint: "Use the token the contract was set up for.",
+  },
+  TRANSFER_FAILED: {
+    message: "A token or ETH transfer failed.",
+    hint: "Check balances, allowances and that the recipient can receive funds.",
+  },
+  INSUFFICIENT_BALANCE: {
+    message: "The balance is too low for this transaction.",
+    hint: "Top up the balance or reduce the amount.",
+  },
+  INSUFFICIENT_ALLOWANCE: {
+    message: "The contract is not approved to spend enough of your tokens.",
+    hint: "Approve the contract for at least the amount and try again.",
+  },
+  MISSING_APPROVAL: {
+    message: "The operator is not approved to move these investment tokens.",
+    hint: "Call setApprovalForAll for the operator first.",
+  },
+
+  // Access control and contract state
+  NOT_AUTHORIZED: {
+    message: "This wallet is not allowed to perform this action.",
+    hint: "Switch to a wallet with the required role.",
+  },
+  MISSING_ROLE: {
+    message: "This wallet is missing the role this action requires.",
+    hint: "Ask an admin to grant the role, or switch wallets.",
+  },
+  PAUSED: {
+    message: "The contract is paused.",
+    hint: "Wait until the platform admins unpause it.",
+  },
+  NOT_PAUSED: {
+    message: "The contract is not paused.",
+    hint: "This action is only available while the contract is paused.",
+  },
+  REENTRANT_CALL: {
+    message: "The contract rejected a nested call.",
+    hint: "Send the transaction directly rather than from a callback.",
+  },
+
+  // Escrow projects and milestones
+  PROJECT_NOT_FOUND: {
+    message: "This project does not exist.",
+    hint: "Check the project ID.",
+  },
+  PROJECT_ALREADY_REGISTERED: {
+    message: "This project already has investment tokens.",
+    hint: "Nothing to do; the project is already registered.",
+  },
+  PROJECT_NOT_ACTIVE: {
+    message: "This project is no longer accepting investments.",
+    hint: "Choose an active project.",
+  },
+  PROJECT_DEADLINE_PASSED: {
+    message: "The project's funding deadline has passed.",
+    hint: "Choose a project that is still raising.",
+  },
+  NOT_PROJECT_CREATOR: {
+    message: "Only the project creator can do this.",
+    hint: "Switch to the wallet that created the project.",
+  },
+  NOT_VALIDATOR: {
+    message: "Only investors in the project or validators can do this.",
+    hint: "Invest in the project or ask for the validator role.",
+  },
+  INVALID_DUE_DATE: {
+    message: "The milestone due date is too soon.",
+    hint: "Set a due date at least a day from now.",
+  },
+  INVALID_APPROVAL_COUNT: {
+    message: "A milestone needs at least one approval.",
+    hint: "Set required approvals to 1 or more.",
+  },
+  EVIDENCE_REQUIRED: {
+    message: "Evidence is required to submit a milestone.",
+    hint: "Attach an evidence URI, such as an IPFS link.",
+  },
+  MILESTONE_NOT_FOUND: {
+    message: "This milestone does not exist.",
+    hint: "Check the project's milestone IDs.",
+  },
+  MILESTONE_WRONG_STATUS: {
+    message: "The milestone is not waiting to be submitted.",
+    hint: "Check the milestone's status; it may already be submitted.",
+  },
+  MILESTONE_NOT_SUBMITTED: {
+    message: "The milestone has not been submitted for approval yet.",
+    hint: "Wait for the creator to submit evidence.",
+  },
+  MILESTONE_NOT_APPROVED: {
+    message: "The milestone has not been approved for release.",
+    hint: "Wait until it collects the required approvals.",
+  },
+  ALREADY_APPROVED: {
+    message: "You have already approved this milestone.",
+    hint: "Nothing to do; your approval is recorded.",
+  },
+  ALREADY_RELEASED: {
+    message: "The milestone's funds have already been released.",
+    hint: "Nothing to do for this milestone.",
+  },
+  DISPUTE_ALREADY_RAISED: {
+    message: "A dispute is already open for this milestone.",
+    hint: "Wait for an arbiter to resolve it.",
+  },
+  NO_ACTIVE_DISPUTE: {
+    message: "There is no open dispute on this milestone.",
+    hint: "Raise a dispute first.",
+  },
+  EMERGENCY_WITHDRAW_DISABLED: {
+    message: "Emergency withdrawals are not enabled for this project.",
+    hint: "Only admins can enable them.",
+  },
+  EMERGENCY_WITHDRAW_ENABLED: {
+    message: "Emergency withdrawals are already enabled for this project.",
+    hint: "Investors can withdraw their refunds now.",
+  },
+  PROJECT_CANCELLED: {
+    message: "This project was cancelled, so its milestones are closed.",
+    hint: "Investors can withdraw their refunds with emergencyWithdraw.",
+  },
+  NOTHING_TO_WITHDRAW: {
+    message: "There is nothing for you to withdraw.",
+    hint: "You have no investment left in this project.",
+  },
+  FUNDING_STILL_OPEN: {
+    message: "The project's funding deadline has not passed yet.",
+    hint: "Wait until the deadline before closing the campaign.",
+  },
+  PROJECT_NOT_FAILED: {
+    message: "Refunds are only open for projects marked as failed.",
+    hint: "Once the deadline passes without reaching the target, mark the project as failed first.",
+  },
+  PROJECT_FAILED: {
+    message: "This project failed to reach its target, so its milestones are closed.",
+    hint: "Investors can claim their refunds instead.",
+  },
+  EXCEEDS_BUDGET: {
+    message: "The project's milestones would add up to more than its target.",
+    hint: "Lower the milestone amount to the project's unallocated budget.",
+  },
+  INSUFFICIENT_LOCKED_FUNDS: {
+    message: "The project does not hold enough funds to settle this milestone.",
+    hint: "Wait until more of the target is raised.",
+  },
+  PROJECT_NOT_COMPLETED: {
+    message: "Leftover funds are only returned once the project reaches its target.",
+    hint: "Wait for the project to complete.",
+  },
+  MILESTONES_PENDING: {
+    message: "Some of the project's milestones are not released or refunded yet.",
+    hint: "Settle every milestone before returning leftover funds.",
+  },
+  NO_LEFTOVER_FUNDS: {
+    message: "The project has no leftover funds to return.",
+    hint: "Investors can claim what was already returned with claimMilestoneRefund.",
+  },
+  ARBITRATION_FEE_TOO_LOW: {
+    message: "The payment does not cover the arbitrator's fee for a dispute.",
+    hint: "Send at least the arbitration cost with the dispute.",
+  },
+  NO_ARBITRATION_FEE_DUE: {
+    message: "No arbitrator is set, so raising a dispute costs nothing.",
+    hint: "Raise the dispute without sending a payment.",
+  },
+  NOT_DISPUTE_PARTY: {
+    message: "Only the project creator, its investors and validators can submit evidence.",
+    hint: "Connect the wallet that created or invested in the project.",
+  },
+  UNKNOWN_DISPUTE: {
+    message: "This dispute was not created by the calling arbitrator.",
+    hint: "Only the arbitrator a dispute was sent to can rule on it.",
+  },
+  INVALID_RULING: {
+    message: "The ruling is outside the options the dispute was created with.",
+    hint: "Give a ruling from 0 to 10001 (creator share in basis points plus one).",
+  },
+  META_EVIDENCE_REQUIRED: {
+    message: "An arbitrator needs meta-evidence describing its disputes.",
+    hint: "Pass the URI of the ERC-1497 meta-evidence document.",
+  },
+
+  // InvestmentNFT and marketplace
+  NOT_ACTIVE: {
+    message: "This project or listing is no longer active.",
+    hint: "Refresh and choose an active project or listing.",
+  },
+  LISTING_EXPIRED: {
+    message: "This listing has expired.",
+    hint: "Choose another listing.",
+  },
+  INVALID_LISTING: {
+    message: "The listing price must be greater than zero.",
+    hint: "Set a positive price per token.",
+  },
+  BELOW_MINIMUM_PURCHASE: {
+    message: "The purchase is below the listing's minimum.",
+    hint: "Buy at least the listing's minimum amount.",
+  },
+  EXCEEDS_AVAILABLE: {
+    message: "The listing does not have that many tokens left.",
+    hint: "Reduce the amount to what is still available.",
+  },
+  OWN_LISTING: {
+    message: "You cannot buy your own listing.",
+    hint: "Cancel the listing instead.",
+  },
+  SELLER_REFUNDED: {
+    message: "The seller's stake was refunded, so this listing can no longer be bought.",
+    hint: "Choose another listing.",
+  },
+  NOT_LISTING_SELLER: {
+    message: "Only the seller can change this listing.",
+    hint: "Switch to the wallet that created the listing.",
+  },
+  TOKENS_LOCKED: {
+    message: "These investment tokens are still in their lockup period.",
+    hint: "Wait until the lockup ends before selling or redeeming.",
+  },
+  SUPPLY_EXHAUSTED: {
+    message: "The project has no investment tokens left to mint.",
+    hint: "Buy tokens from the marketplace instead.",
+  },
+  INVALID_VALUATION: {
+    message: "The new token value must be greater than zero.",
+    hint: "Enter a positive value or multiplier.",
+  },
+  ALREADY_CLAIMED: {
+    message: "You have already claimed this payout.",
+    hint: "Nothing to do for this payout.",
+  },
+  NOTHING_TO_CLAIM: {
+    message: "There is nothing for you to claim.",
+    hint: "You held no tokens for this payout.",
+  },
+  NOT_REDEEMABLE: {
+    message: "This project's tokens cannot be redeemed yet.",
+    hint: "Wait until the project enables redemption.",
+  },
+
+  // Voting
+  PROPOSAL_NOT_FOUND: {
+    message: "This proposal does not exist.",
+    hint: "Check the proposal ID.",
+  },
+  PROPOSAL_NOT_ACTIVE: {
+    message: "This proposal is not open for voting.",
+    hint: "Choose an active proposal.",
+  },
+  VOTING_ENDED: {
+    message: "Voting on this proposal has ended.",
+    hint: "Finalize the proposal to see the outcome.",
+  },
+  VOTING_STILL_ACTIVE: {
+    message: "Voting on this proposal is still open.",
+    hint: "Wait until the voting period ends.",
+  },
+  ALREADY_VOTED: {
+    message: "You have already voted on this proposal.",
+    hint: "Each wallet can vote once.",
+  },
+  STAKE_TOO_LOW: {
+    message: "The stake is below the minimum required to vote.",
+    hint: "Stake at least the minimum amount of governance tokens.",
+  },
+  ABSTAIN_WITH_STAKE: {
+    message: "Abstain votes cannot stake tokens.",
+    hint: "Vote yes or no to stake, or abstain without a stake.",
+  },
+  NO_STAKE: {
+    message: "You have no stake on this proposal.",
+    hint: "Nothing to withdraw for this proposal.",
+  },
+  STAKE_LOCKED: {
+    message: "Your stake is still locked.",
+    hint: "Wait until the proposal is finalized.",
+  },
+  ALREADY_WITHDRAWN: {
+    message: "You have already withdrawn this stake.",
+    hint: "Nothing to do for this proposal.",
+  },
+  ALREADY_EXECUTED: {
+    message: "This proposal has already been executed.",
+    hint: "Nothing to do for this proposal.",
+  },
+  CANNOT_CANCEL: {
+    message: "Only pending or active proposals can be cancelled.",
+    hint: "The proposal has already been decided.",
+  },
+  INVALID_VOTING_PARAMETERS: {
+    message: "The voting period or quorum is out of range.",
+    hint: "Use a voting period between the allowed minimum and maximum.",
+  },
+  INSUFFICIENT_TREASURY: {
+    message: "The treasury does not hold enough funds.",
+    hint: "Reduce the amount or fund the treasury first.",
+  },
+
+  // DealRoom
+  ACCESS_DENIED: {
+    message: "You do not have access to this deal room.",
+    hint: "Ask the innovator to grant access.",
+  },
+  ALREADY_HAS_ACCESS: {
+    message: "This investor already has access to the deal room.",
+    hint: "Nothing to do; access is already granted.",
+  },
+  NOT_INNOVATOR: {
+    message: "Only the deal room's innovator or an admin can do this.",
+    hint: "Switch to the innovator's wallet.",
+  },
+  DEAL_ROOM_NOT_ACTIVE: {
+    message: "This deal room is closed.",
+    hint: "Ask the innovator to open a new deal room.",
+  },
+  DEAL_ROOM_EXPIRED: {
+    message: "This deal room has expired.",
+    hint: "Ask the innovator to open a new deal room.",
+  },
+  DOCUMENT_HASH_REQUIRED: {
+    message: "A document hash is required.",
+    hint: "Upload the document to the gateway and register the returned hash.",
+  },
+  INVESTMENT_INTENT_TOO_LOW: {
+    message: "The investment intent is below the deal room's minimum.",
+    hint: "Raise your stated investment intent.",
+  },
+  KYC_REQUIRED: {
+    message: "This deal room requires KYC verification.",
+    hint: "Complete KYC with a platform verifier first.",
+  },
+  KYC_EXPIRED: {
+    message: "Your KYC verification has expired.",
+    hint: "Renew your KYC verification.",
+  },
+
+  UNKNOWN_REVERT: {
+    message: "The contract rejected the transaction.",
+    hint: "Check the transaction details and try again.",
+  },
+} as const satisfies Record<string, ErrorDetail>;
+
+export type ContractErrorCode = keyof typeof CONTRACT_ERRORS;
+
+/**
+ * `require` reason strings from Escrow, InvestmentNFT, Voting and DealRoom.
+ * Some strings are shared between contracts; each maps to the one code that
+ * covers every use.
+ */
+export const REVERT_REASONS: Record<string, ContractErrorCode> = {
+  "Invalid amount": "INVALID_AMOUNT",
+  "Invalid token amount": "INVALID_AMOUNT",
+  "Invalid minimum investment": "INVALID_AMOUNT",
+  "Amount too small": "AMOUNT_TOO_SMALL",
+  "Invalid address": "INVALID_ADDRESS",
+  "Invalid user address": "INVALID_ADDRESS",
+  "Invalid recipient": "INVALID_ADDRESS",
+  "Invalid investor": "INVALID_ADDRESS",
+  "Invalid creator": "INVALID_ADDRESS",
+  "Invalid escrow": "INVALID_CONFIGURATION",
+  "Invalid escrow address": "INVALID_CONFIGURATION",
+  "Invalid governance token": "INVALID_CONFIGURATION",
+  "Invalid fee recipient": "INVALID_CONFIGURATION",
+  "Fee too high": "FEE_TOO_HIGH",
+  "Title required": "TITLE_REQUIRED",
+  "Description required": "DESCRIPTION_REQUIRED",
+  "Invalid target amount": "INVALID_TARGET",
+  "Invalid target": "INVALID_TARGET",
+  "Target too small": "INVALID_TARGET",
+  "Invalid deadline": "INVALID_DEADLINE",
+  "Deadline too far": "INVALID_DEADLINE",
+  "Invalid expiry": "INVALID_EXPIRY",
+  "Invalid expiry date": "INVALID_EXPIRY",
+  "Invalid duration": "INVALID_EXPIRY",
+  "ETH amount mismatch": "PAYMENT_MISMATCH",
+  "ETH mismatch": "PAYMENT_MISMATCH",
+  "No ETH sent": "PAYMENT_REQUIRED",
+  "No ETH for token deposits": "UNEXPECTED_ETH",
+  "Unsupported token": "UNSUPPORTED_TOKEN",
+  "Transfer failed": "TRANSFER_FAILED",
+  "Fee transfer failed": "TRANSFER_FAILED",
+  "Seller transfer failed": "TRANSFER_FAILED",
+  "Insufficient balance": "INSUFFICIENT_BALANCE",
+
+  // Escrow
+  "Project doesn't exist": "PROJECT_NOT_FOUND",
+  "Project not active": "PROJECT_NOT_ACTIVE",
+  "Project deadline passed": "PROJECT_DEADLINE_PASSED",
+  "Unauthorized": "NOT_PROJECT_CREATOR",
+  "Only creator can submit": "NOT_PROJECT_CREATOR",
+  "Not authorized": "NOT_VALIDATOR",
+  "Not authorized to validate": "NOT_VALIDATOR",
+  "Due date too soon": "INVALID_DUE_DATE",
+  "Need at least 1 approval": "INVALID_APPROVAL_COUNT",
+  "Evidence URI required": "EVIDENCE_REQUIRED",
+  "Milestone doesn't exist": "MILESTONE_NOT_FOUND",
+  "Invalid milestone status": "MILESTONE_WRONG_STATUS",
+  "Milestone not submitted": "MILESTONE_NOT_SUBMITTED",
+  "Not approved for release": "MILESTONE_NOT_APPROVED",
+  "Already approved": "ALREADY_APPROVED",
+  "Already released": "ALREADY_RELEASED",
+  "Dispute already raised": "DISPUTE_ALREADY_RAISED",
+  "No active dispute": "NO_ACTIVE_DISPUTE",
+  "Emergency withdrawal not enabled": "EMERGENCY_WITHDRAW_DISABLED",
+  "Emergency withdrawal already enabled": "EMERGENCY_WITHDRAW_ENABLED",
+  "Project cancelled": "PROJECT_CANCELLED",
+  "Nothing to withdraw": "NOTHING_TO_WITHDRAW",
+  "Deadline not reached": "FUNDING_STILL_OPEN",
+  "Project not failed": "PROJECT_NOT_FAILED",
+  "Project failed": "PROJECT_FAILED",
+  "Exceeds project budget": "EXCEEDS_BUDGET",
+  "Insufficient locked funds": "INSUFFICIENT_LOCKED_FUNDS",
+  "Project not completed": "PROJECT_NOT_COMPLETED",
+  "Milestones pending": "MILESTONES_PENDING",
+  "No leftover funds": "NO_LEFTOVER_FUNDS",
+  "Arbitration fee too low": "ARBITRATION_FEE_TOO_LOW",
+  "No arbitration fee due": "NO_ARBITRATION_FEE_DUE",
+  "Unknown dispute": "UNKNOWN_DISPUTE",
+  "Not a party to the dispute": "NOT_DISPUTE_PARTY",
+  "Invalid ruling": "INVALID_RULING",
+  "Meta-evidence URI required": "META_EVIDENCE_REQUIRED",
+
+  // InvestmentNFT
+  "Exists": "PROJECT_ALREADY_REGISTERED",
+  "Not active": "NOT_ACTIVE",
+  "Expired": "LISTING_EXPIRED",
+  "Invalid price": "INVALID_LISTING",
+  "Below minimum": "BELOW_MINIMUM_PURCHASE",
+  "Exceeds available": "EXCEEDS_AVAILABLE",
+  "Cannot buy own": "OWN_LISTING",
+  "Seller refunded": "SELLER_REFUNDED",
+  "Not your listing": "NOT_LISTING_SELLER",
+  "Locked": "TOKENS_LOCKED",
+  "Exceeds supply": "SUPPLY_EXHAUSTED",
+  "Invalid value": "INVALID_VALUATION",
+  "Invalid multiplier": "INVALID_VALUATION",
+  "Already claimed": "ALREADY_CLAIMED",
+  "Nothing to claim": "NOTHING_TO_CLAIM",
+  "Not redeemable": "NOT_REDEEMABLE",
+
+  // Voting
+  "Proposal doesn't exist": "PROPOSAL_NOT_FOUND",
+  "Proposal not active": "PROPOSAL_NOT_ACTIVE",
+  "Not authorized to propose": "MISSING_ROLE",
+  "Voting ended": "VOTING_ENDED",
+  "Voting still active": "VOTING_STILL_ACTIVE",
+  "Already voted": "ALREADY_VOTED",
+  "Stake too low": "STAKE_TOO_LOW",
+  "Cannot stake for abstain": "ABSTAIN_WITH_STAKE",
+  "No stake found": "NO_STAKE",
+  "Stake not unlocked": "STAKE_LOCKED",
+  "Already withdrawn": "ALREADY_WITHDRAWN",
+  "Already executed": "ALREADY_EXECUTED",
+  "Cannot cancel": "CANNOT_CANCEL",
+  "Invalid quorum": "INVALID_VOTING_PARAMETERS",
+  "Voting period too short": "INVALID_VOTING_PARAMETERS",
+  "Voting period too long": "INVALID_VOTING_PARAMETERS",
+  "Insufficient treasury funds": "INSUFFICIENT_TREASURY",
+
+  // DealRoom
+  "Access denied": "ACCESS_DENIED",
+  "Already has access": "ALREADY_HAS_ACCESS",
+  "Only innovator can add documents": "NOT_INNOVATOR",
+  "Only innovator or admin can close": "NOT_INNOVATOR",
+  "Only innovator or admin can grant access": "NOT_INNOVATOR",
+  "Only innovator or admin can revoke access": "NOT_INNOVATOR",
+  "Only innovator or admin can view investors": "NOT_INNOVATOR",
+  "Deal room not active": "DEAL_ROOM_NOT_ACTIVE",
+  "Deal room expired": "DEAL_ROOM_EXPIRED",
+  "Document hash required": "DOCUMENT_HASH_REQUIRED",
+  "Investment intent too low": "INVESTMENT_INTENT_TOO_LOW",
+  "KYC verification required": "KYC_REQUIRED",
+  "KYC expired": "KYC_EXPIRED",
+};
+
+/**
+ * Custom errors, by name, from `contractErrorsAbi`
+ */
+export const CUSTOM_ERRORS: Record<string, ContractErrorCode> = {
+  AccessControlBadConfirmation: "NOT_AUTHORIZED",
+  AccessControlUnauthorizedAccount: "MISSING_ROLE",
+  EnforcedPause: "PAUSED",
+  ExpectedPause: "NOT_PAUSED",
+  ReentrancyGuardReentrantCall: "REENTRANT_CALL",
+  SafeERC20FailedOperation: "TRANSFER_FAILED",
+  FailedCall: "TRANSFER_FAILED",
+  InsufficientBalance: "INSUFFICIENT_BALANCE",
+  ERC20InsufficientAllowance: "INSUFFICIENT_ALLOWANCE",
+  ERC20InsufficientBalance: "INSUFFICIENT_BALANCE",
+  ERC20InvalidApprover: "INVALID_ADDRESS",
+  ERC20InvalidReceiver: "INVALID_ADDRESS",
+  ERC20InvalidSender: "INVALID_ADDRESS",
+  ERC20InvalidSpender: "INVALID_ADDRESS",
+  ERC1155InsufficientBalance: "INSUFFICIENT_BALANCE",
+  ERC1155InvalidApprover: "INVALID_ADDRESS",
+  ERC1155InvalidArrayLength: "INVALID_AMOUNT",
+  ERC1155InvalidOperator: "INVALID_ADDRESS",
+  ERC1155InvalidReceiver: "INVALID_ADDRESS",
+  ERC1155InvalidSender: "INVALID_ADDRESS",
+  ERC1155MissingApprovalForAll: "MISSING_APPROVAL",
+};
+
+/**
+ * A contract revert mapped to an error code. `message` keeps the raw reason
+ * for logs; UIs should show `userMessage` and `hint`.
+ */
+export class ContractError extends Error {
+  readonly userMessage: string;
+  readonly hint: string;
+
+  constructor(
+    readonly code: ContractErrorCode,
+    /** The `require` string, custom error name or panic description */
+    readonly reason: string,
+    /** Arguments of a custom error */
+    readonly args: readonly unknown[] = [],
+    options?: { cause?: unknown }
+  ) {
+    const detail: ErrorDetail = CONTRACT_ERRORS[code];
+    super(`${detail.message} (reverted with "${reason}")`, options);
+    this.name = "ContractError";
+    this.userMessage = detail.message;
+    this.hint = detail.hint;
+  }
+}
+
+interface RawRevert {
+  reason?: string;
+  data?: Hex;
+}
+
+/**
+ * Pull the revert out of a viem error, or out of anything shaped like an
+ * ethers `CallExceptionError` or a JSON-RPC error (`reason` / `data`,
+ * possibly nested under `cause` or `error`)
+ */
+function findRevert(error: unknown): RawRevert | undefined {
+  if (error instanceof BaseError) {
+    const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      return { reason: reverted.reason, data: reverted.raw };
+    }
+  }
+
+  let current = error;
+  for (let depth = 0; depth < 5 && current && typeof current === "object"; depth++) {
+    const { reason, data } = current as { reason?: unknown; data?: unknown };
+    if (typeof data === "string" && isHex(data) && data.length >= 10) {
+      return { data };
+    }
+    if (typeof reason === "string" && reason) {
+      return { reason };
+    }
+    const next = current as { cause?: unknown; error?: unknown };
+    current = next.cause ?? next.error;
+  }
+  return undefined;
+}
+
+/**
+ * Map a failed call or transaction to a `ContractError`. Returns undefined
+ * when the error is not a contract revert (network failures, user
+ * rejections and so on), so callers can rethrow it unchanged.
+ */
+export function decodeContractError(error: unknown): ContractError | undefined {
+  if (error instanceof ContractError) {
+    return error;
+  }
+  const revert = findRevert(error);
+  if (!revert) {
+    return undefined;
+  }
+
+  if (revert.data && revert.data !== "0x") {
+    try {
+      // viem also decodes the built-in Error(string) and Panic(uint256)
+      const { errorName, args } = decodeErrorResult({
+        abi: contractErrorsAbi,
+        data: revert.data,
+      }) as { errorName: string; args?: readonly unknown[] };
+      if (errorName === "Error") {
+        const reason = String(args?.[0]);
+        return new ContractError(REVERT_REASONS[reason] ?? "UNKNOWN_REVERT", reason, [], {
+          cause: error,
+        });
+      }
+      if (errorName !== "Panic") {
+        return new ContractError(
+          CUSTOM_ERRORS[errorName] ?? "UNKNOWN_REVERT",
+          errorName,
+          args,
+          { cause: error }
+        );
+      }
+    } catch {
+      // Unknown selector; fall back to whatever reason came with it
+    }
+  }
+
+  const reason = revert.reason ?? revert.data ?? "unknown reason";
+  return new ContractError(REVERT_REASONS[reason] ?? "UNKNOWN_REVERT", reason, [], {
+    cause: error,
+  });
+}
@@ -0,0 +1,685 @@
+import {
+  Address,
+  getAddress,
+  Hash,
+  parseEventLogs,
+  TransactionReceipt,
+} from "viem";
+
+import { arbitratorAbi, escrowAbi } from "./abis.js";
+import {
+  ClientConfig,
+  ensureAllowance,
+  enumValue,
+  sendTransaction,
+  ZERO_ADDRESS,
+} from "./client.js";
+import { deployedAddress } from "./deployments.js";
+
+// Same order as the Solidity enums in Escrow.sol
+export const PROJECT_STATUSES = [
+  "Active",
+  "Completed",
+  "Cancelled",
+  "Disputed",
+  "Failed",
+] as const;
+export const MILESTONE_STATUSES = [
+  "Pending",
+  "Submitted",
+  "Approved",
+  "Disputed",
+  "Released",
+  "Refunded",
+] as const;
+export const DISPUTE_STATUSES = [
+  "None",
+  "Raised",
+  "UnderReview",
+  "Resolved",
+] as const;
+
+// Same order as IArbitrator.DisputeStatus (ERC-792)
+export const ARBITRATOR_DISPUTE_STATUSES = ["Waiting", "Appealable", "Solved"] as const;
+
+// Escrow.RULING_OPTIONS: ruling n gives the creator n - 1 basis points of the
+// milestone, and 0 (the arbitrator refusing to rule) splits it evenly
+export const RULING_OPTIONS = 10_001n;
+const RULING_BASIS_POINTS = 10_000n;
+
+/**
+ * The ERC-792 ruling that releases `basisPoints` of a disputed milestone to
+ * the creator and refunds the rest, e.g. 6000n for 60% / 40%
+ */
+export function rulingForCreatorShare(basisPoints: bigint): bigint {
+  if (basisPoints < 0n || basisPoints > RULING_BASIS_POINTS) {
+    throw new Error(`Creator share ${basisPoints} must be 0 to ${RULING_BASIS_POINTS} basis points`);
+  }
+  return basisPoints + 1n;
+}
+
+/**
+ * Basis points of a disputed milestone a ruling releases to the creator
+ */
+export function creatorShareOfRuling(ruling: bigint): bigint {
+  return ruling === 0n ? RULING_BASIS_POINTS / 2n : ruling - 1n;
+}
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+export type MilestoneStatus = (typeof MILESTONE_STATUSES)[number];
+export type DisputeStatus = (typeof DISPUTE_STATUSES)[number];
+export type ArbitratorDisputeStatus = (typeof ARBITRATOR_DISPUTE_STATUSES)[number];
+
+export interface Project {
+  id: bigint;
+  creator: Address;
+  title: string;
+  description: string;
+  targetAmount: bigint;
+  raisedAmount: bigint;
+  creationDate: bigint;
+  deadline: bigint;
+  status: ProjectStatus;
+  /** ERC20 the project raises in, or undefined for the native currency */
+  token: Address | undefined;
+  totalMilestones: bigint;
+  completedMilestones: bigint;
+  emergencyWithdrawEnabled: boolean;
+}
+
+export interface Milestone {
+  projectId: bigint;
+  id: bigint;
+  amount: bigint;
+  dueDate: bigint;
+  title: string;
+  description: string;
+  evidenceURI: string;
+  creator: Address;
+  status: MilestoneStatus;
+  disputeStatus: DisputeStatus;
+  submissionDate: bigint;
+  approvalDate: bigint;
+  approvalsCount: bigint;
+  requiredApprovals: bigint;
+}
+
+export interface Investment {
+  amount: bigint;
+  timestamp: bigint;
+  refunded: boolean;
+}
+
+/**
+ * How a project's target is split into milestones and what its locked funds
+ * still cover
+ */
+export interface ProjectBudget {
+  targetAmount: bigint;
+  /** Sum of all milestone amounts */
+  allocated: bigint;
+  /** Sum of released and refunded milestone amounts */
+  settled: bigint;
+  /** Target still open for new milestones */
+  unallocated: bigint;
+  lockedFunds: bigint;
+  /** Locked funds no pending milestone will pay out */
+  unallocatedFunds: bigint;
+}
+
+/**
+ * The arbitrator dispute a milestone was sent to
+ */
+export interface Arbitration {
+  arbitrator: Address;
+  disputeId: bigint;
+  status: ArbitratorDisputeStatus;
+  /** Ruling so far; final once `status` is "Solved" */
+  currentRuling: bigint;
+}
+
+/**
+ * Evidence a party published on a milestone's dispute (ERC-1497), oldest first
+ */
+export interface DisputeEvidence {
+  party: Address;
+  /** URI of the evidence document, or the reason given when raising the dispute */
+  evidence: string;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+export interface CreateProjectParams {
+  title: string;
+  description: string;
+  targetAmount: bigint;
+  /** Unix timestamp in seconds */
+  deadline: bigint;
+  /** ERC20 to raise in; omit for the native currency */
+  token?: Address;
+}
+
+export interface CreateMilestoneParams {
+  projectId: bigint;
+  amount: bigint;
+  /** Unix timestamp in seconds, more than 7 days out */
+  dueDate: bigint;
+  title: string;
+  description: string;
+  requiredApprovals: bigint;
+}
+
+export interface DepositResult {
+  /** Set when an ERC20 approval had to be sent first */
+  approval: TransactionReceipt | undefined;
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Typed client for the Escrow contract: reads come back as named objects with
+ * enum strings, and writes are simulated before they are sent
+ */
+export class EscrowClient {
+  readonly address: Address;
+  private readonly config: ClientConfig;
+
+  constructor(address: Address, config: ClientConfig) {
+    this.address = getAddress(address);
+    this.config = config;
+  }
+
+  /**
+   * Client for the Escrow of a parsed `deployments/<network>-latest.json`
+   */
+  static fromDeployment(deployment: unknown, config: ClientConfig): EscrowClient {
+    return new EscrowClient(deployedAddress(deployment, "escrow"), config);
+  }
+
+  async projectCount(): Promise<bigint> {
+    return this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "projectCounter",
+    });
+  }
+
+  async platformFee(): Promise<bigint> {
+    return this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "platformFeePercentage",
+    });
+  }
+
+  async getProject(projectId: bigint): Promise<Project> {
+    const [
+      creator,
+      title,
+      description,
+      targetAmount,
+      raisedAmount,
+      creationDate,
+      deadline,
+      status,
+      token,
+      totalMilestones,
+      completedMilestones,
+      emergencyWithdrawEnabled,
+    ] = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "projects",
+      args: [projectId],
+    });
+    if (creator === ZERO_ADDRESS) {
+      throw new Error(`Project ${projectId} does not exist`);
+    }
+
+    return {
+      id: projectId,
+      creator,
+      title,
+      description,
+      targetAmount,
+      raisedAmount,
+      creationDate,
+      deadline,
+      status: enumValue(PROJECT_STATUSES, status, "project status"),
+      token: token === ZERO_ADDRESS ? undefined : token,
+      totalMilestones,
+      completedMilestones,
+      emergencyWithdrawEnabled,
+    };
+  }
+
+  async getMilestone(projectId: bigint, milestoneId: bigint): Promise<Milestone> {
+    const [
+      amount,
+      dueDate,
+      title,
+      description,
+      evidenceURI,
+      creator,
+      status,
+      disputeStatus,
+      submissionDate,
+      approvalDate,
+      approvalsCount,
+      requiredApprovals,
+    ] = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "projectMilestones",
+      args: [projectId, milestoneId],
+    });
+    if (creator === ZERO_ADDRESS) {
+      throw new Error(`Milestone ${milestoneId} of project ${projectId} does not exist`);
+    }
+
+    return {
+      projectId,
+      id: milestoneId,
+      amount,
+      dueDate,
+      title,
+      description,
+      evidenceURI,
+      creator,
+      status: enumValue(MILESTONE_STATUSES, status, "milestone status"),
+      disputeStatus: enumValue(DISPUTE_STATUSES, disputeStatus, "dispute status"),
+      submissionDate,
+      approvalDate,
+      approvalsCount,
+      requiredApprovals,
+    };
+  }
+
+  /**
+   * Every milestone of a project, in creation order
+   */
+  async getMilestones(projectId: bigint): Promise<Milestone[]> {
+    const { totalMilestones } = await this.getProject(projectId);
+    const milestones: Milestone[] = [];
+    for (let id = 0n; id < totalMilestones; id++) {
+      milestones.push(await this.getMilestone(projectId, id));
+    }
+    return milestones;
+  }
+
+  async getBudget(projectId: bigint): Promise<ProjectBudget> {
+    const { targetAmount } = await this.getProject(projectId);
+    const read = (
+      functionName:
+        | "allocatedAmount"
+        | "settledAmount"
+        | "getUnallocatedBudget"
+        | "totalLockedFunds"
+        | "getUnallocatedFunds"
+    ) =>
+      this.config.publicClient.readContract({
+        address: this.address,
+        abi: escrowAbi,
+        functionName,
+        args: [projectId],
+      });
+    const [allocated, settled, unallocated, lockedFunds, unallocatedFunds] =
+      await Promise.all([
+        read("allocatedAmount"),
+        read("settledAmount"),
+        read("getUnallocatedBudget"),
+        read("totalLockedFunds"),
+        read("getUnallocatedFunds"),
+      ]);
+    return { targetAmount, allocated, settled, unallocated, lockedFunds, unallocatedFunds };
+  }
+
+  async getUserInvestment(projectId: bigint, user: Address): Promise<Investment> {
+    const [amount, timestamp, refunded] =
+      await this.config.publicClient.readContract({
+        address: this.address,
+        abi: escrowAbi,
+        functionName: "getUserInvestment",
+        args: [projectId, user],
+      });
+    return { amount, timestamp, refunded };
+  }
+
+  /**
+   * What `claimRefund` would pay the investor; zero unless the project failed
+   * and the investor has not been refunded yet
+   */
+  async getRefundAmount(projectId: bigint, investor: Address): Promise<bigint> {
+    return this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "getRefundAmount",
+      args: [projectId, investor],
+    });
+  }
+
+  /**
+   * The investor's unclaimed share of milestones refunded by dispute
+   * resolution and of returned leftover funds, paid by `claimMilestoneRefund`
+   */
+  async getMilestoneRefund(projectId: bigint, investor: Address): Promise<bigint> {
+    return this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "getMilestoneRefund",
+      args: [projectId, investor],
+    });
+  }
+
+  /**
+   * Released milestone funds or platform fees waiting for `withdraw`; omit
+   * `token` for ETH
+   */
+  async claimableBalance(account: Address, token: Address = ZERO_ADDRESS): Promise<bigint> {
+    return this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "claimableBalances",
+      args: [account, token],
+    });
+  }
+
+  async createProject(
+    params: CreateProjectParams
+  ): Promise<{ projectId: bigint; receipt: TransactionReceipt }> {
+    const receipt = await sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "createProject",
+      args: [
+        params.title,
+        params.description,
+        params.targetAmount,
+        params.deadline,
+        params.token ?? ZERO_ADDRESS,
+      ],
+    });
+    const [event] = parseEventLogs({
+      abi: escrowAbi,
+      eventName: "ProjectCreated",
+      logs: receipt.logs,
+    });
+    return { projectId: event.args.projectId, receipt };
+  }
+
+  async createMilestone(
+    params: CreateMilestoneParams
+  ): Promise<{ milestoneId: bigint; receipt: TransactionReceipt }> {
+    const receipt = await sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "createMilestone",
+      args: [
+        params.projectId,
+        params.amount,
+        params.dueDate,
+        params.title,
+        params.description,
+        params.requiredApprovals,
+      ],
+    });
+    const [event] = parseEventLogs({
+      abi: escrowAbi,
+      eventName: "MilestoneCreated",
+      logs: receipt.logs,
+    });
+    return { milestoneId: event.args.milestoneId, receipt };
+  }
+
+  /**
+   * Invest `amount` in a project. Native-currency projects send it as value;
+   * ERC20 projects approve the Escrow first when the allowance is short.
+   */
+  async deposit(projectId: bigint, amount: bigint): Promise<DepositResult> {
+    const { token } = await this.getProject(projectId);
+    const approval = token
+      ? await ensureAllowance(this.config, token, this.address, amount)
+      : undefined;
+
+    const receipt = await sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "deposit",
+      args: [projectId, amount],
+      value: token ? undefined : amount,
+    });
+    return { approval, receipt };
+  }
+
+  async submitMilestone(
+    projectId: bigint,
+    milestoneId: bigint,
+    evidenceURI: string
+  ): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "submitMilestone",
+      args: [projectId, milestoneId, evidenceURI],
+    });
+  }
+
+  async approveMilestone(
+    projectId: bigint,
+    milestoneId: bigint
+  ): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "approveMilestone",
+      args: [projectId, milestoneId],
+    });
+  }
+
+  /**
+   * Fee for raising a dispute: the arbitrator's cost, or zero when disputes
+   * are left to RESOLVER_ROLE
+   */
+  async arbitrationCost(): Promise<bigint> {
+    const read = this.config.publicClient.readContract;
+    const arbitrator = await read({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "arbitrator",
+    });
+    if (arbitrator === ZERO_ADDRESS) {
+      return 0n;
+    }
+    const extraData = await read({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "arbitratorExtraData",
+    });
+    return read({
+      address: arbitrator,
+      abi: arbitratorAbi,
+      functionName: "arbitrationCost",
+      args: [extraData],
+    });
+  }
+
+  /**
+   * Raise a dispute, paying the arbitration cost when an arbitrator is set.
+   * The reason is published as the first evidence.
+   */
+  async raiseDispute(
+    projectId: bigint,
+    milestoneId: bigint,
+    reason: string
+  ): Promise<TransactionReceipt> {
+    const cost = await this.arbitrationCost();
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "raiseDispute",
+      args: [projectId, milestoneId, reason],
+      value: cost > 0n ? cost : undefined,
+    });
+  }
+
+  /**
+   * Publish evidence on an open dispute, as the creator or an investor
+   */
+  async submitEvidence(
+    projectId: bigint,
+    milestoneId: bigint,
+    evidenceURI: string
+  ): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "submitEvidence",
+      args: [projectId, milestoneId, evidenceURI],
+    });
+  }
+
+  /**
+   * The arbitrator dispute of a milestone, or undefined when it was never
+   * sent to one
+   */
+  async getArbitration(
+    projectId: bigint,
+    milestoneId: bigint
+  ): Promise<Arbitration | undefined> {
+    const [arbitrator, disputeId] = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "milestoneArbitrations",
+      args: [projectId, milestoneId],
+    });
+    if (arbitrator === ZERO_ADDRESS) {
+      return undefined;
+    }
+    const [status, currentRuling] = await Promise.all([
+      this.config.publicClient.readContract({
+        address: arbitrator,
+        abi: arbitratorAbi,
+        functionName: "disputeStatus",
+        args: [disputeId],
+      }),
+      this.config.publicClient.readContract({
+        address: arbitrator,
+        abi: arbitratorAbi,
+        functionName: "currentRuling",
+        args: [disputeId],
+      }),
+    ]);
+    return {
+      arbitrator: getAddress(arbitrator),
+      disputeId,
+      status: enumValue(ARBITRATOR_DISPUTE_STATUSES, status, "arbitrator dispute status"),
+      currentRuling,
+    };
+  }
+
+  /**
+   * Evidence published on a milestone's dispute by either side
+   */
+  async getEvidence(
+    projectId: bigint,
+    milestoneId: bigint,
+    options: { fromBlock?: bigint } = {}
+  ): Promise<DisputeEvidence[]> {
+    const evidenceGroupId = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "getEvidenceGroupId",
+      args: [projectId, milestoneId],
+    });
+    const logs = await this.config.publicClient.getContractEvents({
+      address: this.address,
+      abi: escrowAbi,
+      eventName: "Evidence",
+      args: { _evidenceGroupID: evidenceGroupId },
+      fromBlock: options.fromBlock ?? 0n,
+      strict: true,
+    });
+    return logs.map((log) => ({
+      party: getAddress(log.args._party),
+      evidence: log.args._evidence,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    }));
+  }
+
+  async resolveDispute(
+    projectId: bigint,
+    milestoneId: bigint,
+    releaseToCreator: boolean
+  ): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "resolveDispute",
+      args: [projectId, milestoneId, releaseToCreator],
+    });
+  }
+
+  /**
+   * Close a project that missed its target by the deadline; anyone can call it
+   */
+  async markProjectFailed(projectId: bigint): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "markProjectFailed",
+      args: [projectId],
+    });
+  }
+
+  /**
+   * Withdraw the connected wallet's refund from a failed project
+   */
+  async claimRefund(projectId: bigint): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "claimRefund",
+      args: [projectId],
+    });
+  }
+
+  /**
+   * Return the funds a completed project has left once every milestone is
+   * settled; anyone can call it. Investors then collect with
+   * `claimMilestoneRefund`.
+   */
+  async returnLeftoverFunds(projectId: bigint): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "returnLeftoverFunds",
+      args: [projectId],
+    });
+  }
+
+  /**
+   * Withdraw the connected wallet's share of refunded milestones and
+   * returned leftover funds
+   */
+  async claimMilestoneRefund(projectId: bigint): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "claimMilestoneRefund",
+      args: [projectId],
+    });
+  }
+
+  /**
+   * Withdraw the connected wallet's claimable balance of one token; omit
+   * `token` for ETH
+   */
+  async withdraw(token: Address = ZERO_ADDRESS): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: escrowAbi,
+      functionName: "withdraw",
+      args: [token],
+    });
+  }
+}
@@ -0,0 +1,8 @@
+export * from "./abis.js";
+export * from "./client.js";
+export * from "./deployments.js";
+export * from "./errors.js";
+export * from "./escrow.js";
+export * from "./marketplace.js";
+export * from "./portfolio.js";
+export * from "./voting.js";
@@ -0,0 +1,571 @@
+import {
+  Address,
+  getAddress,
+  Hex,
+  parseEventLogs,
+  TransactionReceipt,
+} from "viem";
+
+import { erc20Abi, investmentNftAbi } from "./abis.js";
+import {
+  ClientConfig,
+  Eligibility,
+  ensureAllowance,
+  enumValue,
+  sendTransaction,
+  walletAccount,
+  ZERO_ADDRESS,
+} from "./client.js";
+import { deployedAddress } from "./deployments.js";
+
+// InvestmentNFT.BASIS_POINTS
+export const BASIS_POINTS = 10_000n;
+
+// Same order as the Solidity enum in InvestmentNFT.sol
+export const TOKEN_PROJECT_STATUSES = [
+  "Active",
+  "Completed",
+  "Failed",
+  "Liquidated",
+] as const;
+
+export type TokenProjectStatus = (typeof TOKEN_PROJECT_STATUSES)[number];
+
+export interface TokenProject {
+  id: bigint;
+  creator: Address;
+  /** ERC20 the project is valued in, or undefined for the native currency */
+  paymentToken: Address | undefined;
+  targetAmount: bigint;
+  initialTokenValue: bigint;
+  currentTokenValue: bigint;
+  creationDate: bigint;
+  lockupPeriod: bigint;
+  status: TokenProjectStatus;
+  redeemable: boolean;
+}
+
+export interface TokenInvestment {
+  /** Amount invested through minting, in the project's currency */
+  originalAmount: bigint;
+  tokens: bigint;
+  /** tokens * currentTokenValue */
+  currentValue: bigint;
+  /** Dividends claimed so far */
+  totalDividends: bigint;
+  /** Average price paid per token, across mints and purchases */
+  averageBuyPrice: bigint;
+}
+
+export interface UnclaimedDividend {
+  payoutId: bigint;
+  amount: bigint;
+}
+
+export interface Trade {
+  listingId: bigint;
+  projectId: bigint;
+  seller: Address;
+  buyer: Address;
+  amount: bigint;
+  pricePerToken: bigint;
+  paymentToken: Address | undefined;
+  blockNumber: bigint;
+  transactionHash: Hex;
+}
+
+export interface Listing {
+  id: bigint;
+  seller: Address;
+  /** InvestmentNFT token ID, which is the project ID */
+  projectId: bigint;
+  /** Tokens still for sale */
+  amount: bigint;
+  pricePerToken: bigint;
+  /** ERC20 the seller is paid in, or undefined for the native currency */
+  paymentToken: Address | undefined;
+  expiryDate: bigint;
+  minPurchase: bigint;
+  active: boolean;
+  partialFill: boolean;
+}
+
+export interface PurchaseQuote {
+  listingId: bigint;
+  amount: bigint;
+  paymentToken: Address | undefined;
+  /** What the buyer pays: amount * pricePerToken */
+  total: bigint;
+  /** Marketplace fee taken out of the total */
+  fee: bigint;
+  feeBasisPoints: bigint;
+  sellerProceeds: bigint;
+}
+
+export interface CreateListingParams {
+  projectId: bigint;
+  amount: bigint;
+  pricePerToken: bigint;
+  /** ERC20 to be paid in; omit for the native currency */
+  paymentToken?: Address;
+  /** Unix timestamp in seconds */
+  expiryDate: bigint;
+  /** Allow buyers to take part of the listing; when false it must be bought in full */
+  partialFill: boolean;
+  minPurchase?: bigint;
+}
+
+export interface BrowseListingsOptions {
+  projectId?: bigint;
+  seller?: Address;
+  paymentToken?: Address;
+  /** Include sold-out, cancelled and expired listings (default false) */
+  includeInactive?: boolean;
+}
+
+export interface PurchaseResult {
+  quote: PurchaseQuote;
+  /** Set when an ERC20 approval had to be sent first */
+  approval: TransactionReceipt | undefined;
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Marketplace side of InvestmentNFT: typed listings, purchase quotes and
+ * pre-flight checks that mirror the contract's `require`s
+ */
+export class MarketplaceClient {
+  readonly address: Address;
+  private readonly config: ClientConfig;
+
+  constructor(address: Address, config: ClientConfig) {
+    this.address = getAddress(address);
+    this.config = config;
+  }
+
+  /**
+   * Client for the InvestmentNFT of a parsed `deployments/<network>-latest.json`
+   */
+  static fromDeployment(
+    deployment: unknown,
+    config: ClientConfig
+  ): MarketplaceClient {
+    return new MarketplaceClient(
+      deployedAddress(deployment, "investmentNFT"),
+      config
+    );
+  }
+
+  private async now(): Promise<bigint> {
+    return (await this.config.publicClient.getBlock()).timestamp;
+  }
+
+  async marketplaceFee(): Promise<bigint> {
+    return this.config.publicClient.readContract({
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "marketplaceFee",
+    });
+  }
+
+  async balanceOf(account: Address, projectId: bigint): Promise<bigint> {
+    return this.config.publicClient.readContract({
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "balanceOf",
+      args: [account, projectId],
+    });
+  }
+
+  async getListing(listingId: bigint): Promise<Listing> {
+    const [
+      seller,
+      tokenId,
+      amount,
+      pricePerToken,
+      paymentToken,
+      expiryDate,
+      minPurchase,
+      active,
+      partialFill,
+    ] = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "listings",
+      args: [listingId],
+    });
+    if (seller === ZERO_ADDRESS) {
+      throw new Error(`Listing ${listingId} does not exist`);
+    }
+
+    return {
+      id: listingId,
+      seller,
+      projectId: tokenId,
+      amount,
+      pricePerToken,
+      paymentToken: paymentToken === ZERO_ADDRESS ? undefined : paymentToken,
+      expiryDate,
+      minPurchase,
+      active,
+      partialFill,
+    };
+  }
+
+  /**
+   * The token side of a project, or an error if it was never tokenized
+   */
+  async getTokenProject(projectId: bigint): Promise<TokenProject> {
+    const tokenProject = await this.findTokenProject(projectId);
+    if (!tokenProject) {
+      throw new Error(`Project ${projectId} has no investment tokens`);
+    }
+    return tokenProject;
+  }
+
+  /**
+   * The token side of a project, or undefined if it was never tokenized
+   */
+  async findTokenProject(projectId: bigint): Promise<TokenProject | undefined> {
+    const [
+      id,
+      creator,
+      paymentToken,
+      targetAmount,
+      initialTokenValue,
+      currentTokenValue,
+      creationDate,
+      lockupPeriod,
+      status,
+      redeemable,
+    ] = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "projects",
+      args: [projectId],
+    });
+    if (creator === ZERO_ADDRESS) {
+      return undefined;
+    }
+
+    return {
+      id,
+      creator,
+      paymentToken: paymentToken === ZERO_ADDRESS ? undefined : paymentToken,
+      targetAmount,
+      initialTokenValue,
+      currentTokenValue,
+      creationDate,
+      lockupPeriod,
+      status: enumValue(TOKEN_PROJECT_STATUSES, status, "token project status"),
+      redeemable,
+    };
+  }
+
+  async getInvestment(projectId: bigint, user: Address): Promise<TokenInvestment> {
+    const [originalAmount, tokens, currentValue, totalDividends, averageBuyPrice] =
+      await this.config.publicClient.readContract({
+        address: this.address,
+        abi: investmentNftAbi,
+        functionName: "getInvestment",
+        args: [projectId, user],
+      });
+    return { originalAmount, tokens, currentValue, totalDividends, averageBuyPrice };
+  }
+
+  async getUnclaimedDividends(
+    projectId: bigint,
+    user: Address
+  ): Promise<UnclaimedDividend[]> {
+    const [payoutIds, amounts] = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "getUnclaimedDividends",
+      args: [projectId, user],
+    });
+    return payoutIds.map((payoutId, i) => ({ payoutId, amount: amounts[i] }));
+  }
+
+  /**
+   * Marketplace purchases the account bought or sold in, oldest first.
+   * `TokensPurchased` only names the buyer, so the seller and terms come
+   * from the listing, which keeps them after it sells out.
+   */
+  async getTrades(
+    account: Address,
+    options: { fromBlock?: bigint } = {}
+  ): Promise<Trade[]> {
+    const user = getAddress(account);
+    const logs = await this.config.publicClient.getContractEvents({
+      address: this.address,
+      abi: investmentNftAbi,
+      eventName: "TokensPurchased",
+      fromBlock: options.fromBlock ?? 0n,
+      strict: true,
+    });
+
+    const listings = new Map<bigint, Listing>();
+    const trades: Trade[] = [];
+    for (const log of logs) {
+      const { listingId, buyer, amount } = log.args;
+      if (!listings.has(listingId)) {
+        listings.set(listingId, await this.getListing(listingId));
+      }
+      const listing = listings.get(listingId)!;
+      if (getAddress(buyer) !== user && listing.seller !== user) {
+        continue;
+      }
+      trades.push({
+        listingId,
+        projectId: listing.projectId,
+        seller: listing.seller,
+        buyer: getAddress(buyer),
+        amount,
+        pricePerToken: listing.pricePerToken,
+        paymentToken: listing.paymentToken,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    }
+    return trades;
+  }
+
+  /**
+   * Listings matching the filters, newest first. Only purchasable listings
+   * (active and unexpired) are returned unless `includeInactive` is set.
+   */
+  async browseListings(options: BrowseListingsOptions = {}): Promise<Listing[]> {
+    const count = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "listingCounter",
+    });
+    const now = await this.now();
+
+    const listings: Listing[] = [];
+    for (let id = count - 1n; id >= 0n; id--) {
+      const listing = await this.getListing(id);
+      if (!options.includeInactive && (!listing.active || listing.expiryDate <= now)) {
+        continue;
+      }
+      if (options.projectId !== undefined && listing.projectId !== options.projectId) {
+        continue;
+      }
+      if (options.seller && getAddress(options.seller) !== listing.seller) {
+        continue;
+      }
+      if (
+        options.paymentToken &&
+        getAddress(options.paymentToken) !== listing.paymentToken
+      ) {
+        continue;
+      }
+      listings.push(listing);
+    }
+    return listings;
+  }
+
+  /**
+   * Price `amount` tokens of a listing the way `purchase` does
+   */
+  async quotePurchase(
+    listing: Listing | bigint,
+    amount: bigint
+  ): Promise<PurchaseQuote> {
+    const resolved =
+      typeof listing === "bigint" ? await this.getListing(listing) : listing;
+    const feeBasisPoints = await this.marketplaceFee();
+    const total = amount * resolved.pricePerToken;
+    const fee = (total * feeBasisPoints) / BASIS_POINTS;
+
+    return {
+      listingId: resolved.id,
+      amount,
+      paymentToken: resolved.paymentToken,
+      total,
+      fee,
+      feeBasisPoints,
+      sellerProceeds: total - fee,
+    };
+  }
+
+  /**
+   * Check a purchase against the listing and the buyer's funds before
+   * anything is signed
+   */
+  async checkPurchase(
+    listingId: bigint,
+    amount: bigint,
+    buyer: Address
+  ): Promise<Eligibility> {
+    const listing = await this.getListing(listingId);
+    const reasons: string[] = [];
+
+    if (!listing.active) reasons.push("Not active");
+    if ((await this.now()) >= listing.expiryDate) reasons.push("Expired");
+    if (amount < listing.minPurchase) {
+      reasons.push(`Below minimum (${listing.minPurchase} tokens)`);
+    }
+    if (amount > listing.amount) {
+      reasons.push(`Exceeds available (${listing.amount} tokens)`);
+    }
+    // The contract accepts a partial buy here but then closes the listing,
+    // leaving the rest of the seller's tokens stuck in the contract
+    if (!listing.partialFill && amount < listing.amount) {
+      reasons.push(`Listing must be bought in full (${listing.amount} tokens)`);
+    }
+    if (getAddress(buyer) === listing.seller) reasons.push("Cannot buy own");
+    const sellerRefunded = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "stakeRefunded",
+      args: [listing.projectId, listing.seller],
+    });
+    if (sellerRefunded) reasons.push("Seller refunded");
+
+    const { total } = await this.quotePurchase(listing, amount);
+    const balance = listing.paymentToken
+      ? await this.config.publicClient.readContract({
+          address: listing.paymentToken,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [buyer],
+        })
+      : await this.config.publicClient.getBalance({ address: buyer });
+    if (balance < total) {
+      reasons.push(`Insufficient funds: ${total} needed, ${balance} available`);
+    }
+
+    return { eligible: reasons.length === 0, reasons };
+  }
+
+  /**
+   * When the seller's tokens of a project leave their lockup and can be listed
+   */
+  async unlockTime(projectId: bigint): Promise<bigint> {
+    const project = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "projects",
+      args: [projectId],
+    });
+    const [, creator, , , , , creationDate, lockupPeriod] = project;
+    if (creator === ZERO_ADDRESS) {
+      throw new Error(`Project ${projectId} does not exist`);
+    }
+    return creationDate + lockupPeriod;
+  }
+
+  /**
+   * Check a new listing against the seller's balance and the project lockup
+   */
+  async checkListing(
+    params: CreateListingParams,
+    seller: Address
+  ): Promise<Eligibility> {
+    const reasons: string[] = [];
+    const now = await this.now();
+
+    if (params.amount <= 0n) reasons.push("Invalid amount");
+    if (params.pricePerToken <= 0n) reasons.push("Invalid price");
+    if (params.expiryDate <= now) reasons.push("Invalid expiry");
+    if ((params.minPurchase ?? 0n) > params.amount) {
+      reasons.push("Minimum purchase exceeds the listed amount");
+    }
+    const balance = await this.balanceOf(seller, params.projectId);
+    if (balance < params.amount) {
+      reasons.push(`Insufficient balance: ${balance} tokens held`);
+    }
+    try {
+      const unlocksAt = await this.unlockTime(params.projectId);
+      if (now < unlocksAt) {
+        reasons.push(
+          `Locked until ${new Date(Number(unlocksAt) * 1000).toISOString()}`
+        );
+      }
+    } catch {
+      reasons.push("Project doesn't exist");
+    }
+
+    return { eligible: reasons.length === 0, reasons };
+  }
+
+  /**
+   * List project tokens for sale. The contract moves the tokens into escrow
+   * itself, so no `setApprovalForAll` is needed.
+   */
+  async createListing(
+    params: CreateListingParams
+  ): Promise<{ listingId: bigint; receipt: TransactionReceipt }> {
+    const check = await this.checkListing(params, walletAccount(this.config));
+    if (!check.eligible) {
+      throw new Error(`Cannot create listing: ${check.reasons.join("; ")}`);
+    }
+
+    const receipt = await sendTransaction(this.config, {
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "createListing",
+      args: [
+        params.projectId,
+        params.amount,
+        params.pricePerToken,
+        params.paymentToken ?? ZERO_ADDRESS,
+        params.expiryDate,
+        params.partialFill,
+        params.minPurchase ?? 0n,
+      ],
+    });
+    const [event] = parseEventLogs({
+      abi: investmentNftAbi,
+      eventName: "ListingCreated",
+      logs: receipt.logs,
+    });
+    return { listingId: event.args.listingId, receipt };
+  }
+
+  /**
+   * Buy `amount` tokens of a listing. The total is sent as value for
+   * native-currency listings; for ERC20 listings the InvestmentNFT is
+   * approved for the total first, which covers both the seller's share and
+   * the marketplace fee.
+   */
+  async purchase(listingId: bigint, amount: bigint): Promise<PurchaseResult> {
+    const buyer = walletAccount(this.config);
+    const check = await this.checkPurchase(listingId, amount, buyer);
+    if (!check.eligible) {
+      throw new Error(`Cannot purchase: ${check.reasons.join("; ")}`);
+    }
+
+    const quote = await this.quotePurchase(listingId, amount);
+    const approval = quote.paymentToken
+      ? await ensureAllowance(
+          this.config,
+          quote.paymentToken,
+          this.address,
+          quote.total
+        )
+      : undefined;
+
+    const receipt = await sendTransaction(this.config, {
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "purchase",
+      args: [listingId, amount],
+      value: quote.paymentToken ? undefined : quote.total,
+    });
+    return { quote, approval, receipt };
+  }
+
+  /**
+   * Close a listing and return the unsold tokens to the seller
+   */
+  async cancelListing(listingId: bigint): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: investmentNftAbi,
+      functionName: "cancelListing",
+      args: [listingId],
+    });
+  }
+}
@@ -0,0 +1,218 @@
+import { Address, getAddress } from "viem";
+
+import { erc20Abi } from "./abis.js";
+import { ClientConfig } from "./client.js";
+import { deployedAddress } from "./deployments.js";
+import { EscrowClient, ProjectStatus } from "./escrow.js";
+import {
+  MarketplaceClient,
+  Trade,
+  UnclaimedDividend,
+} from "./marketplace.js";
+import { ProposalStatus, StakeStatus, VoteChoice, VotingClient } from "./voting.js";
+
+export interface Currency {
+  /** ERC20 address, or undefined for the native currency */
+  token: Address | undefined;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * An account's position in one project. Escrow deposits and investment
+ * tokens are both covered; amounts are in `currency` base units.
+ */
+export interface ProjectPosition {
+  projectId: bigint;
+  title: string;
+  status: ProjectStatus;
+  currency: Currency;
+  deposited: bigint;
+  depositedAt: bigint | undefined;
+  refunded: boolean;
+  tokens: bigint;
+  averageBuyPrice: bigint;
+  /** tokens * averageBuyPrice */
+  costBasis: bigint;
+  /** Undefined when the project has no investment tokens */
+  currentTokenValue: bigint | undefined;
+  /** tokens * currentTokenValue */
+  currentValue: bigint;
+  dividendsClaimed: bigint;
+  dividendsUnclaimed: bigint;
+  unclaimedPayouts: UnclaimedDividend[];
+}
+
+export interface StakePosition {
+  proposalId: bigint;
+  description: string;
+  proposalStatus: ProposalStatus;
+  vote: VoteChoice;
+  amount: bigint;
+  weight: bigint;
+  status: StakeStatus;
+  /** Still held by the Voting contract until the proposal is finalized */
+  locked: boolean;
+}
+
+export interface PortfolioStatement {
+  account: Address;
+  chainId: number;
+  /** Chain head when the statement was generated */
+  blockNumber: bigint;
+  timestamp: bigint;
+  positions: ProjectPosition[];
+  trades: (Trade & { side: "buy" | "sell"; currency: Currency })[];
+  stakes: StakePosition[];
+  /** Currency the stakes are in */
+  governanceToken: Currency;
+}
+
+export interface StatementOptions {
+  /** First block to search for marketplace trades, usually the deployment block */
+  fromBlock?: bigint;
+  /** Symbol of the chain's native currency (default ETH) */
+  nativeCurrency?: string;
+}
+
+/**
+ * Investor statements across Escrow, InvestmentNFT and Voting: every
+ * project the account deposited into or holds tokens of, its marketplace
+ * trades and its Voting stakes
+ */
+export class PortfolioClient {
+  readonly escrow: EscrowClient;
+  readonly marketplace: MarketplaceClient;
+  readonly voting: VotingClient;
+  private readonly config: ClientConfig;
+
+  constructor(
+    addresses: { escrow: Address; investmentNFT: Address; voting: Address },
+    config: ClientConfig
+  ) {
+    this.escrow = new EscrowClient(addresses.escrow, config);
+    this.marketplace = new MarketplaceClient(addresses.investmentNFT, config);
+    this.voting = new VotingClient(addresses.voting, config);
+    this.config = config;
+  }
+
+  /**
+   * Client for the contracts of a parsed `deployments/<network>-latest.json`
+   */
+  static fromDeployment(deployment: unknown, config: ClientConfig): PortfolioClient {
+    return new PortfolioClient(
+      {
+        escrow: deployedAddress(deployment, "escrow"),
+        investmentNFT: deployedAddress(deployment, "investmentNFT"),
+        voting: deployedAddress(deployment, "voting"),
+      },
+      config
+    );
+  }
+
+  async statement(
+    account: Address,
+    options: StatementOptions = {}
+  ): Promise<PortfolioStatement> {
+    const user = getAddress(account);
+    const { publicClient } = this.config;
+    const block = await publicClient.getBlock();
+    const currencies = new Map<Address | undefined, Promise<Currency>>();
+    const currencyOf = (token: Address | undefined): Promise<Currency> => {
+      if (!currencies.has(token)) {
+        currencies.set(token, this.currency(token, options.nativeCurrency ?? "ETH"));
+      }
+      return currencies.get(token)!;
+    };
+
+    const positions: ProjectPosition[] = [];
+    const projectCount = await this.escrow.projectCount();
+    for (let projectId = 0n; projectId < projectCount; projectId++) {
+      const deposit = await this.escrow.getUserInvestment(projectId, user);
+      const investment = await this.marketplace.getInvestment(projectId, user);
+      const unclaimed = await this.marketplace.getUnclaimedDividends(projectId, user);
+      if (
+        deposit.amount === 0n &&
+        investment.tokens === 0n &&
+        investment.totalDividends === 0n &&
+        unclaimed.length === 0
+      ) {
+        continue;
+      }
+
+      const project = await this.escrow.getProject(projectId);
+      const tokenProject = await this.marketplace.findTokenProject(projectId);
+      positions.push({
+        projectId,
+        title: project.title,
+        status: project.status,
+        // Token values are quoted in the token project's payment currency
+        currency: await currencyOf(tokenProject ? tokenProject.paymentToken : project.token),
+        deposited: deposit.amount,
+        depositedAt: deposit.amount > 0n ? deposit.timestamp : undefined,
+        refunded: deposit.refunded,
+        tokens: investment.tokens,
+        averageBuyPrice: investment.averageBuyPrice,
+        costBasis: investment.tokens * investment.averageBuyPrice,
+        currentTokenValue: tokenProject?.currentTokenValue,
+        currentValue: investment.currentValue,
+        dividendsClaimed: investment.totalDividends,
+        dividendsUnclaimed: unclaimed.reduce((total, payout) => total + payout.amount, 0n),
+        unclaimedPayouts: unclaimed,
+      });
+    }
+
+    const trades: PortfolioStatement["trades"] = [];
+    for (const trade of await this.marketplace.getTrades(user, {
+      fromBlock: options.fromBlock,
+    })) {
+      trades.push({
+        ...trade,
+        side: trade.buyer === user ? "buy" : "sell",
+        currency: await currencyOf(trade.paymentToken),
+      });
+    }
+
+    const stakes: StakePosition[] = [];
+    for (const proposal of await this.voting.listProposals()) {
+      const stake = await this.voting.getStake(proposal.id, user);
+      if (stake.amount === 0n) continue;
+      stakes.push({
+        proposalId: proposal.id,
+        description: proposal.description,
+        proposalStatus: proposal.status,
+        vote: stake.vote,
+        amount: stake.amount,
+        weight: stake.weight,
+        status: stake.status,
+        locked: stake.status === "Active",
+      });
+    }
+
+    return {
+      account: user,
+      chainId: await publicClient.getChainId(),
+      blockNumber: block.number,
+      timestamp: block.timestamp,
+      positions,
+      trades,
+      stakes: stakes.reverse(),
+      governanceToken: await currencyOf(await this.voting.governanceToken()),
+    };
+  }
+
+  private async currency(
+    token: Address | undefined,
+    nativeSymbol: string
+  ): Promise<Currency> {
+    if (!token) {
+      return { token: undefined, symbol: nativeSymbol, decimals: 18 };
+    }
+    const { publicClient } = this.config;
+    const [symbol, decimals] = await Promise.all([
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: "symbol" }),
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: "decimals" }),
+    ]);
+    return { token, symbol, decimals };
+  }
+}
@@ -0,0 +1,466 @@
+import {
+  Address,
+  getAddress,
+  Hex,
+  parseAbi,
+  parseEventLogs,
+  TransactionReceipt,
+} from "viem";
+
+import { erc20Abi, votingAbi } from "./abis.js";
+import {
+  ClientConfig,
+  Eligibility,
+  ensureAllowance,
+  enumValue,
+  sendTransaction,
+  walletAccount,
+  ZERO_ADDRESS,
+} from "./client.js";
+import { deployedAddress } from "./deployments.js";
+
+// Same order as the Solidity enums in Voting.sol
+export const PROPOSAL_STATUSES = [
+  "Pending",
+  "Active",
+  "Succeeded",
+  "Failed",
+  "Executed",
+  "Cancelled",
+] as const;
+export const VOTE_CHOICES = ["Abstain", "Yes", "No"] as const;
+export const STAKE_STATUSES = ["Active", "Unlocked", "Withdrawn"] as const;
+
+export type ProposalStatus = (typeof PROPOSAL_STATUSES)[number];
+export type VoteChoice = (typeof VOTE_CHOICES)[number];
+export type StakeStatus = (typeof STAKE_STATUSES)[number];
+
+// Voting.BASIS_POINTS and Voting.MIN_STAKE_AMOUNT
+export const VOTING_BASIS_POINTS = 10_000n;
+export const MIN_STAKE_AMOUNT = 10n ** 18n;
+
+// Voting probes the NFT contract with the ERC20 signature
+const nftBalanceAbi = parseAbi([
+  "function balanceOf(address account) view returns (uint256)",
+]);
+
+export interface Proposal {
+  id: bigint;
+  proposer: Address;
+  description: string;
+  targetAmount: bigint;
+  /** Called with `executionData` when the proposal passes; undefined if none */
+  targetContract: Address | undefined;
+  executionData: Hex;
+  startTime: bigint;
+  endTime: bigint;
+  /** Basis points of `targetAmount` the total vote weight has to reach */
+  quorumRequired: bigint;
+  yesVotes: bigint;
+  noVotes: bigint;
+  abstainVotes: bigint;
+  totalStaked: bigint;
+  status: ProposalStatus;
+  executed: boolean;
+  executionTime: bigint;
+}
+
+export interface Stake {
+  amount: bigint;
+  vote: VoteChoice;
+  weight: bigint;
+  status: StakeStatus;
+  claimed: boolean;
+}
+
+export interface VoterInfo {
+  totalVotingPower: bigint;
+  activeStakes: bigint;
+  participationCount: bigint;
+  lastVoteTime: bigint;
+  hasNFT: boolean;
+  nftBalance: bigint;
+}
+
+export interface VoteWeight {
+  amount: bigint;
+  weight: bigint;
+  /** True when the 1.5x NFT holder multiplier applies */
+  nftBonus: boolean;
+}
+
+export interface HypotheticalVote {
+  voter: Address;
+  choice: VoteChoice;
+  amount: bigint;
+}
+
+export interface ProposalOutlook {
+  proposal: Proposal;
+  /** Yes + no + abstain weight, including any hypothetical vote */
+  totalVotes: bigint;
+  yesVotes: bigint;
+  noVotes: bigint;
+  requiredVotes: bigint;
+  /** Progress towards quorum in basis points, capped at 10,000 */
+  quorumProgress: bigint;
+  quorumReached: boolean;
+  votesNeededForQuorum: bigint;
+  votingEnded: boolean;
+  /** Outcome if the proposal were finalized with the current votes */
+  projectedStatus: ProposalStatus;
+  /** Weight the hypothetical vote would carry, when one was given */
+  hypotheticalWeight?: VoteWeight;
+}
+
+export interface ProposeParams {
+  description: string;
+  targetAmount: bigint;
+  targetContract?: Address;
+  executionData?: Hex;
+  /** Seconds, between 3 and 30 days */
+  votingDuration: bigint;
+}
+
+/**
+ * Governance client for the Voting contract. Reads are decoded into named
+ * objects, and quorum and outcome projections follow `finalizeProposal`.
+ */
+export class VotingClient {
+  readonly address: Address;
+  private readonly config: ClientConfig;
+
+  constructor(address: Address, config: ClientConfig) {
+    this.address = getAddress(address);
+    this.config = config;
+  }
+
+  /**
+   * Client for the Voting contract of a parsed `deployments/<network>-latest.json`
+   */
+  static fromDeployment(deployment: unknown, config: ClientConfig): VotingClient {
+    return new VotingClient(deployedAddress(deployment, "voting"), config);
+  }
+
+  private async now(): Promise<bigint> {
+    return (await this.config.publicClient.getBlock()).timestamp;
+  }
+
+  async getProposal(proposalId: bigint): Promise<Proposal> {
+    const exists = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: votingAbi,
+      functionName: "proposalExists",
+      args: [proposalId],
+    });
+    if (!exists) {
+      throw new Error(`Proposal ${proposalId} does not exist`);
+    }
+
+    const [
+      ,
+      proposer,
+      description,
+      targetAmount,
+      targetContract,
+      executionData,
+      startTime,
+      endTime,
+      quorumRequired,
+      yesVotes,
+      noVotes,
+      abstainVotes,
+      totalStaked,
+      status,
+      executed,
+      executionTime,
+    ] = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: votingAbi,
+      functionName: "proposals",
+      args: [proposalId],
+    });
+
+    return {
+      id: proposalId,
+      proposer,
+      description,
+      targetAmount,
+      targetContract: targetContract === ZERO_ADDRESS ? undefined : targetContract,
+      executionData,
+      startTime,
+      endTime,
+      quorumRequired,
+      yesVotes,
+      noVotes,
+      abstainVotes,
+      totalStaked,
+      status: enumValue(PROPOSAL_STATUSES, status, "proposal status"),
+      executed,
+      executionTime,
+    };
+  }
+
+  /**
+   * Every proposal, newest first, optionally limited to some statuses
+   */
+  async listProposals(
+    options: { status?: ProposalStatus[] } = {}
+  ): Promise<Proposal[]> {
+    const count = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: votingAbi,
+      functionName: "proposalCounter",
+    });
+
+    const proposals: Proposal[] = [];
+    for (let id = count - 1n; id >= 0n; id--) {
+      const proposal = await this.getProposal(id);
+      if (!options.status || options.status.includes(proposal.status)) {
+        proposals.push(proposal);
+      }
+    }
+    return proposals;
+  }
+
+  async getStake(proposalId: bigint, staker: Address): Promise<Stake> {
+    const [amount, vote, weight, status, claimed] =
+      await this.config.publicClient.readContract({
+        address: this.address,
+        abi: votingAbi,
+        functionName: "getStake",
+        args: [proposalId, staker],
+      });
+    return {
+      amount,
+      vote: enumValue(VOTE_CHOICES, vote, "vote choice"),
+      weight,
+      status: enumValue(STAKE_STATUSES, status, "stake status"),
+      claimed,
+    };
+  }
+
+  async getVoterInfo(voter: Address): Promise<VoterInfo> {
+    const [
+      totalVotingPower,
+      activeStakes,
+      participationCount,
+      lastVoteTime,
+      hasNFT,
+      nftBalance,
+    ] = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: votingAbi,
+      functionName: "voters",
+      args: [voter],
+    });
+    return {
+      totalVotingPower,
+      activeStakes,
+      participationCount,
+      lastVoteTime,
+      hasNFT,
+      nftBalance,
+    };
+  }
+
+  /**
+   * Weight `amount` would carry for `voter`. Like `vote`, the 1.5x bonus only
+   * applies when the configured NFT contract answers `balanceOf(address)`
+   * with a non-zero balance; a reverting call means no bonus.
+   */
+  async effectiveWeight(voter: Address, amount: bigint): Promise<VoteWeight> {
+    const nftContract = await this.config.publicClient.readContract({
+      address: this.address,
+      abi: votingAbi,
+      functionName: "nftContract",
+    });
+
+    let nftBalance = 0n;
+    if (nftContract !== ZERO_ADDRESS) {
+      try {
+        nftBalance = await this.config.publicClient.readContract({
+          address: nftContract,
+          abi: nftBalanceAbi,
+          functionName: "balanceOf",
+          args: [voter],
+        });
+      } catch {
+        nftBalance = 0n;
+      }
+    }
+
+    const nftBonus = nftBalance > 0n;
+    return { amount, weight: nftBonus ? (amount * 15n) / 10n : amount, nftBonus };
+  }
+
+  /**
+   * Quorum progress and the outcome `finalizeProposal` would reach with the
+   * votes cast so far, optionally with one more vote added
+   */
+  async projectOutcome(
+    proposal: Proposal | bigint,
+    hypothetical?: HypotheticalVote
+  ): Promise<ProposalOutlook> {
+    const resolved =
+      typeof proposal === "bigint" ? await this.getProposal(proposal) : proposal;
+    let { yesVotes, noVotes, abstainVotes } = resolved;
+
+    let hypotheticalWeight: VoteWeight | undefined;
+    if (hypothetical) {
+      hypotheticalWeight = await this.effectiveWeight(
+        hypothetical.voter,
+        hypothetical.amount
+      );
+      if (hypothetical.choice === "Yes") yesVotes += hypotheticalWeight.weight;
+      else if (hypothetical.choice === "No") noVotes += hypotheticalWeight.weight;
+      else abstainVotes += hypotheticalWeight.weight;
+    }
+
+    const totalVotes = yesVotes + noVotes + abstainVotes;
+    const requiredVotes =
+      (resolved.targetAmount * resolved.quorumRequired) / VOTING_BASIS_POINTS;
+    const quorumReached = totalVotes >= requiredVotes;
+    const quorumProgress =
+      requiredVotes === 0n || quorumReached
+        ? VOTING_BASIS_POINTS
+        : (totalVotes * VOTING_BASIS_POINTS) / requiredVotes;
+
+    // Settled proposals keep their status; open ones project the finalize rule
+    const projectedStatus: ProposalStatus =
+      resolved.status !== "Active"
+        ? resolved.status
+        : quorumReached && yesVotes > noVotes
+        ? "Succeeded"
+        : "Failed";
+
+    return {
+      proposal: resolved,
+      totalVotes,
+      yesVotes,
+      noVotes,
+      requiredVotes,
+      quorumProgress,
+      quorumReached,
+      votesNeededForQuorum: quorumReached ? 0n : requiredVotes - totalVotes,
+      votingEnded: (await this.now()) >= resolved.endTime,
+      projectedStatus,
+      hypotheticalWeight,
+    };
+  }
+
+  /**
+   * Check a vote against the contract's rules and the voter's token balance
+   */
+  async checkVote(
+    proposalId: bigint,
+    voter: Address,
+    choice: VoteChoice,
+    amount: bigint
+  ): Promise<Eligibility> {
+    const proposal = await this.getProposal(proposalId);
+    const reasons: string[] = [];
+
+    if (amount < MIN_STAKE_AMOUNT) reasons.push("Stake too low");
+    // vote() requires a zero amount for abstain and a minimum stake, so an
+    // abstain vote can never be cast
+    if (choice === "Abstain") reasons.push("Cannot stake for abstain");
+    if (proposal.status !== "Active") reasons.push("Proposal not active");
+    if ((await this.now()) >= proposal.endTime) reasons.push("Voting ended");
+    if ((await this.getStake(proposalId, voter)).amount > 0n) {
+      reasons.push("Already voted");
+    }
+
+    const token = await this.governanceToken();
+    const balance = await this.config.publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [voter],
+    });
+    if (balance < amount) {
+      reasons.push(`Insufficient balance: ${balance} held`);
+    }
+
+    return { eligible: reasons.length === 0, reasons };
+  }
+
+  async governanceToken(): Promise<Address> {
+    return this.config.publicClient.readContract({
+      address: this.address,
+      abi: votingAbi,
+      functionName: "governanceToken",
+    });
+  }
+
+  async propose(
+    params: ProposeParams
+  ): Promise<{ proposalId: bigint; receipt: TransactionReceipt }> {
+    const receipt = await sendTransaction(this.config, {
+      address: this.address,
+      abi: votingAbi,
+      functionName: "proposeProject",
+      args: [
+        params.description,
+        params.targetAmount,
+        params.targetContract ?? ZERO_ADDRESS,
+        params.executionData ?? "0x",
+        params.votingDuration,
+      ],
+    });
+    const [event] = parseEventLogs({
+      abi: votingAbi,
+      eventName: "ProposalCreated",
+      logs: receipt.logs,
+    });
+    return { proposalId: event.args.proposalId, receipt };
+  }
+
+  /**
+   * Stake governance tokens on a proposal. The Voting contract pulls the
+   * stake, so it is approved first when the allowance is short.
+   */
+  async vote(
+    proposalId: bigint,
+    choice: VoteChoice,
+    amount: bigint
+  ): Promise<{ approval: TransactionReceipt | undefined; receipt: TransactionReceipt }> {
+    const voter = walletAccount(this.config);
+    const check = await this.checkVote(proposalId, voter, choice, amount);
+    if (!check.eligible) {
+      throw new Error(`Cannot vote: ${check.reasons.join("; ")}`);
+    }
+
+    const approval = await ensureAllowance(
+      this.config,
+      await this.governanceToken(),
+      this.address,
+      amount
+    );
+    const receipt = await sendTransaction(this.config, {
+      address: this.address,
+      abi: votingAbi,
+      functionName: "vote",
+      args: [proposalId, VOTE_CHOICES.indexOf(choice), amount],
+    });
+    return { approval, receipt };
+  }
+
+  async finalizeProposal(proposalId: bigint): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: votingAbi,
+      functionName: "finalizeProposal",
+      args: [proposalId],
+    });
+  }
+
+  async withdrawStake(proposalId: bigint): Promise<TransactionReceipt> {
+    return sendTransaction(this.config, {
+      address: this.address,
+      abi: votingAbi,
+      functionName: "withdrawStake",
+      args: [proposalId],
+    });
+  }
+}
@@ -0,0 +1,509 @@
+import { IndexerDatabase } from "../indexer/database.js";
+
+/**
+ * Read models over the indexer's tables. Amounts stay decimal strings, as
+ * stored; ids are strings too so uint256 values never lose precision.
+ */
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface IndexedProject {
+  id: string;
+  creator: string;
+  title: string;
+  targetAmount: string;
+  raisedAmount: string;
+  /** Share of the target raised, in basis points */
+  fundedBasisPoints: number;
+  token: string | null;
+  status: string;
+  investors: number;
+  createdAt: number;
+  createdBlock: number;
+}
+
+export interface IndexedMilestone {
+  projectId: string;
+  id: string;
+  amount: string;
+  dueDate: number;
+  status: string;
+  evidenceURI: string | null;
+  submittedAt: number | null;
+  approvals: number;
+  releasedAmount: string | null;
+  releasedAt: number | null;
+}
+
+export interface IndexedDeposit {
+  projectId: string;
+  investor: string;
+  amount: string;
+  token: string | null;
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface IndexedListing {
+  id: string;
+  projectId: string;
+  seller: string | null;
+  amount: string;
+  remaining: string;
+  pricePerToken: string | null;
+  paymentToken: string | null;
+  expiryDate: number | null;
+  createdAt: number;
+}
+
+export interface IndexedProposal {
+  id: string;
+  proposer: string;
+  description: string;
+  targetAmount: string;
+  endTime: number;
+  status: string;
+  yesVotes: string;
+  noVotes: string;
+  abstainVotes: string;
+  totalStaked: string;
+  voters: number;
+  createdAt: number;
+}
+
+export interface IndexedVote {
+  proposalId: string;
+  voter: string;
+  choice: string;
+  amount: string;
+  weight: string;
+  timestamp: number;
+}
+
+export interface IndexedDealRoom {
+  id: string;
+  projectId: string;
+  innovator: string;
+  title: string;
+  status: string;
+  createdAt: number;
+}
+
+export interface IndexedAccess {
+  dealRoomId: string;
+  investor: string;
+  status: string;
+  investmentIntent: string | null;
+  grantedBy: string | null;
+  revokeReason: string | null;
+  updatedAt: number;
+}
+
+type Row = Record<string, unknown>;
+
+const str = (value: unknown): string => String(value);
+const strOrNull = (value: unknown): string | null =>
+  value === null || value === undefined ? null : String(value);
+const numOrNull = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+function toProject(row: Row): IndexedProject {
+  const target = BigInt(str(row.target_amount));
+  const raised = BigInt(str(row.raised_amount));
+  return {
+    id: str(row.project_id),
+    creator: str(row.creator),
+    title: str(row.title),
+    targetAmount: target.toString(),
+    raisedAmount: raised.toString(),
+    fundedBasisPoints: target > 0n ? Number((raised * 10_000n) / target) : 0,
+    token: strOrNull(row.token),
+    status: str(row.status),
+    investors: Number(row.investors ?? 0),
+    createdAt: Number(row.created_at),
+    createdBlock: Number(row.created_block),
+  };
+}
+
+function toMilestone(row: Row): IndexedMilestone {
+  return {
+    projectId: str(row.project_id),
+    id: str(row.milestone_id),
+    amount: str(row.amount),
+    dueDate: Number(row.due_date),
+    status: str(row.status),
+    evidenceURI: strOrNull(row.evidence_uri),
+    submittedAt: numOrNull(row.submitted_at),
+    approvals: Number(row.approvals),
+    releasedAmount: strOrNull(row.released_amount),
+    releasedAt: numOrNull(row.released_at),
+  };
+}
+
+function toDeposit(row: Row): IndexedDeposit {
+  return {
+    projectId: str(row.project_id),
+    investor: str(row.investor),
+    amount: str(row.amount),
+    token: strOrNull(row.token),
+    transactionHash: str(row.transaction_hash),
+    blockNumber: Number(row.block_number),
+    timestamp: Number(row.timestamp),
+  };
+}
+
+function toListing(row: Row): IndexedListing {
+  return {
+    id: str(row.listing_id),
+    projectId: str(row.project_id),
+    seller: strOrNull(row.seller),
+    amount: str(row.amount),
+    remaining: str(row.remaining),
+    pricePerToken: strOrNull(row.price_per_token),
+    paymentToken: strOrNull(row.payment_token),
+    expiryDate: numOrNull(row.expiry_date),
+    createdAt: Number(row.created_at),
+  };
+}
+
+function toProposal(row: Row): IndexedProposal {
+  return {
+    id: str(row.proposal_id),
+    proposer: str(row.proposer),
+    description: str(row.description),
+    targetAmount: str(row.target_amount),
+    endTime: Number(row.end_time),
+    status: str(row.status),
+    yesVotes: str(row.yes_votes),
+    noVotes: str(row.no_votes),
+    abstainVotes: str(row.abstain_votes),
+    totalStaked: str(row.total_staked),
+    voters: Number(row.voters ?? 0),
+    createdAt: Number(row.created_at),
+  };
+}
+
+function toVote(row: Row): IndexedVote {
+  return {
+    proposalId: str(row.proposal_id),
+    voter: str(row.voter),
+    choice: str(row.choice),
+    amount: str(row.amount),
+    weight: str(row.weight),
+    timestamp: Number(row.timestamp),
+  };
+}
+
+function toDealRoom(row: Row): IndexedDealRoom {
+  return {
+    id: str(row.deal_room_id),
+    projectId: str(row.project_id),
+    innovator: str(row.innovator),
+    title: str(row.title),
+    status: str(row.status),
+    createdAt: Number(row.created_at),
+  };
+}
+
+function toAccess(row: Row): IndexedAccess {
+  return {
+    dealRoomId: str(row.deal_room_id),
+    investor: str(row.investor),
+    status: str(row.status),
+    investmentIntent: strOrNull(row.investment_intent),
+    grantedBy: strOrNull(row.granted_by),
+    revokeReason: strOrNull(row.revoke_reason),
+    updatedAt: Number(row.updated_at),
+  };
+}
+
+export function paginate<T>(items: T[], page: Page): PageResult<T> {
+  return {
+    items: items.slice(page.offset, page.offset + page.limit),
+    total: items.length,
+    limit: page.limit,
+    offset: page.offset,
+  };
+}
+
+/**
+ * Build a `WHERE` clause from the filters that are set. A clause without a
+ * `?` placeholder is switched on by a `true` value.
+ */
+function where(filters: [string, unknown][]): { sql: string; params: unknown[] } {
+  const set = filters.filter(([, value]) => value !== undefined && value !== false);
+  return {
+    sql: set.length > 0 ? `WHERE ${set.map(([clause]) => clause).join(" AND ")}` : "",
+    params: set.filter(([clause]) => clause.includes("?")).map(([, value]) => value),
+  };
+}
+
+function byId(a: string, b: string): number {
+  return Number(BigInt(a) - BigInt(b));
+}
+
+/**
+ * Sum decimal-string amounts without losing precision
+ */
+function sum(amounts: unknown[]): string {
+  return amounts.reduce<bigint>((total, amount) => total + BigInt(str(amount)), 0n).toString();
+}
+
+export type ProjectSort = "funded" | "raised" | "created";
+
+export class ApiQueries {
+  constructor(private readonly db: IndexerDatabase) {}
+
+  checkpoint(): number | null {
+    return this.db.checkpoint()?.blockNumber ?? null;
+  }
+
+  projects(filters: {
+    projectId?: string;
+    status?: string;
+    creator?: string;
+    sort?: ProjectSort;
+    order?: "asc" | "desc";
+  }): IndexedProject[] {
+    const { sql, params } = where([
+      ["p.project_id = ?", filters.projectId],
+      ["p.status = ?", filters.status],
+      ["p.creator = ?", filters.creator],
+    ]);
+    const projects = this.db
+      .all(
+        `SELECT p.*, (SELECT COUNT(DISTINCT investor) FROM deposits d WHERE d.project_id = p.project_id) AS investors
+         FROM projects p ${sql}`,
+        ...params
+      )
+      .map(toProject);
+
+    // Amounts are strings in SQLite, so ordering by them happens here
+    const key: Record<ProjectSort, (project: IndexedProject) => bigint> = {
+      funded: (project) => BigInt(project.fundedBasisPoints),
+      raised: (project) => BigInt(project.raisedAmount),
+      created: (project) => BigInt(project.createdBlock),
+    };
+    const by = key[filters.sort ?? "created"];
+    const direction = filters.order === "asc" ? 1 : -1;
+    return projects.sort((a, b) => {
+      const [x, y] = [by(a), by(b)];
+      return (x === y ? byId(a.id, b.id) : x < y ? -1 : 1) * direction;
+    });
+  }
+
+  project(projectId: string): IndexedProject | undefined {
+    return this.projects({ projectId })[0];
+  }
+
+  milestones(projectId: string): IndexedMilestone[] {
+    return this.db
+      .all(
+        "SELECT * FROM milestones WHERE project_id = ? ORDER BY CAST(milestone_id AS INTEGER)",
+        projectId
+      )
+      .map(toMilestone);
+  }
+
+  deposits(filters: { projectId?: string; investor?: string }): IndexedDeposit[] {
+    const { sql, params } = where([
+      ["project_id = ?", filters.projectId],
+      ["investor = ?", filters.investor],
+    ]);
+    return this.db
+      .all(`SELECT * FROM deposits ${sql} ORDER BY block_number DESC, log_index DESC`, ...params)
+      .map(toDeposit);
+  }
+
+  /**
+   * Submitted milestones of projects the account invested in that it has
+   * not approved yet
+   */
+  milestonesAwaitingApproval(account: string): IndexedMilestone[] {
+    return this.db
+      .all(
+        `SELECT m.* FROM milestones m
+         WHERE m.status = 'Submitted'
+           AND m.project_id IN (SELECT project_id FROM deposits WHERE investor = ?)
+           AND NOT EXISTS (
+             SELECT 1 FROM milestone_approvals a
+             WHERE a.project_id = m.project_id AND a.milestone_id = m.milestone_id AND a.validator = ?
+           )
+         ORDER BY m.submitted_at`,
+        account,
+        account
+      )
+      .map(toMilestone);
+  }
+
+  listings(filters: {
+    projectId?: string;
+    seller?: string;
+    /** Only listings with tokens left that have not expired by this time */
+    openAt?: number;
+  }): IndexedListing[] {
+    const { sql, params } = where([
+      ["project_id = ?", filters.projectId],
+      ["seller = ?", filters.seller],
+      ["remaining != '0'", filters.openAt !== undefined],
+      ["expiry_date > ?", filters.openAt],
+    ]);
+    return this.db
+      .all(
+        `SELECT * FROM listings ${sql} ORDER BY CAST(listing_id AS INTEGER) DESC`,
+        ...params
+      )
+      .map(toListing);
+  }
+
+  proposals(filters: {
+    proposalId?: string;
+    status?: string;
+    proposer?: string;
+  }): IndexedProposal[] {
+    const { sql, params } = where([
+      ["p.proposal_id = ?", filters.proposalId],
+      ["p.status = ?", filters.status],
+      ["p.proposer = ?", filters.proposer],
+    ]);
+    return this.db
+      .all(
+        `SELECT p.*, (SELECT COUNT(*) FROM votes v WHERE v.proposal_id = p.proposal_id) AS voters
+         FROM proposals p ${sql} ORDER BY CAST(p.proposal_id AS INTEGER) DESC`,
+        ...params
+      )
+      .map(toProposal);
+  }
+
+  votes(filters: { proposalId?: string; voter?: string }): IndexedVote[] {
+    const { sql, params } = where([
+      ["proposal_id = ?", filters.proposalId],
+      ["voter = ?", filters.voter],
+    ]);
+    return this.db
+      .all(`SELECT * FROM votes ${sql} ORDER BY timestamp DESC`, ...params)
+      .map(toVote);
+  }
+
+  dealRooms(filters: {
+    dealRoomId?: string;
+    innovator?: string;
+    projectId?: string;
+  }): IndexedDealRoom[] {
+    const { sql, params } = where([
+      ["deal_room_id = ?", filters.dealRoomId],
+      ["innovator = ?", filters.innovator],
+      ["project_id = ?", filters.projectId],
+    ]);
+    return this.db
+      .all(
+        `SELECT * FROM deal_rooms ${sql} ORDER BY CAST(deal_room_id AS INTEGER) DESC`,
+        ...params
+      )
+      .map(toDealRoom);
+  }
+
+  dealRoomAccess(filters: { dealRoomId?: string; investor?: string }): IndexedAccess[] {
+    const { sql, params } = where([
+      ["deal_room_id = ?", filters.dealRoomId],
+      ["investor = ?", filters.investor],
+    ]);
+    return this.db
+      .all(`SELECT * FROM deal_room_access ${sql} ORDER BY updated_at DESC`, ...params)
+      .map(toAccess);
+  }
+
+  dealRoomDocuments(dealRoomId: string): { hash: string; uploader: string; addedAt: number }[] {
+    return this.db
+      .all(
+        "SELECT * FROM deal_room_documents WHERE deal_room_id = ? ORDER BY added_at",
+        dealRoomId
+      )
+      .map((row) => ({
+        hash: str(row.document_hash),
+        uploader: str(row.uploader),
+        addedAt: Number(row.added_at),
+      }));
+  }
+
+  /**
+   * Investment tokens an account holds, per project: the balance follows
+   * every ERC1155 transfer, so tokens escrowed by its open listings are not
+   * in it. Alongside, what it minted on investment, bought on the
+   * marketplace, had burned by a refund and redeemed.
+   */
+  tokenHoldings(account: string): {
+    projectId: string;
+    balance: string;
+    minted: string;
+    purchased: string;
+    burned: string;
+    redeemed: string;
+  }[] {
+    const balances = this.db.all(
+      "SELECT project_id, balance AS amount FROM token_balances WHERE account = ?",
+      account
+    );
+    const minted = this.db.all(
+      "SELECT project_id, amount FROM token_mints WHERE investor = ?",
+      account
+    );
+    const purchased = this.db.all(
+      `SELECT l.project_id, p.amount FROM listing_purchases p
+       JOIN listings l ON l.listing_id = p.listing_id WHERE p.buyer = ?`,
+      account
+    );
+    const burned = this.db.all(
+      "SELECT project_id, amount FROM token_burns WHERE investor = ?",
+      account
+    );
+    const redeemed = this.db.all(
+      "SELECT project_id, amount FROM token_redemptions WHERE user = ?",
+      account
+    );
+    const projectIds = [
+      ...new Set([...balances, ...minted, ...purchased].map((row) => str(row.project_id))),
+    ];
+    const total = (rows: Record<string, unknown>[], projectId: string) =>
+      sum(rows.filter((row) => row.project_id === projectId).map((row) => row.amount));
+    return projectIds.sort(byId).map((projectId) => ({
+      projectId,
+      balance: total(balances, projectId),
+      minted: total(minted, projectId),
+      purchased: total(purchased, projectId),
+      burned: total(burned, projectId),
+      redeemed: total(redeemed, projectId),
+    }));
+  }
+
+  /**
+   * Total deposited and refunded per project for one investor
+   */
+  investments(account: string): { projectId: string; deposited: string; refunded: string }[] {
+    const deposits = this.db.all(
+      "SELECT project_id, amount FROM deposits WHERE investor = ?",
+      account
+    );
+    const refunds = this.db.all(
+      "SELECT project_id, amount FROM refunds WHERE investor = ?",
+      account
+    );
+    const projectIds = [...new Set(deposits.map((row) => str(row.project_id)))];
+    return projectIds.sort(byId).map((projectId) => ({
+      projectId,
+      deposited: sum(deposits.filter((row) => row.project_id === projectId).map((row) => row.amount)),
+      refunded: sum(refunds.filter((row) => row.project_id === projectId).map((row) => row.amount)),
+    }));
+  }
+}
@@ -0,0 +1,335 @@
+import * as http from "http";
+import { Address, getAddress } from "viem";
+
+import { EscrowClient, MarketplaceClient, VotingClient } from "../../sdk/index.js";
+import { IndexerDatabase } from "../indexer/database.js";
+import { HttpError, sendJson } from "../http.js";
+import {
+  ApiQueries,
+  IndexedListing,
+  IndexedMilestone,
+  IndexedProposal,
+  Page,
+  paginate,
+  ProjectSort,
+} from "./queries.js";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export interface ApiOptions {
+  database: IndexerDatabase;
+  /**
+   * Chain clients for the fields the events do not carry. Without them the
+   * API serves the indexed fields only.
+   */
+  escrow?: EscrowClient;
+  marketplace?: MarketplaceClient;
+  voting?: VotingClient;
+  /** Unix time that decides which listings are expired */
+  now?: () => number | Promise<number>;
+  log?: (message: string) => void;
+}
+
+type Handler = (match: RegExpExecArray, query: URLSearchParams) => Promise<unknown>;
+
+const PROJECT_SORTS: ProjectSort[] = ["funded", "raised", "created"];
+
+function page(query: URLSearchParams): Page {
+  const limit = Number(query.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(query.get("offset") ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new HttpError(400, "offset must be a non-negative integer");
+  }
+  return { limit, offset };
+}
+
+function address(value: string | null, name: string): Address | undefined {
+  if (value === null) return undefined;
+  try {
+    return getAddress(value);
+  } catch {
+    throw new HttpError(400, `${name} is not an address: ${value}`);
+  }
+}
+
+function id(value: string | null, name: string): string | undefined {
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `${name} must be a decimal id`);
+  }
+  return BigInt(value).toString();
+}
+
+function oneOf<T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+  name: string
+): T | undefined {
+  if (value === null) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new HttpError(400, `${name} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+/**
+ * Read-only HTTP API over an `IndexerDatabase`. Lists are paginated with
+ * `limit`/`offset` and answer `{ items, total, limit, offset }`; amounts and
+ * ids are decimal strings.
+ *
+ *   GET /status
+ *   GET /projects                  status, creator, sort=funded|raised|created, order=asc|desc
+ *   GET /projects/:id              merged with the on-chain project
+ *   GET /projects/:id/milestones   with on-chain titles and required approvals
+ *   GET /deposits                  projectId, investor
+ *   GET /listings                  projectId, seller, open=true
+ *   GET /proposals                 status, proposer
+ *   GET /proposals/:id             with its votes
+ *   GET /deal-rooms                innovator, projectId
+ *   GET /deal-rooms/:id            with access grants and document hashes
+ *   GET /accounts/:address         investments, holdings, listings, votes and access
+ *   GET /accounts/:address/milestones/awaiting-approval
+ */
+export function createApiServer(options: ApiOptions): http.Server {
+  const { escrow, marketplace, voting } = options;
+  const queries = new ApiQueries(options.database);
+  const now = options.now ?? (() => Math.floor(Date.now() / 1000));
+  const log = options.log ?? console.log;
+
+  async function chainProject(projectId: string) {
+    if (!escrow) return undefined;
+    try {
+      return await escrow.getProject(BigInt(projectId));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async function withChainMilestone(milestone: IndexedMilestone) {
+    if (!escrow) return milestone;
+    const onChain = await escrow.getMilestone(BigInt(milestone.projectId), BigInt(milestone.id));
+    return {
+      ...milestone,
+      title: onChain.title,
+      description: onChain.description,
+      requiredApprovals: Number(onChain.requiredApprovals),
+      disputeStatus: onChain.disputeStatus,
+    };
+  }
+
+  // Cancellations are not evented, so `active` only comes from the chain
+  async function withChainListing(listing: IndexedListing) {
+    if (!marketplace) return listing;
+    const onChain = await marketplace.getListing(BigInt(listing.id));
+    return { ...listing, active: onChain.active, minPurchase: onChain.minPurchase };
+  }
+
+  // Finalizing without execution data emits nothing, so a proposal the
+  // index still holds as Active may have succeeded or failed on chain
+  async function withChainStatus(proposal: IndexedProposal): Promise<IndexedProposal> {
+    if (!voting || proposal.status !== "Active") return proposal;
+    const onChain = await voting.getProposal(BigInt(proposal.id));
+    return { ...proposal, status: onChain.status };
+  }
+
+  async function openListings(filters: { projectId?: string; seller?: string }) {
+    const listings = queries.listings({ ...filters, openAt: await now() });
+    const withActive = await Promise.all(listings.map(withChainListing));
+    return withActive.filter((listing) => !("active" in listing) || listing.active);
+  }
+
+  const routes: [RegExp, Handler][] = [
+    [
+      /^\/status$/,
+      async () => ({ checkpoint: queries.checkpoint() }),
+    ],
+    [
+      /^\/projects$/,
+      async (_match, query) =>
+        paginate(
+          queries.projects({
+            status: query.get("status") ?? undefined,
+            creator: address(query.get("creator"), "creator"),
+            sort: oneOf(query.get("sort"), PROJECT_SORTS, "sort"),
+            order: oneOf(query.get("order"), ["asc", "desc"] as const, "order"),
+          }),
+          page(query)
+        ),
+    ],
+    [
+      /^\/projects\/(0|[1-9]\d*)$/,
+      async ([, projectId]) => {
+        const indexed = queries.project(projectId);
+        const onChain = await chainProject(projectId);
+        if (!indexed && !onChain) {
+          throw new HttpError(404, `Project ${projectId} is not indexed`);
+        }
+        return {
+          ...(indexed ?? {
+            id: projectId,
+            creator: onChain!.creator,
+            title: onChain!.title,
+            targetAmount: onChain!.targetAmount,
+            raisedAmount: onChain!.raisedAmount,
+            token: onChain!.token ?? null,
+            status: onChain!.status,
+            createdAt: Number(onChain!.creationDate),
+          }),
+          indexed: indexed !== undefined,
+          ...(onChain
+            ? {
+                description: onChain.description,
+                deadline: Number(onChain.deadline),
+                totalMilestones: Number(onChain.totalMilestones),
+                completedMilestones: Number(onChain.completedMilestones),
+                emergencyWithdrawEnabled: onChain.emergencyWithdrawEnabled,
+              }
+            : {}),
+        };
+      },
+    ],
+    [
+      /^\/projects\/(0|[1-9]\d*)\/milestones$/,
+      async ([, projectId], query) => {
+        const milestones = paginate(queries.milestones(projectId), page(query));
+        return {
+          ...milestones,
+          items: await Promise.all(milestones.items.map(withChainMilestone)),
+        };
+      },
+    ],
+    [
+      /^\/deposits$/,
+      async (_match, query) =>
+        paginate(
+          queries.deposits({
+            projectId: id(query.get("projectId"), "projectId"),
+            investor: address(query.get("investor"), "investor"),
+          }),
+          page(query)
+        ),
+    ],
+    [
+      /^\/listings$/,
+      async (_match, query) => {
+        const filters = {
+          projectId: id(query.get("projectId"), "projectId"),
+          seller: address(query.get("seller"), "seller"),
+        };
+        if (query.get("open") === "true") {
+          return paginate(await openListings(filters), page(query));
+        }
+        const listings = paginate(queries.listings(filters), page(query));
+        return { ...listings, items: await Promise.all(listings.items.map(withChainListing)) };
+      },
+    ],
+    [
+      /^\/proposals$/,
+      async (_match, query) => {
+        const status = query.get("status");
+        const proposals = await Promise.all(
+          queries
+            .proposals({ proposer: address(query.get("proposer"), "proposer") })
+            .map(withChainStatus)
+        );
+        return paginate(
+          proposals.filter((proposal) => status === null || proposal.status === status),
+          page(query)
+        );
+      },
+    ],
+    [
+      /^\/proposals\/(0|[1-9]\d*)$/,
+      async ([, proposalId]) => {
+        const [proposal] = queries.proposals({ proposalId });
+        if (!proposal) {
+          throw new HttpError(404, `Proposal ${proposalId} is not indexed`);
+        }
+        return { ...(await withChainStatus(proposal)), votes: queries.votes({ proposalId }) };
+      },
+    ],
+    [
+      /^\/deal-rooms$/,
+      async (_match, query) =>
+        paginate(
+          queries.dealRooms({
+            innovator: address(query.get("innovator"), "innovator"),
+            projectId: id(query.get("projectId"), "projectId"),
+          }),
+          page(query)
+        ),
+    ],
+    [
+      /^\/deal-rooms\/(0|[1-9]\d*)$/,
+      async ([, dealRoomId]) => {
+        const [dealRoom] = queries.dealRooms({ dealRoomId });
+        if (!dealRoom) {
+          throw new HttpError(404, `Deal room ${dealRoomId} is not indexed`);
+        }
+        return {
+          ...dealRoom,
+          access: queries.dealRoomAccess({ dealRoomId }),
+          documents: queries.dealRoomDocuments(dealRoomId),
+        };
+      },
+    ],
+    [
+      /^\/accounts\/(0x[0-9a-fA-F]{40})$/,
+      async ([, value]) => {
+        const account = address(value, "address")!;
+        return {
+          address: account,
+          investments: queries.investments(account),
+          tokenHoldings: queries.tokenHoldings(account),
+          listings: await Promise.all(
+            queries.listings({ seller: account }).map(withChainListing)
+          ),
+          votes: queries.votes({ voter: account }),
+          dealRoomAccess: queries.dealRoomAccess({ investor: account }),
+          milestonesAwaitingApproval: queries.milestonesAwaitingApproval(account).length,
+        };
+      },
+    ],
+    [
+      /^\/accounts\/(0x[0-9a-fA-F]{40})\/milestones\/awaiting-approval$/,
+      async ([, value], query) => {
+        const milestones = paginate(
+          queries.milestonesAwaitingApproval(address(value, "address")!),
+          page(query)
+        );
+        return {
+          ...milestones,
+          items: await Promise.all(milestones.items.map(withChainMilestone)),
+        };
+      },
+    ],
+  ];
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://api");
+    for (const [pattern, handler] of routes) {
+      const match = pattern.exec(url.pathname);
+      if (!match) continue;
+      if (req.method !== "GET") {
+        throw new HttpError(405, "Method not allowed");
+      }
+      return sendJson(res, 200, await handler(match, url.searchParams));
+    }
+    throw new HttpError(404, "Not found");
+  }
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      log(`❌ ${req.method} ${req.url}: ${(error as Error).message}`);
+      sendJson(res, 500, { error: "Internal error" });
+    });
+  });
+}
@@ -0,0 +1,119 @@
+import { randomBytes } from "crypto";
+import { Address, getAddress, Hex, isAddress, PublicClient } from "viem";
+
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const SESSION_TTL_MS = 60 * 60 * 1000;
+// Anyone can ask for a challenge, so their number is capped
+export const MAX_PENDING_CHALLENGES = 10_000;
+
+interface PendingChallenge {
+  message: string;
+  expiresAt: number;
+}
+
+interface Session {
+  address: Address;
+  expiresAt: number;
+}
+
+export class ChallengeLimitError extends Error {
+  constructor() {
+    super("Too many pending sign-ins; try again later");
+  }
+}
+
+/**
+ * Wallet sign-in for the gateway: the caller signs a one-time challenge and
+ * trades the signature for a short-lived bearer token. Signatures are
+ * checked with `publicClient.verifyMessage`, so contract wallets (ERC-1271)
+ * work as well as EOAs. Expired challenges and sessions are dropped
+ * whenever a new one is added.
+ */
+export class WalletAuth {
+  private readonly challenges = new Map<Address, PendingChallenge>();
+  private readonly sessions = new Map<string, Session>();
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly now: () => number = Date.now,
+    private readonly maxPendingChallenges = MAX_PENDING_CHALLENGES
+  ) {}
+
+  private prune(): void {
+    const now = this.now();
+    for (const [account, challenge] of this.challenges) {
+      if (challenge.expiresAt <= now) this.challenges.delete(account);
+    }
+    for (const [token, session] of this.sessions) {
+      if (session.expiresAt <= now) this.sessions.delete(token);
+    }
+  }
+
+  createChallenge(address: string): { message: string; expiresAt: number } {
+    if (!isAddress(address)) {
+      throw new Error(`Invalid address ${address}`);
+    }
+    const account = getAddress(address);
+    this.prune();
+    if (!this.challenges.has(account) && this.challenges.size >= this.maxPendingChallenges) {
+      throw new ChallengeLimitError();
+    }
+    const expiresAt = this.now() + CHALLENGE_TTL_MS;
+    const message = [
+      "Sign in to the DealRoom document gateway",
+      `Address: ${account}`,
+      `Nonce: ${randomBytes(16).toString("hex")}`,
+      `Expires: ${new Date(expiresAt).toISOString()}`,
+    ].join("\n");
+
+    this.challenges.set(account, { message, expiresAt });
+    return { message, expiresAt };
+  }
+
+  /**
+   * Verify the signed challenge and open a session. Each challenge can be
+   * used once.
+   */
+  async createSession(
+    address: string,
+    signature: Hex
+  ): Promise<{ token: string; expiresAt: number }> {
+    if (!isAddress(address)) {
+      throw new Error(`Invalid address ${address}`);
+    }
+    const account = getAddress(address);
+    const challenge = this.challenges.get(account);
+    this.challenges.delete(account);
+    if (!challenge || challenge.expiresAt <= this.now()) {
+      throw new Error("No pending challenge for this address; request a new one");
+    }
+
+    const valid = await this.publicClient.verifyMessage({
+      address: account,
+      message: challenge.message,
+      signature,
+    });
+    if (!valid) {
+      throw new Error("Signature does not match the challenge");
+    }
+
+    this.prune();
+    const token = randomBytes(32).toString("hex");
+    const expiresAt = this.now() + SESSION_TTL_MS;
+    this.sessions.set(token, { address: account, expiresAt });
+    return { token, expiresAt };
+  }
+
+  /**
+   * Wallet behind a bearer token, or undefined when it is unknown or expired
+   */
+  authenticate(token: string | undefined): Address | undefined {
+    if (!token) return undefined;
+    const session = this.sessions.get(token);
+    if (!session || session.expiresAt <= this.now()) {
+      this.sessions.delete(token);
+      return undefined;
+    }
+    return session.address;
+  }
+}
@@ -0,0 +1,222 @@
+import * as http from "http";
+import { Address, getAddress, Hex, PublicClient } from "viem";
+
+import { dealRoomAbi } from "../../sdk/abis.js";
+import { ZERO_ADDRESS } from "../../sdk/client.js";
+import { HttpError, sendJson } from "../http.js";
+import { ChallengeLimitError, WalletAuth } from "./auth.js";
+import { DocumentStore } from "./store.js";
+
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+export interface GatewayOptions {
+  publicClient: PublicClient;
+  dealRoom: Address;
+  store: DocumentStore;
+  auth?: WalletAuth;
+  maxUploadBytes?: number;
+  log?: (message: string) => void;
+}
+
+const DOCUMENTS_ROUTE = /^\/deal-rooms\/(\d+)\/documents(?:\/(0x[0-9a-fA-F]{64}))?$/;
+
+async function readBody(req: http.IncomingMessage, limit: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) {
+      throw new HttpError(413, `Upload exceeds ${limit} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  try {
+    return JSON.parse((await readBody(req, 64 * 1024)).toString("utf8"));
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, "Request body must be JSON");
+  }
+}
+
+/**
+ * HTTP gateway that keeps DealRoom documents private. Innovators upload
+ * documents for their own deal rooms and register the returned hash with
+ * `DealRoom.addDocument`; a document is served only when that hash is on
+ * chain and the signed-in wallet passes `DealRoom.hasAccess` (or is the
+ * deal room's innovator).
+ *
+ *   POST /auth/challenge                   { address } → { message, expiresAt }
+ *   POST /auth/session                     { address, signature } → { token, expiresAt }
+ *   GET  /deal-rooms/:id/documents         on-chain hashes and whether each is stored
+ *   PUT  /deal-rooms/:id/documents         raw body; `x-document-name` header
+ *   GET  /deal-rooms/:id/documents/:hash   decrypted document
+ */
+export function createGatewayServer(options: GatewayOptions): http.Server {
+  const { publicClient, store } = options;
+  const dealRoom = getAddress(options.dealRoom);
+  const auth = options.auth ?? new WalletAuth(publicClient);
+  const maxUploadBytes = options.maxUploadBytes ?? MAX_UPLOAD_BYTES;
+  const log = options.log ?? console.log;
+
+  async function innovatorOf(dealRoomId: bigint): Promise<Address> {
+    const [, innovator] = await publicClient.readContract({
+      address: dealRoom,
+      abi: dealRoomAbi,
+      functionName: "getDealRoom",
+      args: [dealRoomId],
+    });
+    if (innovator === ZERO_ADDRESS) {
+      throw new HttpError(404, `Deal room ${dealRoomId} does not exist`);
+    }
+    return getAddress(innovator);
+  }
+
+  async function requireReader(dealRoomId: bigint, caller: Address): Promise<Address> {
+    const innovator = await innovatorOf(dealRoomId);
+    if (caller === innovator) return innovator;
+
+    const allowed = await publicClient.readContract({
+      address: dealRoom,
+      abi: dealRoomAbi,
+      functionName: "hasAccess",
+      args: [dealRoomId, caller],
+    });
+    if (!allowed) {
+      throw new HttpError(403, `No access to deal room ${dealRoomId}`);
+    }
+    return innovator;
+  }
+
+  // getDealRoomDocuments checks msg.sender, so read it as the innovator
+  async function onChainDocuments(
+    dealRoomId: bigint,
+    innovator: Address
+  ): Promise<string[]> {
+    const hashes = await publicClient.readContract({
+      address: dealRoom,
+      abi: dealRoomAbi,
+      functionName: "getDealRoomDocuments",
+      args: [dealRoomId],
+      account: innovator,
+    });
+    return hashes.map((hash) => hash.toLowerCase());
+  }
+
+  function requireSession(req: http.IncomingMessage): Address {
+    const header = req.headers.authorization;
+    const token = header?.startsWith("Bearer ") ? header.slice(7) : undefined;
+    const caller = auth.authenticate(token);
+    if (!caller) {
+      throw new HttpError(401, "Sign in with /auth/challenge and /auth/session first");
+    }
+    return caller;
+  }
+
+  async function handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://gateway");
+
+    if (req.method === "POST" && url.pathname === "/auth/challenge") {
+      const { address } = await readJson(req);
+      try {
+        return sendJson(res, 200, auth.createChallenge(String(address)));
+      } catch (error) {
+        const status = error instanceof ChallengeLimitError ? 429 : 400;
+        throw new HttpError(status, (error as Error).message);
+      }
+    }
+    if (req.method === "POST" && url.pathname === "/auth/session") {
+      const { address, signature } = await readJson(req);
+      try {
+        return sendJson(
+          res,
+          200,
+          await auth.createSession(String(address), signature as Hex)
+        );
+      } catch (error) {
+        throw new HttpError(401, (error as Error).message);
+      }
+    }
+
+    const match = DOCUMENTS_ROUTE.exec(url.pathname);
+    if (!match) {
+      throw new HttpError(404, "Not found");
+    }
+    const caller = requireSession(req);
+    const dealRoomId = BigInt(match[1]);
+    const hash = match[2]?.toLowerCase();
+
+    if (req.method === "PUT" && !hash) {
+      const innovator = await innovatorOf(dealRoomId);
+      if (caller !== innovator) {
+        throw new HttpError(403, "Only the deal room's innovator can upload documents");
+      }
+      const content = await readBody(req, maxUploadBytes);
+      if (content.length === 0) {
+        throw new HttpError(400, "Document is empty");
+      }
+      const metadata = store.put(content, {
+        dealRoomId: dealRoomId.toString(),
+        name: String(req.headers["x-document-name"] ?? "document"),
+        contentType: req.headers["content-type"] ?? "application/octet-stream",
+        uploadedBy: caller,
+      });
+      log(`📄 ${caller} stored ${metadata.hash} for deal room ${dealRoomId}`);
+      return sendJson(res, 201, metadata);
+    }
+
+    if (req.method === "GET" && !hash) {
+      const innovator = await requireReader(dealRoomId, caller);
+      const hashes = await onChainDocuments(dealRoomId, innovator);
+      return sendJson(
+        res,
+        200,
+        hashes.map((documentHash) => ({
+          hash: documentHash,
+          stored:
+            /^0x[0-9a-f]{64}$/.test(documentHash) &&
+            store.has(dealRoomId.toString(), documentHash),
+        }))
+      );
+    }
+
+    if (req.method === "GET" && hash) {
+      const innovator = await requireReader(dealRoomId, caller);
+      if (!(await onChainDocuments(dealRoomId, innovator)).includes(hash)) {
+        throw new HttpError(404, `Document ${hash} is not registered for deal room ${dealRoomId}`);
+      }
+      const document = store.get(dealRoomId.toString(), hash);
+      if (!document) {
+        throw new HttpError(404, `Document ${hash} is not stored by this gateway`);
+      }
+
+      log(`👁️  ${caller} read ${hash} from deal room ${dealRoomId}`);
+      res.writeHead(200, {
+        "content-type": document.metadata.contentType,
+        "content-disposition": `attachment; filename="${document.metadata.name.replace(/"/g, "")}"`,
+        "x-document-hash": hash,
+      });
+      res.end(document.content);
+      return;
+    }
+
+    throw new HttpError(405, "Method not allowed");
+  }
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      log(`❌ ${req.method} ${req.url}: ${(error as Error).message}`);
+      sendJson(res, 500, { error: "Internal error" });
+    });
+  });
+}
@@ -0,0 +1,130 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export interface DocumentMetadata {
+  hash: string;
+  dealRoomId: string;
+  name: string;
+  contentType: string;
+  size: number;
+  uploadedBy: string;
+  uploadedAt: number;
+}
+
+export interface StoredDocument {
+  metadata: DocumentMetadata;
+  content: Buffer;
+}
+
+/**
+ * Content address of a document: `0x` + SHA-256 of the plaintext. This is
+ * the value the innovator registers on-chain with `DealRoom.addDocument`.
+ */
+export function documentHash(content: Buffer): string {
+  return `0x${createHash("sha256").update(content).digest("hex")}`;
+}
+
+/**
+ * Parse the 32-byte encryption key from hex (with or without `0x`)
+ */
+export function parseEncryptionKey(hex: string): Buffer {
+  const key = Buffer.from(hex.replace(/^0x/, ""), "hex");
+  if (key.length !== 32) {
+    throw new Error("Document encryption key must be 32 bytes of hex");
+  }
+  return key;
+}
+
+/**
+ * Encrypted, content-addressed document storage on the local filesystem.
+ * Each document is sealed with AES-256-GCM under the gateway key, with its
+ * hash as associated data, and checked against that hash when read back.
+ * Deal rooms uploading the same file share its blob, but each keeps its own
+ * metadata under `<dealRoomId>/<hash>.json`.
+ */
+export class DocumentStore {
+  constructor(
+    private readonly dir: string,
+    private readonly key: Buffer
+  ) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  private paths(dealRoomId: string, hash: string): { blob: string; meta: string } {
+    if (!/^0x[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid document hash ${hash}`);
+    }
+    if (!/^\d+$/.test(dealRoomId)) {
+      throw new Error(`Invalid deal room id ${dealRoomId}`);
+    }
+    return {
+      blob: path.join(this.dir, `${hash}.bin`),
+      meta: path.join(this.dir, dealRoomId, `${hash}.json`),
+    };
+  }
+
+  has(dealRoomId: string, hash: string): boolean {
+    const { blob, meta } = this.paths(dealRoomId, hash);
+    return fs.existsSync(blob) && fs.existsSync(meta);
+  }
+
+  put(
+    content: Buffer,
+    metadata: Omit<DocumentMetadata, "hash" | "size" | "uploadedAt">
+  ): DocumentMetadata {
+    const hash = documentHash(content);
+    const { blob, meta } = this.paths(metadata.dealRoomId, hash);
+
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    cipher.setAAD(Buffer.from(hash));
+    const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+    fs.writeFileSync(blob, Buffer.concat([iv, cipher.getAuthTag(), ciphertext]));
+
+    const stored: DocumentMetadata = {
+      ...metadata,
+      hash,
+      size: content.length,
+      uploadedAt: Date.now(),
+    };
+    fs.mkdirSync(path.dirname(meta), { recursive: true });
+    fs.writeFileSync(meta, JSON.stringify(stored, null, 2));
+    return stored;
+  }
+
+  /**
+   * A document as uploaded to one deal room; undefined if that room never
+   * uploaded it, even when another room did
+   */
+  get(dealRoomId: string, hash: string): StoredDocument | undefined {
+    const { blob, meta } = this.paths(dealRoomId, hash);
+    if (!fs.existsSync(blob) || !fs.existsSync(meta)) {
+      return undefined;
+    }
+
+    const sealed = fs.readFileSync(blob);
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      this.key,
+      sealed.subarray(0, IV_LENGTH)
+    );
+    decipher.setAAD(Buffer.from(hash));
+    decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    const content = Buffer.concat([
+      decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]);
+
+    if (documentHash(content) !== hash) {
+      throw new Error(`Stored document ${hash} does not match its hash`);
+    }
+    return {
+      metadata: JSON.parse(fs.readFileSync(meta, "utf8")),
+      content,
+    };
+  }
+}
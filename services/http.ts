@@ -0,0 +1,25 @@
+import * as http from "http";
+
+/**
+ * An error with the HTTP status a service should answer with
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Send `body` as JSON; bigints are written as decimal strings
+ */
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(
+    JSON.stringify(body, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    )
+  );
+}
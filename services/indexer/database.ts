@@ -0,0 +1,1099 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DatabaseSync, SQLInputValue } from "node:sqlite";
+import { encodePacked, keccak256 } from "viem";
+
+import { ZERO_ADDRESS } from "../../sdk/client.js";
+import { MILESTONE_STATUSES, PROJECT_STATUSES } from "../../sdk/escrow.js";
+import { VOTE_CHOICES } from "../../sdk/voting.js";
+import { EventArgs, IndexedEvent } from "./events.js";
+
+const KYC_STATUSES = ["NotVerified", "Verified", "Expired"] as const;
+
+/**
+ * `events` and `blocks` are the indexer's source of truth; every other table
+ * is a projection of `events` and is rebuilt from it after a reorg.
+ * uint256 values are stored as decimal strings.
+ */
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  address TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS projects (
+  project_id TEXT PRIMARY KEY,
+  creator TEXT NOT NULL,
+  title TEXT NOT NULL,
+  target_amount TEXT NOT NULL,
+  raised_amount TEXT NOT NULL DEFAULT '0',
+  leftover_returned TEXT,
+  token TEXT,
+  status TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  created_block INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS deposits (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  investor TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  token TEXT,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS deposits_investor ON deposits (investor);
+CREATE TABLE IF NOT EXISTS refunds (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  investor TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS withdrawals (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  account TEXT NOT NULL,
+  token TEXT,
+  amount TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS withdrawals_account ON withdrawals (account);
+CREATE TABLE IF NOT EXISTS milestones (
+  project_id TEXT NOT NULL,
+  milestone_id TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  due_date INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  evidence_uri TEXT,
+  submitted_at INTEGER,
+  approvals INTEGER NOT NULL DEFAULT 0,
+  released_amount TEXT,
+  released_at INTEGER,
+  PRIMARY KEY (project_id, milestone_id)
+);
+CREATE TABLE IF NOT EXISTS milestone_approvals (
+  project_id TEXT NOT NULL,
+  milestone_id TEXT NOT NULL,
+  validator TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (project_id, milestone_id, validator)
+);
+CREATE TABLE IF NOT EXISTS disputes (
+  project_id TEXT NOT NULL,
+  milestone_id TEXT NOT NULL,
+  initiator TEXT NOT NULL,
+  raised_at INTEGER NOT NULL,
+  resolved_at INTEGER,
+  released_to_creator INTEGER,
+  creator_share INTEGER,
+  evidence_group_id TEXT NOT NULL,
+  PRIMARY KEY (project_id, milestone_id)
+);
+CREATE TABLE IF NOT EXISTS arbitrations (
+  arbitrator TEXT NOT NULL,
+  dispute_id TEXT NOT NULL,
+  meta_evidence_id TEXT NOT NULL,
+  evidence_group_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (arbitrator, dispute_id)
+);
+CREATE INDEX IF NOT EXISTS arbitrations_evidence_group ON arbitrations (evidence_group_id);
+CREATE TABLE IF NOT EXISTS evidence (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  arbitrator TEXT,
+  evidence_group_id TEXT NOT NULL,
+  party TEXT NOT NULL,
+  evidence TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS evidence_group ON evidence (evidence_group_id);
+CREATE TABLE IF NOT EXISTS meta_evidence (
+  meta_evidence_id TEXT PRIMARY KEY,
+  uri TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS arbitrator_changes (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  arbitrator TEXT,
+  extra_data TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS token_projects (
+  project_id TEXT PRIMARY KEY,
+  creator TEXT NOT NULL,
+  supply TEXT NOT NULL,
+  minted TEXT NOT NULL DEFAULT '0',
+  burned TEXT NOT NULL DEFAULT '0',
+  redeemed TEXT NOT NULL DEFAULT '0',
+  created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS token_mints (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  investor TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS token_mints_investor ON token_mints (investor);
+CREATE TABLE IF NOT EXISTS token_burns (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  investor TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS token_burns_investor ON token_burns (investor);
+CREATE TABLE IF NOT EXISTS token_redemptions (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  user TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS token_transfers (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  batch_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  operator TEXT NOT NULL,
+  from_address TEXT,
+  to_address TEXT,
+  amount TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index, batch_index)
+);
+CREATE TABLE IF NOT EXISTS token_balances (
+  project_id TEXT NOT NULL,
+  account TEXT NOT NULL,
+  balance TEXT NOT NULL,
+  PRIMARY KEY (project_id, account)
+);
+CREATE INDEX IF NOT EXISTS token_balances_account ON token_balances (account);
+CREATE TABLE IF NOT EXISTS listings (
+  listing_id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  seller TEXT,
+  amount TEXT NOT NULL,
+  remaining TEXT NOT NULL,
+  price_per_token TEXT,
+  payment_token TEXT,
+  expiry_date INTEGER,
+  created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS listing_purchases (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  listing_id TEXT NOT NULL,
+  buyer TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS dividends (
+  project_id TEXT NOT NULL,
+  payout_id TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  distributed_at INTEGER NOT NULL,
+  PRIMARY KEY (project_id, payout_id)
+);
+CREATE TABLE IF NOT EXISTS dividend_claims (
+  project_id TEXT NOT NULL,
+  payout_id TEXT NOT NULL,
+  user TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  claimed_at INTEGER NOT NULL,
+  PRIMARY KEY (project_id, payout_id, user)
+);
+
+CREATE TABLE IF NOT EXISTS proposals (
+  proposal_id TEXT PRIMARY KEY,
+  proposer TEXT NOT NULL,
+  description TEXT NOT NULL,
+  target_amount TEXT NOT NULL,
+  end_time INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  yes_votes TEXT NOT NULL DEFAULT '0',
+  no_votes TEXT NOT NULL DEFAULT '0',
+  abstain_votes TEXT NOT NULL DEFAULT '0',
+  total_staked TEXT NOT NULL DEFAULT '0',
+  executed INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS votes (
+  proposal_id TEXT NOT NULL,
+  voter TEXT NOT NULL,
+  choice TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  weight TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (proposal_id, voter)
+);
+
+CREATE TABLE IF NOT EXISTS deal_rooms (
+  deal_room_id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  innovator TEXT NOT NULL,
+  title TEXT NOT NULL,
+  status TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS deal_room_access (
+  deal_room_id TEXT NOT NULL,
+  investor TEXT NOT NULL,
+  status TEXT NOT NULL,
+  investment_intent TEXT,
+  granted_by TEXT,
+  revoke_reason TEXT,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (deal_room_id, investor)
+);
+CREATE TABLE IF NOT EXISTS deal_room_documents (
+  deal_room_id TEXT NOT NULL,
+  document_hash TEXT NOT NULL,
+  uploader TEXT NOT NULL,
+  added_at INTEGER NOT NULL,
+  PRIMARY KEY (deal_room_id, document_hash)
+);
+CREATE TABLE IF NOT EXISTS document_views (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  deal_room_id TEXT NOT NULL,
+  investor TEXT NOT NULL,
+  document_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS kyc (
+  user TEXT PRIMARY KEY,
+  status TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+`;
+
+/**
+ * Tables derived from `events`, cleared before a replay
+ */
+const PROJECTION_TABLES = [
+  "projects",
+  "deposits",
+  "refunds",
+  "withdrawals",
+  "milestones",
+  "milestone_approvals",
+  "disputes",
+  "arbitrations",
+  "evidence",
+  "meta_evidence",
+  "arbitrator_changes",
+  "token_projects",
+  "token_mints",
+  "token_burns",
+  "token_redemptions",
+  "token_transfers",
+  "token_balances",
+  "listings",
+  "listing_purchases",
+  "dividends",
+  "dividend_claims",
+  "proposals",
+  "votes",
+  "deal_rooms",
+  "deal_room_access",
+  "deal_room_documents",
+  "document_views",
+  "kyc",
+];
+
+/**
+ * Bump whenever the indexed events or the tables change. A database written
+ * by another version is dropped and re-indexed from the chain, since its
+ * event log lacks any newly indexed events.
+ */
+const INDEX_VERSION = "3";
+
+type Projection = (db: IndexerDatabase, event: IndexedEvent) => void;
+
+function add(a: unknown, b: string | number | boolean): string {
+  return (BigInt(String(a ?? "0")) + BigInt(String(b))).toString();
+}
+
+function sub(a: unknown, b: string | number | boolean): string {
+  return (BigInt(String(a ?? "0")) - BigInt(String(b))).toString();
+}
+
+function keyOf(event: IndexedEvent): SQLInputValue[] {
+  return [event.blockNumber, event.logIndex, event.transactionHash];
+}
+
+function addressOrNull(value: string | number | boolean): string | number | boolean | null {
+  return value === ZERO_ADDRESS ? null : value;
+}
+
+/**
+ * Escrow.getEvidenceGroupId, which links a milestone's dispute to the
+ * ERC-1497 events that only carry the group
+ */
+function evidenceGroupId(projectId: unknown, milestoneId: unknown): string {
+  return BigInt(
+    keccak256(
+      encodePacked(
+        ["uint256", "uint256"],
+        [BigInt(String(projectId)), BigInt(String(milestoneId))]
+      )
+    )
+  ).toString();
+}
+
+/**
+ * Record one project's part of an ERC1155 transfer and move it between the
+ * balances; mints come from and burns go to the zero address, which has none
+ */
+function transferTokens(
+  db: IndexerDatabase,
+  event: IndexedEvent,
+  batchIndex: number,
+  projectId: string,
+  amount: string
+): void {
+  const { args, timestamp } = event;
+  db.run(
+    `INSERT INTO token_transfers (block_number, log_index, batch_index, transaction_hash, project_id, operator, from_address, to_address, amount, timestamp)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    event.blockNumber,
+    event.logIndex,
+    batchIndex,
+    event.transactionHash,
+    projectId,
+    args.operator,
+    addressOrNull(args.from),
+    addressOrNull(args.to),
+    amount,
+    timestamp
+  );
+  const move = (account: string | number | boolean, change: typeof add) => {
+    if (account === ZERO_ADDRESS) return;
+    const row = db.get(
+      "SELECT balance FROM token_balances WHERE project_id = ? AND account = ?",
+      projectId,
+      account
+    );
+    db.run(
+      `INSERT INTO token_balances (project_id, account, balance) VALUES (?, ?, ?)
+       ON CONFLICT (project_id, account) DO UPDATE SET balance = excluded.balance`,
+      projectId,
+      account,
+      change(row?.balance, amount)
+    );
+  };
+  move(args.from, sub);
+  move(args.to, add);
+}
+
+/**
+ * How each event updates the normalized tables, keyed `<contract>.<event>`
+ */
+const PROJECTIONS: Record<string, Projection> = {
+  "escrow.ProjectCreated": (db, { args, timestamp, blockNumber }) => {
+    db.run(
+      `INSERT INTO projects (project_id, creator, title, target_amount, status, created_at, created_block)
+       VALUES (?, ?, ?, ?, 'Active', ?, ?)`,
+      args.projectId,
+      args.creator,
+      args.title,
+      args.targetAmount,
+      timestamp,
+      blockNumber
+    );
+  },
+  "escrow.FundsDeposited": (db, event) => {
+    const { args, timestamp } = event;
+    const token = args.token === ZERO_ADDRESS ? null : args.token;
+    db.run(
+      `INSERT INTO deposits (block_number, log_index, transaction_hash, project_id, investor, amount, token, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      args.projectId,
+      args.investor,
+      args.amount,
+      token,
+      timestamp
+    );
+    const project = db.get(
+      "SELECT raised_amount FROM projects WHERE project_id = ?",
+      args.projectId
+    );
+    db.run(
+      "UPDATE projects SET raised_amount = ?, token = ? WHERE project_id = ?",
+      add(project?.raised_amount, args.amount),
+      token,
+      args.projectId
+    );
+  },
+  "escrow.ProjectStatusChanged": (db, { args }) => {
+    db.run(
+      "UPDATE projects SET status = ? WHERE project_id = ?",
+      PROJECT_STATUSES[Number(args.status)] ?? String(args.status),
+      args.projectId
+    );
+  },
+  "escrow.FundsRefunded": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO refunds (block_number, log_index, transaction_hash, project_id, investor, amount, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      args.projectId,
+      args.investor,
+      args.amount,
+      timestamp
+    );
+  },
+  "escrow.Withdrawn": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO withdrawals (block_number, log_index, transaction_hash, account, token, amount, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      args.account,
+      args.token === ZERO_ADDRESS ? null : args.token,
+      args.amount,
+      timestamp
+    );
+  },
+  "escrow.LeftoverFundsReturned": (db, { args }) => {
+    const project = db.get(
+      "SELECT leftover_returned FROM projects WHERE project_id = ?",
+      args.projectId
+    );
+    db.run(
+      "UPDATE projects SET leftover_returned = ? WHERE project_id = ?",
+      add(project?.leftover_returned, args.amount),
+      args.projectId
+    );
+  },
+  "escrow.MilestoneCreated": (db, { args }) => {
+    db.run(
+      `INSERT INTO milestones (project_id, milestone_id, amount, due_date, status)
+       VALUES (?, ?, ?, ?, ?)`,
+      args.projectId,
+      args.milestoneId,
+      args.amount,
+      Number(args.dueDate),
+      MILESTONE_STATUSES[0]
+    );
+  },
+  "escrow.MilestoneSubmitted": (db, { args }) => {
+    db.run(
+      `UPDATE milestones SET status = 'Submitted', evidence_uri = ?, submitted_at = ?
+       WHERE project_id = ? AND milestone_id = ?`,
+      args.evidenceURI,
+      Number(args.timestamp),
+      args.projectId,
+      args.milestoneId
+    );
+  },
+  "escrow.MilestoneApproved": (db, { args, timestamp }) => {
+    db.run(
+      "INSERT INTO milestone_approvals (project_id, milestone_id, validator, timestamp) VALUES (?, ?, ?, ?)",
+      args.projectId,
+      args.milestoneId,
+      args.validator,
+      timestamp
+    );
+    db.run(
+      "UPDATE milestones SET approvals = approvals + 1 WHERE project_id = ? AND milestone_id = ?",
+      args.projectId,
+      args.milestoneId
+    );
+  },
+  "escrow.FundsReleased": (db, { args, timestamp }) => {
+    db.run(
+      `UPDATE milestones SET status = 'Released', released_amount = ?, released_at = ?
+       WHERE project_id = ? AND milestone_id = ?`,
+      args.amount,
+      timestamp,
+      args.projectId,
+      args.milestoneId
+    );
+  },
+  "escrow.DisputeRaised": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO disputes (project_id, milestone_id, initiator, raised_at, evidence_group_id)
+       VALUES (?, ?, ?, ?, ?)`,
+      args.projectId,
+      args.milestoneId,
+      args.initiator,
+      timestamp,
+      evidenceGroupId(args.projectId, args.milestoneId)
+    );
+    db.run(
+      "UPDATE milestones SET status = 'Disputed' WHERE project_id = ? AND milestone_id = ?",
+      args.projectId,
+      args.milestoneId
+    );
+  },
+  "escrow.DisputeResolved": (db, { args, timestamp }) => {
+    db.run(
+      `UPDATE disputes SET resolved_at = ?, released_to_creator = ?
+       WHERE project_id = ? AND milestone_id = ?`,
+      timestamp,
+      args.releasedToCreator ? 1 : 0,
+      args.projectId,
+      args.milestoneId
+    );
+    if (!args.releasedToCreator) {
+      db.run(
+        "UPDATE milestones SET status = 'Refunded' WHERE project_id = ? AND milestone_id = ?",
+        args.projectId,
+        args.milestoneId
+      );
+    }
+  },
+  "escrow.DisputeRuled": (db, { args }) => {
+    db.run(
+      "UPDATE disputes SET creator_share = ? WHERE project_id = ? AND milestone_id = ?",
+      Number(args.creatorShare),
+      args.projectId,
+      args.milestoneId
+    );
+  },
+  "escrow.ArbitratorChanged": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO arbitrator_changes (block_number, log_index, transaction_hash, arbitrator, extra_data, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      addressOrNull(args.arbitrator),
+      args.extraData,
+      timestamp
+    );
+  },
+  "escrow.MetaEvidence": (db, { args, timestamp }) => {
+    db.run(
+      "INSERT INTO meta_evidence (meta_evidence_id, uri, created_at) VALUES (?, ?, ?)",
+      args._metaEvidenceID,
+      args._evidence,
+      timestamp
+    );
+  },
+  // Emitted before DisputeRaised, so the arbitration is kept apart from the
+  // disputes row and joined to it on the evidence group
+  "escrow.Dispute": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO arbitrations (arbitrator, dispute_id, meta_evidence_id, evidence_group_id, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      args._arbitrator,
+      args._disputeID,
+      args._metaEvidenceID,
+      args._evidenceGroupID,
+      timestamp
+    );
+  },
+  "escrow.Evidence": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO evidence (block_number, log_index, transaction_hash, arbitrator, evidence_group_id, party, evidence, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      addressOrNull(args._arbitrator),
+      args._evidenceGroupID,
+      args._party,
+      args._evidence,
+      timestamp
+    );
+  },
+
+  "investmentNFT.ProjectCreated": (db, { args, timestamp }) => {
+    db.run(
+      "INSERT INTO token_projects (project_id, creator, supply, created_at) VALUES (?, ?, ?, ?)",
+      args.projectId,
+      args.creator,
+      args.supply,
+      timestamp
+    );
+  },
+  "investmentNFT.TokensMinted": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO token_mints (block_number, log_index, transaction_hash, project_id, investor, amount, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      args.projectId,
+      args.investor,
+      args.amount,
+      timestamp
+    );
+    const project = db.get(
+      "SELECT minted FROM token_projects WHERE project_id = ?",
+      args.projectId
+    );
+    db.run(
+      "UPDATE token_projects SET minted = ? WHERE project_id = ?",
+      add(project?.minted, args.amount),
+      args.projectId
+    );
+  },
+  "investmentNFT.TokensBurned": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO token_burns (block_number, log_index, transaction_hash, project_id, investor, amount, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      args.projectId,
+      args.investor,
+      args.amount,
+      timestamp
+    );
+    const project = db.get(
+      "SELECT burned FROM token_projects WHERE project_id = ?",
+      args.projectId
+    );
+    db.run(
+      "UPDATE token_projects SET burned = ? WHERE project_id = ?",
+      add(project?.burned, args.amount),
+      args.projectId
+    );
+  },
+  "investmentNFT.TokensRedeemed": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO token_redemptions (block_number, log_index, transaction_hash, project_id, user, amount, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      args.projectId,
+      args.user,
+      args.amount,
+      timestamp
+    );
+    const project = db.get(
+      "SELECT redeemed FROM token_projects WHERE project_id = ?",
+      args.projectId
+    );
+    db.run(
+      "UPDATE token_projects SET redeemed = ? WHERE project_id = ?",
+      add(project?.redeemed, args.amount),
+      args.projectId
+    );
+  },
+  "investmentNFT.TransferSingle": (db, event) => {
+    transferTokens(db, event, 0, String(event.args.id), String(event.args.value));
+  },
+  "investmentNFT.TransferBatch": (db, event) => {
+    const ids = String(event.args.ids).split(",");
+    const values = String(event.args.values).split(",");
+    ids.forEach((id, index) => transferTokens(db, event, index, id, values[index]));
+  },
+  "investmentNFT.ListingCreated": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO listings (listing_id, project_id, seller, amount, remaining, price_per_token, payment_token, expiry_date, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args.listingId,
+      args.projectId,
+      args.seller ?? null,
+      args.amount,
+      args.amount,
+      args.pricePerToken ?? null,
+      args.paymentToken === undefined || args.paymentToken === ZERO_ADDRESS
+        ? null
+        : args.paymentToken,
+      args.expiryDate === undefined ? null : Number(args.expiryDate),
+      timestamp
+    );
+  },
+  "investmentNFT.TokensPurchased": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO listing_purchases (block_number, log_index, transaction_hash, listing_id, buyer, amount, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ...keyOf(event),
+      args.listingId,
+      args.buyer,
+      args.amount,
+      timestamp
+    );
+    const listing = db.get(
+      "SELECT remaining FROM listings WHERE listing_id = ?",
+      args.listingId
+    );
+    db.run(
+      "UPDATE listings SET remaining = ? WHERE listing_id = ?",
+      sub(listing?.remaining, args.amount),
+      args.listingId
+    );
+  },
+  "investmentNFT.DividendDistributed": (db, { args, timestamp }) => {
+    db.run(
+      "INSERT INTO dividends (project_id, payout_id, amount, distributed_at) VALUES (?, ?, ?, ?)",
+      args.projectId,
+      args.payoutId,
+      args.amount,
+      timestamp
+    );
+  },
+  "investmentNFT.DividendClaimed": (db, { args, timestamp }) => {
+    db.run(
+      "INSERT INTO dividend_claims (project_id, payout_id, user, amount, claimed_at) VALUES (?, ?, ?, ?, ?)",
+      args.projectId,
+      args.payoutId,
+      args.user,
+      args.amount,
+      timestamp
+    );
+  },
+
+  "voting.ProposalCreated": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO proposals (proposal_id, proposer, description, target_amount, end_time, status, created_at)
+       VALUES (?, ?, ?, ?, ?, 'Active', ?)`,
+      args.proposalId,
+      args.proposer,
+      args.description,
+      args.targetAmount,
+      Number(args.endTime),
+      timestamp
+    );
+  },
+  "voting.VoteCast": (db, { args, timestamp }) => {
+    const choice = VOTE_CHOICES[Number(args.vote)] ?? String(args.vote);
+    db.run(
+      "INSERT INTO votes (proposal_id, voter, choice, amount, weight, timestamp) VALUES (?, ?, ?, ?, ?, ?)",
+      args.proposalId,
+      args.voter,
+      choice,
+      args.amount,
+      args.weight,
+      timestamp
+    );
+    const column = `${choice.toLowerCase()}_votes`;
+    const proposal = db.get(
+      `SELECT ${column} AS votes, total_staked FROM proposals WHERE proposal_id = ?`,
+      args.proposalId
+    );
+    db.run(
+      `UPDATE proposals SET ${column} = ?, total_staked = ? WHERE proposal_id = ?`,
+      add(proposal?.votes, args.weight),
+      add(proposal?.total_staked, args.amount),
+      args.proposalId
+    );
+  },
+  "voting.ProposalExecuted": (db, { args }) => {
+    if (args.success) {
+      db.run(
+        "UPDATE proposals SET status = 'Executed', executed = 1 WHERE proposal_id = ?",
+        args.proposalId
+      );
+    }
+  },
+  "voting.ProposalCancelled": (db, { args }) => {
+    db.run("UPDATE proposals SET status = 'Cancelled' WHERE proposal_id = ?", args.proposalId);
+  },
+
+  "dealRoom.DealRoomCreated": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO deal_rooms (deal_room_id, project_id, innovator, title, status, created_at)
+       VALUES (?, ?, ?, ?, 'Active', ?)`,
+      args.dealRoomId,
+      args.projectId,
+      args.innovator,
+      args.title,
+      timestamp
+    );
+  },
+  "dealRoom.AccessRequested": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO deal_room_access (deal_room_id, investor, status, investment_intent, updated_at)
+       VALUES (?, ?, 'Requested', ?, ?)
+       ON CONFLICT (deal_room_id, investor) DO UPDATE SET
+         status = 'Requested', investment_intent = excluded.investment_intent, updated_at = excluded.updated_at`,
+      args.dealRoomId,
+      args.investor,
+      args.investmentIntent,
+      timestamp
+    );
+  },
+  "dealRoom.AccessGranted": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO deal_room_access (deal_room_id, investor, status, granted_by, updated_at)
+       VALUES (?, ?, 'Granted', ?, ?)
+       ON CONFLICT (deal_room_id, investor) DO UPDATE SET
+         status = 'Granted', granted_by = excluded.granted_by, revoke_reason = NULL, updated_at = excluded.updated_at`,
+      args.dealRoomId,
+      args.investor,
+      args.grantedBy,
+      timestamp
+    );
+  },
+  "dealRoom.AccessRevoked": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO deal_room_access (deal_room_id, investor, status, revoke_reason, updated_at)
+       VALUES (?, ?, 'Revoked', ?, ?)
+       ON CONFLICT (deal_room_id, investor) DO UPDATE SET
+         status = 'Revoked', revoke_reason = excluded.revoke_reason, updated_at = excluded.updated_at`,
+      args.dealRoomId,
+      args.investor,
+      args.reason,
+      timestamp
+    );
+  },
+  "dealRoom.DocumentAdded": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT OR IGNORE INTO deal_room_documents (deal_room_id, document_hash, uploader, added_at)
+       VALUES (?, ?, ?, ?)`,
+      args.dealRoomId,
+      args.documentHash,
+      args.uploader,
+      timestamp
+    );
+  },
+  "dealRoom.DocumentViewed": (db, event) => {
+    const { args, timestamp } = event;
+    db.run(
+      `INSERT INTO document_views (block_number, log_index, deal_room_id, investor, document_hash, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      event.blockNumber,
+      event.logIndex,
+      args.dealRoomId,
+      args.investor,
+      args.documentHash,
+      timestamp
+    );
+  },
+  "dealRoom.KYCUpdated": (db, { args, timestamp }) => {
+    db.run(
+      `INSERT INTO kyc (user, status, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (user) DO UPDATE SET status = excluded.status, updated_at = excluded.updated_at`,
+      args.user,
+      KYC_STATUSES[Number(args.status)] ?? String(args.status),
+      timestamp
+    );
+  },
+  "dealRoom.DealRoomClosed": (db, { args }) => {
+    db.run("UPDATE deal_rooms SET status = 'Closed' WHERE deal_room_id = ?", args.dealRoomId);
+  },
+};
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+/**
+ * SQLite store behind the indexer. Writes for one batch of blocks happen in
+ * a single transaction, so the checkpoint never runs ahead of the data.
+ */
+export class IndexerDatabase {
+  private readonly db: DatabaseSync;
+
+  constructor(file: string) {
+    if (file !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    }
+    this.db = new DatabaseSync(file);
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec(SCHEMA);
+
+    const version = this.getMeta("indexVersion");
+    if (version !== INDEX_VERSION) {
+      if (version !== undefined || this.getMeta("checkpoint") !== undefined) {
+        for (const table of ["meta", "blocks", "events", ...PROJECTION_TABLES]) {
+          this.db.exec(`DROP TABLE ${table}`);
+        }
+        this.db.exec(SCHEMA);
+      }
+      this.setMeta("indexVersion", INDEX_VERSION);
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  run(sql: string, ...params: unknown[]): void {
+    this.db.prepare(sql).run(...(params as SQLInputValue[]));
+  }
+
+  get(sql: string, ...params: unknown[]): Record<string, unknown> | undefined {
+    return this.db.prepare(sql).get(...(params as SQLInputValue[])) as
+      | Record<string, unknown>
+      | undefined;
+  }
+
+  all(sql: string, ...params: unknown[]): Record<string, unknown>[] {
+    return this.db.prepare(sql).all(...(params as SQLInputValue[])) as Record<
+      string,
+      unknown
+    >[];
+  }
+
+  transaction<T>(work: () => T): T {
+    this.db.exec("BEGIN");
+    try {
+      const result = work();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  getMeta(key: string): string | undefined {
+    return this.get("SELECT value FROM meta WHERE key = ?", key)?.value as
+      | string
+      | undefined;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.run(
+      "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+      key,
+      value
+    );
+  }
+
+  /**
+   * Last fully indexed block, or undefined before the first batch
+   */
+  checkpoint(): Checkpoint | undefined {
+    const blockNumber = this.getMeta("checkpoint");
+    if (blockNumber === undefined) {
+      return undefined;
+    }
+    const block = this.get("SELECT hash FROM blocks WHERE number = ?", Number(blockNumber));
+    return { blockNumber: Number(blockNumber), blockHash: String(block?.hash) };
+  }
+
+  setCheckpoint(blockNumber: number, blockHash: string, timestamp: number): void {
+    this.recordBlock(blockNumber, blockHash, timestamp);
+    this.setMeta("checkpoint", String(blockNumber));
+  }
+
+  recordBlock(number: number, hash: string, timestamp: number): void {
+    this.run(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)",
+      number,
+      hash,
+      timestamp
+    );
+  }
+
+  /**
+   * Recorded blocks below `blockNumber`, newest first, for finding where a
+   * reorg forked off
+   */
+  blocksBefore(blockNumber: number): { number: number; hash: string }[] {
+    return this.all(
+      "SELECT number, hash FROM blocks WHERE number < ? ORDER BY number DESC",
+      blockNumber
+    ) as { number: number; hash: string }[];
+  }
+
+  /**
+   * Append an event to the log and apply it to the normalized tables
+   */
+  insertEvent(event: IndexedEvent): void {
+    this.run(
+      `INSERT INTO events (block_number, log_index, transaction_hash, contract, address, event_name, args)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      event.blockNumber,
+      event.logIndex,
+      event.transactionHash,
+      event.contract,
+      event.address,
+      event.eventName,
+      JSON.stringify(event.args)
+    );
+    this.apply(event);
+  }
+
+  private apply(event: IndexedEvent): void {
+    PROJECTIONS[`${event.contract}.${event.eventName}`]?.(this, event);
+  }
+
+  /**
+   * Drop everything from `blockNumber` on and rebuild the normalized tables
+   * from the events that remain. Returns the number of events dropped.
+   */
+  rewind(blockNumber: number): number {
+    return this.transaction(() => {
+      const dropped = Number(
+        this.get("SELECT COUNT(*) AS n FROM events WHERE block_number >= ?", blockNumber)?.n
+      );
+      this.run("DELETE FROM events WHERE block_number >= ?", blockNumber);
+      this.run("DELETE FROM blocks WHERE number >= ?", blockNumber);
+
+      const previous = this.get(
+        "SELECT number FROM blocks ORDER BY number DESC LIMIT 1"
+      );
+      if (previous) {
+        this.setMeta("checkpoint", String(previous.number));
+      } else {
+        this.run("DELETE FROM meta WHERE key = 'checkpoint'");
+      }
+
+      for (const table of PROJECTION_TABLES) {
+        this.run(`DELETE FROM ${table}`);
+      }
+      const rows = this.all(
+        `SELECT e.*, b.hash AS block_hash, b.timestamp FROM events e
+         JOIN blocks b ON b.number = e.block_number
+         ORDER BY e.block_number, e.log_index`
+      );
+      for (const row of rows) {
+        this.apply({
+          contract: row.contract as IndexedEvent["contract"],
+          address: String(row.address),
+          eventName: String(row.event_name),
+          args: JSON.parse(String(row.args)) as EventArgs,
+          blockNumber: Number(row.block_number),
+          blockHash: String(row.block_hash),
+          logIndex: Number(row.log_index),
+          transactionHash: String(row.transaction_hash),
+          timestamp: Number(row.timestamp),
+        });
+      }
+      return dropped;
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import { parseAbi } from "viem";
+
+import { DeployedContract } from "../../sdk/deployments.js";
+
+export type IndexedContract = Exclude<DeployedContract, "mockERC20">;
+
+/**
+ * Events the indexer follows, per contract. Escrow and InvestmentNFT both
+ * declare a `ProjectCreated`; their signatures differ, so logs are always
+ * decoded against the ABI of the contract that emitted them. Escrow's
+ * ERC-1497 events keep the standard's underscored argument names.
+ */
+export const INDEXED_EVENTS = {
+  escrow: parseAbi([
+    "event ProjectCreated(uint256 indexed projectId, address indexed creator, string title, uint256 targetAmount)",
+    "event FundsDeposited(uint256 indexed projectId, address indexed investor, uint256 amount, address token)",
+    "event ProjectStatusChanged(uint256 indexed projectId, uint8 status)",
+    "event MilestoneCreated(uint256 indexed projectId, uint256 indexed milestoneId, uint256 amount, uint256 dueDate)",
+    "event MilestoneSubmitted(uint256 indexed projectId, uint256 indexed milestoneId, string evidenceURI, uint256 timestamp)",
+    "event MilestoneApproved(uint256 indexed projectId, uint256 indexed milestoneId, address indexed validator)",
+    "event FundsReleased(uint256 indexed projectId, uint256 indexed milestoneId, uint256 amount, address recipient)",
+    "event FundsRefunded(uint256 indexed projectId, address indexed investor, uint256 amount)",
+    "event Withdrawn(address indexed account, address token, uint256 amount)",
+    "event LeftoverFundsReturned(uint256 indexed projectId, uint256 amount)",
+    "event DisputeRaised(uint256 indexed projectId, uint256 indexed milestoneId, address indexed initiator)",
+    "event DisputeResolved(uint256 indexed projectId, uint256 indexed milestoneId, bool releasedToCreator)",
+    "event DisputeRuled(uint256 indexed projectId, uint256 indexed milestoneId, uint256 creatorShare)",
+    "event ArbitratorChanged(address indexed arbitrator, bytes extraData)",
+    "event MetaEvidence(uint256 indexed _metaEvidenceID, string _evidence)",
+    "event Dispute(address indexed _arbitrator, uint256 indexed _disputeID, uint256 _metaEvidenceID, uint256 _evidenceGroupID)",
+    "event Evidence(address indexed _arbitrator, uint256 indexed _evidenceGroupID, address indexed _party, string _evidence)",
+  ]),
+  investmentNFT: parseAbi([
+    "event ProjectCreated(uint256 indexed projectId, address creator, uint256 supply)",
+    "event TokensMinted(uint256 indexed projectId, address investor, uint256 amount)",
+    "event TokensBurned(uint256 indexed projectId, address investor, uint256 amount)",
+    "event TokensRedeemed(uint256 indexed projectId, address user, uint256 amount)",
+    "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+    "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+    "event ListingCreated(uint256 indexed listingId, uint256 projectId, uint256 amount)",
+    "event TokensPurchased(uint256 indexed listingId, address buyer, uint256 amount)",
+    "event DividendDistributed(uint256 indexed projectId, uint256 payoutId, uint256 amount)",
+    "event DividendClaimed(uint256 indexed projectId, uint256 payoutId, address user, uint256 amount)",
+  ]),
+  voting: parseAbi([
+    "event ProposalCreated(uint256 indexed proposalId, address indexed proposer, string description, uint256 targetAmount, uint256 endTime)",
+    "event VoteCast(uint256 indexed proposalId, address indexed voter, uint8 vote, uint256 amount, uint256 weight)",
+    "event ProposalExecuted(uint256 indexed proposalId, bool success)",
+    "event ProposalCancelled(uint256 indexed proposalId, address indexed canceller)",
+  ]),
+  dealRoom: parseAbi([
+    "event DealRoomCreated(uint256 indexed dealRoomId, uint256 indexed projectId, address indexed innovator, string title)",
+    "event AccessRequested(uint256 indexed dealRoomId, address indexed investor, uint256 investmentIntent)",
+    "event AccessGranted(uint256 indexed dealRoomId, address indexed investor, address indexed grantedBy)",
+    "event AccessRevoked(uint256 indexed dealRoomId, address indexed investor, string reason)",
+    "event DocumentAdded(uint256 indexed dealRoomId, string documentHash, address indexed uploader)",
+    "event DocumentViewed(uint256 indexed dealRoomId, address indexed investor, string documentHash)",
+    "event KYCUpdated(address indexed user, uint8 status)",
+    "event DealRoomClosed(uint256 indexed dealRoomId)",
+  ]),
+} as const;
+
+export const INDEXED_CONTRACTS = Object.keys(INDEXED_EVENTS) as IndexedContract[];
+
+/**
+ * Event arguments as stored: integers become decimal strings so uint256
+ * values survive JSON and SQLite untouched, and arrays such as
+ * `TransferBatch` ids become comma-separated lists of them
+ */
+export type EventArgs = Record<string, string | number | boolean>;
+
+export interface IndexedEvent {
+  contract: IndexedContract;
+  address: string;
+  eventName: string;
+  args: EventArgs;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export function normalizeArgs(args: Record<string, unknown>): EventArgs {
+  const normalized: EventArgs = {};
+  for (const [key, value] of Object.entries(args)) {
+    normalized[key] =
+      typeof value === "bigint"
+        ? value.toString()
+        : Array.isArray(value)
+          ? value.map(String).join(",")
+          : typeof value === "number" || typeof value === "boolean"
+            ? value
+            : String(value);
+  }
+  return normalized;
+}
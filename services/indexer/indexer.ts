@@ -0,0 +1,261 @@
+import { Address, getAddress, Hash, Log, PublicClient } from "viem";
+
+import { investmentNftAbi } from "../../sdk/abis.js";
+import { IndexerDatabase } from "./database.js";
+import {
+  INDEXED_CONTRACTS,
+  INDEXED_EVENTS,
+  IndexedContract,
+  IndexedEvent,
+  normalizeArgs,
+} from "./events.js";
+
+export const DEFAULT_CONFIRMATIONS = 5;
+export const DEFAULT_BATCH_SIZE = 2_000;
+
+export interface IndexerOptions {
+  publicClient: PublicClient;
+  database: IndexerDatabase;
+  contracts: Partial<Record<IndexedContract, Address>>;
+  /** Blocks a log must be buried under before it is indexed */
+  confirmations?: number;
+  /** First block to scan on a fresh database, usually the deployment block */
+  startBlock?: number;
+  batchSize?: number;
+  log?: (message: string) => void;
+}
+
+export interface SyncResult {
+  /** Last indexed block after the sync, or undefined if nothing is safe yet */
+  checkpoint: number | undefined;
+  events: number;
+  /** Block the index was rewound to after a reorg */
+  reorgedFrom?: number;
+}
+
+type DecodedLog = Log<bigint, number, false> & {
+  eventName: string;
+  args: Record<string, unknown>;
+};
+
+/**
+ * Follows the crowdfunding contracts' events into an `IndexerDatabase`.
+ * Only blocks at least `confirmations` deep are indexed, and every sync
+ * first checks the recorded block hashes against the chain so a reorg that
+ * goes deeper than that is rewound and re-indexed. Progress is checkpointed
+ * per batch, so a restarted indexer resumes where it stopped.
+ */
+export class Indexer {
+  private readonly publicClient: PublicClient;
+  private readonly database: IndexerDatabase;
+  private readonly contracts: [IndexedContract, Address][];
+  private readonly confirmations: number;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly log: (message: string) => void;
+
+  constructor(options: IndexerOptions) {
+    this.publicClient = options.publicClient;
+    this.database = options.database;
+    this.contracts = INDEXED_CONTRACTS.filter((key) => options.contracts[key]).map(
+      (key) => [key, getAddress(options.contracts[key]!)]
+    );
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.log = options.log ?? (() => {});
+
+    if (this.contracts.length === 0) {
+      throw new Error("No contract addresses to index");
+    }
+    this.checkDatabaseTarget();
+  }
+
+  /**
+   * Refuse to mix two deployments' events in one database
+   */
+  private checkDatabaseTarget(): void {
+    const target = JSON.stringify(Object.fromEntries(this.contracts));
+    const existing = this.database.getMeta("contracts");
+    if (existing === undefined) {
+      this.database.setMeta("contracts", target);
+    } else if (existing !== target) {
+      throw new Error(
+        `Database was indexed for other contracts (${existing}); use a new database file`
+      );
+    }
+  }
+
+  /**
+   * Index every confirmed block since the checkpoint
+   */
+  async sync(): Promise<SyncResult> {
+    const reorgedFrom = await this.rewindReorg();
+
+    const head = Number(await this.publicClient.getBlockNumber());
+    const safeHead = head - this.confirmations;
+    let fromBlock = (this.database.checkpoint()?.blockNumber ?? this.startBlock - 1) + 1;
+    let events = 0;
+
+    while (fromBlock <= safeHead) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, safeHead);
+      events += await this.indexRange(fromBlock, toBlock);
+      fromBlock = toBlock + 1;
+    }
+
+    return {
+      checkpoint: this.database.checkpoint()?.blockNumber,
+      events,
+      ...(reorgedFrom !== undefined ? { reorgedFrom } : {}),
+    };
+  }
+
+  /**
+   * Sync every `pollIntervalMs` until the signal aborts
+   */
+  async run(pollIntervalMs: number, signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        const result = await this.sync();
+        if (result.events > 0 || result.reorgedFrom !== undefined) {
+          this.log(
+            `📥 Indexed ${result.events} events up to block ${result.checkpoint}` +
+              (result.reorgedFrom !== undefined
+                ? ` (reorg, rewound to block ${result.reorgedFrom})`
+                : "")
+          );
+        }
+      } catch (error) {
+        this.log(`❌ Sync failed: ${(error as Error).message}`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, pollIntervalMs);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  /**
+   * Compare the checkpoint's hash with the chain; on a mismatch walk back
+   * through the recorded blocks to the last one still on the canonical
+   * chain and rewind to just after it
+   */
+  private async rewindReorg(): Promise<number | undefined> {
+    const checkpoint = this.database.checkpoint();
+    if (
+      !checkpoint ||
+      (await this.isCanonical(checkpoint.blockNumber, checkpoint.blockHash))
+    ) {
+      return undefined;
+    }
+
+    let forkBlock = this.startBlock;
+    for (const block of this.database.blocksBefore(checkpoint.blockNumber)) {
+      if (await this.isCanonical(block.number, block.hash)) {
+        forkBlock = block.number + 1;
+        break;
+      }
+    }
+    const dropped = this.database.rewind(forkBlock);
+    this.log(
+      `⚠️  Reorg below block ${checkpoint.blockNumber}: dropped ${dropped} events from block ${forkBlock}`
+    );
+    return forkBlock;
+  }
+
+  private async isCanonical(blockNumber: number, hash: string): Promise<boolean> {
+    try {
+      const block = await this.publicClient.getBlock({ blockNumber: BigInt(blockNumber) });
+      return block.hash === hash;
+    } catch {
+      return false;
+    }
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    // The checkpoint block is read first: if the chain reorganizes while the
+    // batch is fetched, its hash goes stale and the next sync rewinds
+    const last = await this.publicClient.getBlock({ blockNumber: BigInt(toBlock) });
+
+    const logs: [IndexedContract, DecodedLog][] = [];
+    for (const [contract, address] of this.contracts) {
+      const contractLogs = await this.publicClient.getLogs({
+        address,
+        events: INDEXED_EVENTS[contract],
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+        strict: true,
+      });
+      for (const log of contractLogs) {
+        logs.push([contract, log as unknown as DecodedLog]);
+      }
+    }
+    logs.sort(
+      ([, a], [, b]) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex
+    );
+
+    const timestamps = new Map<Hash, number>();
+    for (const [, log] of logs) {
+      if (timestamps.has(log.blockHash)) continue;
+      const block = await this.publicClient.getBlock({ blockNumber: log.blockNumber });
+      if (block.hash !== log.blockHash) {
+        throw new Error(
+          `Block ${log.blockNumber} was reorganized while indexing blocks ${fromBlock}-${toBlock}`
+        );
+      }
+      timestamps.set(log.blockHash, Number(block.timestamp));
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const [contract, log] of logs) {
+      const args = normalizeArgs(log.args);
+      if (contract === "investmentNFT" && log.eventName === "ListingCreated") {
+        Object.assign(args, await this.listingDetails(log));
+      }
+      events.push({
+        contract,
+        address: getAddress(log.address),
+        eventName: log.eventName,
+        args,
+        blockNumber: Number(log.blockNumber),
+        blockHash: log.blockHash,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockHash)!,
+      });
+    }
+
+    this.database.transaction(() => {
+      for (const event of events) {
+        this.database.recordBlock(event.blockNumber, event.blockHash, event.timestamp);
+        this.database.insertEvent(event);
+      }
+      this.database.setCheckpoint(toBlock, last.hash, Number(last.timestamp));
+    });
+    return events.length;
+  }
+
+  /**
+   * ListingCreated carries only the amount; the seller and terms are read
+   * from the contract as of the listing's block
+   */
+  private async listingDetails(log: DecodedLog): Promise<Record<string, string>> {
+    const [seller, , , pricePerToken, paymentToken, expiryDate] =
+      await this.publicClient.readContract({
+        address: log.address,
+        abi: investmentNftAbi,
+        functionName: "listings",
+        args: [log.args.listingId as bigint],
+        blockNumber: log.blockNumber,
+      });
+    return {
+      seller,
+      pricePerToken: pricePerToken.toString(),
+      paymentToken,
+      expiryDate: expiryDate.toString(),
+    };
+  }
+}
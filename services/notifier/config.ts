@@ -0,0 +1,142 @@
+import * as fs from "fs";
+import { Address, getAddress, isAddress } from "viem";
+
+import { INDEXED_CONTRACTS, INDEXED_EVENTS, IndexedContract } from "../indexer/events.js";
+
+/**
+ * Who a rule notifies:
+ *   role:<contract>.<ROLE>   every current holder of an AccessControl role
+ *   projectCreator           the creator of the event's Escrow project
+ *   dealRoomInnovator        the innovator of the event's deal room
+ *   arg:<name>               the address in an event argument
+ *   webhook:<id>             a webhook, whatever the event's accounts
+ */
+export type Recipient =
+  | { kind: "role"; contract: IndexedContract; role: string }
+  | { kind: "projectCreator" }
+  | { kind: "dealRoomInnovator" }
+  | { kind: "arg"; name: string }
+  | { kind: "webhook"; id: string };
+
+export interface WebhookConfig {
+  id: string;
+  url: string;
+  /** Account the webhook receives notifications for, if any */
+  address?: Address;
+  /** HMAC secret; `secretEnv` names an environment variable holding it instead */
+  secret: string;
+}
+
+export interface NotificationRule {
+  /** `<contract>.<EventName>`, or `<contract>.*` for every event of a contract */
+  event: string;
+  notify: Recipient[];
+}
+
+export interface NotifierConfig {
+  webhooks: WebhookConfig[];
+  rules: NotificationRule[];
+}
+
+interface RawConfig {
+  webhooks?: {
+    id?: string;
+    url?: string;
+    address?: string;
+    secret?: string;
+    secretEnv?: string;
+  }[];
+  rules?: { event?: string; notify?: string[] }[];
+}
+
+function parseRecipient(value: string, ruleEvent: string): Recipient {
+  const [kind, target] = value.split(/:(.*)/s, 2);
+  if (value === "projectCreator" || value === "dealRoomInnovator") {
+    return { kind: value };
+  }
+  if (kind === "role" && target) {
+    const [contract, role] = target.split(".");
+    if (!INDEXED_CONTRACTS.includes(contract as IndexedContract) || !role) {
+      throw new Error(`Rule ${ruleEvent}: role recipients look like role:escrow.VALIDATOR_ROLE`);
+    }
+    return { kind: "role", contract: contract as IndexedContract, role };
+  }
+  if (kind === "arg" && target) {
+    return { kind: "arg", name: target };
+  }
+  if (kind === "webhook" && target) {
+    return { kind: "webhook", id: target };
+  }
+  throw new Error(`Rule ${ruleEvent}: unknown recipient "${value}"`);
+}
+
+function checkEvent(event: string): void {
+  const [contract, name] = event.split(".");
+  const events = INDEXED_EVENTS[contract as IndexedContract] as
+    | readonly { name?: string }[]
+    | undefined;
+  if (!events) {
+    throw new Error(`Rule ${event}: unknown contract ${contract}`);
+  }
+  if (name !== "*" && !events.some((item) => item.name === name)) {
+    throw new Error(`Rule ${event}: ${contract} has no watched event ${name}`);
+  }
+}
+
+/**
+ * Validate a parsed notifier config, resolving `secretEnv` from `env`
+ */
+export function parseNotifierConfig(
+  raw: unknown,
+  env: NodeJS.ProcessEnv = process.env
+): NotifierConfig {
+  const config = raw as RawConfig;
+  const webhooks = (config.webhooks ?? []).map((webhook, i): WebhookConfig => {
+    const id = webhook.id ?? `webhook-${i}`;
+    if (!webhook.url || !/^https?:\/\//.test(webhook.url)) {
+      throw new Error(`Webhook ${id}: url must be an http(s) URL`);
+    }
+    if (webhook.address !== undefined && !isAddress(webhook.address)) {
+      throw new Error(`Webhook ${id}: invalid address ${webhook.address}`);
+    }
+    const secret = webhook.secretEnv ? env[webhook.secretEnv] : webhook.secret;
+    if (!secret) {
+      throw new Error(
+        `Webhook ${id}: set secret, or secretEnv to a variable that holds it`
+      );
+    }
+    return {
+      id,
+      url: webhook.url,
+      address: webhook.address ? getAddress(webhook.address) : undefined,
+      secret,
+    };
+  });
+  const ids = new Set(webhooks.map((webhook) => webhook.id));
+  if (ids.size !== webhooks.length) {
+    throw new Error("Webhook ids must be unique");
+  }
+
+  const rules = (config.rules ?? []).map((rule): NotificationRule => {
+    if (!rule.event) {
+      throw new Error("Every rule needs an event");
+    }
+    checkEvent(rule.event);
+    const notify = (rule.notify ?? []).map((value) => parseRecipient(value, rule.event!));
+    for (const recipient of notify) {
+      if (recipient.kind === "webhook" && !ids.has(recipient.id)) {
+        throw new Error(`Rule ${rule.event}: no webhook ${recipient.id}`);
+      }
+    }
+    if (notify.length === 0) {
+      throw new Error(`Rule ${rule.event}: notify lists no recipients`);
+    }
+    return { event: rule.event, notify };
+  });
+
+  return { webhooks, rules };
+}
+
+export function loadNotifierConfig(file: string): NotifierConfig {
+  return parseNotifierConfig(JSON.parse(fs.readFileSync(file, "utf8")));
+}
@@ -0,0 +1,182 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { EventArgs } from "../indexer/events.js";
+import { WebhookConfig } from "./config.js";
+import { SIGNATURE_HEADER, signPayload } from "./signature.js";
+
+export const DEFAULT_MAX_ATTEMPTS = 6;
+export const DEFAULT_RETRY_BASE_MS = 2_000;
+export const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Body of a webhook request
+ */
+export interface Notification {
+  /** Stable per event and webhook, so receivers can drop duplicates */
+  id: string;
+  /** `<contract>.<EventName>` */
+  event: string;
+  address: string;
+  args: EventArgs;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+  /** Accounts the rules matched this webhook for; empty for direct webhook rules */
+  recipients: string[];
+}
+
+export interface PendingDelivery {
+  webhookId: string;
+  notification: Notification;
+  attempts: number;
+  /** Epoch milliseconds */
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface DeliveryOptions {
+  maxAttempts?: number;
+  /** Delay before the first retry; it doubles with every failed attempt */
+  retryBaseMs?: number;
+  timeoutMs?: number;
+  /** JSON lines file that gets every delivery that ran out of attempts */
+  deadLetterFile?: string;
+  fetch?: typeof fetch;
+  now?: () => number;
+  log?: (message: string) => void;
+}
+
+export interface FlushResult {
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+/**
+ * Queue of signed webhook deliveries. Each flush sends whatever is due; a
+ * non-2xx answer or network error schedules a retry with exponential
+ * backoff, and after `maxAttempts` the delivery goes to the dead-letter log.
+ */
+export class WebhookDelivery {
+  private readonly webhooks: Map<string, WebhookConfig>;
+  private queue: PendingDelivery[] = [];
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly timeoutMs: number;
+  private readonly deadLetterFile: string | undefined;
+  private readonly fetch: typeof fetch;
+  private readonly now: () => number;
+  private readonly log: (message: string) => void;
+
+  constructor(webhooks: WebhookConfig[], options: DeliveryOptions = {}) {
+    this.webhooks = new Map(webhooks.map((webhook) => [webhook.id, webhook]));
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryBaseMs = options.retryBaseMs ?? DEFAULT_RETRY_BASE_MS;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.deadLetterFile = options.deadLetterFile;
+    this.fetch = options.fetch ?? globalThis.fetch;
+    this.now = options.now ?? Date.now;
+    this.log = options.log ?? (() => {});
+  }
+
+  enqueue(webhookId: string, notification: Notification): void {
+    if (this.queue.some((item) => item.notification.id === notification.id)) {
+      return;
+    }
+    this.queue.push({ webhookId, notification, attempts: 0, nextAttemptAt: this.now() });
+  }
+
+  pending(): PendingDelivery[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Reload deliveries saved by a previous process
+   */
+  restore(pending: PendingDelivery[]): void {
+    this.queue = pending.filter((item) => this.webhooks.has(item.webhookId));
+  }
+
+  async flush(): Promise<FlushResult> {
+    const result: FlushResult = { delivered: 0, retrying: 0, deadLettered: 0 };
+    const due = this.queue.filter((item) => item.nextAttemptAt <= this.now());
+
+    for (const item of due) {
+      const error = await this.send(item);
+      if (error === undefined) {
+        this.remove(item);
+        result.delivered++;
+        continue;
+      }
+
+      item.attempts++;
+      item.lastError = error;
+      if (item.attempts >= this.maxAttempts) {
+        this.remove(item);
+        this.deadLetter(item);
+        result.deadLettered++;
+      } else {
+        const delay = Math.min(
+          this.retryBaseMs * 2 ** (item.attempts - 1),
+          MAX_RETRY_DELAY_MS
+        );
+        item.nextAttemptAt = this.now() + delay;
+        result.retrying++;
+        this.log(
+          `⚠️  ${item.notification.id} to ${item.webhookId} failed (${error}); retry ${item.attempts}/${this.maxAttempts - 1} in ${delay}ms`
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * POST one delivery; returns the failure reason, or undefined on a 2xx
+   */
+  private async send(item: PendingDelivery): Promise<string | undefined> {
+    const webhook = this.webhooks.get(item.webhookId)!;
+    const body = JSON.stringify(item.notification);
+    try {
+      const res = await this.fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          [SIGNATURE_HEADER]: signPayload(
+            webhook.secret,
+            body,
+            Math.floor(this.now() / 1000)
+          ),
+          "x-crowdfunding-event": item.notification.event,
+          "x-crowdfunding-delivery": item.notification.id,
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      return res.ok ? undefined : `HTTP ${res.status}`;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  private remove(item: PendingDelivery): void {
+    this.queue = this.queue.filter((candidate) => candidate !== item);
+  }
+
+  private deadLetter(item: PendingDelivery): void {
+    this.log(
+      `❌ ${item.notification.id} to ${item.webhookId} gave up after ${item.attempts} attempts: ${item.lastError}`
+    );
+    if (!this.deadLetterFile) return;
+    fs.mkdirSync(path.dirname(path.resolve(this.deadLetterFile)), { recursive: true });
+    fs.appendFileSync(
+      this.deadLetterFile,
+      JSON.stringify({
+        ...item,
+        url: this.webhooks.get(item.webhookId)?.url,
+        failedAt: new Date(this.now()).toISOString(),
+      }) + "\n"
+    );
+  }
+}
@@ -0,0 +1,345 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Address,
+  getAddress,
+  Hash,
+  isAddress,
+  keccak256,
+  Log,
+  parseAbi,
+  PublicClient,
+  toHex,
+  zeroHash,
+} from "viem";
+
+import { dealRoomAbi, escrowAbi } from "../../sdk/abis.js";
+import {
+  INDEXED_CONTRACTS,
+  INDEXED_EVENTS,
+  IndexedContract,
+  normalizeArgs,
+} from "../indexer/events.js";
+import { DEFAULT_BATCH_SIZE, DEFAULT_CONFIRMATIONS } from "../indexer/indexer.js";
+import { NotifierConfig, Recipient } from "./config.js";
+import {
+  DeliveryOptions,
+  FlushResult,
+  Notification,
+  PendingDelivery,
+  WebhookDelivery,
+} from "./delivery.js";
+
+const roleEvents = parseAbi([
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+]);
+
+export interface NotifierOptions {
+  publicClient: PublicClient;
+  config: NotifierConfig;
+  contracts: Partial<Record<IndexedContract, Address>>;
+  /** Blocks an event must be buried under before anyone is notified */
+  confirmations?: number;
+  /** First block to scan on a fresh state, usually the deployment block */
+  startBlock?: number;
+  batchSize?: number;
+  /** JSON file for the checkpoint, role holders and queued deliveries */
+  stateFile?: string;
+  delivery?: DeliveryOptions;
+  log?: (message: string) => void;
+}
+
+export interface NotifierSyncResult extends FlushResult {
+  checkpoint: number | undefined;
+  /** Deliveries queued from new events */
+  queued: number;
+}
+
+interface NotifierState {
+  checkpoint?: number;
+  /** Holders per `<contract>.<role hash>`, rebuilt from RoleGranted/RoleRevoked */
+  roles: Record<string, string[]>;
+  pending: PendingDelivery[];
+}
+
+type DecodedLog = Log<bigint, number, false> & {
+  eventName: string;
+  args: Record<string, unknown>;
+};
+
+export function roleHash(role: string): Hash {
+  return role === "DEFAULT_ADMIN_ROLE" ? zeroHash : keccak256(toHex(role));
+}
+
+/**
+ * Watches the crowdfunding contracts and turns the events matched by the
+ * config's rules into signed webhook deliveries. Role holders are tracked
+ * from `RoleGranted`/`RoleRevoked`, so `role:` recipients are the holders at
+ * the time of the event. Events are only acted on once `confirmations`
+ * blocks deep, because a sent notification cannot be taken back after a
+ * reorg.
+ */
+export class Notifier {
+  private readonly publicClient: PublicClient;
+  private readonly config: NotifierConfig;
+  private readonly contracts: [IndexedContract, Address][];
+  private readonly confirmations: number;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly stateFile: string | undefined;
+  private readonly log: (message: string) => void;
+  private readonly delivery: WebhookDelivery;
+  private state: NotifierState;
+
+  constructor(options: NotifierOptions) {
+    this.publicClient = options.publicClient;
+    this.config = options.config;
+    this.contracts = INDEXED_CONTRACTS.filter((key) => options.contracts[key]).map(
+      (key) => [key, getAddress(options.contracts[key]!)]
+    );
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.stateFile = options.stateFile;
+    this.log = options.log ?? (() => {});
+    this.delivery = new WebhookDelivery(options.config.webhooks, {
+      log: this.log,
+      ...options.delivery,
+    });
+
+    this.checkRules();
+    this.state = this.loadState();
+    this.delivery.restore(this.state.pending);
+  }
+
+  /**
+   * Every rule must point at a watched contract, and the lookups it needs
+   * must have their contract configured
+   */
+  private checkRules(): void {
+    const watched = new Set(this.contracts.map(([key]) => key));
+    for (const rule of this.config.rules) {
+      const contract = rule.event.split(".")[0] as IndexedContract;
+      if (!watched.has(contract)) {
+        throw new Error(`Rule ${rule.event}: no ${contract} address to watch`);
+      }
+      for (const recipient of rule.notify) {
+        const needs =
+          recipient.kind === "role"
+            ? recipient.contract
+            : recipient.kind === "projectCreator"
+              ? "escrow"
+              : recipient.kind === "dealRoomInnovator"
+                ? "dealRoom"
+                : undefined;
+        if (needs && !watched.has(needs)) {
+          throw new Error(`Rule ${rule.event}: resolving recipients needs the ${needs} address`);
+        }
+      }
+    }
+  }
+
+  private loadState(): NotifierState {
+    if (this.stateFile && fs.existsSync(this.stateFile)) {
+      return JSON.parse(fs.readFileSync(this.stateFile, "utf8"));
+    }
+    return { roles: {}, pending: [] };
+  }
+
+  private saveState(): void {
+    this.state.pending = this.delivery.pending();
+    if (!this.stateFile) return;
+    fs.mkdirSync(path.dirname(path.resolve(this.stateFile)), { recursive: true });
+    const temp = `${this.stateFile}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(this.state, null, 2));
+    fs.renameSync(temp, this.stateFile);
+  }
+
+  /**
+   * Current holders of a role, as far as the scanned blocks show
+   */
+  roleHolders(contract: IndexedContract, role: string): Address[] {
+    return (this.state.roles[`${contract}.${roleHash(role)}`] ?? []) as Address[];
+  }
+
+  pending(): PendingDelivery[] {
+    return this.delivery.pending();
+  }
+
+  /**
+   * Scan every confirmed block since the checkpoint, queue the matching
+   * notifications and send whatever is due
+   */
+  async sync(): Promise<NotifierSyncResult> {
+    const head = Number(await this.publicClient.getBlockNumber());
+    const safeHead = head - this.confirmations;
+    let fromBlock = (this.state.checkpoint ?? this.startBlock - 1) + 1;
+    let queued = 0;
+
+    while (fromBlock <= safeHead) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, safeHead);
+      queued += await this.scanRange(fromBlock, toBlock);
+      this.state.checkpoint = toBlock;
+      this.saveState();
+      fromBlock = toBlock + 1;
+    }
+
+    const flushed = await this.delivery.flush();
+    this.saveState();
+    return { checkpoint: this.state.checkpoint, queued, ...flushed };
+  }
+
+  /**
+   * Sync every `pollIntervalMs` until the signal aborts
+   */
+  async run(pollIntervalMs: number, signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        const result = await this.sync();
+        if (result.queued > 0 || result.delivered > 0 || result.deadLettered > 0) {
+          this.log(
+            `📨 Block ${result.checkpoint}: queued ${result.queued}, delivered ${result.delivered}, retrying ${result.retrying}, dead-lettered ${result.deadLettered}`
+          );
+        }
+      } catch (error) {
+        this.log(`❌ Sync failed: ${(error as Error).message}`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, pollIntervalMs);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  private async scanRange(fromBlock: number, toBlock: number): Promise<number> {
+    const logs: [IndexedContract, DecodedLog][] = [];
+    for (const [contract, address] of this.contracts) {
+      const contractLogs = await this.publicClient.getLogs({
+        address,
+        events: [...INDEXED_EVENTS[contract], ...roleEvents],
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+        strict: true,
+      });
+      for (const log of contractLogs) {
+        logs.push([contract, log as unknown as DecodedLog]);
+      }
+    }
+    logs.sort(
+      ([, a], [, b]) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex
+    );
+
+    let queued = 0;
+    const timestamps = new Map<bigint, number>();
+    for (const [contract, log] of logs) {
+      if (log.eventName === "RoleGranted" || log.eventName === "RoleRevoked") {
+        this.applyRoleChange(contract, log);
+        continue;
+      }
+
+      const event = `${contract}.${log.eventName}`;
+      const rules = this.config.rules.filter(
+        (rule) => rule.event === event || rule.event === `${contract}.*`
+      );
+      if (rules.length === 0) continue;
+
+      const targets = new Map<string, Set<string>>();
+      for (const recipient of rules.flatMap((rule) => rule.notify)) {
+        await this.resolve(contract, log, recipient, targets);
+      }
+      if (targets.size === 0) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.publicClient.getBlock({ blockNumber: log.blockNumber });
+        timestamps.set(log.blockNumber, Number(block.timestamp));
+      }
+      for (const [webhookId, recipients] of targets) {
+        this.delivery.enqueue(webhookId, {
+          id: `${log.transactionHash}:${log.logIndex}:${webhookId}`,
+          event,
+          address: getAddress(log.address),
+          args: normalizeArgs(log.args),
+          blockNumber: Number(log.blockNumber),
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+          timestamp: timestamps.get(log.blockNumber)!,
+          recipients: [...recipients],
+        } satisfies Notification);
+        queued++;
+      }
+    }
+    return queued;
+  }
+
+  private applyRoleChange(contract: IndexedContract, log: DecodedLog): void {
+    const key = `${contract}.${log.args.role}`;
+    const account = getAddress(log.args.account as Address);
+    const holders = new Set(this.state.roles[key] ?? []);
+    if (log.eventName === "RoleGranted") {
+      holders.add(account);
+    } else {
+      holders.delete(account);
+    }
+    this.state.roles[key] = [...holders];
+  }
+
+  /**
+   * Add the webhooks a recipient maps to, with the accounts they were
+   * matched for
+   */
+  private async resolve(
+    contract: IndexedContract,
+    log: DecodedLog,
+    recipient: Recipient,
+    targets: Map<string, Set<string>>
+  ): Promise<void> {
+    if (recipient.kind === "webhook") {
+      if (!targets.has(recipient.id)) targets.set(recipient.id, new Set());
+      return;
+    }
+
+    const accounts: Address[] = [];
+    if (recipient.kind === "role") {
+      accounts.push(...this.roleHolders(recipient.contract, recipient.role));
+    } else if (recipient.kind === "arg") {
+      const value = log.args[recipient.name];
+      if (typeof value === "string" && isAddress(value)) {
+        accounts.push(getAddress(value));
+      }
+    } else if (recipient.kind === "projectCreator" && log.args.projectId !== undefined) {
+      // Creators and innovators are set once, so the latest state names the
+      // same account as the log's block without needing an archive node
+      const [creator] = await this.publicClient.readContract({
+        address: this.addressOf("escrow"),
+        abi: escrowAbi,
+        functionName: "projects",
+        args: [log.args.projectId as bigint],
+      });
+      accounts.push(getAddress(creator));
+    } else if (recipient.kind === "dealRoomInnovator" && log.args.dealRoomId !== undefined) {
+      const [, innovator] = await this.publicClient.readContract({
+        address: this.addressOf("dealRoom"),
+        abi: dealRoomAbi,
+        functionName: "getDealRoom",
+        args: [log.args.dealRoomId as bigint],
+      });
+      accounts.push(getAddress(innovator));
+    }
+
+    for (const account of accounts) {
+      for (const webhook of this.config.webhooks) {
+        if (webhook.address !== account) continue;
+        if (!targets.has(webhook.id)) targets.set(webhook.id, new Set());
+        targets.get(webhook.id)!.add(account);
+      }
+    }
+  }
+
+  private addressOf(contract: IndexedContract): Address {
+    return this.contracts.find(([key]) => key === contract)![1];
+  }
+}
@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const SIGNATURE_HEADER = "x-crowdfunding-signature";
+/** How old a signed timestamp a receiver should accept, by default */
+export const SIGNATURE_TOLERANCE_S = 5 * 60;
+
+function digest(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Signing the
+ * timestamp with the body lets receivers reject replays.
+ */
+export function signPayload(secret: string, body: string, timestamp: number): string {
+  return `t=${timestamp},v1=${digest(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a signature header against the raw request body, for webhook
+ * receivers
+ */
+export function verifySignature(
+  secret: string,
+  header: string | undefined,
+  body: string,
+  now: number = Math.floor(Date.now() / 1000),
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_S
+): boolean {
+  const parts = Object.fromEntries(
+    (header ?? "").split(",").map((part) => part.split("=", 2) as [string, string])
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(digest(secret, timestamp, body), "hex");
+  const actual = Buffer.from(parts.v1 ?? "", "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
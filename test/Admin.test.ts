@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ethers as Ethers } from "ethers";
+import { network } from "hardhat";
+import { getAddress, parseEther, zeroAddress } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { applyAdminCalls, findAdminCommand } from "../scripts/lib/admin.js";
+import { ContractKey } from "../scripts/lib/artifacts.js";
+import {
+  DEPLOYMENT_SCHEMA_VERSION,
+  DeploymentRecord,
+} from "../scripts/lib/deployment.js";
+
+const DAY = 24n * 60n * 60n;
+
+function recordOf(
+  addresses: Partial<Record<ContractKey, string>>,
+  deployer: string
+): DeploymentRecord {
+  const contracts: DeploymentRecord["contracts"] = {};
+  for (const [key, address] of Object.entries(addresses)) {
+    contracts[key as ContractKey] = {
+      contractName: key,
+      address,
+      transactionHash: null,
+      blockNumber: 0,
+      constructorArgs: null,
+      compiler: null,
+      bytecodeHash: null,
+    };
+  }
+  return {
+    schemaVersion: DEPLOYMENT_SCHEMA_VERSION,
+    network: "hardhat",
+    chainId: 31337,
+    deployer,
+    timestamp: Date.now(),
+    gitCommit: null,
+    contracts,
+  };
+}
+
+describe("Admin CLI commands", async function () {
+  const { ignition, provider, viem } = await network.connect();
+  const [admin, creator, validator, investor] = await viem.getWalletClients();
+  const publicClient = await viem.getPublicClient();
+  const ethersProvider = new Ethers.BrowserProvider(provider, undefined, {
+    cacheTimeout: -1,
+  });
+  const signer = await ethersProvider.getSigner(admin.account.address);
+
+  const { escrow, investmentNFT, voting, dealRoom } = await ignition.deploy(
+    CrowdfundingDevModule
+  );
+  const record = recordOf(
+    {
+      escrow: escrow.address,
+      investmentNFT: investmentNFT.address,
+      voting: voting.address,
+      dealRoom: dealRoom.address,
+    },
+    admin.account.address
+  );
+  const run = async (name: string, ...params: string[]) => {
+    const calls = await findAdminCommand(name).plan(record, ethersProvider, params);
+    await applyAdminCalls(calls, record, signer, () => {});
+    return calls;
+  };
+
+  it("pauses everything that is still running and reports the previous state", async function () {
+    await dealRoom.write.pause();
+
+    const calls = await run("pause-all");
+    assert.deepEqual(
+      calls.map((call) => [call.contract, call.before, call.after]),
+      [
+        ["escrow", "running", "paused"],
+        ["investmentNFT", "running", "paused"],
+        ["voting", "running", "paused"],
+      ]
+    );
+    for (const contract of [escrow, investmentNFT, voting, dealRoom]) {
+      assert.equal(await contract.read.paused(), true);
+    }
+    assert.equal((await run("pause-all")).length, 0);
+
+    await run("unpause", "all");
+    assert.equal(await escrow.read.paused(), false);
+    assert.equal(await dealRoom.read.paused(), false);
+  });
+
+  it("shows current values before setting fees and quorum", async function () {
+    const [platformFee] = await findAdminCommand("set-platform-fee").plan(
+      record,
+      ethersProvider,
+      ["300"]
+    );
+    assert.equal(
+      platformFee.before,
+      `${await escrow.read.platformFeePercentage()} bps (2.5%)`
+    );
+    assert.equal(platformFee.after, "300 bps (3%)");
+
+    await run("set-platform-fee", "300");
+    await run("set-marketplace-fee", "100");
+    await run("set-default-quorum", "2500");
+    assert.equal(await escrow.read.platformFeePercentage(), 300n);
+    assert.equal(await investmentNFT.read.marketplaceFee(), 100n);
+    assert.equal(await voting.read.defaultQuorum(), 2500n);
+    assert.equal((await run("set-platform-fee", "300")).length, 0);
+
+    await assert.rejects(run("set-marketplace-fee", "1001"), /from 0 to 1000/);
+    await assert.rejects(run("set-default-quorum", "0"), /from 1 to 10000/);
+  });
+
+  it("grants roles, updates KYC and triggers emergency withdrawals", async function () {
+    await run("grant-role", "escrow", "VALIDATOR_ROLE", validator.account.address);
+    const validatorRole = await escrow.read.VALIDATOR_ROLE();
+    assert.equal(await escrow.read.hasRole([validatorRole, validator.account.address]), true);
+    assert.equal(
+      (await run("grant-role", "escrow", "VALIDATOR_ROLE", validator.account.address)).length,
+      0
+    );
+    await run("revoke-role", "escrow", "VALIDATOR_ROLE", validator.account.address);
+    assert.equal(await escrow.read.hasRole([validatorRole, validator.account.address]), false);
+    await assert.rejects(
+      run("grant-role", "escrow", "MINTER_ROLE", validator.account.address),
+      /escrow has no MINTER_ROLE/
+    );
+
+    const [kyc] = await run("update-kyc", investor.account.address, "Verified");
+    assert.equal(kyc.before, "NotVerified");
+    assert.match(kyc.after, /^Verified, expires /);
+    const [status, , expiry, verifier] = await dealRoom.read.kycData([
+      investor.account.address,
+    ]);
+    assert.equal(status, 1);
+    const now = (await publicClient.getBlock()).timestamp;
+    assert.ok(expiry > now + 364n * DAY && expiry <= now + 365n * DAY);
+    assert.equal(getAddress(verifier), getAddress(admin.account.address));
+    assert.equal(
+      (await run("update-kyc", investor.account.address, "Verified", expiry.toString())).length,
+      0
+    );
+    assert.equal((await run("update-kyc", creator.account.address, "NotVerified")).length, 0);
+
+    const deadline = (await publicClient.getBlock()).timestamp + 30n * DAY;
+    await escrow.write.createProject(
+      ["Solar", "Rooftop panels", parseEther("10"), deadline, zeroAddress],
+      { account: creator.account }
+    );
+    const [trigger] = await run("emergency-withdraw", "0");
+    assert.equal(trigger.before, "Active, emergency withdrawal off");
+    const project = await escrow.read.projects([0n]);
+    assert.equal(project[7], 2);
+    assert.equal(project[11], true);
+    assert.equal((await run("emergency-withdraw", "0")).length, 0);
+    await assert.rejects(run("emergency-withdraw", "9"), /Project 9 does not exist/);
+  });
+});
@@ -0,0 +1,281 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, PublicClient, WalletClient, zeroAddress } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import {
+  ContractError,
+  ContractErrorCode,
+  EscrowClient,
+  rulingForCreatorShare,
+} from "../sdk/index.js";
+
+const DAY = 24n * 60n * 60n;
+const FEE = parseEther("0.01");
+
+describe("Escrow arbitration", async function () {
+  const { ignition, networkHelpers, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, creator, alice, bob, stranger] = await viem.getWalletClients();
+
+  const { escrow, mockArbitrator } = await ignition.deploy(CrowdfundingDevModule, {
+    parameters: { MockArbitratorModule: { arbitrationFee: FEE } },
+  });
+
+  const escrowFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  const rejectsWith = (promise: Promise<unknown>, code: ContractErrorCode) =>
+    assert.rejects(
+      promise,
+      (error: unknown) => error instanceof ContractError && error.code === code
+    );
+
+  // Alice holds 40% of the project and Bob 60%
+  async function fundedProject(): Promise<bigint> {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Solar",
+      description: "Rooftop panels",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    for (const title of ["Install", "Connect"]) {
+      await escrowFor(creator).createMilestone({
+        projectId,
+        amount: parseEther("5"),
+        dueDate: deadline - DAY,
+        title,
+        description: title,
+        requiredApprovals: 1n,
+      });
+    }
+    await escrowFor(alice).deposit(projectId, parseEther("4"));
+    await escrowFor(bob).deposit(projectId, parseEther("6"));
+    return projectId;
+  }
+
+  // Alice's 4 of a 10 target: still open, and failed once its deadline passes
+  async function underfundedProject(): Promise<{ projectId: bigint; deadline: bigint }> {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Mill",
+      description: "Grain mill",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    await escrowFor(creator).createMilestone({
+      projectId,
+      amount: parseEther("2"),
+      dueDate: deadline - DAY,
+      title: "Stones",
+      description: "Millstones",
+      requiredApprovals: 1n,
+    });
+    await escrowFor(alice).deposit(projectId, parseEther("4"));
+    return { projectId, deadline };
+  }
+
+  await escrow.write.setArbitrator([mockArbitrator.address, "0x", "ipfs://meta-evidence"]);
+
+  it("runs a dispute through the arbitrator and splits the milestone by its ruling", async function () {
+    const projectId = await fundedProject();
+    assert.equal(await escrowFor(alice).arbitrationCost(), FEE);
+
+    await escrowFor(alice).raiseDispute(projectId, 0n, "Panels missing");
+    assert.equal(await publicClient.getBalance({ address: mockArbitrator.address }), FEE);
+    let arbitration = await escrowFor(alice).getArbitration(projectId, 0n);
+    assert.equal(arbitration!.arbitrator, getAddress(mockArbitrator.address));
+    assert.equal(arbitration!.status, "Waiting");
+    assert.equal(
+      (await escrowFor(alice).getMilestone(projectId, 0n)).disputeStatus,
+      "UnderReview"
+    );
+
+    await escrowFor(creator).submitEvidence(projectId, 0n, "ipfs://installation-photos");
+    await escrowFor(bob).submitEvidence(projectId, 0n, "ipfs://site-visit");
+    await rejectsWith(
+      escrowFor(stranger).submitEvidence(projectId, 0n, "ipfs://spam"),
+      "NOT_DISPUTE_PARTY"
+    );
+    const evidence = await escrowFor(stranger).getEvidence(projectId, 0n);
+    assert.deepEqual(
+      evidence.map(({ party, evidence }) => [party, evidence]),
+      [
+        [getAddress(alice.account.address), "Panels missing"],
+        [getAddress(creator.account.address), "ipfs://installation-photos"],
+        [getAddress(bob.account.address), "ipfs://site-visit"],
+      ]
+    );
+
+    // The arbitrator, not RESOLVER_ROLE, decides
+    await rejectsWith(
+      escrowFor(admin).resolveDispute(projectId, 0n, true),
+      "NO_ACTIVE_DISPUTE"
+    );
+    await assert.rejects(
+      escrow.write.rule([arbitration!.disputeId, 1n], { account: stranger.account }),
+      /Unknown dispute/
+    );
+
+    await mockArbitrator.write.giveRuling([arbitration!.disputeId, rulingForCreatorShare(6000n)]);
+
+    arbitration = await escrowFor(alice).getArbitration(projectId, 0n);
+    assert.equal(arbitration!.status, "Solved");
+    assert.equal(arbitration!.currentRuling, 6001n);
+    const milestone = await escrowFor(alice).getMilestone(projectId, 0n);
+    assert.equal(milestone.status, "Released");
+    assert.equal(milestone.disputeStatus, "Resolved");
+
+    const released = parseEther("3");
+    const fee = (released * (await escrow.read.platformFeePercentage())) / 10_000n;
+    assert.equal(
+      await escrowFor(creator).claimableBalance(creator.account.address),
+      released - fee
+    );
+    assert.equal(
+      await escrowFor(alice).getMilestoneRefund(projectId, alice.account.address),
+      parseEther("0.8")
+    );
+    assert.equal(
+      await escrowFor(bob).getMilestoneRefund(projectId, bob.account.address),
+      parseEther("1.2")
+    );
+    await rejectsWith(
+      escrowFor(creator).submitEvidence(projectId, 0n, "ipfs://late"),
+      "NO_ACTIVE_DISPUTE"
+    );
+  });
+
+  it("collects the arbitration fee and splits evenly when the arbitrator refuses to rule", async function () {
+    const projectId = await fundedProject();
+    await rejectsWith(
+      escrowFor(bob).submitEvidence(projectId, 1n, "ipfs://early"),
+      "NO_ACTIVE_DISPUTE"
+    );
+    await assert.rejects(
+      escrow.write.raiseDispute([projectId, 1n, ""], { account: bob.account, value: FEE - 1n }),
+      /Arbitration fee too low/
+    );
+
+    // Overpaying leaves the difference to withdraw
+    await escrow.write.raiseDispute([projectId, 1n, ""], {
+      account: bob.account,
+      value: FEE + parseEther("0.5"),
+    });
+    assert.equal(
+      await escrowFor(bob).claimableBalance(bob.account.address),
+      parseEther("0.5")
+    );
+    const { disputeId } = (await escrowFor(bob).getArbitration(projectId, 1n))!;
+    await mockArbitrator.write.giveRuling([disputeId, 0n]);
+
+    assert.equal(
+      await escrowFor(bob).getMilestoneRefund(projectId, bob.account.address),
+      parseEther("1.5")
+    );
+    assert.equal((await escrowFor(bob).getMilestone(projectId, 1n)).status, "Released");
+  });
+
+  it("closes a disputed milestone when its project fails before the ruling", async function () {
+    const { projectId, deadline } = await underfundedProject();
+    await escrowFor(alice).raiseDispute(projectId, 0n, "No millstones");
+    const { disputeId } = (await escrowFor(alice).getArbitration(projectId, 0n))!;
+
+    await networkHelpers.time.increaseTo(deadline);
+    await escrowFor(stranger).markProjectFailed(projectId);
+    const ruling = mockArbitrator.write.giveRuling([disputeId, rulingForCreatorShare(10_000n)]);
+    await viem.assertions.emitWithArgs(ruling, escrow, "DisputeRuled", [projectId, 0n, 0n]);
+
+    const milestone = await escrowFor(alice).getMilestone(projectId, 0n);
+    assert.equal(milestone.status, "Refunded");
+    assert.equal(milestone.disputeStatus, "Resolved");
+    // The ruling released nothing: the whole deposit is refunded
+    assert.equal(
+      await escrowFor(alice).getRefundAmount(projectId, alice.account.address),
+      parseEther("4")
+    );
+  });
+
+  it("rejects disputes on failed and cancelled projects", async function () {
+    const failed = await underfundedProject();
+    await networkHelpers.time.increaseTo(failed.deadline);
+    await escrowFor(stranger).markProjectFailed(failed.projectId);
+    await rejectsWith(
+      escrowFor(alice).raiseDispute(failed.projectId, 0n, "Too late"),
+      "PROJECT_FAILED"
+    );
+
+    const cancelled = await underfundedProject();
+    await escrow.write.triggerEmergencyWithdraw([cancelled.projectId]);
+    await rejectsWith(
+      escrowFor(alice).raiseDispute(cancelled.projectId, 0n, "Too late"),
+      "PROJECT_CANCELLED"
+    );
+  });
+
+  it("rejects disputes and evidence for projects and milestones that don't exist", async function () {
+    const projectId = await fundedProject();
+    const balance = await publicClient.getBalance({ address: mockArbitrator.address });
+    await rejectsWith(
+      escrowFor(alice).raiseDispute(projectId, 2n, "No such milestone"),
+      "MILESTONE_NOT_FOUND"
+    );
+    await rejectsWith(
+      escrowFor(creator).submitEvidence(projectId, 2n, "ipfs://nothing"),
+      "MILESTONE_NOT_FOUND"
+    );
+    await rejectsWith(
+      escrowFor(admin).raiseDispute(projectId + 100n, 0n, "No such project"),
+      "PROJECT_NOT_FOUND"
+    );
+    await rejectsWith(
+      escrowFor(admin).submitEvidence(projectId + 100n, 0n, "ipfs://nothing"),
+      "PROJECT_NOT_FOUND"
+    );
+    assert.equal(await publicClient.getBalance({ address: mockArbitrator.address }), balance);
+  });
+
+  it("holds rulings while Escrow is paused", async function () {
+    const projectId = await fundedProject();
+    await escrowFor(alice).raiseDispute(projectId, 0n, "Panels missing");
+    const { disputeId } = (await escrowFor(alice).getArbitration(projectId, 0n))!;
+
+    await escrow.write.pause();
+    await assert.rejects(
+      mockArbitrator.write.giveRuling([disputeId, rulingForCreatorShare(10_000n)])
+    );
+    assert.equal(
+      (await escrowFor(alice).getMilestone(projectId, 0n)).disputeStatus,
+      "UnderReview"
+    );
+    await escrow.write.unpause();
+    await mockArbitrator.write.giveRuling([disputeId, rulingForCreatorShare(10_000n)]);
+    assert.equal((await escrowFor(alice).getMilestone(projectId, 0n)).status, "Released");
+  });
+
+  it("returns disputes to RESOLVER_ROLE once the arbitrator is removed", async function () {
+    const projectId = await fundedProject();
+    await escrow.write.setArbitrator([zeroAddress, "0x", ""]);
+    assert.equal(await escrowFor(alice).arbitrationCost(), 0n);
+
+    await assert.rejects(
+      escrow.write.raiseDispute([projectId, 0n, ""], { account: alice.account, value: FEE }),
+      /No arbitration fee due/
+    );
+    await escrowFor(alice).raiseDispute(projectId, 0n, "Panels missing");
+    assert.equal(await escrowFor(alice).getArbitration(projectId, 0n), undefined);
+    await escrowFor(creator).submitEvidence(projectId, 0n, "ipfs://installation-photos");
+    await escrowFor(admin).resolveDispute(projectId, 0n, false);
+    assert.equal((await escrowFor(alice).getMilestone(projectId, 0n)).status, "Refunded");
+  });
+});
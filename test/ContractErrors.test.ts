@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { network } from "hardhat";
+import { encodeErrorResult, parseEther, PublicClient, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { loadArtifact } from "../scripts/lib/artifacts.js";
+import {
+  contractErrorsAbi,
+  ContractError,
+  CUSTOM_ERRORS,
+  decodeContractError,
+  EscrowClient,
+  REVERT_REASONS,
+} from "../sdk/index.js";
+
+const CONTRACTS = ["Escrow", "InvestmentNFT", "Voting", "DealRoom"];
+const CONTRACTS_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../contracts"
+);
+
+function errorSignature(item: { name: string; inputs: readonly { type: string }[] }): string {
+  return `${item.name}(${item.inputs.map((input) => input.type).join(",")})`;
+}
+
+/**
+ * Every `require(cond, "...")` and `revert("...")` string in a source file
+ */
+function reasonStrings(source: string): string[] {
+  const code = source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+  const pattern = /\b(?:require\s*\([^;]*?,|revert\s*\()\s*"([^"]*)"\s*\)/g;
+  return [...code.matchAll(pattern)].map((match) => match[1]);
+}
+
+describe("Contract error decoding", async function () {
+  it("maps every require reason string in the contracts", function () {
+    for (const contract of CONTRACTS) {
+      const source = fs.readFileSync(
+        path.join(CONTRACTS_DIR, `${contract}.sol`),
+        "utf8"
+      );
+      const reasons = reasonStrings(source);
+      assert.ok(reasons.length > 0, `No reason strings found in ${contract}.sol`);
+
+      const unmapped = [...new Set(reasons)].filter(
+        (reason) => !(reason in REVERT_REASONS)
+      );
+      assert.deepEqual(
+        unmapped,
+        [],
+        `${contract}.sol has reasons missing from REVERT_REASONS`
+      );
+    }
+  });
+
+  it("maps every custom error in the compiled ABIs", function () {
+    const decodable = new Set(contractErrorsAbi.map(errorSignature));
+    for (const contract of CONTRACTS) {
+      const errors = loadArtifact(contract).abi.filter((item) => item.type === "error");
+      for (const item of errors) {
+        const signature = errorSignature(item);
+        assert.ok(
+          decodable.has(signature),
+          `${signature} from ${contract} missing from contractErrorsAbi`
+        );
+        assert.ok(
+          item.name in CUSTOM_ERRORS,
+          `${item.name} from ${contract} missing from CUSTOM_ERRORS`
+        );
+      }
+    }
+  });
+
+  it("throws typed errors from SDK writes", async function () {
+    const { ignition, viem } = await network.connect();
+    const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+    const [admin, creator] = await viem.getWalletClients();
+    const { escrow } = await ignition.deploy(CrowdfundingDevModule);
+    const creatorClient = new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: creator as unknown as WalletClient,
+    });
+    const project = {
+      title: "",
+      description: "Rooftop panels",
+      targetAmount: parseEther("10"),
+      deadline: (await publicClient.getBlock()).timestamp + 86_400n,
+    };
+
+    await assert.rejects(
+      () => creatorClient.createProject(project),
+      (error: unknown) => {
+        assert.ok(error instanceof ContractError);
+        assert.equal(error.code, "TITLE_REQUIRED");
+        assert.equal(error.reason, "Title required");
+        assert.equal(error.userMessage, "A title is required.");
+        assert.match(error.message, /reverted with "Title required"/);
+        return true;
+      }
+    );
+
+    await escrow.write.pause({ account: admin.account });
+    await assert.rejects(
+      () => creatorClient.createProject({ ...project, title: "Solar" }),
+      (error: unknown) => {
+        assert.ok(error instanceof ContractError);
+        assert.equal(error.code, "PAUSED");
+        assert.equal(error.reason, "EnforcedPause");
+        return true;
+      }
+    );
+  });
+
+  it("decodes revert data from ethers-style errors and ignores other failures", function () {
+    const data = encodeErrorResult({
+      abi: contractErrorsAbi,
+      errorName: "ERC20InsufficientAllowance",
+      args: ["0x0000000000000000000000000000000000000001", 0n, 5n],
+    });
+    const decoded = decodeContractError({ code: "CALL_EXCEPTION", error: { data } });
+    assert.equal(decoded?.code, "INSUFFICIENT_ALLOWANCE");
+    assert.deepEqual(decoded?.args.slice(1), [0n, 5n]);
+
+    assert.equal(decodeContractError({ reason: "KYC expired" })?.code, "KYC_EXPIRED");
+    assert.equal(decodeContractError({ reason: "Something new" })?.code, "UNKNOWN_REVERT");
+    assert.equal(decodeContractError(new Error("fetch failed")), undefined);
+  });
+});
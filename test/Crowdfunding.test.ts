@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress } from "viem";
+
+import CrowdfundingModule from "../ignition/modules/Crowdfunding.js";
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+
+describe("Crowdfunding Ignition modules", async function () {
+  const { ignition, viem } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+
+  const [deployer, feeRecipient] = await viem.getWalletClients();
+
+  it("dev module deploys the full suite with a mock governance token", async function () {
+    const { mockERC20, escrow, investmentNFT, voting, dealRoom } =
+      await ignition.deploy(CrowdfundingDevModule);
+
+    for (const contract of [mockERC20, escrow, investmentNFT, voting, dealRoom]) {
+      const code = await publicClient.getCode({ address: contract.address });
+      assert.ok(code !== undefined && code !== "0x");
+    }
+
+    // Defaults: deployer receives fees, InvestmentNFT points at Escrow
+    assert.equal(
+      getAddress(await escrow.read.feeRecipient()),
+      getAddress(deployer.account.address)
+    );
+    assert.equal(
+      getAddress(await investmentNFT.read.escrowContract()),
+      getAddress(escrow.address)
+    );
+  });
+
+  it("production module uses the supplied parameters", async function () {
+    const token = await viem.deployContract("MockERC20", [
+      "Governance",
+      "GOV",
+      0n,
+    ]);
+
+    const { escrow, investmentNFT, voting } = await ignition.deploy(
+      CrowdfundingModule,
+      {
+        parameters: {
+          $global: {
+            feeRecipient: feeRecipient.account.address,
+            baseURI: "ipfs://base/",
+            governanceToken: token.address,
+          },
+        },
+      }
+    );
+
+    assert.equal(
+      getAddress(await escrow.read.feeRecipient()),
+      getAddress(feeRecipient.account.address)
+    );
+    assert.equal(
+      getAddress(await investmentNFT.read.feeRecipient()),
+      getAddress(feeRecipient.account.address)
+    );
+    assert.equal(await investmentNFT.read.uri([7n]), "ipfs://base/7");
+    assert.ok(
+      (await publicClient.getCode({ address: voting.address })) !== undefined
+    );
+  });
+
+  it("production module requires a governance token", async function () {
+    await assert.rejects(
+      () => ignition.deploy(CrowdfundingModule),
+      /governanceToken/
+    );
+  });
+});
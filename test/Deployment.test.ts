@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+
+import { ethers as Ethers } from "ethers";
+import { network } from "hardhat";
+
+import { loadArtifact } from "../scripts/lib/artifacts.js";
+import {
+  bytecodeHash,
+  checkExistingDeployment,
+  ContractDeployment,
+  DEPLOYMENT_SCHEMA_VERSION,
+  DeploymentRecord,
+  describeDeployment,
+  migrateDeploymentRecord,
+  readDeploymentFile,
+  readLatestDeployment,
+  writeLatestDeployment,
+} from "../scripts/lib/deployment.js";
+
+describe("Deployment records", async function () {
+  const { provider, viem } = await network.connect();
+  const ethersProvider = new Ethers.BrowserProvider(provider);
+
+  const dealRoom = await viem.deployContract("DealRoom");
+
+  const recorded = (
+    address: string,
+    constructorArgs: unknown[] | null = []
+  ): ContractDeployment => ({
+    contractName: "DealRoom",
+    address,
+    transactionHash: null,
+    blockNumber: null,
+    constructorArgs,
+    compiler: null,
+    bytecodeHash: null,
+  });
+
+  it("reuses an address whose code matches the artifact", async function () {
+    const status = await checkExistingDeployment(
+      ethersProvider,
+      recorded(dealRoom.address),
+      loadArtifact("DealRoom"),
+      []
+    );
+    assert.equal(status.reuse, true);
+    assert.match(status.reason, /matches the current artifact/);
+  });
+
+  it("redeploys when the recorded code differs from the artifact", async function () {
+    const status = await checkExistingDeployment(
+      ethersProvider,
+      recorded(dealRoom.address),
+      loadArtifact("Escrow"),
+      []
+    );
+    assert.equal(status.reuse, false);
+    assert.match(status.reason, /differs from the current Escrow artifact/);
+  });
+
+  it("redeploys when the recorded address has no code", async function () {
+    const status = await checkExistingDeployment(
+      ethersProvider,
+      recorded("0x000000000000000000000000000000000000dEaD"),
+      loadArtifact("DealRoom"),
+      []
+    );
+    assert.equal(status.reuse, false);
+    assert.match(status.reason, /no code at recorded address/);
+  });
+
+  it("redeploys when the record has no address", async function () {
+    const status = await checkExistingDeployment(
+      ethersProvider,
+      undefined,
+      loadArtifact("DealRoom"),
+      []
+    );
+    assert.equal(status.reuse, false);
+    assert.match(status.reason, /no address in previous deployment record/);
+  });
+
+  it("redeploys when the constructor arguments changed since the record", async function () {
+    const [deployer, oldRecipient, newRecipient] = await viem.getWalletClients();
+    const signer = await ethersProvider.getSigner(deployer.account.address);
+    const artifact = loadArtifact("Escrow");
+    const args = [oldRecipient.account.address];
+    const escrow = await new Ethers.ContractFactory(
+      artifact.abi,
+      artifact.bytecode,
+      signer
+    ).deploy(...args);
+    const deployment = await describeDeployment(escrow, artifact, args);
+
+    const unchanged = await checkExistingDeployment(ethersProvider, deployment, artifact, [
+      oldRecipient.account.address.toLowerCase(),
+    ]);
+    assert.equal(unchanged.reuse, true);
+
+    // e.g. FEE_RECIPIENT now points elsewhere
+    const changed = await checkExistingDeployment(ethersProvider, deployment, artifact, [
+      newRecipient.account.address,
+    ]);
+    assert.equal(changed.reuse, false);
+    assert.match(changed.reason, /constructor arguments of .* differ from the current configuration/);
+
+    const legacy = await checkExistingDeployment(
+      ethersProvider,
+      { ...deployment, constructorArgs: null },
+      artifact,
+      [newRecipient.account.address]
+    );
+    assert.equal(legacy.reuse, true);
+    assert.match(legacy.reason, /constructor arguments were not recorded/);
+  });
+
+  it("describes a fresh deployment from its receipt", async function () {
+    const [deployer] = await viem.getWalletClients();
+    const signer = await ethersProvider.getSigner(deployer.account.address);
+    const artifact = loadArtifact("MockERC20");
+    const args = ["Test Token", "TST", Ethers.parseEther("1000000")];
+
+    const contract = await new Ethers.ContractFactory(
+      artifact.abi,
+      artifact.bytecode,
+      signer
+    ).deploy(...args);
+    const deployment = await describeDeployment(contract, artifact, args);
+
+    const receipt = await ethersProvider.getTransactionReceipt(
+      deployment.transactionHash!
+    );
+    assert.equal(receipt?.contractAddress, deployment.address);
+    assert.equal(receipt?.blockNumber, deployment.blockNumber);
+    assert.deepEqual(deployment.constructorArgs, [
+      "Test Token",
+      "TST",
+      "1000000000000000000000000",
+    ]);
+    assert.equal(deployment.bytecodeHash, bytecodeHash(artifact));
+    assert.equal(deployment.compiler?.version, "0.8.28+commit.7893614a");
+    assert.equal(deployment.compiler?.viaIR, true);
+  });
+
+  it("round-trips the latest deployment file", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+    assert.equal(readLatestDeployment("hardhat", dir), undefined);
+
+    const record: DeploymentRecord = {
+      schemaVersion: DEPLOYMENT_SCHEMA_VERSION,
+      network: "hardhat",
+      chainId: 31337,
+      deployer: "0x0000000000000000000000000000000000000001",
+      timestamp: 1,
+      gitCommit: null,
+      contracts: {
+        dealRoom: {
+          contractName: "DealRoom",
+          address: dealRoom.address,
+          transactionHash: null,
+          blockNumber: 1,
+          constructorArgs: [],
+          compiler: null,
+          bytecodeHash: bytecodeHash(loadArtifact("DealRoom")),
+        },
+      },
+    };
+    writeLatestDeployment(record, dir);
+    assert.deepEqual(readLatestDeployment("hardhat", dir), record);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("migrates a legacy flat record", async function () {
+    const record = readDeploymentFile("deployments/celoSepolia-latest.json");
+
+    assert.equal(record.schemaVersion, DEPLOYMENT_SCHEMA_VERSION);
+    assert.equal(record.network, "celoSepolia");
+    assert.equal(record.chainId, 11142220);
+    assert.equal(
+      record.contracts.escrow?.address,
+      "0xC13522d9fF924Da679B51eD9FD3A950CD2D3eCc2"
+    );
+    assert.equal(record.contracts.escrow?.contractName, "Escrow");
+    assert.equal(record.contracts.escrow?.constructorArgs, null);
+    assert.equal(Object.keys(record.contracts).length, 6);
+  });
+
+  it("drops empty addresses and rejects unknown schema versions", async function () {
+    const record = migrateDeploymentRecord({
+      mockERC20: "",
+      counter: "",
+      investmentNFT: "",
+      escrow: "",
+      voting: "",
+      dealRoom: dealRoom.address,
+      network: "hardhat",
+      deployer: "0x0000000000000000000000000000000000000001",
+      timestamp: 1,
+    });
+    assert.deepEqual(Object.keys(record.contracts), ["dealRoom"]);
+
+    assert.throws(
+      () => migrateDeploymentRecord({ schemaVersion: 99 }),
+      /Unsupported deployment record schema version 99/
+    );
+  });
+});
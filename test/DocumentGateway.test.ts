@@ -0,0 +1,217 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs";
+import { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { PublicClient } from "viem";
+
+import {
+  CHALLENGE_TTL_MS,
+  ChallengeLimitError,
+  WalletAuth,
+} from "../services/gateway/auth.js";
+import { createGatewayServer } from "../services/gateway/server.js";
+import { documentHash, DocumentStore } from "../services/gateway/store.js";
+
+describe("DealRoom document gateway", async function () {
+  const { viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [, innovator, investor, outsider] = await viem.getWalletClients();
+
+  const dealRoom = await viem.deployContract("DealRoom");
+  const expiry = (await publicClient.getBlock()).timestamp + 30n * 24n * 3600n;
+  await dealRoom.write.createDealRoom([7n, "Series A", "Data room", expiry, false, 1n], {
+    account: innovator.account,
+  });
+  await dealRoom.write.grantAccess([0n, investor.account.address], {
+    account: innovator.account,
+  });
+
+  const storeDir = fs.mkdtempSync(path.join(os.tmpdir(), "gateway-"));
+  const store = new DocumentStore(storeDir, randomBytes(32));
+  const server = createGatewayServer({
+    publicClient,
+    dealRoom: dealRoom.address,
+    store,
+    log: () => {},
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  after(() => {
+    server.close();
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  type Wallet = typeof investor;
+
+  async function post(route: string, body: unknown): Promise<Response> {
+    return fetch(`${baseUrl}${route}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function body(res: Response): Promise<any> {
+    return res.json();
+  }
+
+  async function signIn(wallet: Wallet): Promise<string> {
+    const address = wallet.account.address;
+    const { message } = await body(await post("/auth/challenge", { address }));
+    const signature = await wallet.signMessage({ message });
+    const res = await post("/auth/session", { address, signature });
+    assert.equal(res.status, 200);
+    return (await body(res)).token;
+  }
+
+  const document = Buffer.from("Cap table, confidential");
+  const hash = documentHash(document);
+  const documentUrl = `${baseUrl}/deal-rooms/0/documents/${hash}`;
+  const innovatorToken = await signIn(innovator);
+  const investorToken = await signIn(investor);
+  const auth = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  it("only issues sessions for a signature over a fresh challenge", async function () {
+    const address = investor.account.address;
+    const { message } = await body(await post("/auth/challenge", { address }));
+
+    const forged = await outsider.signMessage({ message });
+    const rejected = await post("/auth/session", { address, signature: forged });
+    assert.equal(rejected.status, 401);
+
+    // The challenge was consumed by the failed attempt
+    const signature = await investor.signMessage({ message });
+    const replayed = await post("/auth/session", { address, signature });
+    assert.equal(replayed.status, 401);
+
+    const anonymous = await fetch(documentUrl);
+    assert.equal(anonymous.status, 401);
+  });
+
+  it("drops expired challenges and caps the pending ones", function () {
+    let now = 0;
+    const walletAuth = new WalletAuth(publicClient, () => now, 2);
+    walletAuth.createChallenge(innovator.account.address);
+    walletAuth.createChallenge(investor.account.address);
+    assert.throws(
+      () => walletAuth.createChallenge(outsider.account.address),
+      ChallengeLimitError
+    );
+    // A new challenge for a pending address replaces its old one
+    walletAuth.createChallenge(investor.account.address);
+
+    now += CHALLENGE_TTL_MS;
+    walletAuth.createChallenge(outsider.account.address);
+  });
+
+  it("stores uploads from the innovator encrypted under their content hash", async function () {
+    const denied = await fetch(`${baseUrl}/deal-rooms/0/documents`, {
+      method: "PUT",
+      headers: auth(investorToken),
+      body: document,
+    });
+    assert.equal(denied.status, 403);
+
+    const res = await fetch(`${baseUrl}/deal-rooms/0/documents`, {
+      method: "PUT",
+      headers: {
+        ...auth(innovatorToken),
+        "content-type": "text/plain",
+        "x-document-name": "cap-table.txt",
+      },
+      body: document,
+    });
+    assert.equal(res.status, 201);
+    const metadata = await body(res);
+    assert.equal(metadata.hash, hash);
+    assert.equal(metadata.size, document.length);
+
+    const sealed = fs.readFileSync(path.join(storeDir, `${hash}.bin`));
+    assert.equal(sealed.includes(document), false);
+  });
+
+  it("serves a document only once its hash is registered on-chain", async function () {
+    const unregistered = await fetch(documentUrl, { headers: auth(investorToken) });
+    assert.equal(unregistered.status, 404);
+    assert.match((await body(unregistered)).error, /not registered/);
+
+    await dealRoom.write.addDocument([0n, hash], { account: innovator.account });
+
+    const res = await fetch(documentUrl, { headers: auth(investorToken) });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "text/plain");
+    assert.equal(res.headers.get("x-document-hash"), hash);
+    assert.deepEqual(Buffer.from(await res.arrayBuffer()), document);
+
+    const listing = await fetch(`${baseUrl}/deal-rooms/0/documents`, {
+      headers: auth(investorToken),
+    });
+    assert.deepEqual(await body(listing), [{ hash, stored: true }]);
+  });
+
+  it("follows DealRoom.hasAccess for every request", async function () {
+    const outsiderToken = await signIn(outsider);
+    assert.equal(
+      (await fetch(documentUrl, { headers: auth(outsiderToken) })).status,
+      403
+    );
+
+    await dealRoom.write.revokeAccess([0n, investor.account.address, "Passed"], {
+      account: innovator.account,
+    });
+    assert.equal(
+      (await fetch(documentUrl, { headers: auth(investorToken) })).status,
+      403
+    );
+    assert.equal(
+      (await fetch(documentUrl, { headers: auth(innovatorToken) })).status,
+      200
+    );
+  });
+
+  it("keeps each deal room's metadata for a document both rooms upload", async function () {
+    await dealRoom.write.createDealRoom([8n, "Series B", "Data room", expiry, false, 1n], {
+      account: innovator.account,
+    });
+    const res = await fetch(`${baseUrl}/deal-rooms/1/documents`, {
+      method: "PUT",
+      headers: {
+        ...auth(innovatorToken),
+        "content-type": "application/octet-stream",
+        "x-document-name": "series-b-cap-table.txt",
+      },
+      body: document,
+    });
+    assert.equal(res.status, 201);
+    await dealRoom.write.addDocument([1n, hash], { account: innovator.account });
+
+    const first = await fetch(documentUrl, { headers: auth(innovatorToken) });
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get("content-type"), "text/plain");
+    assert.match(first.headers.get("content-disposition")!, /"cap-table.txt"/);
+    const second = await fetch(`${baseUrl}/deal-rooms/1/documents/${hash}`, {
+      headers: auth(innovatorToken),
+    });
+    assert.equal(second.status, 200);
+    assert.match(second.headers.get("content-disposition")!, /"series-b-cap-table.txt"/);
+
+    assert.equal(store.get("0", hash)?.metadata.dealRoomId, "0");
+    assert.equal(store.get("1", hash)?.metadata.dealRoomId, "1");
+    assert.equal(store.has("2", hash), false);
+  });
+
+  it("refuses to return a stored document that was tampered with", function () {
+    const blob = path.join(storeDir, `${hash}.bin`);
+    const sealed = fs.readFileSync(blob);
+    sealed[sealed.length - 1] ^= 0xff;
+    fs.writeFileSync(blob, sealed);
+
+    assert.throws(() => store.get("0", hash), /unable to authenticate/);
+  });
+});
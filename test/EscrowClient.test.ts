@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, PublicClient, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { EscrowClient } from "../sdk/index.js";
+
+const DAY = 24n * 60n * 60n;
+
+describe("EscrowClient", async function () {
+  const { ignition, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, creator, investor] = await viem.getWalletClients();
+
+  const { escrow, mockERC20 } = await ignition.deploy(CrowdfundingDevModule);
+  await mockERC20.write.mint([investor.account.address, parseEther("1000")]);
+
+  const clientFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+  const adminClient = clientFor(admin);
+  const creatorClient = clientFor(creator);
+  const investorClient = clientFor(investor);
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  it("resolves the Escrow address from versioned and legacy deployment records", function () {
+    const versioned = {
+      schemaVersion: 1,
+      contracts: { escrow: { address: escrow.address.toLowerCase() } },
+    };
+    const legacy = { escrow: escrow.address, network: "hardhat" };
+
+    assert.equal(
+      EscrowClient.fromDeployment(versioned, { publicClient }).address,
+      getAddress(escrow.address)
+    );
+    assert.equal(
+      EscrowClient.fromDeployment(legacy, { publicClient }).address,
+      getAddress(escrow.address)
+    );
+    assert.throws(
+      () => EscrowClient.fromDeployment({ contracts: {} }, { publicClient }),
+      /No escrow address in deployment record/
+    );
+  });
+
+  it("runs the native-currency flow and decodes projects and milestones", async function () {
+    const { projectId } = await creatorClient.createProject({
+      title: "Solar",
+      description: "Rooftop panels",
+      targetAmount: parseEther("10"),
+      deadline: (await now()) + 30n * DAY,
+    });
+    const { milestoneId } = await creatorClient.createMilestone({
+      projectId,
+      amount: parseEther("1"),
+      dueDate: (await now()) + 14n * DAY,
+      title: "Install",
+      description: "First roof",
+      requiredApprovals: 1n,
+    });
+
+    const { approval } = await investorClient.deposit(projectId, parseEther("2"));
+    assert.equal(approval, undefined);
+
+    const project = await investorClient.getProject(projectId);
+    assert.equal(project.status, "Active");
+    assert.equal(project.token, undefined);
+    assert.equal(project.raisedAmount, parseEther("2"));
+    assert.equal(project.totalMilestones, 1n);
+    assert.equal(getAddress(project.creator), getAddress(creator.account.address));
+
+    const investment = await investorClient.getUserInvestment(
+      projectId,
+      investor.account.address
+    );
+    assert.equal(investment.amount, parseEther("2"));
+    assert.equal(investment.refunded, false);
+
+    await creatorClient.submitMilestone(projectId, milestoneId, "ipfs://evidence");
+    let milestone = await creatorClient.getMilestone(projectId, milestoneId);
+    assert.equal(milestone.status, "Submitted");
+    assert.equal(milestone.evidenceURI, "ipfs://evidence");
+
+    await adminClient.approveMilestone(projectId, milestoneId);
+    milestone = await creatorClient.getMilestone(projectId, milestoneId);
+    assert.equal(milestone.status, "Released");
+    assert.equal(milestone.disputeStatus, "None");
+    assert.equal(milestone.approvalsCount, 1n);
+    assert.equal((await creatorClient.getProject(projectId)).completedMilestones, 1n);
+  });
+
+  it("approves the token before an ERC20 deposit and handles disputes", async function () {
+    const { projectId } = await creatorClient.createProject({
+      title: "Bakery",
+      description: "New oven",
+      targetAmount: parseEther("500"),
+      deadline: (await now()) + 30n * DAY,
+      token: mockERC20.address,
+    });
+    const { milestoneId } = await creatorClient.createMilestone({
+      projectId,
+      amount: parseEther("50"),
+      dueDate: (await now()) + 14n * DAY,
+      title: "Oven",
+      description: "Buy and install",
+      requiredApprovals: 2n,
+    });
+
+    const first = await investorClient.deposit(projectId, parseEther("100"));
+    assert.ok(first.approval);
+    assert.equal(
+      await mockERC20.read.balanceOf([escrow.address]),
+      parseEther("100")
+    );
+
+    const project = await investorClient.getProject(projectId);
+    assert.equal(getAddress(project.token!), getAddress(mockERC20.address));
+
+    await investorClient.raiseDispute(projectId, milestoneId, "No oven yet");
+    let milestone = await investorClient.getMilestone(projectId, milestoneId);
+    assert.equal(milestone.status, "Disputed");
+    assert.equal(milestone.disputeStatus, "Raised");
+
+    await adminClient.resolveDispute(projectId, milestoneId, false);
+    milestone = await investorClient.getMilestone(projectId, milestoneId);
+    assert.equal(milestone.status, "Refunded");
+    assert.equal(milestone.disputeStatus, "Resolved");
+    assert.equal(
+      await investorClient.getMilestoneRefund(projectId, investor.account.address),
+      parseEther("50")
+    );
+    await investorClient.claimMilestoneRefund(projectId);
+    assert.equal(
+      await mockERC20.read.balanceOf([investor.account.address]),
+      parseEther("950")
+    );
+    assert.equal(
+      await investorClient.getMilestoneRefund(projectId, investor.account.address),
+      0n
+    );
+
+    assert.equal((await investorClient.getMilestones(projectId)).length, 1);
+  });
+
+  it("surfaces revert reasons before sending", async function () {
+    const { projectId } = await creatorClient.createProject({
+      title: "Garden",
+      description: "Community plot",
+      targetAmount: parseEther("1"),
+      deadline: (await now()) + 30n * DAY,
+    });
+
+    await assert.rejects(
+      () => investorClient.submitMilestone(projectId, 0n, "ipfs://x"),
+      /Only creator can submit/
+    );
+    await assert.rejects(
+      () => investorClient.getProject(999n),
+      /Project 999 does not exist/
+    );
+    await assert.rejects(
+      () => clientFor(undefined).approveMilestone(projectId, 0n),
+      /A wallet client with an account is required/
+    );
+  });
+});
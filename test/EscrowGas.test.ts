@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import {
+  Address,
+  getAddress,
+  keccak256,
+  parseEther,
+  PublicClient,
+  toHex,
+  WalletClient,
+} from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { EscrowClient } from "../sdk/index.js";
+
+const DAY = 24n * 60n * 60n;
+const LARGE_CAMPAIGN = 520;
+const STAKE = parseEther("0.01");
+// Small enough for the two-investor project to cover, and a whole number of
+// wei per deposited wei across the large campaign
+const DISPUTED_AMOUNT = parseEther("0.0104");
+
+describe("Escrow payout gas", async function () {
+  const { ignition, viem, networkHelpers } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, creator, alice, bob] = await viem.getWalletClients();
+
+  const { escrow, mockERC20 } = await ignition.deploy(CrowdfundingDevModule);
+
+  const escrowFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  async function createDisputedProject(amount = parseEther("1")): Promise<bigint> {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Wind farm",
+      description: "Community turbines",
+      targetAmount: parseEther("100"),
+      deadline,
+    });
+    await escrowFor(creator).createMilestone({
+      projectId,
+      amount,
+      dueDate: deadline - DAY,
+      title: "Foundations",
+      description: "Concrete pads",
+      requiredApprovals: 1n,
+    });
+    return projectId;
+  }
+
+  async function depositAs(investor: Address, projectId: bigint): Promise<void> {
+    await networkHelpers.impersonateAccount(investor);
+    await networkHelpers.setBalance(investor, parseEther("1"));
+    await escrow.write.deposit([projectId, STAKE], { account: investor, value: STAKE });
+    await networkHelpers.stopImpersonatingAccount(investor);
+  }
+
+  async function refundGas(projectId: bigint): Promise<bigint> {
+    await escrowFor(alice).raiseDispute(projectId, 0n, "No foundations");
+    const receipt = await escrowFor(admin).resolveDispute(projectId, 0n, false);
+    return receipt.gasUsed;
+  }
+
+  // Project 0 is left unused so both measured projects have one-byte ids
+  // and cost the same calldata gas
+  await createDisputedProject();
+
+  it(`resolves a dispute for ${LARGE_CAMPAIGN} investors at the cost of two`, async function () {
+    const small = await createDisputedProject(DISPUTED_AMOUNT);
+    await escrowFor(alice).deposit(small, STAKE);
+    await escrowFor(bob).deposit(small, STAKE);
+
+    const large = await createDisputedProject(DISPUTED_AMOUNT);
+    await escrowFor(alice).deposit(large, STAKE);
+    // MockERC20 has no receive function, so pushing ETH to it would revert
+    await depositAs(getAddress(mockERC20.address), large);
+    for (let i = 0; i < LARGE_CAMPAIGN - 2; i++) {
+      await depositAs(getAddress(keccak256(toHex(i)).slice(0, 42)), large);
+    }
+    assert.equal(
+      (await escrowFor(alice).getProject(large)).raisedAmount,
+      STAKE * BigInt(LARGE_CAMPAIGN)
+    );
+
+    const smallGas = await refundGas(small);
+    const largeGas = await refundGas(large);
+    console.log(
+      `      resolveDispute refund: ${smallGas} gas for 2 investors, ${largeGas} for ${LARGE_CAMPAIGN}`
+    );
+    assert.equal(largeGas, smallGas);
+
+    // Each investor claims their own share of the refunded milestone
+    const share = DISPUTED_AMOUNT / BigInt(LARGE_CAMPAIGN);
+    assert.equal(await escrowFor(alice).getMilestoneRefund(large, alice.account.address), share);
+    assert.equal(
+      await escrowFor(alice).getMilestoneRefund(large, mockERC20.address),
+      share
+    );
+    const balanceBefore = await publicClient.getBalance({ address: alice.account.address });
+    const receipt = await escrowFor(alice).claimMilestoneRefund(large);
+    assert.equal(
+      await publicClient.getBalance({ address: alice.account.address }),
+      balanceBefore + share - receipt.gasUsed * receipt.effectiveGasPrice
+    );
+    assert.equal(await escrowFor(alice).getMilestoneRefund(large, alice.account.address), 0n);
+  });
+
+  it("credits released funds and fees for their recipients to withdraw", async function () {
+    const projectId = await createDisputedProject();
+    await escrowFor(alice).deposit(projectId, parseEther("2"));
+    await escrowFor(creator).submitMilestone(projectId, 0n, "ipfs://evidence");
+    await escrowFor(admin).approveMilestone(projectId, 0n);
+
+    const fee = (parseEther("1") * (await escrow.read.platformFeePercentage())) / 10_000n;
+    const feeRecipient = await escrow.read.feeRecipient();
+    assert.equal(
+      await escrowFor(creator).claimableBalance(creator.account.address),
+      parseEther("1") - fee
+    );
+    assert.equal(await escrowFor(admin).claimableBalance(feeRecipient), fee);
+
+    await escrowFor(creator).withdraw();
+    assert.equal(await escrowFor(creator).claimableBalance(creator.account.address), 0n);
+    await assert.rejects(escrowFor(creator).withdraw(), /Nothing to withdraw/);
+  });
+
+  it("lets later investors share only in refunds made after their deposit", async function () {
+    const projectId = await createDisputedProject();
+    await escrowFor(creator).createMilestone({
+      projectId,
+      amount: parseEther("1"),
+      dueDate: (await now()) + 20n * DAY,
+      title: "Turbines",
+      description: "Install",
+      requiredApprovals: 1n,
+    });
+    await escrowFor(alice).deposit(projectId, parseEther("2"));
+    await refundGas(projectId);
+
+    await escrowFor(bob).deposit(projectId, parseEther("2"));
+    await escrowFor(alice).raiseDispute(projectId, 1n, "No turbines");
+    await escrowFor(admin).resolveDispute(projectId, 1n, false);
+
+    assert.equal(
+      await escrowFor(alice).getMilestoneRefund(projectId, alice.account.address),
+      parseEther("1.5")
+    );
+    assert.equal(
+      await escrowFor(bob).getMilestoneRefund(projectId, bob.account.address),
+      parseEther("0.5")
+    );
+  });
+});
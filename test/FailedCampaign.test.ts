@@ -0,0 +1,285 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { parseEther, parseUnits, PublicClient, TransactionReceipt, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { ContractError, ContractErrorCode, EscrowClient } from "../sdk/index.js";
+
+const DAY = 24n * 60n * 60n;
+
+describe("Failed campaign refunds", async function () {
+  const { ignition, viem, networkHelpers } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, creator, alice, bob, stranger] = await viem.getWalletClients();
+
+  const { escrow, mockERC20 } = await ignition.deploy(CrowdfundingDevModule);
+
+  const escrowFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  const rejectsWith = (promise: Promise<unknown>, code: ContractErrorCode) =>
+    assert.rejects(
+      promise,
+      (error: unknown) => error instanceof ContractError && error.code === code
+    );
+
+  const gasCost = (receipt: TransactionReceipt) =>
+    receipt.gasUsed * receipt.effectiveGasPrice;
+
+  it("refunds every ETH investor in full once anyone marks the project failed", async function () {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Solar",
+      description: "Rooftop panels",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    await escrowFor(alice).deposit(projectId, parseEther("3"));
+    await escrowFor(bob).deposit(projectId, parseEther("1"));
+
+    await rejectsWith(escrowFor(stranger).markProjectFailed(projectId), "FUNDING_STILL_OPEN");
+    await rejectsWith(escrowFor(alice).claimRefund(projectId), "PROJECT_NOT_FAILED");
+    assert.equal(await escrowFor(alice).getRefundAmount(projectId, alice.account.address), 0n);
+
+    await networkHelpers.time.increaseTo(deadline);
+    await rejectsWith(escrowFor(bob).deposit(projectId, parseEther("6")), "PROJECT_DEADLINE_PASSED");
+
+    await escrowFor(stranger).markProjectFailed(projectId);
+    assert.equal((await escrowFor(stranger).getProject(projectId)).status, "Failed");
+    await rejectsWith(escrowFor(stranger).markProjectFailed(projectId), "PROJECT_NOT_ACTIVE");
+    assert.equal(
+      await escrowFor(alice).getRefundAmount(projectId, alice.account.address),
+      parseEther("3")
+    );
+
+    const before = await publicClient.getBalance({ address: alice.account.address });
+    const receipt = await escrowFor(alice).claimRefund(projectId);
+    assert.equal(
+      await publicClient.getBalance({ address: alice.account.address }),
+      before + parseEther("3") - gasCost(receipt)
+    );
+    const investment = await escrowFor(alice).getUserInvestment(projectId, alice.account.address);
+    assert.equal(investment.refunded, true);
+    await rejectsWith(escrowFor(alice).claimRefund(projectId), "NOTHING_TO_WITHDRAW");
+    await rejectsWith(escrowFor(stranger).claimRefund(projectId), "NOTHING_TO_WITHDRAW");
+
+    await escrowFor(bob).claimRefund(projectId);
+    assert.equal(await escrow.read.totalLockedFunds([projectId]), 0n);
+  });
+
+  it("shares what is left of an ERC20 project after a released milestone", async function () {
+    await mockERC20.write.mint([alice.account.address, parseEther("100")]);
+    await mockERC20.write.mint([bob.account.address, parseEther("300")]);
+
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Bakery",
+      description: "New oven",
+      targetAmount: parseEther("500"),
+      deadline,
+      token: mockERC20.address,
+    });
+    const milestones = [];
+    for (const title of ["Oven", "Shop"]) {
+      const { milestoneId } = await escrowFor(creator).createMilestone({
+        projectId,
+        amount: parseEther("40"),
+        dueDate: deadline - DAY,
+        title,
+        description: title,
+        requiredApprovals: 1n,
+      });
+      milestones.push(milestoneId);
+    }
+    await escrowFor(alice).deposit(projectId, parseEther("100"));
+    await escrowFor(bob).deposit(projectId, parseEther("300"));
+
+    // The first milestone is paid out before the deadline; the second is
+    // still waiting for approval when the campaign fails
+    for (const milestoneId of milestones) {
+      await escrowFor(creator).submitMilestone(projectId, milestoneId, "ipfs://evidence");
+    }
+    await escrowFor(admin).approveMilestone(projectId, milestones[0]);
+
+    await networkHelpers.time.increaseTo(deadline + DAY);
+    await escrowFor(alice).markProjectFailed(projectId);
+    assert.equal(await escrow.read.totalLockedFunds([projectId]), parseEther("360"));
+    await rejectsWith(
+      escrowFor(admin).approveMilestone(projectId, milestones[1]),
+      "PROJECT_FAILED"
+    );
+
+    await escrowFor(alice).claimRefund(projectId);
+    await escrowFor(bob).claimRefund(projectId);
+    assert.equal(await mockERC20.read.balanceOf([alice.account.address]), parseEther("90"));
+    assert.equal(await mockERC20.read.balanceOf([bob.account.address]), parseEther("270"));
+    assert.equal(await escrow.read.totalLockedFunds([projectId]), 0n);
+  });
+
+  // Deposits made after a milestone refund that do not divide it evenly
+  async function failAfterUnevenDeposits(
+    token: `0x${string}` | undefined,
+    unit: (value: string) => bigint
+  ): Promise<bigint> {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Kiln",
+      description: "Pottery studio",
+      targetAmount: unit("10"),
+      deadline,
+      token,
+    });
+    const { milestoneId } = await escrowFor(creator).createMilestone({
+      projectId,
+      amount: unit("1"),
+      dueDate: deadline - DAY,
+      title: "Kiln",
+      description: "Buy the kiln",
+      requiredApprovals: 1n,
+    });
+    await escrowFor(alice).deposit(projectId, unit("3"));
+    await escrowFor(alice).raiseDispute(projectId, milestoneId, "No kiln");
+    await escrowFor(admin).resolveDispute(projectId, milestoneId, false);
+
+    await escrowFor(bob).deposit(projectId, unit("1") + 1n);
+    await escrowFor(stranger).deposit(projectId, unit("0.333333"));
+    await networkHelpers.time.increaseTo(deadline);
+    await escrowFor(stranger).markProjectFailed(projectId);
+    return projectId;
+  }
+
+  it("refunds deposits that do not divide a milestone refund evenly", async function () {
+    const projectId = await failAfterUnevenDeposits(undefined, (value) => parseEther(value));
+
+    for (const investor of [bob, stranger]) {
+      assert.equal(
+        await escrowFor(investor).getMilestoneRefund(projectId, investor.account.address),
+        0n
+      );
+    }
+    // The 1 ETH refunded milestone is all Alice's; later deposits come back whole
+    assert.equal(
+      await escrowFor(bob).getRefundAmount(projectId, bob.account.address),
+      parseEther("1") + 1n
+    );
+    // Alice's refund and milestone share are rounded down by a few wei at most
+    const aliceRefund = await escrowFor(alice).getRefundAmount(projectId, alice.account.address);
+    assert.ok(aliceRefund <= parseEther("3") && aliceRefund > parseEther("3") - 10n);
+    for (const investor of [alice, bob, stranger]) {
+      await escrowFor(investor).claimRefund(projectId);
+    }
+    assert.equal(
+      await escrowFor(alice).getMilestoneRefund(projectId, alice.account.address),
+      0n
+    );
+  });
+
+  it("refunds uneven 6-decimal token deposits without overdrawing the escrow", async function () {
+    const unit = (value: string) => parseUnits(value, 6);
+    for (const investor of [alice, bob, stranger]) {
+      await mockERC20.write.mint([investor.account.address, unit("10")]);
+    }
+    const balanceOf = (account: `0x${string}`) => mockERC20.read.balanceOf([account]);
+    const before = await balanceOf(escrow.address);
+    const bobBefore = await balanceOf(bob.account.address);
+    const projectId = await failAfterUnevenDeposits(mockERC20.address, unit);
+
+    for (const investor of [alice, bob, stranger]) {
+      await escrowFor(investor).claimRefund(projectId);
+    }
+    assert.equal(await balanceOf(bob.account.address), bobBefore);
+    assert.ok((await balanceOf(escrow.address)) >= before);
+  });
+
+  it("pays emergency withdrawals from what is still locked", async function () {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Mill",
+      description: "Grain mill",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    for (const title of ["Stones", "Roof"]) {
+      await escrowFor(creator).createMilestone({
+        projectId,
+        amount: parseEther("2"),
+        dueDate: deadline - DAY,
+        title,
+        description: title,
+        requiredApprovals: 1n,
+      });
+    }
+    await escrowFor(alice).deposit(projectId, parseEther("4"));
+    await escrowFor(bob).deposit(projectId, parseEther("4"));
+    await escrowFor(creator).submitMilestone(projectId, 0n, "ipfs://evidence");
+    await escrowFor(admin).approveMilestone(projectId, 0n);
+    await escrowFor(alice).raiseDispute(projectId, 1n, "No roof");
+    await escrowFor(admin).resolveDispute(projectId, 1n, false);
+    await escrowFor(alice).claimMilestoneRefund(projectId);
+
+    await escrow.write.triggerEmergencyWithdraw([projectId]);
+    await assert.rejects(
+      escrow.write.triggerEmergencyWithdraw([projectId]),
+      /Emergency withdrawal already enabled/
+    );
+    // Each lost 1 ETH to the release and had 1 ETH refunded; Bob has not claimed his
+    assert.equal(
+      await escrowFor(alice).getRefundAmount(projectId, alice.account.address),
+      parseEther("2")
+    );
+    assert.equal(
+      await escrowFor(bob).getRefundAmount(projectId, bob.account.address),
+      parseEther("3")
+    );
+    await escrow.write.emergencyWithdraw([projectId], { account: alice.account });
+    await escrow.write.emergencyWithdraw([projectId], { account: bob.account });
+    assert.equal(await escrow.read.totalLockedFunds([projectId]), 0n);
+    await assert.rejects(
+      escrow.write.emergencyWithdraw([projectId], { account: bob.account }),
+      /Nothing to withdraw/
+    );
+
+    // The creator's released funds were left alone
+    await escrowFor(creator).withdraw();
+  });
+
+  it("keeps emergency withdrawal off failed projects", async function () {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Boat",
+      description: "Fishing boat",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    await escrowFor(alice).deposit(projectId, parseEther("1"));
+    await networkHelpers.time.increaseTo(deadline);
+    await escrowFor(stranger).markProjectFailed(projectId);
+
+    await assert.rejects(escrow.write.triggerEmergencyWithdraw([projectId]), /Project failed/);
+    await escrowFor(alice).claimRefund(projectId);
+  });
+
+  it("cannot fail a project that reached its target", async function () {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Garden",
+      description: "Community garden",
+      targetAmount: parseEther("2"),
+      deadline,
+    });
+    await escrowFor(alice).deposit(projectId, parseEther("2"));
+    await networkHelpers.time.increaseTo(deadline);
+
+    await rejectsWith(escrowFor(stranger).markProjectFailed(projectId), "PROJECT_NOT_ACTIVE");
+    await rejectsWith(escrowFor(alice).claimRefund(projectId), "PROJECT_NOT_FAILED");
+  });
+});
@@ -0,0 +1,416 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, PublicClient, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import {
+  EscrowClient,
+  rulingForCreatorShare,
+  VotingClient,
+  ZERO_ADDRESS,
+} from "../sdk/index.js";
+import { IndexerDatabase } from "../services/indexer/database.js";
+import { Indexer } from "../services/indexer/indexer.js";
+
+const DAY = 24n * 60n * 60n;
+
+describe("Event indexer", async function () {
+  const { ignition, networkHelpers, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, creator, investor, buyer] = await viem.getWalletClients();
+
+  const { escrow, investmentNFT, mockERC20, voting, dealRoom, mockArbitrator } =
+    await ignition.deploy(CrowdfundingDevModule);
+  const contracts = {
+    escrow: escrow.address,
+    investmentNFT: investmentNFT.address,
+    voting: voting.address,
+    dealRoom: dealRoom.address,
+  };
+
+  const escrowFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+  const creatorEscrow = escrowFor(creator);
+  const investorEscrow = escrowFor(investor);
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+  const databases: IndexerDatabase[] = [];
+  after(() => {
+    for (const database of databases) database.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function openDatabase(name: string): IndexerDatabase {
+    const database = new IndexerDatabase(path.join(dataDir, `${name}.sqlite`));
+    databases.push(database);
+    return database;
+  }
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  async function createProject(): Promise<bigint> {
+    const { projectId } = await creatorEscrow.createProject({
+      title: "Solar",
+      description: "Rooftop panels",
+      targetAmount: parseEther("10"),
+      deadline: (await now()) + 30n * DAY,
+    });
+    return projectId;
+  }
+
+  it("indexes activity across all four contracts into normalized tables", async function () {
+    const projectId = await createProject();
+    const { milestoneId } = await creatorEscrow.createMilestone({
+      projectId,
+      amount: parseEther("1"),
+      dueDate: (await now()) + 14n * DAY,
+      title: "Install",
+      description: "First roof",
+      requiredApprovals: 1n,
+    });
+    await investorEscrow.deposit(projectId, parseEther("2"));
+    await escrowFor(buyer).deposit(projectId, parseEther("3"));
+    await creatorEscrow.submitMilestone(projectId, milestoneId, "ipfs://evidence");
+    await investorEscrow.approveMilestone(projectId, milestoneId);
+    await creatorEscrow.withdraw();
+
+    // Fully funded and its only milestone released: the rest goes back
+    const { projectId: bakery } = await creatorEscrow.createProject({
+      title: "Bakery",
+      description: "New oven",
+      targetAmount: parseEther("2"),
+      deadline: (await now()) + 30n * DAY,
+    });
+    await creatorEscrow.createMilestone({
+      projectId: bakery,
+      amount: parseEther("1.5"),
+      dueDate: (await now()) + 14n * DAY,
+      title: "Oven",
+      description: "Delivered",
+      requiredApprovals: 1n,
+    });
+    await investorEscrow.deposit(bakery, parseEther("2"));
+    await creatorEscrow.submitMilestone(bakery, 0n, "ipfs://oven");
+    await investorEscrow.approveMilestone(bakery, 0n);
+
+    await investmentNFT.write.createProjectNFT([
+      1n,
+      creator.account.address,
+      parseEther("1000"),
+      ZERO_ADDRESS,
+    ]);
+    await investmentNFT.write.mintInvestmentTokens([
+      1n,
+      investor.account.address,
+      parseEther("100"),
+    ]);
+    await investmentNFT.write.mintInvestmentTokens([
+      1n,
+      admin.account.address,
+      parseEther("10"),
+    ]);
+    await investmentNFT.write.burnInvestmentTokens([1n, admin.account.address, 10_000n]);
+    await networkHelpers.time.increase(181 * 24 * 60 * 60);
+    const listingId = await investmentNFT.read.listingCounter();
+    const expiry = (await now()) + 30n * DAY;
+    await investmentNFT.write.createListing(
+      [1n, 1_000n, parseEther("0.01"), ZERO_ADDRESS, expiry, true, 1n],
+      { account: investor.account }
+    );
+    await investmentNFT.write.purchase([listingId, 400n], {
+      account: buyer.account,
+      value: parseEther("4"),
+    });
+    await investmentNFT.write.safeTransferFrom(
+      [investor.account.address, creator.account.address, 1n, 50n, "0x"],
+      { account: investor.account }
+    );
+    // Redeeming at the 0.001 ETH token value the NFT contract pays out
+    await investmentNFT.write.updateStatus([1n, 1]);
+    await admin.sendTransaction({ to: investmentNFT.address, value: parseEther("1") });
+    await investmentNFT.write.redeemTokens([1n, 100n], { account: investor.account });
+
+    await voting.write.grantRole([
+      await voting.read.PROPOSER_ROLE(),
+      admin.account.address,
+    ]);
+    await mockERC20.write.transfer([investor.account.address, parseEther("100")]);
+    const { proposalId } = await new VotingClient(voting.address, {
+      publicClient,
+      walletClient: admin as unknown as WalletClient,
+    }).propose({
+      description: "Fund the solar project",
+      targetAmount: parseEther("100"),
+      votingDuration: 3n * DAY,
+    });
+    await new VotingClient(voting.address, {
+      publicClient,
+      walletClient: investor as unknown as WalletClient,
+    }).vote(proposalId, "Yes", parseEther("10"));
+
+    await dealRoom.write.createDealRoom(
+      [projectId, "Series A", "Data room", (await now()) + 30n * DAY, false, 1n],
+      { account: creator.account }
+    );
+    await dealRoom.write.grantAccess([0n, investor.account.address], {
+      account: creator.account,
+    });
+    await dealRoom.write.addDocument([0n, "0xabc"], { account: creator.account });
+
+    const database = openDatabase("full");
+    const result = await new Indexer({
+      publicClient,
+      database,
+      contracts,
+      confirmations: 0,
+    }).sync();
+    assert.equal(result.checkpoint, Number(await publicClient.getBlockNumber()));
+    assert.equal(result.reorgedFrom, undefined);
+
+    const project = database.get(
+      "SELECT * FROM projects WHERE project_id = ?",
+      projectId.toString()
+    );
+    assert.equal(project?.title, "Solar");
+    assert.equal(project?.raised_amount, parseEther("5").toString());
+    assert.equal(project?.status, "Active");
+    assert.equal(project?.token, null);
+    assert.equal(project?.leftover_returned, null);
+    assert.equal(
+      database.get(
+        "SELECT leftover_returned FROM projects WHERE project_id = ?",
+        bakery.toString()
+      )?.leftover_returned,
+      parseEther("0.5").toString()
+    );
+    assert.deepEqual(
+      database
+        .all(
+          "SELECT investor, amount FROM deposits WHERE project_id = ? ORDER BY block_number",
+          projectId.toString()
+        )
+        .map((row) => [row.investor, row.amount]),
+      [
+        [getAddress(investor.account.address), parseEther("2").toString()],
+        [getAddress(buyer.account.address), parseEther("3").toString()],
+      ]
+    );
+    const milestone = database.get(
+      "SELECT * FROM milestones WHERE project_id = ?",
+      projectId.toString()
+    );
+    assert.equal(milestone?.status, "Released");
+    const fee = (parseEther("1") * (await escrow.read.platformFeePercentage())) / 10_000n;
+    const withdrawal = database.get("SELECT * FROM withdrawals");
+    assert.equal(withdrawal?.account, getAddress(creator.account.address));
+    assert.equal(withdrawal?.token, null);
+    assert.equal(withdrawal?.amount, (parseEther("1") - fee).toString());
+    assert.equal(milestone?.evidence_uri, "ipfs://evidence");
+    assert.equal(milestone?.approvals, 1);
+
+    const tokenProject = database.get("SELECT * FROM token_projects WHERE project_id = '1'");
+    assert.equal(tokenProject?.minted, "110000");
+    assert.equal(tokenProject?.burned, "10000");
+    assert.equal(
+      database.get("SELECT investor FROM token_burns")?.investor,
+      getAddress(admin.account.address)
+    );
+    assert.equal(tokenProject?.redeemed, "100");
+    const balances = Object.fromEntries(
+      database
+        .all("SELECT account, balance FROM token_balances WHERE project_id = '1'")
+        .map((row) => [row.account, row.balance])
+    );
+    assert.deepEqual(balances, {
+      [getAddress(admin.account.address)]: "0",
+      [getAddress(investor.account.address)]: "98850",
+      [getAddress(investmentNFT.address)]: "600",
+      [getAddress(buyer.account.address)]: "400",
+      [getAddress(creator.account.address)]: "50",
+    });
+    const transfer = database.get(
+      "SELECT * FROM token_transfers WHERE project_id = '1' AND to_address = ?",
+      getAddress(creator.account.address)
+    );
+    assert.equal(transfer?.from_address, getAddress(investor.account.address));
+    assert.equal(transfer?.amount, "50");
+    const listing = database.get(
+      "SELECT * FROM listings WHERE listing_id = ?",
+      listingId.toString()
+    );
+    assert.equal(listing?.seller, getAddress(investor.account.address));
+    assert.equal(listing?.remaining, "600");
+    assert.equal(listing?.price_per_token, parseEther("0.01").toString());
+    assert.equal(database.all("SELECT * FROM listing_purchases").length, 1);
+
+    const proposal = database.get("SELECT * FROM proposals");
+    assert.equal(proposal?.status, "Active");
+    assert.equal(proposal?.yes_votes, parseEther("10").toString());
+    assert.equal(database.get("SELECT choice FROM votes")?.choice, "Yes");
+
+    assert.equal(database.get("SELECT title FROM deal_rooms")?.title, "Series A");
+    assert.equal(database.get("SELECT status FROM deal_room_access")?.status, "Granted");
+    assert.equal(
+      database.get("SELECT document_hash FROM deal_room_documents")?.document_hash,
+      "0xabc"
+    );
+  });
+
+  it("waits for confirmations and resumes from its checkpoint", async function () {
+    const projectId = await createProject();
+    await investorEscrow.deposit(projectId, parseEther("1"));
+    const depositBlock = Number(await publicClient.getBlockNumber());
+
+    const database = openDatabase("confirmations");
+    const indexerFor = (db: IndexerDatabase) =>
+      new Indexer({ publicClient, database: db, contracts, confirmations: 3 });
+    const countDeposits = (db: IndexerDatabase) =>
+      Number(
+        db.get(
+          "SELECT COUNT(*) AS n FROM deposits WHERE project_id = ?",
+          projectId.toString()
+        )?.n
+      );
+
+    let result = await indexerFor(database).sync();
+    assert.equal(result.checkpoint, depositBlock - 3);
+    assert.equal(countDeposits(database), 0);
+
+    await networkHelpers.mine(3);
+    result = await indexerFor(database).sync();
+    assert.equal(result.checkpoint, depositBlock);
+    assert.equal(countDeposits(database), 1);
+
+    // A fresh process on the same file picks up from the checkpoint
+    database.close();
+    databases.splice(databases.indexOf(database), 1);
+    const reopened = openDatabase("confirmations");
+    result = await indexerFor(reopened).sync();
+    assert.equal(result.events, 0);
+    assert.equal(result.checkpoint, depositBlock);
+    assert.equal(countDeposits(reopened), 1);
+
+    assert.throws(
+      () =>
+        new Indexer({
+          publicClient,
+          database: reopened,
+          contracts: { ...contracts, escrow: investmentNFT.address },
+        }),
+      /indexed for other contracts/
+    );
+  });
+
+  it("rewinds and re-indexes blocks dropped by a reorg", async function () {
+    const projectId = await createProject();
+    const database = openDatabase("reorg");
+    const raisedAmount = () =>
+      database.get(
+        "SELECT raised_amount FROM projects WHERE project_id = ?",
+        projectId.toString()
+      )?.raised_amount;
+    const indexer = new Indexer({ publicClient, database, contracts, confirmations: 0 });
+    await indexer.sync();
+
+    const snapshot = await networkHelpers.takeSnapshot();
+    await investorEscrow.deposit(projectId, parseEther("1"));
+    await networkHelpers.mine(2);
+    await indexer.sync();
+    assert.equal(
+      raisedAmount(),
+      parseEther("1").toString()
+    );
+
+    // Replace the deposit's blocks with a different history
+    await snapshot.restore();
+    await escrowFor(buyer).deposit(projectId, parseEther("4"));
+    await networkHelpers.mine(3);
+
+    const result = await indexer.sync();
+    assert.ok(result.reorgedFrom !== undefined);
+    const deposits = database.all(
+      "SELECT investor, amount FROM deposits WHERE project_id = ?",
+      projectId.toString()
+    );
+    assert.deepEqual(
+      deposits.map((row) => [row.investor, row.amount]),
+      [[getAddress(buyer.account.address), parseEther("4").toString()]]
+    );
+    assert.equal(
+      raisedAmount(),
+      parseEther("4").toString()
+    );
+    assert.equal(result.checkpoint, Number(await publicClient.getBlockNumber()));
+  });
+
+  it("indexes arbitrated disputes with their meta-evidence and evidence", async function () {
+    await escrow.write.setArbitrator([mockArbitrator.address, "0x01", "ipfs://meta-evidence"]);
+    const projectId = await createProject();
+    const { milestoneId } = await creatorEscrow.createMilestone({
+      projectId,
+      amount: parseEther("1"),
+      dueDate: (await now()) + 14n * DAY,
+      title: "Install",
+      description: "First roof",
+      requiredApprovals: 1n,
+    });
+    await investorEscrow.deposit(projectId, parseEther("2"));
+    await investorEscrow.raiseDispute(projectId, milestoneId, "ipfs://no-panels");
+    await creatorEscrow.submitEvidence(projectId, milestoneId, "ipfs://installed");
+    const { disputeId } = (await investorEscrow.getArbitration(projectId, milestoneId))!;
+    await mockArbitrator.write.giveRuling([disputeId, rulingForCreatorShare(6000n)]);
+
+    const database = openDatabase("arbitration");
+    await new Indexer({ publicClient, database, contracts, confirmations: 0 }).sync();
+
+    const change = database.get("SELECT * FROM arbitrator_changes");
+    assert.equal(change?.arbitrator, getAddress(mockArbitrator.address));
+    assert.equal(change?.extra_data, "0x01");
+    assert.equal(database.get("SELECT uri FROM meta_evidence")?.uri, "ipfs://meta-evidence");
+
+    const dispute = database.get(
+      `SELECT d.*, a.dispute_id, a.arbitrator FROM disputes d
+       JOIN arbitrations a ON a.evidence_group_id = d.evidence_group_id
+       WHERE d.project_id = ?`,
+      projectId.toString()
+    );
+    assert.equal(dispute?.dispute_id, disputeId.toString());
+    assert.equal(dispute?.arbitrator, getAddress(mockArbitrator.address));
+    assert.equal(dispute?.creator_share, 6000);
+    assert.equal(dispute?.released_to_creator, 1);
+    assert.deepEqual(
+      database
+        .all(
+          "SELECT party, evidence FROM evidence WHERE evidence_group_id = ? ORDER BY block_number",
+          dispute?.evidence_group_id
+        )
+        .map((row) => [row.party, row.evidence]),
+      [
+        [getAddress(investor.account.address), "ipfs://no-panels"],
+        [getAddress(creator.account.address), "ipfs://installed"],
+      ]
+    );
+  });
+
+  it("re-indexes databases written by another index version", async function () {
+    const database = openDatabase("outdated");
+    database.setMeta("indexVersion", "1");
+    database.setCheckpoint(1, "0x01", 1);
+    database.close();
+    databases.splice(databases.indexOf(database), 1);
+
+    const reopened = openDatabase("outdated");
+    assert.equal(reopened.checkpoint(), undefined);
+    assert.equal(reopened.getMeta("indexVersion"), "3");
+  });
+});
@@ -0,0 +1,286 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ethers as Ethers } from "ethers";
+import { network } from "hardhat";
+import { getAddress, parseEther, PublicClient, WalletClient, zeroAddress } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { applyWiringPlan, loadWiringPlan } from "../scripts/lib/wiring.js";
+import { ContractError, EscrowClient, MarketplaceClient } from "../sdk/index.js";
+
+const DAY = 24n * 60n * 60n;
+
+describe("Invest → mint → milestone → release", async function () {
+  const { ignition, networkHelpers, provider, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [deployer, creator, alice, bob] = await viem.getWalletClients();
+
+  const { mockERC20, escrow, investmentNFT, voting, dealRoom } =
+    await ignition.deploy(CrowdfundingDevModule);
+
+  const escrowFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+  const marketplace = new MarketplaceClient(investmentNFT.address, { publicClient });
+  const marketplaceFor = (walletClient: unknown) =>
+    new MarketplaceClient(investmentNFT.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  // Created before Escrow knows the InvestmentNFT, so it is never tokenized
+  const legacy = await escrowFor(creator).createProject({
+    title: "Legacy",
+    description: "Before wiring",
+    targetAmount: parseEther("5"),
+    deadline: (await now()) + 30n * DAY,
+  });
+
+  const signer = await new Ethers.BrowserProvider(provider).getSigner(
+    deployer.account.address
+  );
+  await applyWiringPlan(
+    loadWiringPlan("hardhat"),
+    {
+      mockERC20: mockERC20.address,
+      escrow: escrow.address,
+      investmentNFT: investmentNFT.address,
+      voting: voting.address,
+      dealRoom: dealRoom.address,
+    },
+    signer,
+    () => {}
+  );
+
+  it("registers projects and mints stakes proportional to each deposit", async function () {
+    assert.equal(
+      getAddress(await escrow.read.investmentNFT()),
+      getAddress(investmentNFT.address)
+    );
+
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Solar",
+      description: "Rooftop panels",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    const { milestoneId } = await escrowFor(creator).createMilestone({
+      projectId,
+      amount: parseEther("4"),
+      dueDate: deadline - DAY,
+      title: "Install",
+      description: "First roof",
+      requiredApprovals: 1n,
+    });
+
+    const tokenProject = await marketplace.getTokenProject(projectId);
+    assert.equal(getAddress(tokenProject.creator), getAddress(creator.account.address));
+    assert.equal(tokenProject.targetAmount, parseEther("10"));
+    assert.equal(tokenProject.paymentToken, undefined);
+    assert.equal(tokenProject.status, "Active");
+    const [title, description] = await investmentNFT.read.metadata([projectId]);
+    assert.equal(title, "Solar");
+    assert.equal(description, "Rooftop panels");
+
+    await escrowFor(alice).deposit(projectId, parseEther("4"));
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 400_000n);
+    const investment = await marketplace.getInvestment(projectId, alice.account.address);
+    assert.equal(investment.originalAmount, parseEther("4"));
+    assert.equal(investment.averageBuyPrice, tokenProject.initialTokenValue);
+
+    // Bob overshoots the target by 1 ETH: the supply caps his stake at 6 ETH
+    await escrowFor(bob).deposit(projectId, parseEther("7"));
+    assert.equal(await marketplace.balanceOf(bob.account.address, projectId), 600_000n);
+    assert.equal(await investmentNFT.read.totalSupply([projectId]), 1_000_000n);
+    assert.equal((await escrowFor(bob).getProject(projectId)).status, "Completed");
+    assert.equal(
+      (await escrowFor(bob).getUserInvestment(projectId, bob.account.address)).amount,
+      parseEther("7")
+    );
+
+    await escrowFor(creator).submitMilestone(projectId, milestoneId, "ipfs://evidence");
+    await escrowFor(deployer).approveMilestone(projectId, milestoneId);
+
+    const milestone = await escrowFor(creator).getMilestone(projectId, milestoneId);
+    assert.equal(milestone.status, "Released");
+    const fee = (parseEther("4") * (await escrow.read.platformFeePercentage())) / 10_000n;
+    assert.equal(
+      await escrowFor(creator).claimableBalance(creator.account.address),
+      parseEther("4") - fee
+    );
+    const balanceBefore = await publicClient.getBalance({
+      address: creator.account.address,
+    });
+    const receipt = await escrowFor(creator).withdraw();
+    assert.equal(
+      await publicClient.getBalance({ address: creator.account.address }),
+      balanceBefore + parseEther("4") - fee - receipt.gasUsed * receipt.effectiveGasPrice
+    );
+    assert.equal(await escrowFor(creator).claimableBalance(creator.account.address), 0n);
+    // Released funds leave the stakes untouched
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 400_000n);
+  });
+
+  it("values ERC20 projects in their token", async function () {
+    await mockERC20.write.mint([alice.account.address, parseEther("100")]);
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Bakery",
+      description: "New oven",
+      targetAmount: parseEther("500"),
+      deadline: (await now()) + 30n * DAY,
+      token: mockERC20.address,
+    });
+    await escrowFor(alice).deposit(projectId, parseEther("50"));
+
+    const tokenProject = await marketplace.getTokenProject(projectId);
+    assert.equal(getAddress(tokenProject.paymentToken!), getAddress(mockERC20.address));
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 100_000n);
+  });
+
+  it("leaves projects created before the wiring untokenized", async function () {
+    await escrowFor(alice).deposit(legacy.projectId, parseEther("1"));
+    assert.equal(await escrow.read.projectNFT([legacy.projectId]), zeroAddress);
+    assert.equal(await marketplace.balanceOf(alice.account.address, legacy.projectId), 0n);
+  });
+
+  it("leaves targets too small to split into the fixed token supply untokenized", async function () {
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Tiny",
+      description: "Too small",
+      targetAmount: 999_999n,
+      deadline: (await now()) + 30n * DAY,
+    });
+    assert.equal(await escrow.read.projectNFT([projectId]), zeroAddress);
+
+    await escrowFor(alice).deposit(projectId, 1_000n);
+    assert.equal(
+      (await escrowFor(alice).getUserInvestment(projectId, alice.account.address)).amount,
+      1_000n
+    );
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 0n);
+  });
+
+  it("accepts deposits too small to earn a token", async function () {
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Garden",
+      description: "Raised beds",
+      targetAmount: parseEther("10"),
+      deadline: (await now()) + 30n * DAY,
+    });
+    // 10 ETH over a million tokens is 10^13 wei a token
+    await escrowFor(alice).deposit(projectId, 10n ** 13n - 1n);
+    assert.equal(
+      (await escrowFor(alice).getUserInvestment(projectId, alice.account.address)).amount,
+      10n ** 13n - 1n
+    );
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 0n);
+
+    await escrowFor(alice).deposit(projectId, 10n ** 13n);
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 1n);
+  });
+
+  it("takes deposits while the InvestmentNFT is paused, without minting", async function () {
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Orchard",
+      description: "Apple trees",
+      targetAmount: parseEther("10"),
+      deadline: (await now()) + 30n * DAY,
+    });
+    await investmentNFT.write.pause();
+    try {
+      await escrowFor(alice).deposit(projectId, parseEther("1"));
+    } finally {
+      await investmentNFT.write.unpause();
+    }
+    assert.equal((await escrowFor(alice).getProject(projectId)).raisedAmount, parseEther("1"));
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 0n);
+
+    await escrowFor(alice).deposit(projectId, parseEther("1"));
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 100_000n);
+  });
+
+  it("burns the stakes of refunded investors, including listed tokens", async function () {
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Brewery",
+      description: "Copper kettles",
+      targetAmount: parseEther("10"),
+      deadline: (await now()) + 30n * DAY,
+    });
+    await escrowFor(alice).deposit(projectId, parseEther("4"));
+    await escrowFor(bob).deposit(projectId, parseEther("2"));
+
+    // Past both the deadline and the token lockup
+    await networkHelpers.time.increase(181n * DAY);
+    await escrowFor(deployer).markProjectFailed(projectId);
+    const { listingId } = await marketplaceFor(bob).createListing({
+      projectId,
+      amount: 50_000n,
+      pricePerToken: 1n,
+      expiryDate: (await now()) + DAY,
+      partialFill: true,
+    });
+
+    await escrowFor(alice).claimRefund(projectId);
+    await escrowFor(bob).claimRefund(projectId);
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 0n);
+    assert.equal(await marketplace.balanceOf(bob.account.address, projectId), 0n);
+    assert.equal(
+      (await marketplace.getInvestment(projectId, alice.account.address)).tokens,
+      0n
+    );
+
+    const check = await marketplace.checkPurchase(listingId, 50_000n, alice.account.address);
+    assert.deepEqual(check.reasons, ["Seller refunded"]);
+    await assert.rejects(
+      investmentNFT.write.purchase([listingId, 50_000n], {
+        account: alice.account,
+        value: 50_000n,
+      }),
+      /Seller refunded/
+    );
+
+    await marketplaceFor(bob).cancelListing(listingId);
+    assert.equal(await investmentNFT.read.totalSupply([projectId]), 0n);
+  });
+
+  it("refunds only the deposits whose stake the investor hands back", async function () {
+    const deadline = (await now()) + 30n * DAY;
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Cidery",
+      description: "Fruit press",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    await escrowFor(alice).deposit(projectId, parseEther("4"));
+    await escrowFor(bob).deposit(projectId, parseEther("2"));
+    // Alice passes a quarter of her stake on before the project fails
+    await investmentNFT.write.safeTransferFrom(
+      [alice.account.address, bob.account.address, projectId, 100_000n, "0x"],
+      { account: alice.account }
+    );
+
+    await networkHelpers.time.increaseTo(deadline);
+    await escrowFor(deployer).markProjectFailed(projectId);
+    assert.equal(
+      await escrowFor(alice).getRefundAmount(projectId, alice.account.address),
+      parseEther("3")
+    );
+
+    await escrowFor(alice).claimRefund(projectId);
+    await escrowFor(bob).claimRefund(projectId);
+    assert.equal(await marketplace.balanceOf(alice.account.address, projectId), 0n);
+    // Bob's refund burns the 200,000 tokens his deposit minted; the ones he
+    // received stay his, backed by the quarter of Alice's deposit left locked
+    assert.equal(await marketplace.balanceOf(bob.account.address, projectId), 100_000n);
+    assert.equal(await escrow.read.totalLockedFunds([projectId]), parseEther("1"));
+    await assert.rejects(escrowFor(alice).claimRefund(projectId), /Nothing to withdraw/);
+  });
+});
@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, PublicClient, WalletClient } from "viem";
+
+import { MarketplaceClient } from "../sdk/index.js";
+
+const DAY = 24 * 60 * 60;
+const PROJECT_ID = 1n;
+
+describe("MarketplaceClient", async function () {
+  const { networkHelpers, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, seller, buyer, feeRecipient] = await viem.getWalletClients();
+
+  const paymentToken = await viem.deployContract("MockERC20", [
+    "Stable",
+    "USDx",
+    0n,
+  ]);
+  const nft = await viem.deployContract("InvestmentNFT", [
+    "ipfs://base/",
+    feeRecipient.account.address,
+    admin.account.address,
+  ]);
+  // 1,000 ETH target: 100 ETH buys 100,000 of the fixed 1,000,000 tokens
+  await nft.write.createProjectNFT([
+    PROJECT_ID,
+    seller.account.address,
+    parseEther("1000"),
+    "0x0000000000000000000000000000000000000000",
+  ]);
+  await nft.write.mintInvestmentTokens([
+    PROJECT_ID,
+    seller.account.address,
+    parseEther("100"),
+  ]);
+  await paymentToken.write.mint([buyer.account.address, parseEther("1000")]);
+
+  const clientFor = (walletClient: unknown) =>
+    new MarketplaceClient(nft.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+  const sellerClient = clientFor(seller);
+  const buyerClient = clientFor(buyer);
+
+  async function expiry(days: number): Promise<bigint> {
+    return BigInt((await networkHelpers.time.latest()) + days * DAY);
+  }
+
+  it("refuses to list tokens still in their lockup period", async function () {
+    const params = {
+      projectId: PROJECT_ID,
+      amount: 1_000n,
+      pricePerToken: parseEther("0.01"),
+      expiryDate: await expiry(30),
+      partialFill: true,
+    };
+    const check = await sellerClient.checkListing(params, seller.account.address);
+    assert.equal(check.eligible, false);
+    assert.match(check.reasons.join(), /Locked until/);
+    await assert.rejects(() => sellerClient.createListing(params), /Locked until/);
+
+    await networkHelpers.time.increaseTo(
+      await sellerClient.unlockTime(PROJECT_ID)
+    );
+    assert.deepEqual(
+      await sellerClient.checkListing(
+        { ...params, expiryDate: await expiry(30) },
+        seller.account.address
+      ),
+      { eligible: true, reasons: [] }
+    );
+  });
+
+  it("quotes and buys part of a native-currency listing", async function () {
+    const { listingId } = await sellerClient.createListing({
+      projectId: PROJECT_ID,
+      amount: 1_000n,
+      pricePerToken: parseEther("0.01"),
+      expiryDate: await expiry(30),
+      partialFill: true,
+      minPurchase: 100n,
+    });
+
+    const listing = await buyerClient.getListing(listingId);
+    assert.equal(getAddress(listing.seller), getAddress(seller.account.address));
+    assert.equal(listing.paymentToken, undefined);
+    assert.equal(listing.active, true);
+
+    const quote = await buyerClient.quotePurchase(listingId, 400n);
+    assert.equal(quote.total, parseEther("4"));
+    assert.equal(quote.fee, parseEther("0.1"));
+    assert.equal(quote.sellerProceeds, parseEther("3.9"));
+
+    const below = await buyerClient.checkPurchase(
+      listingId,
+      50n,
+      buyer.account.address
+    );
+    assert.match(below.reasons.join(), /Below minimum/);
+    const own = await buyerClient.checkPurchase(
+      listingId,
+      400n,
+      seller.account.address
+    );
+    assert.match(own.reasons.join(), /Cannot buy own/);
+
+    const sellerBefore = await publicClient.getBalance({
+      address: seller.account.address,
+    });
+    const { approval } = await buyerClient.purchase(listingId, 400n);
+    assert.equal(approval, undefined);
+
+    assert.equal(await buyerClient.balanceOf(buyer.account.address, PROJECT_ID), 400n);
+    assert.equal(
+      (await publicClient.getBalance({ address: seller.account.address })) -
+        sellerBefore,
+      quote.sellerProceeds
+    );
+    assert.equal((await buyerClient.getListing(listingId)).amount, 600n);
+  });
+
+  it("approves the payment token and enforces all-or-nothing listings", async function () {
+    const { listingId } = await sellerClient.createListing({
+      projectId: PROJECT_ID,
+      amount: 500n,
+      pricePerToken: parseEther("0.5"),
+      paymentToken: paymentToken.address,
+      expiryDate: await expiry(30),
+      partialFill: false,
+    });
+
+    await assert.rejects(
+      () => buyerClient.purchase(listingId, 100n),
+      /Listing must be bought in full/
+    );
+
+    const { quote, approval } = await buyerClient.purchase(listingId, 500n);
+    assert.ok(approval);
+    assert.equal(quote.total, parseEther("250"));
+    assert.equal(
+      await paymentToken.read.balanceOf([seller.account.address]),
+      quote.sellerProceeds
+    );
+    assert.equal(
+      await paymentToken.read.balanceOf([feeRecipient.account.address]),
+      quote.fee
+    );
+    assert.equal((await buyerClient.getListing(listingId)).active, false);
+  });
+
+  it("browses purchasable listings with filters", async function () {
+    const { listingId: expiring } = await sellerClient.createListing({
+      projectId: PROJECT_ID,
+      amount: 10n,
+      pricePerToken: 1n,
+      expiryDate: await expiry(1),
+      partialFill: true,
+    });
+    await networkHelpers.time.increase(2 * DAY);
+
+    const open = await buyerClient.browseListings();
+    assert.deepEqual(
+      open.map((listing) => listing.id),
+      [0n]
+    );
+    assert.equal(
+      (await buyerClient.browseListings({ paymentToken: paymentToken.address }))
+        .length,
+      0
+    );
+
+    const all = await buyerClient.browseListings({ includeInactive: true });
+    assert.deepEqual(
+      all.map((listing) => listing.id),
+      [expiring, 1n, 0n]
+    );
+
+    await sellerClient.cancelListing(0n);
+    assert.equal((await buyerClient.browseListings()).length, 0);
+  });
+});
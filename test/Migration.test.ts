@@ -0,0 +1,200 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ethers as Ethers } from "ethers";
+import { network } from "hardhat";
+import { getAddress, zeroAddress } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { ContractKey } from "../scripts/lib/artifacts.js";
+import {
+  DEPLOYMENT_SCHEMA_VERSION,
+  DeploymentRecord,
+} from "../scripts/lib/deployment.js";
+import {
+  addressMapping,
+  applyMigration,
+  diffConfig,
+  planMigration,
+  readConfigSnapshot,
+} from "../scripts/lib/migration.js";
+import { applyWiringPlan, loadWiringPlan } from "../scripts/lib/wiring.js";
+
+function recordOf(
+  addresses: Partial<Record<ContractKey, string>>,
+  deployer: string
+): DeploymentRecord {
+  const contracts: DeploymentRecord["contracts"] = {};
+  for (const [key, address] of Object.entries(addresses)) {
+    contracts[key as ContractKey] = {
+      contractName: key,
+      address,
+      transactionHash: null,
+      blockNumber: 0,
+      constructorArgs: null,
+      compiler: null,
+      bytecodeHash: null,
+    };
+  }
+  return {
+    schemaVersion: DEPLOYMENT_SCHEMA_VERSION,
+    network: "hardhat",
+    chainId: 31337,
+    deployer,
+    timestamp: Date.now(),
+    gitCommit: null,
+    contracts,
+  };
+}
+
+describe("Configuration migration", async function () {
+  const { ignition, provider, viem } = await network.connect();
+  const [deployer, treasury, validator] = await viem.getWalletClients();
+  const ethersProvider = new Ethers.BrowserProvider(provider, undefined, {
+    cacheTimeout: -1,
+  });
+  const signer = await ethersProvider.getSigner(deployer.account.address);
+
+  // Old deployment, wired and then reconfigured by hand
+  const { escrow, investmentNFT, voting, dealRoom } = await ignition.deploy(
+    CrowdfundingDevModule
+  );
+  const oldAddresses = {
+    escrow: escrow.address,
+    investmentNFT: investmentNFT.address,
+    voting: voting.address,
+    dealRoom: dealRoom.address,
+  };
+  await applyWiringPlan(
+    loadWiringPlan("hardhat"),
+    oldAddresses,
+    signer,
+    () => {}
+  );
+  await escrow.write.setPlatformFee([300n]);
+  await escrow.write.setFeeRecipient([treasury.account.address]);
+  await escrow.write.grantRole([
+    await escrow.read.VALIDATOR_ROLE(),
+    validator.account.address,
+  ]);
+  await investmentNFT.write.setMarketplaceFee([100n]);
+  await investmentNFT.write.setBaseURI(["ipfs://migrated/"]);
+  // Project 0 has its own metadata, so its uri says nothing about baseURI
+  await investmentNFT.write.createProjectNFT([
+    0n,
+    deployer.account.address,
+    1_000_000n,
+    zeroAddress,
+  ]);
+  await investmentNFT.write.updateMetadataURI([0n, "ipfs://project-0.json"]);
+  await voting.write.setDefaultQuorum([6000n]);
+
+  // Escrow and InvestmentNFT redeployed after a fix; Voting and DealRoom kept
+  const newEscrow = await viem.deployContract("Escrow", [
+    deployer.account.address,
+  ]);
+  const newNFT = await viem.deployContract("InvestmentNFT", [
+    "https://ipfs.io/ipfs/",
+    deployer.account.address,
+    newEscrow.address,
+  ]);
+
+  const from = recordOf(oldAddresses, deployer.account.address);
+  const to = recordOf(
+    {
+      ...oldAddresses,
+      escrow: newEscrow.address,
+      investmentNFT: newNFT.address,
+    },
+    deployer.account.address
+  );
+  const mapping = addressMapping(from, to);
+
+  it("maps each redeployed contract to its replacement", function () {
+    assert.deepEqual(
+      [...mapping],
+      [
+        [escrow.address.toLowerCase(), newEscrow.address.toLowerCase()],
+        [investmentNFT.address.toLowerCase(), newNFT.address.toLowerCase()],
+      ]
+    );
+  });
+
+  it("reads settings and role holders from the live contracts", async function () {
+    const snapshot = await readConfigSnapshot(from, ethersProvider);
+
+    assert.equal(snapshot["escrow.platformFeePercentage"], "300");
+    assert.equal(snapshot["investmentNFT.baseURI"], "ipfs://migrated/");
+    assert.equal(snapshot["voting.defaultQuorum"], "6000");
+    assert.deepEqual(
+      snapshot["investmentNFT.MINTER_ROLE"],
+      [deployer.account.address, escrow.address]
+        .map((a) => a.toLowerCase())
+        .sort()
+    );
+    assert.ok(
+      (snapshot["escrow.VALIDATOR_ROLE"] as string[]).includes(
+        validator.account.address.toLowerCase()
+      )
+    );
+  });
+
+  it("replays the old configuration and re-points cross-references", async function () {
+    const source = await readConfigSnapshot(from, ethersProvider);
+    const before = await readConfigSnapshot(to, ethersProvider);
+    const actions = planMigration(source, before, mapping);
+    await applyMigration(actions, to, signer, () => {});
+    const after = await readConfigSnapshot(to, ethersProvider);
+
+    assert.equal(await newEscrow.read.platformFeePercentage(), 300n);
+    assert.equal(
+      getAddress(await newEscrow.read.feeRecipient()),
+      getAddress(treasury.account.address)
+    );
+    assert.equal(await newNFT.read.marketplaceFee(), 100n);
+    assert.equal(await newNFT.read.uri([7n]), "ipfs://migrated/7");
+    assert.equal(await voting.read.defaultQuorum(), 6000n);
+    assert.equal(
+      getAddress(await voting.read.escrowContract()),
+      getAddress(newEscrow.address)
+    );
+    assert.equal(
+      getAddress(await voting.read.nftContract()),
+      getAddress(newNFT.address)
+    );
+    assert.equal(
+      await newEscrow.read.hasRole([
+        await newEscrow.read.VALIDATOR_ROLE(),
+        validator.account.address,
+      ]),
+      true
+    );
+    assert.equal(
+      await newNFT.read.hasRole([
+        await newNFT.read.MINTER_ROLE(),
+        newEscrow.address,
+      ]),
+      true
+    );
+
+    const changed = diffConfig(before, after).map((c) => c.key);
+    assert.ok(changed.includes("escrow.platformFeePercentage"));
+    assert.ok(changed.includes("voting.escrowContract"));
+    assert.ok(!changed.includes("voting.PROPOSER_ROLE"));
+
+    assert.deepEqual(planMigration(source, after, mapping), []);
+  });
+
+  it("leaves settings the old deployment never set or never had", function () {
+    const source = { "escrow.investmentNFT": zeroAddress, "escrow.platformFeePercentage": "300" };
+    const target = {
+      "escrow.investmentNFT": newNFT.address.toLowerCase(),
+      "escrow.platformFeePercentage": "250",
+      "investmentNFT.baseURI": "https://ipfs.io/ipfs/",
+    };
+    assert.deepEqual(
+      planMigration(source, target, mapping).map((action) => action.method),
+      ["setPlatformFee"]
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { parseEther, PublicClient, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { ContractError, ContractErrorCode, EscrowClient } from "../sdk/index.js";
+
+const DAY = 24n * 60n * 60n;
+
+describe("Milestone budget", async function () {
+  const { ignition, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, creator, alice, bob, stranger] = await viem.getWalletClients();
+
+  const { escrow } = await ignition.deploy(CrowdfundingDevModule);
+
+  const escrowFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  const rejectsWith = (promise: Promise<unknown>, code: ContractErrorCode) =>
+    assert.rejects(
+      promise,
+      (error: unknown) => error instanceof ContractError && error.code === code
+    );
+
+  async function createProject(targetAmount: bigint): Promise<bigint> {
+    const { projectId } = await escrowFor(creator).createProject({
+      title: "Solar",
+      description: "Rooftop panels",
+      targetAmount,
+      deadline: (await now()) + 30n * DAY,
+    });
+    return projectId;
+  }
+
+  async function createMilestone(projectId: bigint, amount: bigint) {
+    return escrowFor(creator).createMilestone({
+      projectId,
+      amount,
+      dueDate: (await now()) + 14n * DAY,
+      title: "Install",
+      description: "Panels on the roof",
+      requiredApprovals: 1n,
+    });
+  }
+
+  it("keeps milestones within the target", async function () {
+    const projectId = await createProject(parseEther("10"));
+    await createMilestone(projectId, parseEther("6"));
+    await rejectsWith(createMilestone(projectId, parseEther("5")), "EXCEEDS_BUDGET");
+    await createMilestone(projectId, parseEther("4"));
+
+    const budget = await escrowFor(creator).getBudget(projectId);
+    assert.equal(budget.allocated, parseEther("10"));
+    assert.equal(budget.unallocated, 0n);
+    assert.equal(budget.settled, 0n);
+  });
+
+  it("will not settle a milestone the raised funds cannot cover", async function () {
+    const projectId = await createProject(parseEther("10"));
+    const { milestoneId } = await createMilestone(projectId, parseEther("4"));
+    await escrowFor(alice).deposit(projectId, parseEther("2"));
+    await escrowFor(creator).submitMilestone(projectId, milestoneId, "ipfs://evidence");
+
+    await rejectsWith(
+      escrowFor(admin).approveMilestone(projectId, milestoneId),
+      "INSUFFICIENT_LOCKED_FUNDS"
+    );
+    await escrowFor(bob).deposit(projectId, parseEther("2"));
+    await escrowFor(admin).approveMilestone(projectId, milestoneId);
+    assert.equal((await escrowFor(creator).getBudget(projectId)).settled, parseEther("4"));
+  });
+
+  it("returns what is left to investors once the last milestone settles", async function () {
+    const projectId = await createProject(parseEther("10"));
+    const first = await createMilestone(projectId, parseEther("6"));
+    const second = await createMilestone(projectId, parseEther("3"));
+    await escrowFor(alice).deposit(projectId, parseEther("4"));
+    await escrowFor(bob).deposit(projectId, parseEther("8"));
+
+    // 1 ETH of target never allocated and 2 ETH of overfunding
+    let budget = await escrowFor(alice).getBudget(projectId);
+    assert.equal(budget.unallocated, parseEther("1"));
+    assert.equal(budget.lockedFunds, parseEther("12"));
+    assert.equal(budget.unallocatedFunds, parseEther("3"));
+    await rejectsWith(escrowFor(stranger).returnLeftoverFunds(projectId), "MILESTONES_PENDING");
+
+    await escrowFor(creator).submitMilestone(projectId, first.milestoneId, "ipfs://evidence");
+    await escrowFor(admin).approveMilestone(projectId, first.milestoneId);
+    await escrowFor(alice).raiseDispute(projectId, second.milestoneId, "No panels");
+    await escrowFor(admin).resolveDispute(projectId, second.milestoneId, false);
+
+    budget = await escrowFor(alice).getBudget(projectId);
+    assert.equal(budget.settled, parseEther("9"));
+    assert.equal(budget.lockedFunds, 0n);
+    // The refunded milestone and the 3 ETH left over, split 1:2
+    assert.equal(
+      await escrowFor(alice).getMilestoneRefund(projectId, alice.account.address),
+      parseEther("2")
+    );
+    assert.equal(
+      await escrowFor(bob).getMilestoneRefund(projectId, bob.account.address),
+      parseEther("4")
+    );
+    await rejectsWith(escrowFor(stranger).returnLeftoverFunds(projectId), "NO_LEFTOVER_FUNDS");
+  });
+
+  it("returns leftover funds of a project completed after its milestones settled", async function () {
+    const projectId = await createProject(parseEther("4"));
+    const { milestoneId } = await createMilestone(projectId, parseEther("1"));
+    await escrowFor(alice).deposit(projectId, parseEther("2"));
+    await escrowFor(creator).submitMilestone(projectId, milestoneId, "ipfs://evidence");
+    await escrowFor(admin).approveMilestone(projectId, milestoneId);
+    await rejectsWith(
+      escrowFor(stranger).returnLeftoverFunds(projectId),
+      "PROJECT_NOT_COMPLETED"
+    );
+
+    await escrowFor(bob).deposit(projectId, parseEther("2"));
+    await escrowFor(stranger).returnLeftoverFunds(projectId);
+    assert.equal(
+      await escrowFor(bob).getMilestoneRefund(projectId, bob.account.address),
+      parseEther("1.5")
+    );
+    await escrowFor(bob).claimMilestoneRefund(projectId);
+    assert.equal((await escrowFor(bob).getBudget(projectId)).lockedFunds, 0n);
+  });
+});
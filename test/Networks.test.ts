@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  explorerAddressUrl,
+  findNetworkByChainId,
+  hardhatChainDescriptors,
+  hardhatNetworks,
+  NETWORKS,
+  rpcUrlFor,
+} from "../config/networks.js";
+import { PRODUCTION_NETWORKS } from "../scripts/lib/safety.js";
+
+describe("Network registry", function () {
+  it("builds a Hardhat network for every registry entry", function () {
+    const networks = hardhatNetworks({ DEPLOYER_PRIVATE_KEY: "0x01" });
+
+    assert.deepEqual(Object.keys(networks), Object.keys(NETWORKS));
+    assert.equal(networks.hardhat.type, "edr-simulated");
+    assert.deepEqual(networks.celoMainnet, {
+      type: "http",
+      url: "https://forno.celo.org",
+      accounts: ["0x01"],
+      chainId: 42220,
+      gasPrice: "auto",
+    });
+    assert.equal("accounts" in networks.localhost, false);
+  });
+
+  it("prefers the RPC URL from the environment", function () {
+    assert.equal(
+      rpcUrlFor("baseSepolia", { BASE_SEPOLIA_RPC: "https://rpc.example" }),
+      "https://rpc.example"
+    );
+    assert.equal(rpcUrlFor("baseSepolia", {}), "https://sepolia.base.org");
+    assert.equal(rpcUrlFor("unknownNetwork", {}), "");
+  });
+
+  it("describes explorers by chain ID", function () {
+    const descriptors = hardhatChainDescriptors();
+
+    assert.equal(descriptors[8453].name, "baseMainnet");
+    assert.equal(
+      descriptors[8453].blockExplorers?.etherscan?.url,
+      "https://basescan.org"
+    );
+    assert.equal(descriptors[31337], undefined);
+    assert.equal(
+      explorerAddressUrl("celoSepolia", "0xabc"),
+      "https://sepolia.celoscan.io/address/0xabc"
+    );
+  });
+
+  it("finds networks by chain ID", function () {
+    assert.equal(findNetworkByChainId(42220)?.[0], "celoMainnet");
+    assert.equal(findNetworkByChainId(84532n)?.[1].nativeCurrency, "ETH");
+    assert.equal(findNetworkByChainId(1), undefined);
+  });
+
+  it("treats every non-testnet entry as production", function () {
+    assert.deepEqual(PRODUCTION_NETWORKS, ["celoMainnet", "baseMainnet"]);
+  });
+});
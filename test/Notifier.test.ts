@@ -0,0 +1,391 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, PublicClient, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { EscrowClient, rulingForCreatorShare } from "../sdk/index.js";
+import { parseNotifierConfig } from "../services/notifier/config.js";
+import { Notification } from "../services/notifier/delivery.js";
+import { Notifier } from "../services/notifier/notifier.js";
+import { SIGNATURE_HEADER, verifySignature } from "../services/notifier/signature.js";
+
+const DAY = 24n * 60n * 60n;
+
+interface Received {
+  path: string;
+  body: string;
+  signature: string | undefined;
+}
+
+describe("Webhook notifier", async function () {
+  const { ignition, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [, creator, validator, formerValidator, investor] = await viem.getWalletClients();
+
+  const { escrow, dealRoom, mockArbitrator } = await ignition.deploy(CrowdfundingDevModule);
+  const contracts = { escrow: escrow.address, dealRoom: dealRoom.address };
+
+  // Receiver that records every request; `/flaky` fails its first call and
+  // `/down` always fails
+  const received: Received[] = [];
+  let flakyCalls = 0;
+  const receiver = http.createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    received.push({
+      path: req.url ?? "",
+      body,
+      signature: req.headers[SIGNATURE_HEADER] as string | undefined,
+    });
+    const failing =
+      req.url === "/down" || (req.url === "/flaky" && flakyCalls++ === 0);
+    res.writeHead(failing ? 500 : 204).end();
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "notifier-"));
+  after(() => {
+    receiver.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const config = parseNotifierConfig({
+    webhooks: [
+      {
+        id: "validator",
+        url: `${baseUrl}/validator`,
+        address: validator.account.address,
+        secret: "v-secret",
+      },
+      {
+        id: "former",
+        url: `${baseUrl}/former`,
+        address: formerValidator.account.address,
+        secret: "f-secret",
+      },
+      {
+        id: "creator",
+        url: `${baseUrl}/flaky`,
+        address: creator.account.address,
+        secret: "c-secret",
+      },
+      { id: "ops", url: `${baseUrl}/down`, secret: "o-secret" },
+    ],
+    rules: [
+      { event: "escrow.MilestoneSubmitted", notify: ["role:escrow.VALIDATOR_ROLE"] },
+      { event: "escrow.DisputeRaised", notify: ["projectCreator", "webhook:ops"] },
+      { event: "dealRoom.AccessRequested", notify: ["dealRoomInnovator"] },
+    ],
+  });
+
+  const bodies = (route: string): Notification[] =>
+    received
+      .filter((request) => request.path === route)
+      .map((request) => JSON.parse(request.body));
+
+  it("notifies role holders, creators and innovators with signed payloads", async function () {
+    const validatorRole = await escrow.read.VALIDATOR_ROLE();
+    await escrow.write.grantRole([validatorRole, validator.account.address]);
+    await escrow.write.grantRole([validatorRole, formerValidator.account.address]);
+    await escrow.write.revokeRole([validatorRole, formerValidator.account.address]);
+
+    const creatorEscrow = new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: creator as unknown as WalletClient,
+    });
+    const deadline = (await publicClient.getBlock()).timestamp + 30n * DAY;
+    const { projectId } = await creatorEscrow.createProject({
+      title: "Solar",
+      description: "Rooftop panels",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    const { milestoneId } = await creatorEscrow.createMilestone({
+      projectId,
+      amount: parseEther("1"),
+      dueDate: deadline - DAY,
+      title: "Install",
+      description: "First roof",
+      requiredApprovals: 1n,
+    });
+    await creatorEscrow.submitMilestone(projectId, milestoneId, "ipfs://evidence");
+    await escrow.write.raiseDispute([projectId, milestoneId, "Not installed"], {
+      account: validator.account,
+    });
+    await dealRoom.write.createDealRoom(
+      [projectId, "Series A", "Data room", deadline, false, 1n],
+      { account: creator.account }
+    );
+    await dealRoom.write.requestAccess([0n, 5n, "Interested"], {
+      account: investor.account,
+    });
+
+    const stateFile = path.join(dataDir, "state.json");
+    const deadLetterFile = path.join(dataDir, "dead-letters.jsonl");
+    const notifierFor = () =>
+      new Notifier({
+        publicClient,
+        config,
+        contracts,
+        confirmations: 0,
+        stateFile,
+        delivery: { maxAttempts: 2, retryBaseMs: 0, deadLetterFile },
+      });
+    const notifier = notifierFor();
+
+    let result = await notifier.sync();
+    assert.equal(result.queued, 4);
+    assert.equal(result.delivered, 2);
+    const holders = notifier.roleHolders("escrow", "VALIDATOR_ROLE");
+    assert.ok(holders.includes(getAddress(validator.account.address)));
+    assert.ok(!holders.includes(getAddress(formerValidator.account.address)));
+
+    const [submitted] = bodies("/validator");
+    assert.equal(submitted.event, "escrow.MilestoneSubmitted");
+    assert.equal(submitted.args.projectId, projectId.toString());
+    assert.deepEqual(submitted.recipients, [getAddress(validator.account.address)]);
+    assert.equal(bodies("/former").length, 0);
+    const request = received.find((candidate) => candidate.path === "/validator")!;
+    assert.ok(verifySignature("v-secret", request.signature, request.body));
+    assert.ok(!verifySignature("f-secret", request.signature, request.body));
+    const tampered = request.body.replace("Milestone", "Mile");
+    assert.ok(!verifySignature("v-secret", request.signature, tampered));
+
+    // The creator's first delivery (the dispute) hit the flaky endpoint
+    assert.equal(result.retrying, 2);
+    assert.equal(notifier.pending().length, 2);
+
+    // A restarted notifier resumes its queue: the flaky endpoint now
+    // succeeds and the endpoint that stays down is dead-lettered
+    result = await notifierFor().sync();
+    assert.equal(result.queued, 0);
+    assert.equal(result.delivered, 1);
+    assert.equal(result.deadLettered, 1);
+
+    const creatorEvents = bodies("/flaky").map((body) => body.event);
+    assert.deepEqual(creatorEvents.sort(), [
+      "dealRoom.AccessRequested",
+      "escrow.DisputeRaised",
+      "escrow.DisputeRaised",
+    ]);
+    assert.equal(bodies("/down").length, 2);
+    const [deadLetter] = fs
+      .readFileSync(deadLetterFile, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    assert.equal(deadLetter.webhookId, "ops");
+    assert.equal(deadLetter.attempts, 2);
+    assert.equal(deadLetter.lastError, "HTTP 500");
+    assert.equal(deadLetter.notification.event, "escrow.DisputeRaised");
+  });
+
+  it("notifies accounts of their withdrawals", async function () {
+    const creatorEscrow = new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: creator as unknown as WalletClient,
+    });
+    const deadline = (await publicClient.getBlock()).timestamp + 30n * DAY;
+    const { projectId } = await creatorEscrow.createProject({
+      title: "Bakery",
+      description: "New oven",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    const { milestoneId } = await creatorEscrow.createMilestone({
+      projectId,
+      amount: parseEther("1"),
+      dueDate: deadline - DAY,
+      title: "Oven",
+      description: "Delivered",
+      requiredApprovals: 1n,
+    });
+    await escrow.write.deposit([projectId, parseEther("2")], {
+      account: investor.account,
+      value: parseEther("2"),
+    });
+    await creatorEscrow.submitMilestone(projectId, milestoneId, "ipfs://oven");
+    await escrow.write.approveMilestone([projectId, milestoneId]);
+    await creatorEscrow.withdraw();
+
+    await new Notifier({
+      publicClient,
+      config: parseNotifierConfig({
+        webhooks: [
+          {
+            id: "payouts",
+            url: `${baseUrl}/payouts`,
+            address: creator.account.address,
+            secret: "p-secret",
+          },
+        ],
+        rules: [{ event: "escrow.Withdrawn", notify: ["arg:account"] }],
+      }),
+      contracts,
+      confirmations: 0,
+    }).sync();
+
+    const [withdrawn] = bodies("/payouts");
+    assert.equal(withdrawn.event, "escrow.Withdrawn");
+    assert.deepEqual(withdrawn.recipients, [getAddress(creator.account.address)]);
+    assert.equal(bodies("/payouts").length, 1);
+  });
+
+  it("resolves creators and innovators on a node without historical state", async function () {
+    // A pruned node refuses reads pinned to past blocks
+    const prunedClient = new Proxy(publicClient, {
+      get(target, property, receiver) {
+        if (property !== "readContract") return Reflect.get(target, property, receiver);
+        return (args: Parameters<PublicClient["readContract"]>[0]) =>
+          args.blockNumber === undefined
+            ? target.readContract(args)
+            : Promise.reject(new Error("missing trie node"));
+      },
+    });
+    const startBlock = Number(await publicClient.getBlockNumber()) + 1;
+    const deadline = (await publicClient.getBlock()).timestamp + 30n * DAY;
+    const { projectId } = await new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: creator as unknown as WalletClient,
+    }).createProject({
+      title: "Mill",
+      description: "Grain mill",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    await dealRoom.write.createDealRoom(
+      [projectId, "Seed", "Data room", deadline, false, 1n],
+      { account: creator.account }
+    );
+    const dealRoomId = (await dealRoom.read.dealRoomCounter()) - 1n;
+    await dealRoom.write.requestAccess([dealRoomId, 5n, "Interested"], {
+      account: investor.account,
+    });
+
+    await new Notifier({
+      publicClient: prunedClient,
+      config: parseNotifierConfig({
+        webhooks: [
+          {
+            id: "creator",
+            url: `${baseUrl}/pruned`,
+            address: creator.account.address,
+            secret: "p-secret",
+          },
+        ],
+        rules: [
+          { event: "escrow.ProjectCreated", notify: ["projectCreator"] },
+          { event: "dealRoom.AccessRequested", notify: ["dealRoomInnovator"] },
+        ],
+      }),
+      contracts,
+      confirmations: 0,
+      startBlock,
+    }).sync();
+
+    assert.deepEqual(
+      bodies("/pruned").map((body) => body.event),
+      ["escrow.ProjectCreated", "dealRoom.AccessRequested"]
+    );
+  });
+
+  it("notifies rulings and evidence from arbitrated disputes", async function () {
+    await escrow.write.setArbitrator([mockArbitrator.address, "0x", "ipfs://meta-evidence"]);
+    const creatorEscrow = new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: creator as unknown as WalletClient,
+    });
+    const investorEscrow = new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: investor as unknown as WalletClient,
+    });
+    const deadline = (await publicClient.getBlock()).timestamp + 30n * DAY;
+    const { projectId } = await creatorEscrow.createProject({
+      title: "Brewery",
+      description: "Copper kettles",
+      targetAmount: parseEther("10"),
+      deadline,
+    });
+    const { milestoneId } = await creatorEscrow.createMilestone({
+      projectId,
+      amount: parseEther("1"),
+      dueDate: deadline - DAY,
+      title: "Kettles",
+      description: "Installed",
+      requiredApprovals: 1n,
+    });
+    await investorEscrow.deposit(projectId, parseEther("2"));
+    await investorEscrow.raiseDispute(projectId, milestoneId, "");
+    await creatorEscrow.submitEvidence(projectId, milestoneId, "ipfs://kettles");
+    const { disputeId } = (await investorEscrow.getArbitration(projectId, milestoneId))!;
+    await mockArbitrator.write.giveRuling([disputeId, rulingForCreatorShare(2500n)]);
+
+    await new Notifier({
+      publicClient,
+      config: parseNotifierConfig({
+        webhooks: [
+          {
+            id: "creator",
+            url: `${baseUrl}/disputes`,
+            address: creator.account.address,
+            secret: "d-secret",
+          },
+        ],
+        rules: [
+          { event: "escrow.Evidence", notify: ["arg:_party"] },
+          { event: "escrow.DisputeRuled", notify: ["projectCreator"] },
+        ],
+      }),
+      contracts,
+      confirmations: 0,
+    }).sync();
+
+    const [evidence, ruled] = bodies("/disputes");
+    assert.equal(evidence.event, "escrow.Evidence");
+    assert.equal(evidence.args._evidence, "ipfs://kettles");
+    assert.equal(ruled.event, "escrow.DisputeRuled");
+    assert.equal(ruled.args.creatorShare, "2500");
+    assert.deepEqual(ruled.recipients, [getAddress(creator.account.address)]);
+    assert.equal(bodies("/disputes").length, 2);
+  });
+
+  it("rejects rules that cannot be resolved", function () {
+    assert.throws(
+      () =>
+        parseNotifierConfig({
+          rules: [{ event: "escrow.Nope", notify: ["projectCreator"] }],
+        }),
+      /no watched event Nope/
+    );
+    assert.throws(
+      () =>
+        parseNotifierConfig({
+          rules: [{ event: "escrow.*", notify: ["webhook:missing"] }],
+        }),
+      /no webhook missing/
+    );
+    assert.throws(
+      () => parseNotifierConfig({ webhooks: [{ id: "a", url: "https://a.example" }] }),
+      /set secret/
+    );
+    assert.throws(
+      () =>
+        new Notifier({
+          publicClient,
+          config: parseNotifierConfig({
+            rules: [{ event: "dealRoom.AccessRequested", notify: ["projectCreator"] }],
+          }),
+          contracts: { dealRoom: dealRoom.address },
+        }),
+      /needs the escrow address/
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, PublicClient, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import {
+  EscrowClient,
+  PortfolioClient,
+  VotingClient,
+  ZERO_ADDRESS,
+} from "../sdk/index.js";
+import {
+  statementToCsv,
+  statementToHtml,
+  statementToJson,
+} from "../scripts/lib/statement.js";
+
+const DAY = 24n * 60n * 60n;
+
+describe("Portfolio statement", async function () {
+  const { ignition, networkHelpers, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, creator, investor, buyer] = await viem.getWalletClients();
+
+  const { escrow, investmentNFT, mockERC20, voting } =
+    await ignition.deploy(CrowdfundingDevModule);
+  const portfolio = new PortfolioClient(
+    {
+      escrow: escrow.address,
+      investmentNFT: investmentNFT.address,
+      voting: voting.address,
+    },
+    { publicClient }
+  );
+  const escrowFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+  const votingFor = (walletClient: unknown) =>
+    new VotingClient(voting.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  async function createProject(title: string): Promise<bigint> {
+    const { projectId } = await escrowFor(creator).createProject({
+      title,
+      description: `${title} description`,
+      targetAmount: parseEther("10"),
+      deadline: (await now()) + 30n * DAY,
+    });
+    return projectId;
+  }
+
+  it("combines deposits, tokens, dividends, trades and stakes", async function () {
+    // Only the second project is tokenized; the first holds a plain deposit
+    const garden = await createProject("Garden");
+    const solar = await createProject("Solar");
+    await escrowFor(investor).deposit(garden, parseEther("1"));
+    await escrowFor(investor).deposit(solar, parseEther("2"));
+
+    await investmentNFT.write.createProjectNFT([
+      solar,
+      creator.account.address,
+      parseEther("1000"),
+      ZERO_ADDRESS,
+    ]);
+    await investmentNFT.write.mintInvestmentTokens([
+      solar,
+      investor.account.address,
+      parseEther("100"),
+    ]);
+    await investmentNFT.write.distributeDividends([solar, parseEther("1"), ZERO_ADDRESS], {
+      value: parseEther("1"),
+    });
+    await investmentNFT.write.claimDividends([solar, 0n], { account: investor.account });
+
+    await networkHelpers.time.increase(181 * 24 * 60 * 60);
+    const listingId = await investmentNFT.read.listingCounter();
+    const expiry = (await now()) + 30n * DAY;
+    await investmentNFT.write.createListing(
+      [solar, 1_000n, parseEther("0.01"), ZERO_ADDRESS, expiry, true, 1n],
+      { account: investor.account }
+    );
+    await investmentNFT.write.purchase([listingId, 400n], {
+      account: buyer.account,
+      value: parseEther("4"),
+    });
+    await investmentNFT.write.distributeDividends([solar, parseEther("1"), ZERO_ADDRESS], {
+      value: parseEther("1"),
+    });
+    const [, , initialValue] = await investmentNFT.read.getProject([solar]);
+    await investmentNFT.write.updateMetadata([solar, initialValue * 2n, 20_000n]);
+
+    await voting.write.grantRole([await voting.read.PROPOSER_ROLE(), admin.account.address]);
+    await mockERC20.write.transfer([investor.account.address, parseEther("100")]);
+    const { proposalId } = await votingFor(admin).propose({
+      description: "Fund the solar project",
+      targetAmount: parseEther("100"),
+      votingDuration: 3n * DAY,
+    });
+    await votingFor(investor).vote(proposalId, "Yes", parseEther("10"));
+
+    const statement = await portfolio.statement(investor.account.address);
+    assert.equal(statement.account, getAddress(investor.account.address));
+    assert.equal(statement.governanceToken.symbol, await mockERC20.read.symbol());
+
+    const [gardenPosition, solarPosition] = statement.positions;
+    assert.equal(statement.positions.length, 2);
+    assert.equal(gardenPosition.projectId, garden);
+    assert.equal(gardenPosition.deposited, parseEther("1"));
+    assert.equal(gardenPosition.tokens, 0n);
+    assert.equal(gardenPosition.currentTokenValue, undefined);
+
+    const [, tokens, currentValue, totalDividends, averageBuyPrice] =
+      await investmentNFT.read.getInvestment([solar, investor.account.address]);
+    assert.equal(solarPosition.title, "Solar");
+    assert.equal(solarPosition.deposited, parseEther("2"));
+    assert.equal(solarPosition.tokens, tokens);
+    assert.equal(solarPosition.averageBuyPrice, averageBuyPrice);
+    assert.equal(solarPosition.costBasis, tokens * averageBuyPrice);
+    assert.equal(solarPosition.currentTokenValue, initialValue * 2n);
+    assert.equal(solarPosition.currentValue, currentValue);
+    assert.equal(solarPosition.dividendsClaimed, totalDividends);
+    assert.ok(totalDividends > 0n);
+    assert.deepEqual(
+      solarPosition.unclaimedPayouts.map((payout) => payout.payoutId),
+      [1n]
+    );
+    assert.ok(solarPosition.dividendsUnclaimed > 0n);
+
+    assert.deepEqual(
+      statement.trades.map((trade) => [trade.listingId, trade.side, trade.amount]),
+      [[listingId, "sell", 400n]]
+    );
+    assert.equal(statement.trades[0].buyer, getAddress(buyer.account.address));
+
+    assert.equal(statement.stakes.length, 1);
+    assert.equal(statement.stakes[0].proposalId, proposalId);
+    assert.equal(statement.stakes[0].amount, parseEther("10"));
+    assert.equal(statement.stakes[0].locked, true);
+
+    const buyerStatement = await portfolio.statement(buyer.account.address);
+    assert.equal(buyerStatement.trades[0].side, "buy");
+    assert.equal(buyerStatement.positions[0].tokens, 400n);
+    assert.equal(buyerStatement.stakes.length, 0);
+
+    const json = JSON.parse(statementToJson(statement));
+    assert.equal(json.positions[1].costBasis, (tokens * averageBuyPrice).toString());
+
+    const csv = statementToCsv(statement).split("\n");
+    assert.equal(csv[0], "Positions");
+    assert.ok(csv.some((line) => line.startsWith(`${solar},Solar,Active,2 ETH,`)));
+    assert.ok(csv.includes("Marketplace trades"));
+    assert.ok(
+      csv.some((line) =>
+        line.startsWith(`${proposalId},Fund the solar project,Active,Yes,10 `)
+      )
+    );
+
+    const html = statementToHtml(statement, "hardhat");
+    assert.match(html, /<h2>Voting stakes<\/h2>/);
+    assert.match(html, new RegExp(statement.account));
+  });
+
+  it("escapes spreadsheet formulas in CSV cells", async function () {
+    const projectId = await createProject('=HYPERLINK("http://example.com","Open")');
+    await escrowFor(buyer).deposit(projectId, parseEther("1"));
+
+    const csv = statementToCsv(await portfolio.statement(buyer.account.address)).split("\n");
+    assert.ok(
+      csv.some((line) =>
+        line.startsWith(`${projectId},"'=HYPERLINK(""http://example.com"",""Open"")",`)
+      )
+    );
+  });
+
+  it("surfaces RPC failures instead of dropping token positions", async function () {
+    const projectId = await createProject("Wind");
+    await escrowFor(investor).deposit(projectId, parseEther("1"));
+
+    const failingClient = new Proxy(publicClient, {
+      get(target, property, receiver) {
+        if (property !== "readContract") return Reflect.get(target, property, receiver);
+        return (args: { address: string; functionName: string }) => {
+          if (args.address === investmentNFT.address && args.functionName === "projects") {
+            return Promise.reject(new Error("RPC unavailable"));
+          }
+          return target.readContract(args as never);
+        };
+      },
+    });
+    const flaky = new PortfolioClient(
+      {
+        escrow: escrow.address,
+        investmentNFT: investmentNFT.address,
+        voting: voting.address,
+      },
+      { publicClient: failingClient }
+    );
+
+    await assert.rejects(flaky.statement(investor.account.address), /RPC unavailable/);
+  });
+});
@@ -0,0 +1,266 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, PublicClient, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import {
+  EscrowClient,
+  MarketplaceClient,
+  VotingClient,
+  ZERO_ADDRESS,
+} from "../sdk/index.js";
+import { createApiServer } from "../services/api/server.js";
+import { IndexerDatabase } from "../services/indexer/database.js";
+import { Indexer } from "../services/indexer/indexer.js";
+
+const DAY = 24n * 60n * 60n;
+
+describe("Read API", async function () {
+  const { ignition, networkHelpers, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, creator, investor, buyer] = await viem.getWalletClients();
+
+  const { escrow, investmentNFT, mockERC20, voting, dealRoom } =
+    await ignition.deploy(CrowdfundingDevModule);
+
+  const escrowFor = (walletClient: unknown) =>
+    new EscrowClient(escrow.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+  const creatorEscrow = escrowFor(creator);
+  const votingFor = (walletClient: unknown) =>
+    new VotingClient(voting.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+
+  async function now(): Promise<bigint> {
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  async function createProject(title: string, target: string): Promise<bigint> {
+    const { projectId } = await creatorEscrow.createProject({
+      title,
+      description: `${title} description`,
+      targetAmount: parseEther(target),
+      deadline: (await now()) + 30n * DAY,
+    });
+    return projectId;
+  }
+
+  const database = new IndexerDatabase(":memory:");
+  const server = createApiServer({
+    database,
+    escrow: escrowFor(undefined),
+    marketplace: new MarketplaceClient(investmentNFT.address, { publicClient }),
+    voting: votingFor(undefined),
+    now: async () => Number(await now()),
+    log: () => {},
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  after(() => {
+    server.close();
+    database.close();
+  });
+
+  async function get(route: string): Promise<any> {
+    const res = await fetch(`${baseUrl}${route}`);
+    assert.equal(res.status, 200, `GET ${route} answered ${res.status}`);
+    return res.json();
+  }
+
+  let solar: bigint;
+  let wind: bigint;
+  let openListing: bigint;
+  let proposalId: bigint;
+
+  before(async function () {
+    // Only the second project is tokenized
+    wind = await createProject("Wind", "4");
+    solar = await createProject("Solar", "10");
+    const { milestoneId } = await creatorEscrow.createMilestone({
+      projectId: solar,
+      amount: parseEther("1"),
+      dueDate: (await now()) + 14n * DAY,
+      title: "Install",
+      description: "First roof",
+      requiredApprovals: 2n,
+    });
+    await escrowFor(investor).deposit(solar, parseEther("2"));
+    await escrowFor(buyer).deposit(wind, parseEther("3"));
+    await creatorEscrow.submitMilestone(solar, milestoneId, "ipfs://evidence");
+
+    await investmentNFT.write.createProjectNFT([
+      solar,
+      creator.account.address,
+      parseEther("1000"),
+      ZERO_ADDRESS,
+    ]);
+    await investmentNFT.write.mintInvestmentTokens([
+      solar,
+      investor.account.address,
+      parseEther("100"),
+    ]);
+    await networkHelpers.time.increase(181 * 24 * 60 * 60);
+    const expiry = (await now()) + 30n * DAY;
+    const cancelled = await investmentNFT.read.listingCounter();
+    for (let i = 0; i < 2; i++) {
+      await investmentNFT.write.createListing(
+        [solar, 1_000n, parseEther("0.01"), ZERO_ADDRESS, expiry, true, 1n],
+        { account: investor.account }
+      );
+    }
+    openListing = cancelled + 1n;
+    await investmentNFT.write.cancelListing([cancelled], { account: investor.account });
+    await investmentNFT.write.safeTransferFrom(
+      [investor.account.address, buyer.account.address, solar, 500n, "0x"],
+      { account: investor.account }
+    );
+
+    await voting.write.grantRole([await voting.read.PROPOSER_ROLE(), admin.account.address]);
+    await mockERC20.write.transfer([investor.account.address, parseEther("100")]);
+    ({ proposalId } = await votingFor(admin).propose({
+      description: "Fund the wind project",
+      targetAmount: parseEther("100"),
+      votingDuration: 3n * DAY,
+    }));
+    await votingFor(investor).vote(proposalId, "Yes", parseEther("10"));
+    await networkHelpers.time.increase(4 * 24 * 60 * 60);
+    await votingFor(admin).finalizeProposal(proposalId);
+
+    await dealRoom.write.createDealRoom(
+      [solar, "Series A", "Data room", (await now()) + 30n * DAY, false, 1n],
+      { account: creator.account }
+    );
+    await dealRoom.write.grantAccess([0n, investor.account.address], {
+      account: creator.account,
+    });
+
+    await new Indexer({
+      publicClient,
+      database,
+      contracts: {
+        escrow: escrow.address,
+        investmentNFT: investmentNFT.address,
+        voting: voting.address,
+        dealRoom: dealRoom.address,
+      },
+      confirmations: 0,
+    }).sync();
+  });
+
+  it("filters, sorts and paginates projects", async function () {
+    const status = await get("/status");
+    assert.equal(status.checkpoint, Number(await publicClient.getBlockNumber()));
+
+    const funded = await get("/projects?status=Active&sort=funded&limit=1");
+    assert.equal(funded.total, 2);
+    assert.equal(funded.items.length, 1);
+    assert.equal(funded.items[0].id, wind.toString());
+    assert.equal(funded.items[0].fundedBasisPoints, 7_500);
+
+    const next = await get("/projects?status=Active&sort=funded&limit=1&offset=1");
+    assert.equal(next.items[0].id, solar.toString());
+    assert.equal(next.items[0].investors, 1);
+
+    const byCreator = await get(`/projects?creator=${creator.account.address.toLowerCase()}`);
+    assert.equal(byCreator.total, 2);
+
+    const badLimit = await fetch(`${baseUrl}/projects?limit=0`);
+    assert.equal(badLimit.status, 400);
+    const badSort = await fetch(`${baseUrl}/projects?sort=name`);
+    assert.equal(badSort.status, 400);
+  });
+
+  it("fills fields the events lack from the chain", async function () {
+    const project = await get(`/projects/${solar}`);
+    assert.equal(project.indexed, true);
+    assert.equal(project.title, "Solar");
+    assert.equal(project.description, "Solar description");
+    assert.equal(project.totalMilestones, 1);
+
+    const milestones = await get(`/projects/${solar}/milestones`);
+    assert.equal(milestones.items[0].status, "Submitted");
+    assert.equal(milestones.items[0].title, "Install");
+    assert.equal(milestones.items[0].requiredApprovals, 2);
+
+    // Finalizing without execution data emits no event
+    const onChain = await votingFor(undefined).getProposal(proposalId);
+    assert.notEqual(onChain.status, "Active");
+    const proposal = await get(`/proposals/${proposalId}`);
+    assert.equal(proposal.status, onChain.status);
+    assert.equal(proposal.votes.length, 1);
+    const filtered = await get(`/proposals?status=${onChain.status}`);
+    assert.deepEqual(
+      filtered.items.map((item: { id: string }) => item.id),
+      [proposalId.toString()]
+    );
+
+    const notFound = await fetch(`${baseUrl}/projects/999`);
+    assert.equal(notFound.status, 404);
+  });
+
+  it("lists only open listings when asked", async function () {
+    const all = await get(`/listings?projectId=${solar}`);
+    assert.equal(all.total, 2);
+    const open = await get(`/listings?projectId=${solar}&open=true`);
+    assert.deepEqual(
+      open.items.map((listing: { id: string; active: boolean }) => [listing.id, listing.active]),
+      [[openListing.toString(), true]]
+    );
+  });
+
+  it("serves per-address views", async function () {
+    const account = await get(`/accounts/${investor.account.address}`);
+    assert.equal(account.address, getAddress(investor.account.address));
+    assert.deepEqual(account.investments, [
+      { projectId: solar.toString(), deposited: parseEther("2").toString(), refunded: "0" },
+    ]);
+    // 1,000 tokens sit in the open listing and 500 went to the buyer directly
+    assert.deepEqual(account.tokenHoldings, [
+      {
+        projectId: solar.toString(),
+        balance: "98500",
+        minted: "100000",
+        purchased: "0",
+        burned: "0",
+        redeemed: "0",
+      },
+    ]);
+    const receiver = await get(`/accounts/${buyer.account.address}`);
+    assert.deepEqual(receiver.tokenHoldings, [
+      {
+        projectId: solar.toString(),
+        balance: "500",
+        minted: "0",
+        purchased: "0",
+        burned: "0",
+        redeemed: "0",
+      },
+    ]);
+    assert.equal(account.listings.length, 2);
+    assert.equal(account.votes[0].choice, "Yes");
+    assert.equal(account.dealRoomAccess[0].status, "Granted");
+    assert.equal(account.milestonesAwaitingApproval, 1);
+
+    const awaiting = await get(
+      `/accounts/${investor.account.address}/milestones/awaiting-approval`
+    );
+    assert.equal(awaiting.items[0].projectId, solar.toString());
+    assert.equal(awaiting.items[0].title, "Install");
+    const notInvested = await get(
+      `/accounts/${buyer.account.address}/milestones/awaiting-approval`
+    );
+    assert.equal(notInvested.total, 0);
+
+    const room = await get("/deal-rooms/0");
+    assert.equal(room.title, "Series A");
+    assert.equal(room.access[0].investor, getAddress(investor.account.address));
+  });
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ethers as Ethers } from "ethers";
+import { network } from "hardhat";
+
+import {
+  checkChainIdConfirmation,
+  checkProductionEnvironment,
+  isProductionProfile,
+} from "../scripts/lib/safety.js";
+
+describe("Production safety guards", async function () {
+  const { provider, viem } = await network.connect();
+  const ethersProvider = new Ethers.BrowserProvider(provider);
+  const [deployer, treasury] = await viem.getWalletClients();
+
+  const token = await viem.deployContract("MockERC20", ["Gov", "GOV", 1000n]);
+  const dealRoom = await viem.deployContract("DealRoom");
+  const feeRecipient = Ethers.getAddress(treasury.account.address);
+
+  it("applies to mainnets and to any network with --production", async function () {
+    assert.equal(isProductionProfile("celoMainnet", []), true);
+    assert.equal(isProductionProfile("baseMainnet", []), true);
+    assert.equal(isProductionProfile("celoSepolia", []), false);
+    assert.equal(isProductionProfile("celoSepolia", ["--production"]), true);
+  });
+
+  it("requires an explicit governance token and fee recipient", async function () {
+    await assert.rejects(
+      () => checkProductionEnvironment(ethersProvider, deployer.account.address, {}),
+      (error: Error) =>
+        /GOVERNANCE_TOKEN is required/.test(error.message) &&
+        /FEE_RECIPIENT is required/.test(error.message)
+    );
+  });
+
+  it("rejects a governance token that is not an ERC20 contract", async function () {
+    await assert.rejects(
+      () =>
+        checkProductionEnvironment(ethersProvider, deployer.account.address, {
+          GOVERNANCE_TOKEN: treasury.account.address,
+          FEE_RECIPIENT: feeRecipient,
+        }),
+      /has no contract code/
+    );
+    await assert.rejects(
+      () =>
+        checkProductionEnvironment(ethersProvider, deployer.account.address, {
+          GOVERNANCE_TOKEN: dealRoom.address,
+          FEE_RECIPIENT: feeRecipient,
+        }),
+      /does not implement ERC20 totalSupply/
+    );
+  });
+
+  it("rejects an unchecksummed fee recipient or the deployer", async function () {
+    await assert.rejects(
+      () =>
+        checkProductionEnvironment(ethersProvider, deployer.account.address, {
+          GOVERNANCE_TOKEN: token.address,
+          FEE_RECIPIENT: feeRecipient.toLowerCase(),
+        }),
+      /not a verified address/
+    );
+    await assert.rejects(
+      () =>
+        checkProductionEnvironment(ethersProvider, deployer.account.address, {
+          GOVERNANCE_TOKEN: token.address,
+          FEE_RECIPIENT: Ethers.getAddress(deployer.account.address),
+        }),
+      /cannot be the deployer/
+    );
+  });
+
+  it("accepts a real token and a checksummed fee recipient", async function () {
+    const settings = await checkProductionEnvironment(
+      ethersProvider,
+      deployer.account.address,
+      { GOVERNANCE_TOKEN: token.address, FEE_RECIPIENT: feeRecipient }
+    );
+    assert.deepEqual(settings, {
+      governanceToken: token.address,
+      feeRecipient,
+    });
+  });
+
+  it("requires the typed chain ID to match", async function () {
+    checkChainIdConfirmation(42220n, " 42220\n");
+    assert.throws(
+      () => checkChainIdConfirmation(42220n, "8453"),
+      /got 8453, which is not the connected chain ID/
+    );
+    assert.throws(
+      () => checkChainIdConfirmation(42220n, "8453"),
+      (error: Error) => !error.message.includes("42220")
+    );
+    assert.throws(() => checkChainIdConfirmation(42220n, undefined), /got nothing/);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+
+import { ethers as Ethers } from "ethers";
+import hre from "hardhat";
+
+import {
+  loadSigner,
+  resolveSignerSource,
+  signerOptionsFromArgs,
+} from "../scripts/lib/signer.js";
+
+describe("Script signers", function () {
+  const account = Ethers.Wallet.createRandom();
+
+  it("picks the source from flags and environment", function () {
+    assert.equal(resolveSignerSource({ env: {} }), "keystore");
+    assert.equal(
+      resolveSignerSource({ env: { DEPLOYER_PRIVATE_KEY: account.privateKey } }),
+      "env"
+    );
+    assert.equal(
+      resolveSignerSource({ keystoreFile: "key.json", env: {} }),
+      "json"
+    );
+    assert.equal(
+      resolveSignerSource({
+        source: "keystore",
+        env: { DEPLOYER_PRIVATE_KEY: account.privateKey },
+      }),
+      "keystore"
+    );
+
+    const options = signerOptionsFromArgs(
+      ["--signer", "json", "--key-name", "ADMIN_KEY"],
+      { DEPLOYER_KEYSTORE_FILE: "key.json", DEPLOYER_KEYSTORE_PASSWORD: "pw" }
+    );
+    assert.equal(options.source, "json");
+    assert.equal(options.keyName, "ADMIN_KEY");
+    assert.equal(options.keystoreFile, "key.json");
+    assert.equal(options.password, "pw");
+    assert.throws(() => signerOptionsFromArgs(["--signer", "ledger"], {}), /Unknown signer source/);
+  });
+
+  it("loads the environment key unless it is forbidden", async function () {
+    const env = { ADMIN_KEY: account.privateKey };
+    const signer = await loadSigner(null, hre, { keyName: "ADMIN_KEY", env });
+    assert.equal(signer.address, account.address);
+
+    await assert.rejects(
+      () => loadSigner(null, hre, { source: "env", keyName: "ADMIN_KEY", env, forbidEnvKey: true }),
+      /Refusing a plaintext ADMIN_KEY/
+    );
+  });
+
+  it("decrypts an encrypted JSON keystore", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"));
+    const keystoreFile = path.join(dir, "deployer.json");
+    fs.writeFileSync(
+      keystoreFile,
+      Ethers.encryptKeystoreJsonSync(
+        { address: account.address, privateKey: account.privateKey },
+        "correct horse",
+        {
+          scrypt: { N: 1 << 10 },
+        }
+      )
+    );
+
+    const signer = await loadSigner(null, hre, {
+      keystoreFile,
+      password: "correct horse",
+      env: {},
+    });
+    assert.equal(signer.address, account.address);
+
+    await assert.rejects(
+      () => loadSigner(null, hre, { keystoreFile, password: "wrong", env: {} }),
+      /incorrect password/
+    );
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("explains how to add a key missing from the Hardhat keystore", async function () {
+    await assert.rejects(
+      () => loadSigner(null, hre, { source: "keystore", keyName: "MISSING_TEST_KEY", env: {} }),
+      /npx hardhat keystore set MISSING_TEST_KEY/
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ethers as Ethers } from "ethers";
+import { network } from "hardhat";
+
+import { loadArtifact } from "../scripts/lib/artifacts.js";
+import {
+  DEPLOYMENT_SCHEMA_VERSION,
+  DeploymentRecord,
+  describeDeployment,
+} from "../scripts/lib/deployment.js";
+import {
+  estimateDeploymentCost,
+  fundSimulatedAccount,
+  MAX_CONTRACT_SIZE,
+} from "../scripts/lib/simulation.js";
+
+describe("Dry-run cost estimate", async function () {
+  const { provider } = await network.connect();
+  const ethersProvider = new Ethers.BrowserProvider(provider, undefined, {
+    cacheTimeout: -1,
+  });
+
+  // An account with no balance on the chain until the simulation funds it
+  const wallet = Ethers.Wallet.createRandom(ethersProvider);
+  await fundSimulatedAccount(ethersProvider, wallet.address);
+  const fromBlock = await ethersProvider.getBlockNumber();
+
+  const record: DeploymentRecord = {
+    schemaVersion: DEPLOYMENT_SCHEMA_VERSION,
+    network: "hardhat",
+    chainId: 31337,
+    deployer: wallet.address,
+    timestamp: Date.now(),
+    gitCommit: null,
+    contracts: {},
+  };
+
+  const deploy = async (name: string, args: unknown[]) => {
+    const artifact = loadArtifact(name);
+    const contract = await new Ethers.ContractFactory(
+      artifact.abi,
+      artifact.bytecode,
+      wallet
+    ).deploy(...args);
+    return describeDeployment(contract, artifact, args);
+  };
+
+  record.contracts.escrow = await deploy("Escrow", [wallet.address]);
+  record.contracts.dealRoom = await deploy("DealRoom", []);
+
+  const escrow = new Ethers.Contract(
+    record.contracts.escrow.address,
+    loadArtifact("Escrow").abi,
+    wallet
+  );
+  const grant = await escrow.grantRole(
+    await escrow.VALIDATOR_ROLE(),
+    Ethers.Wallet.createRandom().address
+  );
+  const grantReceipt = await grant.wait();
+
+  it("funds the deployer on the simulated chain", async function () {
+    assert.ok(
+      (await ethersProvider.getBalance(wallet.address)) > Ethers.parseEther("1000")
+    );
+  });
+
+  it("splits gas between deployments and wiring and prices the total", async function () {
+    const gasPrice = Ethers.parseUnits("5", "gwei");
+    const estimate = await estimateDeploymentCost(
+      ethersProvider,
+      record,
+      fromBlock,
+      gasPrice
+    );
+
+    const escrowCost = estimate.contracts.find((c) => c.contract === "Escrow");
+    const escrowReceipt = await ethersProvider.getTransactionReceipt(
+      record.contracts.escrow!.transactionHash!
+    );
+    assert.equal(escrowCost?.gasUsed, escrowReceipt?.gasUsed);
+    assert.equal(escrowCost?.reused, false);
+    assert.equal(estimate.wiringGas, grantReceipt.gasUsed);
+    assert.equal(
+      estimate.totalGas,
+      estimate.contracts.reduce((sum, c) => sum + c.gasUsed, 0n) +
+        estimate.wiringGas
+    );
+    assert.equal(estimate.totalCost, estimate.totalGas * gasPrice);
+  });
+
+  it("reports runtime sizes against the contract size limit", async function () {
+    const estimate = await estimateDeploymentCost(
+      ethersProvider,
+      record,
+      fromBlock,
+      1n
+    );
+
+    const dealRoom = estimate.contracts.find((c) => c.contract === "DealRoom");
+    assert.equal(
+      dealRoom?.size,
+      Ethers.dataLength(loadArtifact("DealRoom").deployedBytecode)
+    );
+    assert.ok(estimate.contracts.every((c) => c.size <= MAX_CONTRACT_SIZE));
+    assert.deepEqual(estimate.oversized, []);
+  });
+
+  it("counts contracts deployed before the run as reused", async function () {
+    const estimate = await estimateDeploymentCost(
+      ethersProvider,
+      record,
+      await ethersProvider.getBlockNumber(),
+      1n
+    );
+
+    assert.ok(estimate.contracts.every((c) => c.reused && c.gasUsed === 0n));
+    assert.equal(estimate.totalGas, 0n);
+  });
+});
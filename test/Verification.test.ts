@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import { after, describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { createHardhatRuntimeEnvironment } from "hardhat/hre";
+
+import config from "../hardhat.config.js";
+import { migrateDeploymentRecord } from "../scripts/lib/deployment.js";
+import { verifyDeployment } from "../scripts/lib/verification.js";
+
+async function listen(handler: http.RequestListener): Promise<http.Server> {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+}
+
+function urlOf(server: http.Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+describe("Deployment verification", async function () {
+  const { provider, viem } = await network.connect();
+  const [deployer] = await viem.getWalletClients();
+
+  const escrow = await viem.deployContract("Escrow", [deployer.account.address]);
+  const dealRoom = await viem.deployContract("DealRoom");
+
+  // Expose the in-process chain over HTTP so the verifier can reach it
+  const rpc = await listen(async (req, res) => {
+    const { id, method, params } = JSON.parse(await readBody(req));
+    try {
+      const result = await provider.request({ method, params });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, result }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32000, message } }));
+    }
+  });
+
+  // Stand-in for a Blockscout-compatible explorer API
+  const verified = new Set<string>();
+  const submissions: URLSearchParams[] = [];
+  const explorer = await listen(async (req, res) => {
+    const query = new URL(req.url ?? "/", urlOf(explorer)).searchParams;
+    const action = query.get("action");
+
+    if (action === "getsourcecode") {
+      const address = query.get("address")!.toLowerCase();
+      res.end(
+        JSON.stringify({
+          status: "1",
+          message: "OK",
+          result: [{ SourceCode: verified.has(address) ? "source" : "" }],
+        })
+      );
+    } else if (action === "verifysourcecode") {
+      const form = new URLSearchParams(await readBody(req));
+      submissions.push(form);
+      res.end(
+        JSON.stringify({
+          status: "1",
+          message: "OK",
+          result: form.get("contractaddress")!.toLowerCase(),
+        })
+      );
+    } else if (action === "checkverifystatus") {
+      verified.add(query.get("guid")!);
+      res.end(JSON.stringify({ status: "1", message: "OK", result: "Pass - Verified" }));
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+
+  after(() => {
+    rpc.close();
+    explorer.close();
+  });
+
+  const hre = await createHardhatRuntimeEnvironment(
+    {
+      ...config,
+      networks: {
+        ...config.networks,
+        standIn: { type: "http", url: urlOf(rpc) },
+      },
+      chainDescriptors: {
+        31337: {
+          name: "standIn",
+          blockExplorers: {
+            blockscout: {
+              name: "Stand-in Explorer",
+              url: "http://explorer.local",
+              apiUrl: `${urlOf(explorer)}/api`,
+            },
+          },
+        },
+      },
+    },
+    { network: "standIn" }
+  );
+
+  // A legacy flat record carries no constructor arguments, so they are rebuilt
+  const record = migrateDeploymentRecord({
+    mockERC20: "",
+    counter: "",
+    investmentNFT: "",
+    escrow: escrow.address,
+    voting: "",
+    dealRoom: dealRoom.address,
+    network: "standIn",
+    deployer: deployer.account.address,
+    timestamp: Date.now(),
+  });
+
+  it("submits each recorded contract with rebuilt constructor arguments", async function () {
+    const results = await verifyDeployment(record, hre, {
+      provider: "blockscout",
+      env: {},
+    });
+
+    const byName = Object.fromEntries(results.map((r) => [r.contract, r]));
+    assert.equal(byName.Escrow.status, "verified");
+    assert.equal(byName.DealRoom.status, "verified");
+    assert.equal(byName.Voting.status, "skipped");
+
+    const escrowSubmission = submissions.find(
+      (s) => s.get("contractaddress")?.toLowerCase() === escrow.address.toLowerCase()
+    );
+    assert.match(
+      escrowSubmission?.get("contractname") ?? "",
+      /contracts\/Escrow\.sol:Escrow$/
+    );
+    assert.equal(
+      escrowSubmission?.get("constructorArguments"),
+      deployer.account.address.toLowerCase().slice(2).padStart(64, "0")
+    );
+  });
+
+  it("does not resubmit contracts the explorer already verified", async function () {
+    const before = submissions.length;
+    const results = await verifyDeployment(record, hre, {
+      provider: "blockscout",
+      only: ["escrow"],
+      env: {},
+    });
+
+    assert.equal(results[0].status, "verified");
+    assert.equal(submissions.length, before);
+  });
+
+  it("reports a failure per contract without aborting the run", async function () {
+    const results = await verifyDeployment(
+      {
+        ...record,
+        contracts: {
+          ...record.contracts,
+          voting: {
+            contractName: "Voting",
+            address: "0x000000000000000000000000000000000000dEaD",
+            transactionHash: null,
+            blockNumber: null,
+            constructorArgs: [
+              "0x000000000000000000000000000000000000dEaD",
+              escrow.address,
+              "0x000000000000000000000000000000000000dEaD",
+            ],
+            compiler: null,
+            bytecodeHash: null,
+          },
+        },
+      },
+      hre,
+      { provider: "blockscout", only: ["voting", "dealRoom"], env: {} }
+    );
+
+    assert.equal(results[0].status, "failed");
+    assert.equal(results[1].status, "verified");
+  });
+});
@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { parseEther, PublicClient, WalletClient } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import { VotingClient } from "../sdk/index.js";
+
+const DAY = 24n * 60n * 60n;
+
+describe("VotingClient", async function () {
+  const { ignition, networkHelpers, viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const [admin, alice, bob, carol] = await viem.getWalletClients();
+
+  const { mockERC20, voting } = await ignition.deploy(CrowdfundingDevModule);
+  await voting.write.grantRole([
+    await voting.read.PROPOSER_ROLE(),
+    admin.account.address,
+  ]);
+  for (const voter of [alice, bob, carol]) {
+    await mockERC20.write.transfer([voter.account.address, parseEther("100")]);
+  }
+
+  const clientFor = (walletClient: unknown) =>
+    new VotingClient(voting.address, {
+      publicClient,
+      walletClient: walletClient as WalletClient,
+    });
+  const adminClient = clientFor(admin);
+
+  // 100-token target at the default 50% quorum: 50 tokens of weight needed
+  const { proposalId } = await adminClient.propose({
+    description: "Fund the solar project",
+    targetAmount: parseEther("100"),
+    votingDuration: 3n * DAY,
+  });
+
+  it("decodes proposals and lists them by status", async function () {
+    const proposal = await adminClient.getProposal(proposalId);
+    assert.equal(proposal.status, "Active");
+    assert.equal(proposal.description, "Fund the solar project");
+    assert.equal(proposal.quorumRequired, 5000n);
+    assert.equal(proposal.targetContract, undefined);
+    assert.equal(proposal.endTime - proposal.startTime, 3n * DAY);
+
+    assert.deepEqual(
+      (await adminClient.listProposals({ status: ["Active"] })).map((p) => p.id),
+      [proposalId]
+    );
+    assert.equal(
+      (await adminClient.listProposals({ status: ["Failed"] })).length,
+      0
+    );
+    await assert.rejects(
+      () => adminClient.getProposal(42n),
+      /Proposal 42 does not exist/
+    );
+  });
+
+  it("gives no NFT bonus when the NFT contract has no ERC20 balanceOf", async function () {
+    // InvestmentNFT is ERC1155, so Voting's balanceOf(address) probe reverts
+    const weight = await adminClient.effectiveWeight(
+      alice.account.address,
+      parseEther("30")
+    );
+    assert.deepEqual(weight, {
+      amount: parseEther("30"),
+      weight: parseEther("30"),
+      nftBonus: false,
+    });
+  });
+
+  it("projects quorum progress and the outcome of a vote before it is cast", async function () {
+    const outlook = await adminClient.projectOutcome(proposalId, {
+      voter: alice.account.address,
+      choice: "Yes",
+      amount: parseEther("30"),
+    });
+    assert.equal(outlook.requiredVotes, parseEther("50"));
+    assert.equal(outlook.totalVotes, parseEther("30"));
+    assert.equal(outlook.quorumProgress, 6000n);
+    assert.equal(outlook.votesNeededForQuorum, parseEther("20"));
+    assert.equal(outlook.projectedStatus, "Failed");
+
+    const { approval } = await clientFor(alice).vote(
+      proposalId,
+      "Yes",
+      parseEther("30")
+    );
+    assert.ok(approval);
+    await clientFor(bob).vote(proposalId, "No", parseEther("10"));
+
+    const current = await adminClient.projectOutcome(proposalId);
+    assert.equal(current.yesVotes, parseEther("30"));
+    assert.equal(current.noVotes, parseEther("10"));
+    assert.equal(current.quorumProgress, 8000n);
+    assert.equal(current.quorumReached, false);
+    assert.equal(current.votingEnded, false);
+
+    const stake = await adminClient.getStake(proposalId, bob.account.address);
+    assert.equal(stake.vote, "No");
+    assert.equal(stake.status, "Active");
+  });
+
+  it("applies the 1.5x weight for holders of an ERC20-style NFT contract", async function () {
+    const badge = await viem.deployContract("MockERC20", ["Badge", "BDG", 0n]);
+    await badge.write.mint([carol.account.address, 1n]);
+    await voting.write.setNFTContract([badge.address]);
+
+    const outlook = await adminClient.projectOutcome(proposalId, {
+      voter: carol.account.address,
+      choice: "Yes",
+      amount: parseEther("20"),
+    });
+    assert.deepEqual(outlook.hypotheticalWeight, {
+      amount: parseEther("20"),
+      weight: parseEther("30"),
+      nftBonus: true,
+    });
+    assert.equal(outlook.quorumReached, true);
+    assert.equal(outlook.projectedStatus, "Succeeded");
+
+    await clientFor(carol).vote(proposalId, "Yes", parseEther("20"));
+    assert.equal(
+      (await adminClient.getStake(proposalId, carol.account.address)).weight,
+      parseEther("30")
+    );
+    const info = await adminClient.getVoterInfo(carol.account.address);
+    assert.equal(info.hasNFT, true);
+    assert.equal(info.totalVotingPower, parseEther("30"));
+  });
+
+  it("rejects votes the contract would refuse and finalizes as projected", async function () {
+    const check = await adminClient.checkVote(
+      proposalId,
+      carol.account.address,
+      "Abstain",
+      parseEther("0.5")
+    );
+    assert.deepEqual(check.reasons, [
+      "Stake too low",
+      "Cannot stake for abstain",
+      "Already voted",
+    ]);
+    await assert.rejects(
+      () => clientFor(carol).vote(proposalId, "Yes", parseEther("5")),
+      /Already voted/
+    );
+
+    await networkHelpers.time.increase(3n * DAY);
+    const projected = await adminClient.projectOutcome(proposalId);
+    assert.equal(projected.votingEnded, true);
+
+    await adminClient.finalizeProposal(proposalId);
+    const outcome = await adminClient.projectOutcome(proposalId);
+    assert.equal(outcome.proposal.status, projected.projectedStatus);
+    assert.equal(
+      (await adminClient.getStake(proposalId, alice.account.address)).status,
+      "Unlocked"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ethers as Ethers } from "ethers";
+import { network } from "hardhat";
+import { getAddress } from "viem";
+
+import CrowdfundingDevModule from "../ignition/modules/CrowdfundingDev.js";
+import {
+  applyWiringPlan,
+  loadWiringPlan,
+  verifyWiringPlan,
+} from "../scripts/lib/wiring.js";
+
+describe("Role and wiring plan", async function () {
+  const { ignition, provider, viem } = await network.connect();
+  const [deployer] = await viem.getWalletClients();
+
+  const { mockERC20, escrow, investmentNFT, voting, dealRoom } =
+    await ignition.deploy(CrowdfundingDevModule);
+  const addresses = {
+    mockERC20: mockERC20.address,
+    escrow: escrow.address,
+    investmentNFT: investmentNFT.address,
+    voting: voting.address,
+    dealRoom: dealRoom.address,
+  };
+
+  const signer = await new Ethers.BrowserProvider(provider).getSigner(
+    deployer.account.address
+  );
+  const plan = loadWiringPlan("hardhat");
+  const logs: string[] = [];
+
+  it("Voting constructor stores its dependencies and grants admin", async function () {
+    assert.equal(
+      getAddress(await voting.read.governanceToken()),
+      getAddress(mockERC20.address)
+    );
+    assert.equal(
+      await voting.read.hasRole([
+        await voting.read.DEFAULT_ADMIN_ROLE(),
+        deployer.account.address,
+      ]),
+      true
+    );
+  });
+
+  it("reports missing grants before the plan is applied", async function () {
+    const checks = await verifyWiringPlan(
+      plan,
+      addresses,
+      signer,
+      deployer.account.address
+    );
+    const minter = checks.find((c) => c.description.includes("MINTER_ROLE"));
+    assert.equal(minter?.ok, false);
+  });
+
+  it("applies and verifies every grant and call", async function () {
+    await applyWiringPlan(plan, addresses, signer, (m) => logs.push(m));
+
+    const checks = await verifyWiringPlan(
+      plan,
+      addresses,
+      signer,
+      deployer.account.address
+    );
+    assert.deepEqual(
+      checks.filter((c) => !c.ok),
+      []
+    );
+
+    assert.equal(
+      await investmentNFT.read.hasRole([
+        await investmentNFT.read.MINTER_ROLE(),
+        escrow.address,
+      ]),
+      true
+    );
+    assert.equal(
+      await voting.read.hasRole([
+        await voting.read.PROPOSER_ROLE(),
+        deployer.account.address,
+      ]),
+      true
+    );
+    assert.equal(
+      getAddress(await voting.read.nftContract()),
+      getAddress(investmentNFT.address)
+    );
+  });
+
+  it("skips entries that are already in place on a second run", async function () {
+    const rerun: string[] = [];
+    await applyWiringPlan(plan, addresses, signer, (m) => rerun.push(m));
+
+    assert.equal(rerun.length, plan.roles.length + plan.calls.length);
+    assert.ok(rerun.every((m) => m.startsWith("⏭️")));
+  });
+
+  it("rejects references to contracts that were not deployed", async function () {
+    await assert.rejects(
+      () =>
+        applyWiringPlan(
+          {
+            roles: [],
+            calls: [
+              {
+                contract: "voting",
+                method: "setEscrowContract",
+                args: ["counter"],
+              },
+            ],
+          },
+          addresses,
+          signer,
+          () => {}
+        ),
+      /counter, which was not deployed/
+    );
+  });
+});